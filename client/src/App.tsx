@@ -9,6 +9,14 @@ import HomePage from "@/pages/home-page";
 import AuthPage from "@/pages/auth-page";
 import TransactionsPage from "@/pages/transactions-page";
 import BudgetPage from "@/pages/budget-page";
+import CategoriesPage from "@/pages/categories-page";
+import RecurringPage from "@/pages/recurring-page";
+import ImportPage from "@/pages/import-page";
+import RulesPage from "@/pages/rules-page";
+import GoalsPage from "@/pages/goals-page";
+import ReportsPage from "@/pages/reports-page";
+import CurrenciesPage from "@/pages/currencies-page";
+import SettingsPage from "@/pages/settings-page";
 import NotFound from "@/pages/not-found";
 
 function Router() {
@@ -17,6 +25,14 @@ function Router() {
       <ProtectedRoute path="/" component={HomePage} />
       <ProtectedRoute path="/transactions" component={TransactionsPage} />
       <ProtectedRoute path="/budget" component={BudgetPage} />
+      <ProtectedRoute path="/categories" component={CategoriesPage} />
+      <ProtectedRoute path="/recurring" component={RecurringPage} />
+      <ProtectedRoute path="/import" component={ImportPage} />
+      <ProtectedRoute path="/rules" component={RulesPage} />
+      <ProtectedRoute path="/goals" component={GoalsPage} />
+      <ProtectedRoute path="/reports" component={ReportsPage} />
+      <ProtectedRoute path="/currencies" component={CurrenciesPage} />
+      <ProtectedRoute path="/settings" component={SettingsPage} />
       <Route path="/auth" component={AuthPage} />
       <Route component={NotFound} />
     </Switch>
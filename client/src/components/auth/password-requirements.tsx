@@ -0,0 +1,25 @@
+import { useQuery } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+import { DEFAULT_PASSWORD_POLICY, passwordRequirements, type PasswordPolicy } from "@shared/password-policy";
+
+// The server's password rules, ticked off as the user types. Common
+// passwords are only rejected by the server, which holds the list.
+export function PasswordRequirements({ password, personal = [] }: { password: string; personal?: string[] }) {
+  const { data: policy } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/password-policy"],
+    staleTime: Infinity,
+  });
+
+  if (!password) return null;
+
+  return (
+    <ul className="space-y-1 text-sm" data-testid="password-requirements">
+      {passwordRequirements(password, policy ?? DEFAULT_PASSWORD_POLICY, personal).map(({ label, met }) => (
+        <li key={label} className={`flex items-center gap-2 ${met ? "text-success" : "text-muted-foreground"}`}>
+          {met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+          {label}
+        </li>
+      ))}
+    </ul>
+  );
+}
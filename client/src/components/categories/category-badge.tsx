@@ -0,0 +1,26 @@
+import { Badge } from "@/components/ui/badge";
+import { useCategories } from "@/hooks/use-categories";
+import { getCategoryIcon } from "@/lib/category-icons";
+
+interface CategoryBadgeProps {
+  categoryId?: string | null;
+  "data-testid"?: string;
+}
+
+export function CategoryBadge({ categoryId, "data-testid": testId }: CategoryBadgeProps) {
+  const { getCategory, getCategoryLabel } = useCategories();
+  const category = getCategory(categoryId);
+  const Icon = getCategoryIcon(category?.icon);
+  const color = category?.color || "#64748b";
+
+  return (
+    <Badge
+      className="border-transparent"
+      style={{ backgroundColor: `${color}1a`, color }}
+      data-testid={testId}
+    >
+      <Icon className="w-3 h-3 mr-1" />
+      {getCategoryLabel(categoryId)}
+    </Badge>
+  );
+}
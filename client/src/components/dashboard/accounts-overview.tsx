@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AccountForm, accountTypeLabels } from "@/components/forms/account-form";
+import { Plus, Edit, Archive, Trash2 } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import type { AccountWithBalance } from "@shared/schema";
+
+export function AccountsOverview() {
+  const { formatAmount } = useCurrency();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<AccountWithBalance | null>(null);
+  const { toast } = useToast();
+
+  const { data: accounts, isLoading } = useQuery<AccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const archiveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("PUT", `/api/accounts/${id}`, { isArchived: true });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to archive account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/accounts/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Account deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Accounts with transactions cannot be deleted; archive them instead",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (account: AccountWithBalance) => {
+    setEditingAccount(account);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Are you sure you want to delete this account?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleFormClose = () => {
+    setIsFormOpen(false);
+    setEditingAccount(null);
+  };
+
+  const activeAccounts = accounts?.filter(a => !a.isArchived) || [];
+
+  return (
+    <Card className="mb-8" data-testid="card-accounts">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Accounts</CardTitle>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsFormOpen(true)}
+            data-testid="button-add-account"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add Account
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {Array.from({ length: 3 }).map((_, i) => (
+              <div key={i} className="flex items-center justify-between">
+                <Skeleton className="h-4 w-40" />
+                <Skeleton className="h-4 w-24" />
+              </div>
+            ))}
+          </div>
+        ) : activeAccounts.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-muted-foreground">No accounts yet.</p>
+            <p className="text-sm text-muted-foreground mt-1">Add your bank accounts, cards and cash wallets to track balances.</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {activeAccounts.map((account) => {
+              const balance = parseFloat(account.balance);
+              return (
+                <div
+                  key={account.id}
+                  className="flex items-center justify-between p-3 hover:bg-accent rounded-lg transition-colors"
+                  data-testid={`account-${account.id}`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium" data-testid={`text-account-name-${account.id}`}>
+                      {account.name}
+                    </span>
+                    <Badge variant="secondary">{accountTypeLabels[account.type]}</Badge>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span
+                      className={`font-semibold ${balance < 0 ? 'text-destructive' : ''}`}
+                      data-testid={`text-account-balance-${account.id}`}
+                    >
+                      {formatAmount(balance, account.currency)}
+                    </span>
+                    <div className="flex items-center space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleEdit(account)}
+                        data-testid={`button-edit-account-${account.id}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => archiveMutation.mutate(account.id)}
+                        disabled={archiveMutation.isPending}
+                        data-testid={`button-archive-account-${account.id}`}
+                      >
+                        <Archive className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(account.id)}
+                        disabled={deleteMutation.isPending}
+                        data-testid={`button-delete-account-${account.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => (open ? setIsFormOpen(true) : handleFormClose())}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingAccount ? "Edit Account" : "Add Account"}</DialogTitle>
+          </DialogHeader>
+          <AccountForm account={editingAccount} onSuccess={handleFormClose} />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
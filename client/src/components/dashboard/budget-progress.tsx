@@ -2,14 +2,19 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
 import type { Budget } from "@shared/schema";
 
 export function BudgetProgress() {
-  const currentMonth = new Date().getMonth() + 1;
-  const currentYear = new Date().getFullYear();
+  const { formatAmount } = useCurrency();
+  const { currentBudgetMonth } = useSettings();
+  const { month: currentMonth, year: currentYear } = currentBudgetMonth;
+  const { getCategory, getCategoryLabel, getCategoryTreeIds } = useCategories();
 
   const { data: budgets, isLoading: budgetsLoading } = useQuery<Budget[]>({
-    queryKey: ["/api/budgets"],
+    queryKey: ["/api/budgets", currentMonth, currentYear],
     queryFn: async () => {
       const response = await fetch(`/api/budgets?month=${currentMonth}&year=${currentYear}`, {
         credentials: "include",
@@ -19,8 +24,8 @@ export function BudgetProgress() {
     },
   });
 
-  const { data: spendingData, isLoading: spendingLoading } = useQuery<Array<{ category: string; total: string }>>({
-    queryKey: ["/api/analytics/spending"],
+  const { data: spendingData, isLoading: spendingLoading } = useQuery<Array<{ categoryId: string; category: string; color: string; total: string }>>({
+    queryKey: ["/api/analytics/spending", currentMonth, currentYear],
     queryFn: async () => {
       const response = await fetch(`/api/analytics/spending?month=${currentMonth}&year=${currentYear}`, {
         credentials: "include",
@@ -32,29 +37,14 @@ export function BudgetProgress() {
 
   const isLoading = budgetsLoading || spendingLoading;
 
-  const getSpentAmount = (category: string) => {
-    const spent = spendingData?.find(s => s.category === category);
-    return spent ? parseFloat(spent.total) : 0;
+  // A parent category's budget includes spending in its subcategories.
+  const getSpentAmount = (categoryId: string) => {
+    const treeIds = getCategoryTreeIds(categoryId);
+    return spendingData
+      ?.filter(s => treeIds.includes(s.categoryId))
+      .reduce((sum, s) => sum + parseFloat(s.total), 0) || 0;
   };
 
-  const getCategoryColor = (category: string) => {
-    const colors: Record<string, string> = {
-      Food: "bg-red-500",
-      Transportation: "bg-blue-500",
-      Entertainment: "bg-green-500",
-      Bills: "bg-purple-500",
-      Shopping: "bg-yellow-500",
-      Healthcare: "bg-pink-500",
-      Education: "bg-indigo-500",
-      Travel: "bg-orange-500",
-      Groceries: "bg-lime-500",
-      Utilities: "bg-cyan-500",
-      Insurance: "bg-gray-500",
-      Investment: "bg-emerald-500",
-      Other: "bg-slate-500",
-    };
-    return colors[category] || colors.Other;
-  };
 
   const getProgressColor = (percentage: number) => {
     if (percentage >= 100) return "bg-destructive";
@@ -89,7 +79,7 @@ export function BudgetProgress() {
         ) : (
           <div className="space-y-6">
             {budgets?.map((budget) => {
-              const spentAmount = getSpentAmount(budget.category);
+              const spentAmount = getSpentAmount(budget.categoryId);
               const budgetAmount = parseFloat(budget.amount);
               const percentage = (spentAmount / budgetAmount) * 100;
               const remaining = budgetAmount - spentAmount;
@@ -98,14 +88,17 @@ export function BudgetProgress() {
                 <div key={budget.id} className="space-y-2" data-testid={`budget-progress-${budget.id}`}>
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
-                      <div className={`w-3 h-3 rounded-full ${getCategoryColor(budget.category)}`}></div>
+                      <div
+                        className="w-3 h-3 rounded-full"
+                        style={{ backgroundColor: getCategory(budget.categoryId)?.color }}
+                      ></div>
                       <span className="font-medium" data-testid={`text-budget-category-${budget.id}`}>
-                        {budget.category}
+                        {getCategoryLabel(budget.categoryId)}
                       </span>
                     </div>
                     <div className="text-right" data-testid={`text-budget-amounts-${budget.id}`}>
-                      <span className="font-semibold">₹{spentAmount.toLocaleString()}</span>
-                      <span className="text-muted-foreground"> / ₹{budgetAmount.toLocaleString()}</span>
+                      <span className="font-semibold">{formatAmount(spentAmount)}</span>
+                      <span className="text-muted-foreground"> / {formatAmount(budgetAmount)}</span>
                     </div>
                   </div>
                   
@@ -120,9 +113,9 @@ export function BudgetProgress() {
                   <p className="text-sm text-muted-foreground" data-testid={`text-budget-status-${budget.id}`}>
                     {percentage.toFixed(1)}% used • 
                     {remaining > 0 ? (
-                      <span className="text-success"> ₹{remaining.toLocaleString()} remaining</span>
+                      <span className="text-success"> {formatAmount(remaining)} remaining</span>
                     ) : (
-                      <span className="text-destructive"> ₹{Math.abs(remaining).toLocaleString()} over budget</span>
+                      <span className="text-destructive"> {formatAmount(Math.abs(remaining))} over budget</span>
                     )}
                   </p>
                 </div>
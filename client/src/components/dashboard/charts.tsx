@@ -1,6 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
 import { Doughnut, Line } from 'react-chartjs-2';
 import {
   Chart as ChartJS,
@@ -26,11 +28,12 @@ ChartJS.register(
 );
 
 export function Charts() {
-  const currentMonth = new Date().getMonth() + 1;
-  const currentYear = new Date().getFullYear();
+  const { formatAmount } = useCurrency();
+  const { currentBudgetMonth, formatDate } = useSettings();
+  const { month: currentMonth, year: currentYear } = currentBudgetMonth;
 
-  const { data: spendingData, isLoading: spendingLoading } = useQuery<Array<{ category: string; total: string }>>({
-    queryKey: ["/api/analytics/spending"],
+  const { data: spendingData, isLoading: spendingLoading } = useQuery<Array<{ categoryId: string; category: string; color: string; total: string }>>({
+    queryKey: ["/api/analytics/spending", currentMonth, currentYear],
     queryFn: async () => {
       const response = await fetch(`/api/analytics/spending?month=${currentMonth}&year=${currentYear}`, {
         credentials: "include",
@@ -56,18 +59,7 @@ export function Charts() {
     labels: spendingData?.map(item => item.category) || [],
     datasets: [{
       data: spendingData?.map(item => parseFloat(item.total)) || [],
-      backgroundColor: [
-        '#ef4444', // Red
-        '#8b5cf6', // Purple
-        '#3b82f6', // Blue
-        '#10b981', // Green
-        '#f59e0b', // Yellow
-        '#6b7280', // Gray
-        '#ec4899', // Pink
-        '#8b5cf6', // Purple
-        '#84cc16', // Lime
-        '#06b6d4', // Cyan
-      ],
+      backgroundColor: spendingData?.map(item => item.color) || [],
       borderWidth: 0,
     }]
   };
@@ -91,7 +83,7 @@ export function Charts() {
   const trendChartData = {
     labels: trendsData?.map(item => {
       const [year, month] = item.month.split('-');
-      return new Date(parseInt(year), parseInt(month) - 1).toLocaleDateString('en-US', { month: 'short' });
+      return formatDate(new Date(Date.UTC(parseInt(year), parseInt(month) - 1)), { month: 'short' });
     }) || [],
     datasets: [
       {
@@ -121,7 +113,7 @@ export function Charts() {
         beginAtZero: true,
         ticks: {
           callback: function(value: any) {
-            return '₹' + value.toLocaleString();
+            return formatAmount(value);
           }
         }
       }
@@ -133,7 +125,7 @@ export function Charts() {
       tooltip: {
         callbacks: {
           label: function(context: any) {
-            return context.dataset.label + ': ₹' + context.parsed.y.toLocaleString();
+            return context.dataset.label + ': ' + formatAmount(context.parsed.y);
           }
         }
       }
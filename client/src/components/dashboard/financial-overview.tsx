@@ -2,11 +2,23 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { DollarSign, TrendingUp, TrendingDown, Target } from "lucide-react";
-import type { Transaction } from "@shared/schema";
+import { getPresetPeriod } from "@/components/reports/period-picker";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import { useReport, type PeriodSummary } from "@/hooks/use-report";
+import type { AccountWithBalance } from "@shared/schema";
 
+// Totals come from the statement report, already converted to the user's
+// base currency. "Monthly" means the current budget month in the user's time
+// zone.
 export function FinancialOverview() {
-  const { data: transactions, isLoading } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
+  const { formatAmount } = useCurrency();
+  const { settings } = useSettings();
+  const { data: currentMonth, isLoading } = useReport<PeriodSummary>("statement", getPresetPeriod("thisMonth", settings));
+  const { data: previousMonth } = useReport<PeriodSummary>("statement", getPresetPeriod("lastMonth", settings));
+
+  const { data: accounts } = useQuery<AccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
   });
 
   if (isLoading) {
@@ -28,39 +40,19 @@ export function FinancialOverview() {
     );
   }
 
-  const currentMonth = new Date().getMonth();
-  const currentYear = new Date().getFullYear();
-  
-  // Filter transactions for current month
-  const currentMonthTransactions = transactions?.filter(t => {
-    const transactionDate = new Date(t.date);
-    return transactionDate.getMonth() === currentMonth && transactionDate.getFullYear() === currentYear;
-  }) || [];
-
-  // Calculate totals
-  const monthlyIncome = currentMonthTransactions
-    .filter(t => t.type === 'income')
-    .reduce((sum, t) => sum + parseFloat(t.amount), 0);
+  const monthlyIncome = parseFloat(currentMonth?.income ?? "0");
+  const monthlyExpenses = parseFloat(currentMonth?.expenses ?? "0");
 
-  const monthlyExpenses = currentMonthTransactions
-    .filter(t => t.type === 'expense')
-    .reduce((sum, t) => sum + parseFloat(t.amount), 0);
-
-  const totalBalance = monthlyIncome - monthlyExpenses;
+  // Sum real account balances when the user tracks accounts; otherwise fall back
+  // to this month's net cash flow. Accounts without an exchange rate to the
+  // base currency are left out.
+  const activeAccounts = accounts?.filter(a => !a.isArchived) || [];
+  const totalBalance = activeAccounts.length > 0
+    ? activeAccounts.reduce((sum, a) => sum + parseFloat(a.baseBalance ?? "0"), 0)
+    : monthlyIncome - monthlyExpenses;
   const savingsRate = monthlyIncome > 0 ? ((monthlyIncome - monthlyExpenses) / monthlyIncome) * 100 : 0;
 
-  // Calculate previous month for comparison
-  const previousMonth = currentMonth === 0 ? 11 : currentMonth - 1;
-  const previousYear = currentMonth === 0 ? currentYear - 1 : currentYear;
-  
-  const previousMonthTransactions = transactions?.filter(t => {
-    const transactionDate = new Date(t.date);
-    return transactionDate.getMonth() === previousMonth && transactionDate.getFullYear() === previousYear;
-  }) || [];
-
-  const previousMonthExpenses = previousMonthTransactions
-    .filter(t => t.type === 'expense')
-    .reduce((sum, t) => sum + parseFloat(t.amount), 0);
+  const previousMonthExpenses = parseFloat(previousMonth?.expenses ?? "0");
 
   const expenseChange = previousMonthExpenses > 0 
     ? ((monthlyExpenses - previousMonthExpenses) / previousMonthExpenses) * 100 
@@ -69,7 +61,7 @@ export function FinancialOverview() {
   const cards = [
     {
       title: "Total Balance",
-      value: `₹${totalBalance.toLocaleString()}`,
+      value: formatAmount(totalBalance),
       change: savingsRate > 0 ? `+${savingsRate.toFixed(1)}% savings rate` : "No savings this month",
       icon: DollarSign,
       iconColor: "bg-success/10 text-success",
@@ -78,7 +70,7 @@ export function FinancialOverview() {
     },
     {
       title: "Monthly Income",
-      value: `₹${monthlyIncome.toLocaleString()}`,
+      value: formatAmount(monthlyIncome),
       change: "Salary + Freelance",
       icon: TrendingUp,
       iconColor: "bg-primary/10 text-primary",
@@ -87,7 +79,7 @@ export function FinancialOverview() {
     },
     {
       title: "Monthly Expenses",
-      value: `₹${monthlyExpenses.toLocaleString()}`,
+      value: formatAmount(monthlyExpenses),
       change: expenseChange !== 0 ? `${expenseChange > 0 ? '+' : ''}${expenseChange.toFixed(1)}% from last month` : "No change from last month",
       icon: TrendingDown,
       iconColor: "bg-destructive/10 text-destructive",
@@ -97,7 +89,7 @@ export function FinancialOverview() {
     {
       title: "Savings Rate",
       value: `${savingsRate.toFixed(1)}%`,
-      change: `₹${(monthlyIncome - monthlyExpenses).toLocaleString()} saved this month`,
+      change: `${formatAmount(monthlyIncome - monthlyExpenses)} saved this month`,
       icon: Target,
       iconColor: "bg-warning/10 text-warning",
       isPositive: savingsRate > 0,
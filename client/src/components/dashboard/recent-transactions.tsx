@@ -2,14 +2,18 @@ import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { TransactionCategory } from "@/components/transactions/transaction-category";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useLocation } from "wouter";
-import type { Transaction } from "@shared/schema";
+import { ArrowLeftRight } from "lucide-react";
+import type { TransactionWithDetails } from "@shared/schema";
+import { useCurrency } from "@/hooks/use-currency";
 
 export function RecentTransactions() {
+  const { formatAmount } = useCurrency();
   const [, setLocation] = useLocation();
 
-  const { data: transactions, isLoading } = useQuery<Transaction[]>({
+  const { data: transactions, isLoading } = useQuery<TransactionWithDetails[]>({
     queryKey: ["/api/transactions"],
     queryFn: async () => {
       const response = await fetch("/api/transactions?limit=5", {
@@ -20,26 +24,6 @@ export function RecentTransactions() {
     },
   });
 
-  const getCategoryColor = (category: string) => {
-    const colors: Record<string, string> = {
-      Food: "bg-red-100 text-red-800",
-      Transportation: "bg-blue-100 text-blue-800",
-      Entertainment: "bg-green-100 text-green-800",
-      Bills: "bg-purple-100 text-purple-800",
-      Shopping: "bg-yellow-100 text-yellow-800",
-      Healthcare: "bg-pink-100 text-pink-800",
-      Education: "bg-indigo-100 text-indigo-800",
-      Travel: "bg-orange-100 text-orange-800",
-      Groceries: "bg-lime-100 text-lime-800",
-      Utilities: "bg-cyan-100 text-cyan-800",
-      Insurance: "bg-gray-100 text-gray-800",
-      Investment: "bg-emerald-100 text-emerald-800",
-      Income: "bg-teal-100 text-teal-800",
-      Other: "bg-slate-100 text-slate-800",
-    };
-    return colors[category] || colors.Other;
-  };
-
   const formatDate = (date: string) => {
     const transactionDate = new Date(date);
     const today = new Date();
@@ -99,12 +83,14 @@ export function RecentTransactions() {
                 data-testid={`recent-transaction-${transaction.id}`}
               >
                 <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                  transaction.type === 'income' ? 'bg-success/10' : 'bg-destructive/10'
+                  transaction.type === 'income' ? 'bg-success/10' : transaction.type === 'transfer' ? 'bg-muted' : 'bg-destructive/10'
                 }`}>
                   {transaction.type === 'income' ? (
                     <svg className="w-5 h-5 text-success" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 17l10-10M17 7H7v10" />
                     </svg>
+                  ) : transaction.type === 'transfer' ? (
+                    <ArrowLeftRight className="w-5 h-5 text-muted-foreground" />
                   ) : (
                     <svg className="w-5 h-5 text-destructive" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 7l-10 10M7 7l10 10" />
@@ -117,9 +103,11 @@ export function RecentTransactions() {
                     {transaction.description}
                   </p>
                   <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                    <Badge className={getCategoryColor(transaction.category)} data-testid={`badge-recent-category-${transaction.id}`}>
-                      {transaction.category}
-                    </Badge>
+                    {transaction.type === 'transfer' ? (
+                      <Badge variant="secondary" data-testid={`badge-recent-category-${transaction.id}`}>Transfer</Badge>
+                    ) : (
+                      <TransactionCategory transaction={transaction} data-testid={`badge-recent-category-${transaction.id}`} />
+                    )}
                     <span>•</span>
                     <span data-testid={`text-recent-date-${transaction.id}`}>
                       {formatDate(transaction.date.toString())}
@@ -129,9 +117,9 @@ export function RecentTransactions() {
                 
                 <div className="text-right">
                   <p className={`font-medium ${
-                    transaction.type === 'income' ? 'text-success' : 'text-destructive'
+                    transaction.type === 'income' ? 'text-success' : transaction.type === 'transfer' ? 'text-muted-foreground' : 'text-destructive'
                   }`} data-testid={`text-recent-amount-${transaction.id}`}>
-                    {transaction.type === 'income' ? '+' : '-'}₹{parseFloat(transaction.amount).toLocaleString()}
+                    {transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '-' : ''}{formatAmount(transaction.amount, transaction.currency)}
                   </p>
                 </div>
               </div>
@@ -0,0 +1,201 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { insertAccountSchema, CURRENCIES, type Account } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { z } from "zod";
+
+const accountFormSchema = insertAccountSchema.extend({
+  name: z.string().min(1, "Name is required"),
+  openingBalance: z.string().min(1, "Opening balance is required"),
+});
+
+type AccountFormData = z.infer<typeof accountFormSchema>;
+
+interface AccountFormProps {
+  account?: Account | null;
+  onSuccess?: () => void;
+}
+
+export const accountTypeLabels: Record<Account["type"], string> = {
+  checking: "Checking",
+  savings: "Savings",
+  credit_card: "Credit Card",
+  cash: "Cash",
+  loan: "Loan",
+};
+
+export function AccountForm({ account, onSuccess }: AccountFormProps) {
+  const { toast } = useToast();
+  const { baseCurrency } = useCurrency();
+
+  const form = useForm<AccountFormData>({
+    resolver: zodResolver(accountFormSchema),
+    defaultValues: {
+      name: account?.name || "",
+      type: account?.type || "checking",
+      openingBalance: account?.openingBalance || "0",
+      currency: account?.currency ?? baseCurrency,
+      isArchived: account?.isArchived ?? false,
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: AccountFormData) => {
+      const response = await apiRequest("POST", "/api/accounts", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Account created successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: AccountFormData) => {
+      const response = await apiRequest("PUT", `/api/accounts/${account!.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Account updated successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const onSubmit = (data: AccountFormData) => {
+    if (account) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="account-form">
+      <div className="space-y-2">
+        <Label htmlFor="name">Name</Label>
+        <Input
+          id="name"
+          placeholder="e.g. HDFC Savings"
+          {...form.register("name")}
+          disabled={isPending}
+          data-testid="input-account-name"
+        />
+        {form.formState.errors.name && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.name.message}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="type">Type</Label>
+          <Select
+            value={form.watch("type")}
+            onValueChange={(value) => form.setValue("type", value as Account["type"])}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-account-type">
+              <SelectValue placeholder="Select type" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(accountTypeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="openingBalance">Opening Balance</Label>
+          <div className="flex gap-2">
+            <Input
+              id="openingBalance"
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              {...form.register("openingBalance")}
+              disabled={isPending}
+              data-testid="input-account-opening-balance"
+            />
+            <Select
+              value={form.watch("currency")}
+              onValueChange={(value) => form.setValue("currency", value)}
+              disabled={isPending}
+            >
+              <SelectTrigger className="w-24" aria-label="Currency" data-testid="select-account-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {form.formState.errors.openingBalance && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.openingBalance.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Enter credit card and loan balances you owe as negative amounts.
+      </p>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending}
+        data-testid="button-submit-account"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {account ? "Updating..." : "Creating..."}
+          </>
+        ) : (
+          account ? "Update Account" : "Create Account"
+        )}
+      </Button>
+    </form>
+  );
+}
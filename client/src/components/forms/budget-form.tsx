@@ -9,53 +9,52 @@ import { Loader2 } from "lucide-react";
 import { insertBudgetSchema, type Budget } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
 import { z } from "zod";
 
 const budgetFormSchema = insertBudgetSchema.extend({
   amount: z.string().min(1, "Amount is required"),
+  categoryId: z.string({ required_error: "Category is required" }).min(1, "Category is required"),
+  // Edited as a comma-separated list, e.g. "50, 80, 100"
+  alertThresholds: z.string().regex(/^\s*(\d+\s*(,\s*\d+\s*)*)?$/, "Enter percentages separated by commas"),
 });
 
 type BudgetFormData = z.infer<typeof budgetFormSchema>;
 
+const toPayload = (data: BudgetFormData) => ({
+  ...data,
+  alertThresholds: Array.from(new Set(data.alertThresholds.split(",").map(v => v.trim()).filter(Boolean).map(Number)))
+    .sort((a, b) => a - b),
+});
+
 interface BudgetFormProps {
   budget?: Budget | null;
   onSuccess?: () => void;
 }
 
-const categories = [
-  "Food",
-  "Transportation", 
-  "Entertainment",
-  "Bills",
-  "Shopping",
-  "Healthcare",
-  "Education",
-  "Travel",
-  "Groceries",
-  "Utilities",
-  "Insurance",
-  "Investment",
-  "Other"
-];
-
 export function BudgetForm({ budget, onSuccess }: BudgetFormProps) {
   const { toast } = useToast();
-  const currentMonth = new Date().getMonth() + 1;
-  const currentYear = new Date().getFullYear();
+  const { baseCurrency } = useCurrency();
+  const { getOptions } = useCategories();
+  const { currentBudgetMonth, formatDate } = useSettings();
+  const { month: currentMonth, year: currentYear } = currentBudgetMonth;
 
   const form = useForm<BudgetFormData>({
     resolver: zodResolver(budgetFormSchema),
     defaultValues: {
       amount: budget?.amount || "",
-      category: budget?.category || "Food",
+      categoryId: budget?.categoryId || "",
       month: budget?.month || currentMonth,
       year: budget?.year || currentYear,
+      alertThresholds: (budget?.alertThresholds ?? [80, 100]).join(", "),
     },
   });
 
   const createMutation = useMutation({
     mutationFn: async (data: BudgetFormData) => {
-      const response = await apiRequest("POST", "/api/budgets", data);
+      const response = await apiRequest("POST", "/api/budgets", toPayload(data));
       return response.json();
     },
     onSuccess: () => {
@@ -77,7 +76,7 @@ export function BudgetForm({ budget, onSuccess }: BudgetFormProps) {
 
   const updateMutation = useMutation({
     mutationFn: async (data: BudgetFormData) => {
-      const response = await apiRequest("PUT", `/api/budgets/${budget!.id}`, data);
+      const response = await apiRequest("PUT", `/api/budgets/${budget!.id}`, toPayload(data));
       return response.json();
     },
     onSuccess: () => {
@@ -112,30 +111,30 @@ export function BudgetForm({ budget, onSuccess }: BudgetFormProps) {
       <div className="space-y-2">
         <Label htmlFor="category">Category</Label>
         <Select
-          value={form.watch("category")}
-          onValueChange={(value) => form.setValue("category", value as any)}
+          value={form.watch("categoryId") || undefined}
+          onValueChange={(value) => form.setValue("categoryId", value, { shouldValidate: true })}
           disabled={isPending}
         >
           <SelectTrigger data-testid="select-budget-category">
             <SelectValue placeholder="Select category" />
           </SelectTrigger>
           <SelectContent>
-            {categories.map((category) => (
-              <SelectItem key={category} value={category}>
-                {category}
+            {getOptions(budget?.categoryId).map(({ category, label, depth }) => (
+              <SelectItem key={category.id} value={category.id} className={depth > 0 ? "pl-8" : undefined}>
+                {depth > 0 ? category.name : label}
               </SelectItem>
             ))}
           </SelectContent>
         </Select>
-        {form.formState.errors.category && (
+        {form.formState.errors.categoryId && (
           <p className="text-sm text-destructive">
-            {form.formState.errors.category.message}
+            {form.formState.errors.categoryId.message}
           </p>
         )}
       </div>
 
       <div className="space-y-2">
-        <Label htmlFor="amount">Budget Amount (₹)</Label>
+        <Label htmlFor="amount">Budget Amount ({baseCurrency})</Label>
         <Input
           id="amount"
           type="number"
@@ -166,7 +165,7 @@ export function BudgetForm({ budget, onSuccess }: BudgetFormProps) {
             <SelectContent>
               {Array.from({ length: 12 }, (_, i) => (
                 <SelectItem key={i + 1} value={(i + 1).toString()}>
-                  {new Date(2024, i).toLocaleDateString('en-US', { month: 'long' })}
+                  {formatDate(new Date(Date.UTC(2024, i)), { month: 'long' })}
                 </SelectItem>
               ))}
             </SelectContent>
@@ -207,6 +206,25 @@ export function BudgetForm({ budget, onSuccess }: BudgetFormProps) {
         </div>
       </div>
 
+      <div className="space-y-2">
+        <Label htmlFor="alertThresholds">Alert at (% of budget)</Label>
+        <Input
+          id="alertThresholds"
+          placeholder="50, 80, 100"
+          {...form.register("alertThresholds")}
+          disabled={isPending}
+          data-testid="input-budget-alert-thresholds"
+        />
+        <p className="text-xs text-muted-foreground">
+          You'll be notified once per month as spending reaches each percentage. Leave empty for no alerts.
+        </p>
+        {form.formState.errors.alertThresholds && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.alertThresholds.message}
+          </p>
+        )}
+      </div>
+
       <Button 
         type="submit" 
         className="w-full" 
@@ -0,0 +1,199 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { insertCategorySchema, type Category } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { categoryIcons } from "@/lib/category-icons";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { z } from "zod";
+
+type CategoryFormData = z.infer<typeof insertCategorySchema>;
+
+interface CategoryFormProps {
+  category?: Category | null;
+  onSuccess?: () => void;
+}
+
+// Radix Select cannot hold an empty value, so "top level" uses a sentinel.
+const NO_PARENT = "none";
+
+export function CategoryForm({ category, onSuccess }: CategoryFormProps) {
+  const { toast } = useToast();
+  const { categories } = useCategories();
+
+  // Only top-level categories can be parents, and a category with its own
+  // subcategories stays top-level.
+  const hasSubcategories = !!category && categories.some(c => c.parentId === category.id);
+  const parentOptions = categories.filter(c => !c.parentId && !c.isArchived && c.id !== category?.id);
+
+  const form = useForm<CategoryFormData>({
+    resolver: zodResolver(insertCategorySchema),
+    defaultValues: {
+      name: category?.name || "",
+      parentId: category?.parentId ?? null,
+      color: category?.color || "#64748b",
+      icon: category?.icon || "tag",
+      isArchived: category?.isArchived ?? false,
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: CategoryFormData) => {
+      const response = await apiRequest("POST", "/api/categories", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({
+        title: "Success",
+        description: "Category created successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create category",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: CategoryFormData) => {
+      const response = await apiRequest("PUT", `/api/categories/${category!.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      toast({
+        title: "Success",
+        description: "Category updated successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update category",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const onSubmit = (data: CategoryFormData) => {
+    if (category) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="category-form">
+      <div className="space-y-2">
+        <Label htmlFor="name">Name</Label>
+        <Input
+          id="name"
+          placeholder="e.g. Dining Out"
+          {...form.register("name")}
+          disabled={isPending}
+          data-testid="input-category-name"
+        />
+        {form.formState.errors.name && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.name.message}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="parentId">Parent Category</Label>
+        <Select
+          value={form.watch("parentId") ?? NO_PARENT}
+          onValueChange={(value) => form.setValue("parentId", value === NO_PARENT ? null : value)}
+          disabled={isPending || hasSubcategories}
+        >
+          <SelectTrigger data-testid="select-category-parent">
+            <SelectValue placeholder="Select parent" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+            {parentOptions.map((parent) => (
+              <SelectItem key={parent.id} value={parent.id}>
+                {parent.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="color">Color</Label>
+          <Input
+            id="color"
+            type="color"
+            className="h-10 p-1"
+            {...form.register("color")}
+            disabled={isPending}
+            data-testid="input-category-color"
+          />
+          {form.formState.errors.color && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.color.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="icon">Icon</Label>
+          <Select
+            value={form.watch("icon")}
+            onValueChange={(value) => form.setValue("icon", value)}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-category-icon">
+              <SelectValue placeholder="Select icon" />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(categoryIcons).map(([name, Icon]) => (
+                <SelectItem key={name} value={name}>
+                  <span className="flex items-center">
+                    <Icon className="w-4 h-4 mr-2" />
+                    {name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending}
+        data-testid="button-submit-category"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {category ? "Updating..." : "Creating..."}
+          </>
+        ) : (
+          category ? "Update Category" : "Create Category"
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,169 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { insertExchangeRateSchema, CURRENCIES } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { z } from "zod";
+
+const exchangeRateFormSchema = insertExchangeRateSchema.extend({
+  date: z.string().min(1, "Date is required"),
+  rate: z.number({ invalid_type_error: "Rate is required." }).positive("Rate must be greater than 0."),
+}).refine((data) => data.fromCurrency !== data.toCurrency, {
+  message: "Choose two different currencies",
+  path: ["toCurrency"],
+});
+
+type ExchangeRateFormData = z.infer<typeof exchangeRateFormSchema>;
+
+interface ExchangeRateFormProps {
+  // Prefills the form, e.g. for a missing rate
+  defaults?: { fromCurrency: string; date: string };
+  onSuccess?: () => void;
+}
+
+// Saving a rate for a pair and date that already has one replaces it.
+export function ExchangeRateForm({ defaults, onSuccess }: ExchangeRateFormProps) {
+  const { toast } = useToast();
+  const { baseCurrency } = useCurrency();
+
+  const form = useForm<ExchangeRateFormData>({
+    resolver: zodResolver(exchangeRateFormSchema),
+    defaultValues: {
+      fromCurrency: defaults?.fromCurrency ?? CURRENCIES.find(c => c !== baseCurrency),
+      toCurrency: baseCurrency,
+      date: defaults?.date ?? new Date().toISOString().split('T')[0],
+    },
+  });
+
+  const fromCurrency = form.watch("fromCurrency");
+  const toCurrency = form.watch("toCurrency");
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: ExchangeRateFormData) => {
+      const response = await apiRequest("POST", "/api/exchange-rates", {
+        ...data,
+        rate: String(data.rate),
+        date: new Date(data.date).toISOString(),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Exchange rate saved successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save exchange rate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const renderCurrencySelect = (field: "fromCurrency" | "toCurrency", testId: string) => (
+    <Select
+      value={form.watch(field)}
+      onValueChange={(value) => form.setValue(field, value, { shouldValidate: true })}
+      disabled={saveMutation.isPending}
+    >
+      <SelectTrigger data-testid={testId}>
+        <SelectValue placeholder="Select currency" />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCIES.map((currency) => (
+          <SelectItem key={currency} value={currency}>
+            {currency}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-4" data-testid="exchange-rate-form">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>From</Label>
+          {renderCurrencySelect("fromCurrency", "select-rate-from-currency")}
+        </div>
+        <div className="space-y-2">
+          <Label>To</Label>
+          {renderCurrencySelect("toCurrency", "select-rate-to-currency")}
+          {form.formState.errors.toCurrency && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.toCurrency.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="rate">Rate</Label>
+          <Input
+            id="rate"
+            type="number"
+            step="any"
+            placeholder="0.00"
+            {...form.register("rate", { valueAsNumber: true })}
+            disabled={saveMutation.isPending}
+            data-testid="input-rate"
+          />
+          {form.formState.errors.rate && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.rate.message}
+            </p>
+          )}
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="date">Effective From</Label>
+          <Input
+            id="date"
+            type="date"
+            {...form.register("date")}
+            disabled={saveMutation.isPending}
+            data-testid="input-rate-date"
+          />
+          {form.formState.errors.date && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.date.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        1 {fromCurrency} = {form.watch("rate") || "?"} {toCurrency}. The rate applies until the next rate for the same currencies.
+      </p>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={saveMutation.isPending}
+        data-testid="button-submit-rate"
+      >
+        {saveMutation.isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          "Save Rate"
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,223 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { insertGoalContributionSchema, type GoalContribution, type Transaction } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import { z } from "zod";
+
+const contributionFormSchema = insertGoalContributionSchema.extend({
+  amount: z.number({ invalid_type_error: "Amount is required." }).positive("Amount must be greater than 0."),
+  date: z.string().min(1, "Date is required"),
+});
+
+type ContributionFormData = z.infer<typeof contributionFormSchema>;
+
+interface GoalContributionFormProps {
+  goalId: string;
+  contribution?: GoalContribution | null;
+  onSuccess?: () => void;
+}
+
+// Radix Select cannot hold an empty value, so "no transaction" uses a sentinel.
+const NO_TRANSACTION = "none";
+
+const toDateInput = (date?: Date | string | null) =>
+  date ? new Date(date).toISOString().split('T')[0] : "";
+
+export function GoalContributionForm({ goalId, contribution, onSuccess }: GoalContributionFormProps) {
+  const { baseCurrency, formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
+  const { toast } = useToast();
+
+  // Recent transactions to link a contribution to, e.g. the transfer that funded it
+  const { data: transactions } = useQuery<Transaction[]>({
+    queryKey: ["/api/transactions", "linkable"],
+    queryFn: async () => {
+      const response = await fetch("/api/transactions?limit=100", {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch transactions");
+      return response.json();
+    },
+  });
+
+  const form = useForm<ContributionFormData>({
+    resolver: zodResolver(contributionFormSchema),
+    defaultValues: {
+      type: contribution?.type || "deposit",
+      amount: contribution?.amount ? parseFloat(contribution.amount) : undefined,
+      date: toDateInput(contribution?.date ?? new Date()),
+      transactionId: contribution?.transactionId ?? null,
+      note: contribution?.note ?? "",
+    },
+  });
+
+  const toPayload = (data: ContributionFormData) => ({
+    ...data,
+    amount: String(data.amount),
+    date: new Date(data.date).toISOString(),
+    note: data.note?.trim() || null,
+  });
+
+  const onMutationSuccess = (message: string) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+    toast({
+      title: "Success",
+      description: message,
+    });
+    onSuccess?.();
+  };
+
+  const onMutationError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to save contribution",
+      variant: "destructive",
+    });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: ContributionFormData) => {
+      const response = await apiRequest("POST", `/api/goals/${goalId}/contributions`, toPayload(data));
+      return response.json();
+    },
+    onSuccess: () => onMutationSuccess("Contribution added successfully"),
+    onError: onMutationError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: ContributionFormData) => {
+      const response = await apiRequest("PUT", `/api/goals/${goalId}/contributions/${contribution!.id}`, toPayload(data));
+      return response.json();
+    },
+    onSuccess: () => onMutationSuccess("Contribution updated successfully"),
+    onError: onMutationError,
+  });
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const onSubmit = (data: ContributionFormData) => {
+    if (contribution) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const transactionId = form.watch("transactionId");
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="goal-contribution-form">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="type">Type</Label>
+          <Select
+            value={form.watch("type")}
+            onValueChange={(value) => form.setValue("type", value as ContributionFormData["type"])}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-contribution-type">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="deposit">Deposit</SelectItem>
+              <SelectItem value="withdrawal">Withdrawal</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="amount">Amount ({baseCurrency})</Label>
+          <Input
+            id="amount"
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            {...form.register("amount", { valueAsNumber: true })}
+            disabled={isPending}
+            data-testid="input-contribution-amount"
+          />
+          {form.formState.errors.amount && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.amount.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="date">Date</Label>
+        <Input
+          id="date"
+          type="date"
+          {...form.register("date")}
+          disabled={isPending}
+          data-testid="input-contribution-date"
+        />
+        {form.formState.errors.date && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.date.message}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="transactionId">Linked Transaction (optional)</Label>
+        <Select
+          value={transactionId ?? NO_TRANSACTION}
+          onValueChange={(value) => form.setValue("transactionId", value === NO_TRANSACTION ? null : value)}
+          disabled={isPending}
+        >
+          <SelectTrigger data-testid="select-contribution-transaction">
+            <SelectValue placeholder="No linked transaction" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NO_TRANSACTION}>No linked transaction</SelectItem>
+            {transactionId && !transactions?.some(t => t.id === transactionId) && (
+              <SelectItem value={transactionId}>Linked transaction</SelectItem>
+            )}
+            {transactions?.map((transaction) => (
+              <SelectItem key={transaction.id} value={transaction.id}>
+                {formatDate(transaction.date)} · {transaction.description} · {formatAmount(transaction.amount, transaction.currency)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="note">Note (optional)</Label>
+        <Input
+          id="note"
+          {...form.register("note")}
+          disabled={isPending}
+          data-testid="input-contribution-note"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending}
+        data-testid="button-submit-contribution"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          contribution ? "Update Contribution" : "Add Contribution"
+        )}
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,167 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { insertGoalSchema, type Goal } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { z } from "zod";
+
+const goalFormSchema = insertGoalSchema.extend({
+  title: z.string().trim().min(1, "Title is required"),
+  targetAmount: z.number({ invalid_type_error: "Target amount is required." }).positive("Target must be greater than 0."),
+  targetDate: z.string().nullable().optional(),
+});
+
+type GoalFormData = z.infer<typeof goalFormSchema>;
+
+interface GoalFormProps {
+  goal?: Goal | null;
+  onSuccess?: () => void;
+}
+
+const toDateInput = (date?: Date | string | null) =>
+  date ? new Date(date).toISOString().split('T')[0] : "";
+
+export function GoalForm({ goal, onSuccess }: GoalFormProps) {
+  const { toast } = useToast();
+  const { baseCurrency } = useCurrency();
+
+  const form = useForm<GoalFormData>({
+    resolver: zodResolver(goalFormSchema),
+    defaultValues: {
+      title: goal?.title || "",
+      targetAmount: goal?.targetAmount ? parseFloat(goal.targetAmount) : undefined,
+      targetDate: toDateInput(goal?.targetDate),
+    },
+  });
+
+  const toPayload = (data: GoalFormData) => ({
+    ...data,
+    targetAmount: String(data.targetAmount),
+    targetDate: data.targetDate ? new Date(data.targetDate).toISOString() : null,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: GoalFormData) => {
+      const response = await apiRequest("POST", "/api/goals", toPayload(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: "Success",
+        description: "Goal created successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create goal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: GoalFormData) => {
+      const response = await apiRequest("PUT", `/api/goals/${goal!.id}`, toPayload(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: "Success",
+        description: "Goal updated successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update goal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const onSubmit = (data: GoalFormData) => {
+    if (goal) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="goal-form">
+      <div className="space-y-2">
+        <Label htmlFor="title">Title</Label>
+        <Input
+          id="title"
+          placeholder="e.g. Emergency fund"
+          {...form.register("title")}
+          disabled={isPending}
+          data-testid="input-goal-title"
+        />
+        {form.formState.errors.title && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.title.message}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="targetAmount">Target Amount ({baseCurrency})</Label>
+        <Input
+          id="targetAmount"
+          type="number"
+          step="0.01"
+          placeholder="0.00"
+          {...form.register("targetAmount", { valueAsNumber: true })}
+          disabled={isPending}
+          data-testid="input-goal-target-amount"
+        />
+        {form.formState.errors.targetAmount && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.targetAmount.message}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="targetDate">Target Date (optional)</Label>
+        <Input
+          id="targetDate"
+          type="date"
+          {...form.register("targetDate")}
+          disabled={isPending}
+          data-testid="input-goal-target-date"
+        />
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending}
+        data-testid="button-submit-goal"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {goal ? "Updating..." : "Creating..."}
+          </>
+        ) : (
+          goal ? "Update Goal" : "Create Goal"
+        )}
+      </Button>
+    </form>
+  );
+}
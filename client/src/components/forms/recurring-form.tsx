@@ -0,0 +1,480 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { insertRecurringTransactionSchema, type Account, type RecurringTransaction } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { z } from "zod";
+
+const recurringFormSchema = insertRecurringTransactionSchema.extend({
+  amount: z.number({ invalid_type_error: "Amount is required." }).positive("Amount must be greater than 0."),
+  description: z.string().min(1, "Description is required"),
+  interval: z.number({ invalid_type_error: "Interval is required." }).int().min(1, "Interval must be at least 1"),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().nullable().optional(),
+  occurrenceLimit: z.number().int().min(1, "Must be at least 1").nullable().optional(),
+}).refine((data) => data.type === 'transfer' || !!data.categoryId, {
+  message: "Category is required",
+  path: ["categoryId"],
+});
+
+type RecurringFormData = z.infer<typeof recurringFormSchema>;
+
+type MonthlyMode = "dayOfMonth" | "nthWeekday";
+type EndMode = "never" | "onDate" | "afterCount";
+
+interface RecurringFormProps {
+  recurring?: RecurringTransaction | null;
+  onSuccess?: () => void;
+}
+
+// Radix Select cannot hold an empty value, so "no account" uses a sentinel.
+const NO_ACCOUNT = "none";
+
+const frequencyUnits: Record<RecurringFormData["frequency"], string> = {
+  daily: "day(s)",
+  weekly: "week(s)",
+  monthly: "month(s)",
+  yearly: "year(s)",
+};
+
+const weekOfMonthLabels: Record<string, string> = {
+  "1": "First",
+  "2": "Second",
+  "3": "Third",
+  "4": "Fourth",
+  "-1": "Last",
+};
+
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+const toDateInput = (date?: Date | string | null) =>
+  date ? new Date(date).toISOString().split('T')[0] : "";
+
+export function RecurringForm({ recurring, onSuccess }: RecurringFormProps) {
+  const { toast } = useToast();
+  const { getOptions } = useCategories();
+  const [monthlyMode, setMonthlyMode] = useState<MonthlyMode>(
+    recurring?.weekOfMonth != null ? "nthWeekday" : "dayOfMonth"
+  );
+  const [endMode, setEndMode] = useState<EndMode>(
+    recurring?.endDate ? "onDate" : recurring?.occurrenceLimit ? "afterCount" : "never"
+  );
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const activeAccounts = accounts?.filter(a => !a.isArchived || a.id === recurring?.accountId || a.id === recurring?.transferAccountId) || [];
+
+  const form = useForm<RecurringFormData>({
+    resolver: zodResolver(recurringFormSchema),
+    defaultValues: {
+      amount: recurring?.amount ? parseFloat(recurring.amount) : undefined,
+      description: recurring?.description || "",
+      categoryId: recurring?.categoryId ?? null,
+      type: recurring?.type || "expense",
+      accountId: recurring?.accountId ?? null,
+      transferAccountId: recurring?.transferAccountId ?? null,
+      frequency: recurring?.frequency || "monthly",
+      interval: recurring?.interval ?? 1,
+      weekOfMonth: recurring?.weekOfMonth ?? 1,
+      dayOfWeek: recurring?.dayOfWeek ?? 1,
+      startDate: toDateInput(recurring?.startDate ?? new Date()),
+      endDate: toDateInput(recurring?.endDate),
+      occurrenceLimit: recurring?.occurrenceLimit ?? null,
+      isActive: recurring?.isActive ?? true,
+    },
+  });
+
+  const type = form.watch("type");
+  const frequency = form.watch("frequency");
+
+  const toPayload = (data: RecurringFormData) => {
+    const isNthWeekday = data.frequency === 'monthly' && monthlyMode === "nthWeekday";
+    return {
+      ...data,
+      amount: String(data.amount),
+      startDate: new Date(data.startDate).toISOString(),
+      endDate: endMode === "onDate" && data.endDate ? new Date(data.endDate).toISOString() : null,
+      occurrenceLimit: endMode === "afterCount" ? data.occurrenceLimit : null,
+      weekOfMonth: isNthWeekday ? data.weekOfMonth : null,
+      dayOfWeek: isNthWeekday ? data.dayOfWeek : null,
+      categoryId: data.type === 'transfer' ? null : data.categoryId,
+      transferAccountId: data.type === 'transfer' ? data.transferAccountId : null,
+    };
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: RecurringFormData) => {
+      const response = await apiRequest("POST", "/api/recurring", toPayload(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+      toast({
+        title: "Success",
+        description: "Recurring transaction created successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create recurring transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: RecurringFormData) => {
+      const response = await apiRequest("PUT", `/api/recurring/${recurring!.id}`, toPayload(data));
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+      toast({
+        title: "Success",
+        description: "Recurring transaction updated successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update recurring transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const onSubmit = (data: RecurringFormData) => {
+    if (recurring) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="recurring-form">
+      <div className="space-y-2">
+        <Label htmlFor="description">Description</Label>
+        <Input
+          id="description"
+          placeholder="e.g. Rent"
+          {...form.register("description")}
+          disabled={isPending}
+          data-testid="input-recurring-description"
+        />
+        {form.formState.errors.description && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.description.message}
+          </p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="amount">Amount</Label>
+          <Input
+            id="amount"
+            type="number"
+            step="0.01"
+            placeholder="0.00"
+            {...form.register("amount", { valueAsNumber: true })}
+            disabled={isPending}
+            data-testid="input-recurring-amount"
+          />
+          {form.formState.errors.amount && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.amount.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="type">Type</Label>
+          <Select
+            value={type}
+            onValueChange={(value) => form.setValue("type", value as RecurringFormData["type"])}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-recurring-type">
+              <SelectValue placeholder="Select type" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="income">Income</SelectItem>
+              <SelectItem value="expense">Expense</SelectItem>
+              <SelectItem value="transfer">Transfer</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="accountId">{type === 'transfer' ? "From Account" : "Account"}</Label>
+          <Select
+            value={form.watch("accountId") ?? NO_ACCOUNT}
+            onValueChange={(value) => form.setValue("accountId", value === NO_ACCOUNT ? null : value)}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-recurring-account">
+              <SelectValue placeholder="Select account" />
+            </SelectTrigger>
+            <SelectContent>
+              {type !== 'transfer' && <SelectItem value={NO_ACCOUNT}>No account</SelectItem>}
+              {activeAccounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {type === 'transfer' ? (
+          <div className="space-y-2">
+            <Label htmlFor="transferAccountId">To Account</Label>
+            <Select
+              value={form.watch("transferAccountId") ?? undefined}
+              onValueChange={(value) => form.setValue("transferAccountId", value)}
+              disabled={isPending}
+            >
+              <SelectTrigger data-testid="select-recurring-transfer-account">
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAccounts
+                  .filter((account) => account.id !== form.watch("accountId"))
+                  .map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            <Label htmlFor="categoryId">Category</Label>
+            <Select
+              value={form.watch("categoryId") ?? undefined}
+              onValueChange={(value) => form.setValue("categoryId", value, { shouldValidate: true })}
+              disabled={isPending}
+            >
+              <SelectTrigger data-testid="select-recurring-category">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {getOptions(recurring?.categoryId).map(({ category, label, depth }) => (
+                  <SelectItem key={category.id} value={category.id} className={depth > 0 ? "pl-8" : undefined}>
+                    {depth > 0 ? category.name : label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {form.formState.errors.categoryId && (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.categoryId.message}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="interval">Repeat every</Label>
+          <div className="flex items-center space-x-2">
+            <Input
+              id="interval"
+              type="number"
+              min="1"
+              className="w-20"
+              {...form.register("interval", { valueAsNumber: true })}
+              disabled={isPending}
+              data-testid="input-recurring-interval"
+            />
+            <span className="text-sm text-muted-foreground">{frequencyUnits[frequency]}</span>
+          </div>
+          {form.formState.errors.interval && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.interval.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="frequency">Frequency</Label>
+          <Select
+            value={frequency}
+            onValueChange={(value) => form.setValue("frequency", value as RecurringFormData["frequency"])}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-recurring-frequency">
+              <SelectValue placeholder="Select frequency" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+              <SelectItem value="yearly">Yearly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {frequency === 'monthly' && (
+        <div className="space-y-2">
+          <Label>Repeat on</Label>
+          <Select
+            value={monthlyMode}
+            onValueChange={(value) => setMonthlyMode(value as MonthlyMode)}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-recurring-monthly-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="dayOfMonth">Same day of the month as the start date</SelectItem>
+              <SelectItem value="nthWeekday">A specific weekday of the month</SelectItem>
+            </SelectContent>
+          </Select>
+
+          {monthlyMode === "nthWeekday" && (
+            <div className="grid grid-cols-2 gap-4">
+              <Select
+                value={form.watch("weekOfMonth")?.toString()}
+                onValueChange={(value) => form.setValue("weekOfMonth", parseInt(value))}
+                disabled={isPending}
+              >
+                <SelectTrigger data-testid="select-recurring-week-of-month">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(weekOfMonthLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={form.watch("dayOfWeek")?.toString()}
+                onValueChange={(value) => form.setValue("dayOfWeek", parseInt(value))}
+                disabled={isPending}
+              >
+                <SelectTrigger data-testid="select-recurring-day-of-week">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {weekdays.map((day, index) => (
+                    <SelectItem key={day} value={index.toString()}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="startDate">Start Date</Label>
+          <Input
+            id="startDate"
+            type="date"
+            {...form.register("startDate")}
+            disabled={isPending}
+            data-testid="input-recurring-start-date"
+          />
+          {form.formState.errors.startDate && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.startDate.message}
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Ends</Label>
+          <Select
+            value={endMode}
+            onValueChange={(value) => setEndMode(value as EndMode)}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-recurring-end-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="never">Never</SelectItem>
+              <SelectItem value="onDate">On a date</SelectItem>
+              <SelectItem value="afterCount">After a number of times</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      {endMode === "onDate" && (
+        <div className="space-y-2">
+          <Label htmlFor="endDate">End Date</Label>
+          <Input
+            id="endDate"
+            type="date"
+            {...form.register("endDate")}
+            disabled={isPending}
+            data-testid="input-recurring-end-date"
+          />
+        </div>
+      )}
+
+      {endMode === "afterCount" && (
+        <div className="space-y-2">
+          <Label htmlFor="occurrenceLimit">Number of occurrences</Label>
+          <Input
+            id="occurrenceLimit"
+            type="number"
+            min="1"
+            {...form.register("occurrenceLimit", { valueAsNumber: true })}
+            disabled={isPending}
+            data-testid="input-recurring-occurrence-limit"
+          />
+          {form.formState.errors.occurrenceLimit && (
+            <p className="text-sm text-destructive">
+              {form.formState.errors.occurrenceLimit.message}
+            </p>
+          )}
+        </div>
+      )}
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending}
+        data-testid="button-submit-recurring"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {recurring ? "Updating..." : "Creating..."}
+          </>
+        ) : (
+          recurring ? "Update Schedule" : "Create Schedule"
+        )}
+      </Button>
+    </form>
+  );
+}
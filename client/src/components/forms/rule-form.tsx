@@ -0,0 +1,311 @@
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Plus, X } from "lucide-react";
+import {
+  insertCategorizationRuleSchema,
+  RULE_OPERATORS,
+  type Account,
+  type CategorizationRule,
+  type RuleCondition,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { z } from "zod";
+
+type RuleFormData = z.infer<typeof insertCategorizationRuleSchema>;
+
+interface RuleFormProps {
+  rule?: CategorizationRule | null;
+  defaultPriority?: number;
+  onSuccess?: () => void;
+}
+
+export const ruleFieldLabels: Record<RuleCondition["field"], string> = {
+  description: "Description",
+  amount: "Amount",
+  type: "Type",
+  accountId: "Account",
+};
+
+export const ruleOperatorLabels: Record<RuleCondition["operator"], string> = {
+  contains: "contains",
+  equals: "is",
+  startsWith: "starts with",
+  endsWith: "ends with",
+  regex: "matches regex",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+  eq: "=",
+};
+
+const emptyCondition: RuleCondition = { field: "description", operator: "contains", value: "" };
+
+export function RuleForm({ rule, defaultPriority = 0, onSuccess }: RuleFormProps) {
+  const { toast } = useToast();
+  const { getOptions } = useCategories();
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const form = useForm<RuleFormData>({
+    resolver: zodResolver(insertCategorizationRuleSchema),
+    defaultValues: {
+      name: rule?.name || "",
+      priority: rule?.priority ?? defaultPriority,
+      conditions: rule?.conditions ?? [emptyCondition],
+      categoryId: rule?.categoryId,
+      isActive: rule?.isActive ?? true,
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "conditions",
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: RuleFormData) => {
+      const response = await apiRequest("POST", "/api/rules", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      toast({
+        title: "Success",
+        description: "Rule created successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: RuleFormData) => {
+      const response = await apiRequest("PUT", `/api/rules/${rule!.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      toast({
+        title: "Success",
+        description: "Rule updated successfully",
+      });
+      onSuccess?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = createMutation.isPending || updateMutation.isPending;
+
+  const onSubmit = (data: RuleFormData) => {
+    if (rule) {
+      updateMutation.mutate(data);
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const setField = (index: number, field: RuleCondition["field"]) => {
+    form.setValue(`conditions.${index}.field`, field);
+    form.setValue(`conditions.${index}.operator`, RULE_OPERATORS[field][0]);
+    form.setValue(`conditions.${index}.value`, field === "type" ? "expense" : "");
+  };
+
+  const renderValueInput = (index: number) => {
+    const field = form.watch(`conditions.${index}.field`);
+    const value = form.watch(`conditions.${index}.value`);
+
+    if (field === "type") {
+      return (
+        <Select value={value} onValueChange={(v) => form.setValue(`conditions.${index}.value`, v)} disabled={isPending}>
+          <SelectTrigger data-testid={`select-condition-value-${index}`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="income">Income</SelectItem>
+            <SelectItem value="expense">Expense</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (field === "accountId") {
+      return (
+        <Select value={value || undefined} onValueChange={(v) => form.setValue(`conditions.${index}.value`, v)} disabled={isPending}>
+          <SelectTrigger data-testid={`select-condition-value-${index}`}>
+            <SelectValue placeholder="Select account" />
+          </SelectTrigger>
+          <SelectContent>
+            {accounts?.map((account) => (
+              <SelectItem key={account.id} value={account.id}>
+                {account.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    return (
+      <Input
+        type={field === "amount" ? "number" : "text"}
+        step={field === "amount" ? "0.01" : undefined}
+        placeholder={field === "amount" ? "0.00" : "e.g. SWIGGY"}
+        {...form.register(`conditions.${index}.value`)}
+        disabled={isPending}
+        data-testid={`input-condition-value-${index}`}
+      />
+    );
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4" data-testid="rule-form">
+      <div className="space-y-2">
+        <Label htmlFor="name">Name</Label>
+        <Input
+          id="name"
+          placeholder="e.g. Food delivery"
+          {...form.register("name")}
+          disabled={isPending}
+          data-testid="input-rule-name"
+        />
+        {form.formState.errors.name && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.name.message}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>When all of these match</Label>
+        {fields.map((item, index) => {
+          const field = form.watch(`conditions.${index}.field`);
+          const error = form.formState.errors.conditions?.[index];
+          return (
+            <div key={item.id} className="space-y-1">
+              <div className="grid grid-cols-[1fr_1fr_1.5fr_auto] gap-2">
+                <Select value={field} onValueChange={(v) => setField(index, v as RuleCondition["field"])} disabled={isPending}>
+                  <SelectTrigger data-testid={`select-condition-field-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(ruleFieldLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={form.watch(`conditions.${index}.operator`)}
+                  onValueChange={(v) => form.setValue(`conditions.${index}.operator`, v as RuleCondition["operator"])}
+                  disabled={isPending}
+                >
+                  <SelectTrigger data-testid={`select-condition-operator-${index}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RULE_OPERATORS[field].map((operator) => (
+                      <SelectItem key={operator} value={operator}>
+                        {ruleOperatorLabels[operator]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {renderValueInput(index)}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => remove(index)}
+                  disabled={isPending || fields.length === 1}
+                  data-testid={`button-remove-condition-${index}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+              {error && (
+                <p className="text-sm text-destructive">
+                  {error.value?.message || error.operator?.message || error.message}
+                </p>
+              )}
+            </div>
+          );
+        })}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => append(emptyCondition)}
+          disabled={isPending}
+          data-testid="button-add-condition"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Condition
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="categoryId">Set category to</Label>
+        <Select
+          value={form.watch("categoryId") ?? undefined}
+          onValueChange={(value) => form.setValue("categoryId", value, { shouldValidate: true })}
+          disabled={isPending}
+        >
+          <SelectTrigger data-testid="select-rule-category">
+            <SelectValue placeholder="Select category" />
+          </SelectTrigger>
+          <SelectContent>
+            {getOptions(rule?.categoryId).map(({ category, label, depth }) => (
+              <SelectItem key={category.id} value={category.id} className={depth > 0 ? "pl-8" : undefined}>
+                {depth > 0 ? category.name : label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {form.formState.errors.categoryId && (
+          <p className="text-sm text-destructive">
+            Category is required
+          </p>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        className="w-full"
+        disabled={isPending}
+        data-testid="button-submit-rule"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            {rule ? "Updating..." : "Creating..."}
+          </>
+        ) : (
+          rule ? "Update Rule" : "Create Rule"
+        )}
+      </Button>
+    </form>
+  );
+}
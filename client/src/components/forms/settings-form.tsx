@@ -0,0 +1,239 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { insertUserSettingsSchema, type CurrencyDisplay, type UserSettings } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatCurrency, useCurrency } from "@/hooks/use-currency";
+import type { DisplaySettings } from "@/hooks/use-settings";
+import { z } from "zod";
+
+const settingsFormSchema = insertUserSettingsSchema.extend({
+  budgetMonthStartDay: z.number({ invalid_type_error: "Start day is required." })
+    .int("Start day must be a whole number.")
+    .min(1, "Start day must be 1-28.")
+    .max(28, "Start day must be 1-28."),
+});
+
+type SettingsFormData = z.infer<typeof settingsFormSchema>;
+
+const currencyDisplayLabels: Record<CurrencyDisplay, string> = {
+  symbol: "Symbol",
+  narrowSymbol: "Narrow symbol",
+  code: "Currency code",
+};
+
+const LOCALES = [
+  { value: "en-IN", label: "English (India)" },
+  { value: "en-US", label: "English (United States)" },
+  { value: "en-GB", label: "English (United Kingdom)" },
+  { value: "en-AU", label: "English (Australia)" },
+  { value: "en-CA", label: "English (Canada)" },
+  { value: "en-SG", label: "English (Singapore)" },
+  { value: "hi-IN", label: "हिन्दी (भारत)" },
+  { value: "de-DE", label: "Deutsch (Deutschland)" },
+  { value: "fr-FR", label: "Français (France)" },
+  { value: "es-ES", label: "Español (España)" },
+  { value: "it-IT", label: "Italiano (Italia)" },
+  { value: "nl-NL", label: "Nederlands (Nederland)" },
+  { value: "sv-SE", label: "Svenska (Sverige)" },
+  { value: "ja-JP", label: "日本語 (日本)" },
+  { value: "zh-CN", label: "中文 (中国)" },
+];
+
+const WEEKDAYS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Falls back to the browser's own zone where the list isn't available.
+const TIME_ZONES: string[] = typeof Intl.supportedValuesOf === "function"
+  ? ["UTC", ...Intl.supportedValuesOf("timeZone").filter(zone => zone !== "UTC")]
+  : ["UTC", Intl.DateTimeFormat().resolvedOptions().timeZone];
+
+interface SettingsFormProps {
+  settings: DisplaySettings;
+}
+
+export function SettingsForm({ settings }: SettingsFormProps) {
+  const { toast } = useToast();
+  const { baseCurrency } = useCurrency();
+
+  const form = useForm<SettingsFormData>({
+    resolver: zodResolver(settingsFormSchema),
+    defaultValues: {
+      currencyDisplay: settings.currencyDisplay,
+      locale: settings.locale,
+      timeZone: settings.timeZone,
+      weekStartsOn: settings.weekStartsOn,
+      budgetMonthStartDay: settings.budgetMonthStartDay,
+    },
+  });
+
+  const locale = form.watch("locale");
+  const currencyDisplay = form.watch("currencyDisplay");
+  const timeZone = form.watch("timeZone");
+  const locales = LOCALES.some(l => l.value === locale) ? LOCALES : [{ value: locale, label: locale }, ...LOCALES];
+  const timeZones = TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES];
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: SettingsFormData) => {
+      const response = await apiRequest("PUT", "/api/user/settings", data);
+      return response.json();
+    },
+    onSuccess: (saved: UserSettings) => {
+      queryClient.setQueryData(["/api/user/settings"], saved);
+      // Month boundaries and "today" may have moved
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/spending"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics/trends"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/budgets"] });
+      toast({
+        title: "Success",
+        description: "Settings saved successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save settings",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isPending = saveMutation.isPending;
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => saveMutation.mutate(data))} className="space-y-6 max-w-xl" data-testid="settings-form">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Language & Region</Label>
+          <Select
+            value={locale}
+            onValueChange={(value) => form.setValue("locale", value, { shouldDirty: true })}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-locale">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {locales.map(({ value, label }) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Numbers and dates look like {new Date().toLocaleDateString(locale)} · {(1234567.89).toLocaleString(locale)}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Currency Symbol</Label>
+          <Select
+            value={currencyDisplay}
+            onValueChange={(value) => form.setValue("currencyDisplay", value as CurrencyDisplay, { shouldDirty: true })}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-currency-display">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(currencyDisplayLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label} ({formatCurrency(1234.5, baseCurrency, { locale, currencyDisplay: value as CurrencyDisplay })})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Time Zone</Label>
+          <Select
+            value={timeZone}
+            onValueChange={(value) => form.setValue("timeZone", value, { shouldDirty: true })}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-time-zone">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZones.map((zone) => (
+                <SelectItem key={zone} value={zone}>
+                  {zone.replace(/_/g, " ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Decides when a new day, week and month begins.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>First Day of Week</Label>
+          <Select
+            value={form.watch("weekStartsOn").toString()}
+            onValueChange={(value) => form.setValue("weekStartsOn", parseInt(value), { shouldDirty: true })}
+            disabled={isPending}
+          >
+            <SelectTrigger data-testid="select-week-starts-on">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEKDAYS.map((day, index) => (
+                <SelectItem key={day} value={index.toString()}>
+                  {day}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="budgetMonthStartDay">Budget Month Starts On Day</Label>
+        <Input
+          id="budgetMonthStartDay"
+          type="number"
+          min={1}
+          max={28}
+          className="w-24"
+          {...form.register("budgetMonthStartDay", { valueAsNumber: true })}
+          disabled={isPending}
+          data-testid="input-budget-month-start-day"
+        />
+        <p className="text-xs text-muted-foreground">
+          Budgets, alerts and monthly totals run from this day to the day before it in the next month. Use the day you're paid, e.g. 25.
+        </p>
+        {form.formState.errors.budgetMonthStartDay && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.budgetMonthStartDay.message}
+          </p>
+        )}
+      </div>
+
+      <Button
+        type="submit"
+        disabled={isPending}
+        data-testid="button-save-settings"
+      >
+        {isPending ? (
+          <>
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving...
+          </>
+        ) : (
+          "Save Settings"
+        )}
+      </Button>
+    </form>
+  );
+}
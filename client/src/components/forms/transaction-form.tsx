@@ -1,82 +1,174 @@
-import { useForm } from "react-hook-form";
+import { useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2 } from "lucide-react";
-import { insertTransactionSchema, type Transaction } from "@shared/schema";
+import { Loader2, Plus, Split, X } from "lucide-react";
+import { insertTransactionSchema, CURRENCIES, type Account, type TransactionWithDetails } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { TagInput } from "@/components/transactions/tag-input";
+import { PendingAttachments, TransactionAttachments } from "@/components/transactions/transaction-attachments";
+import { uploadAttachment } from "@/lib/attachments";
 import { z } from "zod";
 
+const splitLineSchema = z.object({
+  categoryId: z.string().min(1, "Category is required"),
+  amount: z.number({ invalid_type_error: "Amount is required." }).positive("Amount must be greater than 0."),
+  note: z.string().max(200).optional(),
+});
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// An empty `splits` list means the transaction is not split.
 const transactionFormSchema = insertTransactionSchema.extend({
   date: z.string().min(1, "Date is required"),
   amount: z.number({ invalid_type_error: "Amount is required." }).positive("Amount must be greater than 0."),
+  splits: z.array(splitLineSchema),
+  tags: z.array(z.string()).max(20, "Use at most 20 tags"),
+}).superRefine((data, ctx) => {
+  if (data.splits.length === 0 || data.type === 'transfer') return;
+  if (data.splits.length < 2) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["splits"], message: "A split needs at least two lines" });
+  } else if (data.splits.reduce((sum, line) => sum + toCents(line.amount || 0), 0) !== toCents(data.amount)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["splits"], message: "Split lines must add up to the amount" });
+  }
 });
 
 type TransactionFormData = z.infer<typeof transactionFormSchema>;
 
+// Radix Select cannot hold an empty value, so "no account" and "let the
+// rules decide" use sentinels.
+const NO_ACCOUNT = "none";
+const AUTO_CATEGORY = "auto";
+
 interface TransactionFormProps {
-  transaction?: Transaction | null;
+  transaction?: TransactionWithDetails | null;
   onSuccess?: () => void;
 }
 
-const categories = [
-  "Food",
-  "Transportation", 
-  "Entertainment",
-  "Bills",
-  "Shopping",
-  "Healthcare",
-  "Education",
-  "Travel",
-  "Groceries",
-  "Utilities",
-  "Insurance",
-  "Investment",
-  "Income",
-  "Other"
-];
-
 export function TransactionForm({ transaction, onSuccess }: TransactionFormProps) {
   const { toast } = useToast();
+  const { getOptions } = useCategories();
+  const { baseCurrency, formatAmount } = useCurrency();
+  const [pendingFiles, setPendingFiles] = useState<File[]>([]);
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const activeAccounts = accounts?.filter(a => !a.isArchived || a.id === transaction?.accountId || a.id === transaction?.transferAccountId) || [];
 
   const form = useForm<TransactionFormData>({
     resolver: zodResolver(transactionFormSchema),
     defaultValues: {
       amount: transaction?.amount ? parseFloat(transaction.amount) : undefined,
+      currency: transaction?.currency ?? baseCurrency,
       description: transaction?.description || "",
-      category: transaction?.category || "Other",
+      categoryId: transaction?.categoryId ?? null,
       type: transaction?.type || "expense",
       date: transaction?.date ? new Date(transaction.date).toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+      accountId: transaction?.accountId ?? null,
+      transferAccountId: transaction?.transferAccountId ?? null,
+      splits: transaction?.splits.map(split => ({
+        categoryId: split.categoryId,
+        amount: parseFloat(split.amount),
+        note: split.note ?? "",
+      })) ?? [],
+      tags: transaction?.tags ?? [],
+      notes: transaction?.notes ?? "",
     },
   });
 
+  const { fields: splitLines, append: appendSplitLine, remove: removeSplitLine, replace: replaceSplitLines } = useFieldArray({
+    control: form.control,
+    name: "splits",
+  });
+
+  const type = form.watch("type");
+  const isSplit = type !== 'transfer' && splitLines.length > 0;
+  const splitRemaining = (form.watch("amount") || 0) - form.watch("splits").reduce((sum, line) => sum + (line.amount || 0), 0);
+
+  // Starts with the current category and amount on the first line.
+  const startSplit = () => {
+    replaceSplitLines([
+      { categoryId: form.getValues("categoryId") ?? "", amount: form.getValues("amount") || 0, note: "" },
+      { categoryId: "", amount: 0, note: "" },
+    ]);
+    form.setValue("categoryId", null);
+  };
+
+  const cancelSplit = () => {
+    form.setValue("categoryId", form.getValues("splits.0.categoryId") || null);
+    replaceSplitLines([]);
+  };
+
+  // Amounts are always in the account's currency; only transactions without
+  // an account can pick one.
+  const selectedAccount = activeAccounts.find(a => a.id === form.watch("accountId"));
+
+  const handleAccountChange = (value: string) => {
+    const account = activeAccounts.find(a => a.id === value);
+    form.setValue("accountId", account ? account.id : null);
+    if (account) form.setValue("currency", account.currency);
+  };
+
+  const toPayload = (data: TransactionFormData) => ({
+    ...data,
+    amount: String(data.amount),
+    date: new Date(data.date).toISOString(),
+    categoryId: data.type === 'transfer' || data.splits.length > 0 ? null : data.categoryId,
+    transferAccountId: data.type === 'transfer' ? data.transferAccountId : null,
+    splits: data.type === 'transfer' ? [] : data.splits.map(line => ({
+      categoryId: line.categoryId,
+      amount: String(line.amount),
+      note: line.note?.trim() || null,
+    })),
+    notes: data.notes?.trim() || null,
+  });
+
   const createMutation = useMutation({
     mutationFn: async (data: TransactionFormData) => {
-      const response = await apiRequest("POST", "/api/transactions", {
-        ...data,
-        amount: String(data.amount),
-        date: new Date(data.date).toISOString(),
-      });
-      return response.json();
+      const response = await apiRequest("POST", "/api/transactions", toPayload(data));
+      const created: TransactionWithDetails = await response.json();
+
+      // Files can only be attached once the transaction exists, so a failed
+      // upload leaves the transaction in place
+      const failedFiles: string[] = [];
+      for (const file of pendingFiles) {
+        await uploadAttachment(created.id, file).catch(() => failedFiles.push(file.name));
+      }
+      return failedFiles;
     },
-    onSuccess: () => {
+    onSuccess: (failedFiles: string[]) => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
-      toast({
-        title: "Success",
-        description: "Transaction created successfully",
-      });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      if (failedFiles.length > 0) {
+        toast({
+          title: "Error",
+          description: `Transaction created, but ${failedFiles.join(", ")} could not be attached`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success",
+          description: "Transaction created successfully",
+        });
+      }
       onSuccess?.();
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to create transaction",
+        description: error.message || "Failed to create transaction",
         variant: "destructive",
       });
     },
@@ -84,26 +176,24 @@ export function TransactionForm({ transaction, onSuccess }: TransactionFormProps
 
   const updateMutation = useMutation({
     mutationFn: async (data: TransactionFormData) => {
-      const response = await apiRequest("PUT", `/api/transactions/${transaction!.id}`, {
-        ...data,
-        amount: String(data.amount),
-        date: new Date(data.date).toISOString(),
-      });
+      const response = await apiRequest("PUT", `/api/transactions/${transaction!.id}`, toPayload(data));
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       toast({
         title: "Success",
         description: "Transaction updated successfully",
       });
       onSuccess?.();
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Error",
-        description: "Failed to update transaction",
+        description: error.message || "Failed to update transaction",
         variant: "destructive",
       });
     },
@@ -139,16 +229,34 @@ export function TransactionForm({ transaction, onSuccess }: TransactionFormProps
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="amount">Amount (₹)</Label>
-          <Input
-            id="amount"
-            type="number"
-            step="0.01"
-            placeholder="0.00"
-            {...form.register("amount", { valueAsNumber: true })}
-            disabled={isPending}
-            data-testid="input-transaction-amount"
-          />
+          <Label htmlFor="amount">Amount</Label>
+          <div className="flex gap-2">
+            <Input
+              id="amount"
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              {...form.register("amount", { valueAsNumber: true })}
+              disabled={isPending}
+              data-testid="input-transaction-amount"
+            />
+            <Select
+              value={form.watch("currency")}
+              onValueChange={(value) => form.setValue("currency", value)}
+              disabled={isPending || !!selectedAccount}
+            >
+              <SelectTrigger className="w-24" aria-label="Currency" data-testid="select-transaction-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((currency) => (
+                  <SelectItem key={currency} value={currency}>
+                    {currency}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           {form.formState.errors.amount && (
             <p className="text-sm text-destructive">
               {form.formState.errors.amount.message}
@@ -160,7 +268,7 @@ export function TransactionForm({ transaction, onSuccess }: TransactionFormProps
           <Label htmlFor="type">Type</Label>
           <Select
             value={form.watch("type")}
-            onValueChange={(value) => form.setValue("type", value as "income" | "expense")}
+            onValueChange={(value) => form.setValue("type", value as TransactionFormData["type"])}
             disabled={isPending}
           >
             <SelectTrigger data-testid="select-transaction-type">
@@ -169,6 +277,7 @@ export function TransactionForm({ transaction, onSuccess }: TransactionFormProps
             <SelectContent>
               <SelectItem value="income">Income</SelectItem>
               <SelectItem value="expense">Expense</SelectItem>
+              <SelectItem value="transfer">Transfer</SelectItem>
             </SelectContent>
           </Select>
           {form.formState.errors.type && (
@@ -181,30 +290,82 @@ export function TransactionForm({ transaction, onSuccess }: TransactionFormProps
 
       <div className="grid grid-cols-2 gap-4">
         <div className="space-y-2">
-          <Label htmlFor="category">Category</Label>
+          <Label htmlFor="accountId">{type === 'transfer' ? "From Account" : "Account"}</Label>
           <Select
-            value={form.watch("category")}
-            onValueChange={(value) => form.setValue("category", value as any)}
+            value={form.watch("accountId") ?? NO_ACCOUNT}
+            onValueChange={handleAccountChange}
             disabled={isPending}
           >
-            <SelectTrigger data-testid="select-transaction-category">
-              <SelectValue placeholder="Select category" />
+            <SelectTrigger data-testid="select-transaction-account">
+              <SelectValue placeholder="Select account" />
             </SelectTrigger>
             <SelectContent>
-              {categories.map((category) => (
-                <SelectItem key={category} value={category}>
-                  {category}
+              {type !== 'transfer' && <SelectItem value={NO_ACCOUNT}>No account</SelectItem>}
+              {activeAccounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
                 </SelectItem>
               ))}
             </SelectContent>
           </Select>
-          {form.formState.errors.category && (
-            <p className="text-sm text-destructive">
-              {form.formState.errors.category.message}
-            </p>
-          )}
         </div>
 
+        {type === 'transfer' && (
+          <div className="space-y-2">
+            <Label htmlFor="transferAccountId">To Account</Label>
+            <Select
+              value={form.watch("transferAccountId") ?? undefined}
+              onValueChange={(value) => form.setValue("transferAccountId", value)}
+              disabled={isPending}
+            >
+              <SelectTrigger data-testid="select-transaction-transfer-account">
+                <SelectValue placeholder="Select account" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeAccounts
+                  .filter((account) => account.id !== form.watch("accountId"))
+                  .map((account) => (
+                    <SelectItem key={account.id} value={account.id}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        {type !== 'transfer' && !isSplit && (
+          <div className="space-y-2">
+            <Label htmlFor="category">Category</Label>
+            <Select
+              value={form.watch("categoryId") ?? (transaction ? undefined : AUTO_CATEGORY)}
+              onValueChange={(value) =>
+                form.setValue("categoryId", value === AUTO_CATEGORY ? null : value, { shouldValidate: true })
+              }
+              disabled={isPending}
+            >
+              <SelectTrigger data-testid="select-transaction-category">
+                <SelectValue placeholder="Select category" />
+              </SelectTrigger>
+              <SelectContent>
+                {!transaction && <SelectItem value={AUTO_CATEGORY}>Automatic (use rules)</SelectItem>}
+                {getOptions(transaction?.categoryId).map(({ category, label, depth }) => (
+                  <SelectItem key={category.id} value={category.id} className={depth > 0 ? "pl-8" : undefined}>
+                    {depth > 0 ? category.name : label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {form.formState.errors.categoryId && (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.categoryId.message}
+              </p>
+            )}
+          </div>
+        )}
+
         <div className="space-y-2">
           <Label htmlFor="date">Date</Label>
           <Input
@@ -222,6 +383,135 @@ export function TransactionForm({ transaction, onSuccess }: TransactionFormProps
         </div>
       </div>
 
+      {type !== 'transfer' && (
+        isSplit ? (
+          <div className="space-y-2 rounded-md border p-3" data-testid="split-editor">
+            <div className="flex items-center justify-between">
+              <Label>Split</Label>
+              <Button type="button" variant="ghost" size="sm" onClick={cancelSplit} disabled={isPending} data-testid="button-cancel-split">
+                Remove split
+              </Button>
+            </div>
+            {splitLines.map((line, index) => (
+              <div key={line.id} className="flex items-start gap-2" data-testid={`split-line-${index}`}>
+                <Select
+                  value={form.watch(`splits.${index}.categoryId`) || undefined}
+                  onValueChange={(value) => form.setValue(`splits.${index}.categoryId`, value, { shouldValidate: true })}
+                  disabled={isPending}
+                >
+                  <SelectTrigger className="w-40 shrink-0" data-testid={`select-split-category-${index}`}>
+                    <SelectValue placeholder="Category" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {getOptions(line.categoryId).map(({ category, label, depth }) => (
+                      <SelectItem key={category.id} value={category.id} className={depth > 0 ? "pl-8" : undefined}>
+                        {depth > 0 ? category.name : label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  placeholder="0.00"
+                  className="w-28 shrink-0"
+                  aria-label="Amount"
+                  {...form.register(`splits.${index}.amount`, { valueAsNumber: true })}
+                  disabled={isPending}
+                  data-testid={`input-split-amount-${index}`}
+                />
+                <Input
+                  placeholder="Note (optional)"
+                  {...form.register(`splits.${index}.note`)}
+                  disabled={isPending}
+                  data-testid={`input-split-note-${index}`}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeSplitLine(index)}
+                  disabled={isPending || splitLines.length <= 2}
+                  aria-label="Remove line"
+                  data-testid={`button-remove-split-${index}`}
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex items-center justify-between">
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => appendSplitLine({ categoryId: "", amount: Math.max(splitRemaining, 0), note: "" })}
+                disabled={isPending}
+                data-testid="button-add-split-line"
+              >
+                <Plus className="w-4 h-4 mr-1" />
+                Add line
+              </Button>
+              <span className={`text-sm ${toCents(splitRemaining) === 0 ? "text-muted-foreground" : "text-destructive"}`} data-testid="text-split-remaining">
+                {formatAmount(splitRemaining, form.watch("currency") ?? baseCurrency)} left to assign
+              </span>
+            </div>
+            {(form.formState.errors.splits?.message || form.formState.errors.splits?.root?.message) && (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.splits?.message || form.formState.errors.splits?.root?.message}
+              </p>
+            )}
+            {form.formState.errors.splits?.some?.(line => line?.categoryId) && (
+              <p className="text-sm text-destructive">Choose a category for every line</p>
+            )}
+          </div>
+        ) : (
+          <Button type="button" variant="outline" size="sm" onClick={startSplit} disabled={isPending} data-testid="button-split-transaction">
+            <Split className="w-4 h-4 mr-1" />
+            Split across categories
+          </Button>
+        )
+      )}
+
+      <div className="space-y-2">
+        <Label>Tags</Label>
+        <TagInput
+          value={form.watch("tags")}
+          onChange={(tags) => form.setValue("tags", tags, { shouldValidate: true })}
+          disabled={isPending}
+        />
+        {form.formState.errors.tags && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.tags.message}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="notes">Notes</Label>
+        <Textarea
+          id="notes"
+          rows={3}
+          placeholder="Anything worth remembering, e.g. who to claim this from"
+          {...form.register("notes")}
+          disabled={isPending}
+          data-testid="input-transaction-notes"
+        />
+        {form.formState.errors.notes && (
+          <p className="text-sm text-destructive">
+            {form.formState.errors.notes.message}
+          </p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Attachments</Label>
+        {transaction ? (
+          <TransactionAttachments transactionId={transaction.id} disabled={isPending} />
+        ) : (
+          <PendingAttachments files={pendingFiles} onChange={setPendingFiles} disabled={isPending} />
+        )}
+      </div>
+
       <Button 
         type="submit" 
         className="w-full" 
@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { GoalContributionForm } from "@/components/forms/goal-contribution-form";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Edit, Link2, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import type { GoalContribution } from "@shared/schema";
+
+interface GoalContributionsProps {
+  goalId: string;
+}
+
+// Deposit and withdrawal history for one goal, newest first.
+export function GoalContributions({ goalId }: GoalContributionsProps) {
+  const { formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
+  const [editingContribution, setEditingContribution] = useState<GoalContribution | null>(null);
+  const { toast } = useToast();
+
+  // Keyed under /api/goals so goal changes refresh the ledger too
+  const { data: contributions, isLoading } = useQuery<GoalContribution[]>({
+    queryKey: ["/api/goals", goalId, "contributions"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/goals/${goalId}/contributions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: "Success",
+        description: "Contribution deleted successfully",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete contribution",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleDelete = (id: string) => {
+    if (confirm("Delete this contribution?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-8 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  if (!contributions?.length) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-6" data-testid={`text-no-contributions-${goalId}`}>
+        No contributions yet.
+      </p>
+    );
+  }
+
+  return (
+    <>
+      <Table data-testid={`table-contributions-${goalId}`}>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Date</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Note</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead className="w-24" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {contributions.map((contribution) => (
+            <TableRow key={contribution.id} data-testid={`contribution-${contribution.id}`}>
+              <TableCell className="whitespace-nowrap text-muted-foreground">
+                {formatDate(contribution.date)}
+              </TableCell>
+              <TableCell>
+                <Badge variant={contribution.type === 'deposit' ? "secondary" : "outline"}>
+                  {contribution.type === 'deposit' ? "Deposit" : "Withdrawal"}
+                </Badge>
+              </TableCell>
+              <TableCell className="text-muted-foreground">
+                <span className="flex items-center gap-1">
+                  {contribution.transactionId && (
+                    <Link2 className="w-3 h-3" aria-label="Linked to a transaction" />
+                  )}
+                  {contribution.note}
+                </span>
+              </TableCell>
+              <TableCell className={`text-right font-medium whitespace-nowrap ${
+                contribution.type === 'deposit' ? 'text-success' : 'text-destructive'
+              }`}>
+                {contribution.type === 'deposit' ? '+' : '-'}{formatAmount(contribution.amount)}
+              </TableCell>
+              <TableCell>
+                <div className="flex items-center justify-end space-x-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingContribution(contribution)}
+                    data-testid={`button-edit-contribution-${contribution.id}`}
+                  >
+                    <Edit className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleDelete(contribution.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-contribution-${contribution.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!editingContribution} onOpenChange={(open) => !open && setEditingContribution(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Edit Contribution</DialogTitle>
+          </DialogHeader>
+          {editingContribution && (
+            <GoalContributionForm
+              goalId={goalId}
+              contribution={editingContribution}
+              onSuccess={() => setEditingContribution(null)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,194 @@
+import { useQuery } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCategories } from "@/hooks/use-categories";
+import { CSV_DATE_FORMATS, type Account, type CsvMapping } from "@shared/schema";
+
+interface CsvColumnMapperProps {
+  headers: string[];
+  mapping: CsvMapping;
+  onChange: (mapping: CsvMapping) => void;
+  disabled?: boolean;
+}
+
+// Radix Select cannot hold an empty value, so unmapped fields use a sentinel.
+const NONE = "none";
+
+const delimiterLabels: Record<CsvMapping["delimiter"], string> = {
+  ",": "Comma (,)",
+  ";": "Semicolon (;)",
+  "\t": "Tab",
+  "|": "Pipe (|)",
+};
+
+const columnFields: Array<{ key: keyof CsvMapping["columns"]; label: string; required?: boolean }> = [
+  { key: "date", label: "Date", required: true },
+  { key: "description", label: "Description", required: true },
+  { key: "amount", label: "Amount (signed)" },
+  { key: "debit", label: "Debit" },
+  { key: "credit", label: "Credit" },
+  { key: "category", label: "Category" },
+];
+
+export function CsvColumnMapper({ headers, mapping, onChange, disabled }: CsvColumnMapperProps) {
+  const { getOptions } = useCategories();
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const setColumn = (key: keyof CsvMapping["columns"], value: string) => {
+    onChange({
+      ...mapping,
+      columns: { ...mapping.columns, [key]: value === NONE ? null : parseInt(value) },
+    });
+  };
+
+  const columnLabel = (header: string, index: number) =>
+    mapping.hasHeader && header ? header : `Column ${index + 1}`;
+
+  return (
+    <div className="space-y-4" data-testid="csv-column-mapper">
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        {columnFields.map(({ key, label, required }) => (
+          <div key={key} className="space-y-2">
+            <Label>{label}</Label>
+            <Select
+              value={mapping.columns[key]?.toString() ?? NONE}
+              onValueChange={(value) => setColumn(key, value)}
+              disabled={disabled}
+            >
+              <SelectTrigger data-testid={`select-column-${key}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {!required && <SelectItem value={NONE}>Not mapped</SelectItem>}
+                {headers.map((header, index) => (
+                  <SelectItem key={index} value={index.toString()}>
+                    {columnLabel(header, index)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Map a signed amount column, or a debit and a credit column.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label>Date Format</Label>
+          <Select
+            value={mapping.dateFormat}
+            onValueChange={(value) => onChange({ ...mapping, dateFormat: value as CsvMapping["dateFormat"] })}
+            disabled={disabled}
+          >
+            <SelectTrigger data-testid="select-date-format">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CSV_DATE_FORMATS.map((format) => (
+                <SelectItem key={format} value={format}>
+                  {format}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Decimal Separator</Label>
+          <Select
+            value={mapping.decimalSeparator}
+            onValueChange={(value) => onChange({ ...mapping, decimalSeparator: value as CsvMapping["decimalSeparator"] })}
+            disabled={disabled}
+          >
+            <SelectTrigger data-testid="select-decimal-separator">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value=".">Dot (1,234.56)</SelectItem>
+              <SelectItem value=",">Comma (1.234,56)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Delimiter</Label>
+          <Select
+            value={mapping.delimiter}
+            onValueChange={(value) => onChange({ ...mapping, delimiter: value as CsvMapping["delimiter"] })}
+            disabled={disabled}
+          >
+            <SelectTrigger data-testid="select-delimiter">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(delimiterLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Import Into Account</Label>
+          <Select
+            value={mapping.accountId ?? NONE}
+            onValueChange={(value) => onChange({ ...mapping, accountId: value === NONE ? null : value })}
+            disabled={disabled}
+          >
+            <SelectTrigger data-testid="select-import-account">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No account</SelectItem>
+              {accounts?.filter(a => !a.isArchived).map((account) => (
+                <SelectItem key={account.id} value={account.id}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Default Category</Label>
+          <Select
+            value={mapping.defaultCategoryId ?? NONE}
+            onValueChange={(value) => onChange({ ...mapping, defaultCategoryId: value === NONE ? null : value })}
+            disabled={disabled}
+          >
+            <SelectTrigger data-testid="select-default-category">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>None</SelectItem>
+              {getOptions(mapping.defaultCategoryId).map(({ category, label, depth }) => (
+                <SelectItem key={category.id} value={category.id} className={depth > 0 ? "pl-8" : undefined}>
+                  {depth > 0 ? category.name : label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center space-x-2 pt-8">
+          <Switch
+            id="hasHeader"
+            checked={mapping.hasHeader}
+            onCheckedChange={(checked) => onChange({ ...mapping, hasHeader: checked })}
+            disabled={disabled}
+            data-testid="switch-has-header"
+          />
+          <Label htmlFor="hasHeader">First row is a header</Label>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Upload, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/hooks/use-settings";
+import { useCategories } from "@/hooks/use-categories";
+import type { Account } from "@shared/schema";
+
+interface StatementPreview {
+  format: "ofx" | "qif" | "beancount";
+  // accountId is the account the file's account is mapped to, including
+  // ones the server recognized by name
+  accounts: Array<{ key: string; name: string; accountId: string | null; transactionCount: number }>;
+  rows: Array<{
+    line: number;
+    accountKey: string;
+    payload: { date: string; description: string; amount: string; type: "income" | "expense" | "transfer" };
+    errors: string[];
+    isDuplicate: boolean;
+  }>;
+}
+
+type QifDateFormat = "MM/DD/YYYY" | "DD/MM/YYYY";
+
+interface StatementImportProps {
+  content: string;
+}
+
+// Radix Select cannot hold an empty value, so unmapped fields use a sentinel.
+const NONE = "none";
+
+const PREVIEW_LIMIT = 100;
+
+export function StatementImport({ content }: StatementImportProps) {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { formatDate } = useSettings();
+  const { getOptions } = useCategories();
+  const [accountMap, setAccountMap] = useState<Record<string, string | null>>({});
+  const [defaultCategoryId, setDefaultCategoryId] = useState<string | null>(null);
+  const [qifDateFormat, setQifDateFormat] = useState<QifDateFormat>("MM/DD/YYYY");
+  const [skipInvalid, setSkipInvalid] = useState(false);
+  const [preview, setPreview] = useState<StatementPreview | null>(null);
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const options = { content, accountMap, defaultCategoryId, qifDateFormat };
+
+  const previewMutation = useMutation({
+    mutationFn: async (data: typeof options) => {
+      const response = await apiRequest("POST", "/api/import/statement/preview", data);
+      return (await response.json()) as StatementPreview;
+    },
+    onSuccess: (data) => {
+      setPreview(data);
+      // Keep recognized accounts, without overriding the user's choices
+      setAccountMap((current) => data.accounts.reduce(
+        (map, account) => (account.key in map ? map : { ...map, [account.key]: account.accountId }),
+        current,
+      ));
+    },
+    onError: (error: any) => {
+      setPreview(null);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to read file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/import/statement", { ...options, skipInvalid });
+      return (await response.json()) as { imported: number; skipped: number; duplicates: number };
+    },
+    onSuccess: ({ imported, skipped, duplicates }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      const notes = [
+        skipped > 0 && `skipped ${skipped} invalid rows`,
+        duplicates > 0 && `${duplicates} already imported`,
+      ].filter(Boolean);
+      toast({
+        title: "Import complete",
+        description: `Imported ${imported} transactions${notes.length ? ` (${notes.join(", ")})` : ""}`,
+      });
+      setLocation("/transactions");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import transactions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Preview as soon as a new file is chosen
+  useEffect(() => {
+    setPreview(null);
+    previewMutation.mutate(options);
+  }, [content]);
+
+  const rows = preview?.rows ?? [];
+  const duplicateCount = rows.filter(row => row.isDuplicate).length;
+  const invalidCount = rows.filter(row => !row.isDuplicate && row.errors.length > 0).length;
+  const validCount = rows.length - duplicateCount - invalidCount;
+  const isPending = previewMutation.isPending || importMutation.isPending;
+  const accountName = (key: string) => preview?.accounts.find(a => a.key === key)?.name ?? key;
+
+  if (!preview) {
+    return previewMutation.isPending ? (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    ) : null;
+  }
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle>Accounts in This File</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {preview.accounts.map((statementAccount) => (
+              <div key={statementAccount.key} className="space-y-2">
+                <Label>
+                  {statementAccount.name} ({statementAccount.transactionCount} transactions)
+                </Label>
+                <Select
+                  value={accountMap[statementAccount.key] ?? NONE}
+                  onValueChange={(value) =>
+                    setAccountMap({ ...accountMap, [statementAccount.key]: value === NONE ? null : value })
+                  }
+                  disabled={isPending}
+                >
+                  <SelectTrigger data-testid={`select-statement-account-${statementAccount.key}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>No account</SelectItem>
+                    {accounts?.filter(a => !a.isArchived).map((account) => (
+                      <SelectItem key={account.id} value={account.id}>
+                        {account.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <Label>Default Category</Label>
+              <Select
+                value={defaultCategoryId ?? NONE}
+                onValueChange={(value) => setDefaultCategoryId(value === NONE ? null : value)}
+                disabled={isPending}
+              >
+                <SelectTrigger data-testid="select-statement-default-category">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>None</SelectItem>
+                  {getOptions(defaultCategoryId).map(({ category, label, depth }) => (
+                    <SelectItem key={category.id} value={category.id} className={depth > 0 ? "pl-8" : undefined}>
+                      {depth > 0 ? category.name : label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {preview.format === "qif" && (
+              <div className="space-y-2">
+                <Label>Date Format</Label>
+                <Select
+                  value={qifDateFormat}
+                  onValueChange={(value) => setQifDateFormat(value as QifDateFormat)}
+                  disabled={isPending}
+                >
+                  <SelectTrigger data-testid="select-qif-date-format">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="MM/DD/YYYY">Month first (MM/DD/YYYY)</SelectItem>
+                    <SelectItem value="DD/MM/YYYY">Day first (DD/MM/YYYY)</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <Button
+            variant="outline"
+            onClick={() => previewMutation.mutate(options)}
+            disabled={isPending}
+            data-testid="button-refresh-statement-preview"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Update Preview
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle>Preview</CardTitle>
+            <div className="flex items-center space-x-2">
+              <Badge variant="secondary" data-testid="text-statement-valid-count">{validCount} ready</Badge>
+              {duplicateCount > 0 && <Badge variant="outline">{duplicateCount} already imported</Badge>}
+              {invalidCount > 0 && <Badge variant="destructive">{invalidCount} with errors</Badge>}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Account</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead>Description</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                <TableRow
+                  key={row.line}
+                  className={row.isDuplicate ? "opacity-60" : undefined}
+                  data-testid={`statement-row-${row.line}`}
+                >
+                  <TableCell>{accountName(row.accountKey)}</TableCell>
+                  <TableCell>
+                    {row.errors.length === 0
+                      ? formatDate(row.payload.date)
+                      : row.payload.date}
+                  </TableCell>
+                  <TableCell>{row.payload.description}</TableCell>
+                  <TableCell className="capitalize">{row.payload.type}</TableCell>
+                  <TableCell className="text-right">
+                    {row.payload.amount && parseFloat(row.payload.amount).toLocaleString()}
+                  </TableCell>
+                  <TableCell>
+                    {row.isDuplicate ? (
+                      <Badge variant="outline">Already imported</Badge>
+                    ) : row.errors.length > 0 ? (
+                      <span className="text-sm text-destructive">{row.errors.join("; ")}</span>
+                    ) : (
+                      <Badge variant="outline">OK</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {rows.length > PREVIEW_LIMIT && (
+            <p className="text-sm text-muted-foreground">
+              Showing the first {PREVIEW_LIMIT} of {rows.length} rows.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            {invalidCount > 0 ? (
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="skipInvalidStatement"
+                  checked={skipInvalid}
+                  onCheckedChange={setSkipInvalid}
+                  disabled={isPending}
+                  data-testid="switch-statement-skip-invalid"
+                />
+                <Label htmlFor="skipInvalidStatement">Skip rows with errors</Label>
+              </div>
+            ) : <div />}
+            <Button
+              onClick={() => importMutation.mutate()}
+              disabled={isPending || validCount === 0 || (invalidCount > 0 && !skipInvalid)}
+              data-testid="button-import-statement"
+            >
+              {importMutation.isPending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="w-4 h-4 mr-2" />
+              )}
+              Import {validCount} Transactions
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
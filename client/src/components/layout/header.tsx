@@ -60,7 +60,7 @@ export function Header({ title, subtitle, action }: HeaderProps) {
                   Add Transaction
                 </Button>
               </DialogTrigger>
-              <DialogContent className="max-w-md">
+              <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
                 <DialogHeader>
                   <DialogTitle>Add Transaction</DialogTitle>
                 </DialogHeader>
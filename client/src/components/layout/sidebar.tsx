@@ -8,6 +8,11 @@ import {
   BarChart3,
   Target,
   FileText,
+  Tags,
+  Repeat,
+  Upload,
+  Wand2,
+  Coins,
   Settings,
   LogOut,
 } from "lucide-react";
@@ -16,8 +21,13 @@ const navigation = [
   { name: "Dashboard", href: "/", icon: LayoutDashboard },
   { name: "Transactions", href: "/transactions", icon: CreditCard },
   { name: "Budget", href: "/budget", icon: BarChart3 },
+  { name: "Categories", href: "/categories", icon: Tags },
+  { name: "Recurring", href: "/recurring", icon: Repeat },
+  { name: "Import", href: "/import", icon: Upload },
+  { name: "Rules", href: "/rules", icon: Wand2 },
   { name: "Reports", href: "/reports", icon: FileText },
   { name: "Goals", href: "/goals", icon: Target },
+  { name: "Currencies", href: "/currencies", icon: Coins },
 ];
 
 export function Sidebar() {
@@ -80,9 +90,10 @@ export function Sidebar() {
         </div>
         <div className="flex space-x-1">
           <Button 
-            variant="ghost" 
+            variant={location === "/settings" ? "secondary" : "ghost"}
             size="sm" 
             className="flex-1"
+            onClick={() => setLocation("/settings")}
             data-testid="button-settings"
           >
             <Settings className="w-4 h-4" />
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Doughnut } from "react-chartjs-2";
+import { Chart as ChartJS, ArcElement, Tooltip, Legend } from "chart.js";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Progress } from "@/components/ui/progress";
+import { CategoryBadge } from "@/components/categories/category-badge";
+import { TransactionCategory } from "@/components/transactions/transaction-category";
+import { toTransactionSearchParams } from "@/components/transactions/transaction-filters";
+import { ExternalLink } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import { useReport, rollUpCategoryTotals, type PeriodSummary, type ReportPeriod } from "@/hooks/use-report";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import type { TransactionPage } from "@shared/schema";
+
+ChartJS.register(ArcElement, Tooltip, Legend);
+
+const DRILL_DOWN_LIMIT = 100;
+
+interface CategoryBreakdownProps {
+  period: ReportPeriod;
+}
+
+// Spending per top-level category. Selecting a category shows its
+// subcategories and the transactions behind the total.
+export function CategoryBreakdown({ period }: CategoryBreakdownProps) {
+  const { formatAmount } = useCurrency();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const { getCategory, getCategoryLabel, getCategoryTreeIds } = useCategories();
+  const { data: statement, isLoading } = useReport<PeriodSummary>("statement", period);
+
+  if (isLoading || !statement) {
+    return <Skeleton className="h-80 w-full" />;
+  }
+
+  const rows = rollUpCategoryTotals(statement.expensesByCategory, (id) => getCategory(id)?.parentId)
+    .filter(row => row.categoryId);
+  const total = rows.reduce((sum, row) => sum + row.total, 0);
+
+  const chartData = {
+    labels: rows.map(row => getCategoryLabel(row.categoryId)),
+    datasets: [{
+      data: rows.map(row => row.total),
+      backgroundColor: rows.map(row => getCategory(row.categoryId)?.color ?? "#64748b"),
+      borderWidth: 0,
+    }],
+  };
+
+  const chartOptions = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+    },
+    cutout: '60%',
+    onClick: (_event: unknown, elements: Array<{ index: number }>) => {
+      if (elements.length > 0) setSelectedId(rows[elements[0].index].categoryId);
+    },
+  };
+
+  return (
+    <>
+      <Card data-testid="card-category-breakdown">
+        <CardHeader>
+          <CardTitle>Spending by Category</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-12">No expenses in this period.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="h-72">
+                <Doughnut data={chartData} options={chartOptions} />
+              </div>
+              <div className="space-y-3">
+                {rows.map((row) => (
+                  <button
+                    key={row.categoryId}
+                    type="button"
+                    className="w-full text-left space-y-1 rounded-lg p-2 hover:bg-accent transition-colors"
+                    onClick={() => setSelectedId(row.categoryId)}
+                    data-testid={`button-drill-down-${row.categoryId}`}
+                  >
+                    <div className="flex items-center justify-between text-sm">
+                      <CategoryBadge categoryId={row.categoryId} />
+                      <span>
+                        {formatAmount(row.total)}
+                        <span className="text-muted-foreground ml-2">{((row.total / total) * 100).toFixed(1)}%</span>
+                      </span>
+                    </div>
+                    <Progress value={(row.total / total) * 100} className="h-1.5" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{getCategoryLabel(selectedId)}</DialogTitle>
+          </DialogHeader>
+          {selectedId && (
+            <CategoryDrillDown
+              categoryId={selectedId}
+              categoryIds={getCategoryTreeIds(selectedId)}
+              period={period}
+              statement={statement}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
+
+interface CategoryDrillDownProps {
+  categoryId: string;
+  categoryIds: string[];
+  period: ReportPeriod;
+  statement: PeriodSummary;
+}
+
+function CategoryDrillDown({ categoryId, categoryIds, period, statement }: CategoryDrillDownProps) {
+  const { formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
+  const [, setLocation] = useLocation();
+  const filters = {
+    ...period,
+    type: ["expense"],
+    categoryId: [categoryId],
+    tag: [],
+    sort: "amount" as const,
+    order: "desc" as const,
+  };
+
+  const query = toTransactionSearchParams({ ...filters, categoryId: categoryIds });
+  query.set("limit", String(DRILL_DOWN_LIMIT));
+
+  const { data, isLoading } = useQuery<TransactionPage>({
+    queryKey: ["/api/transactions", "drill-down", query.toString()],
+    queryFn: async () => {
+      const response = await fetch(`/api/transactions/search?${query}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch transactions");
+      return response.json();
+    },
+  });
+
+  const subcategories = statement.expensesByCategory.filter(row => row.categoryId && row.categoryId !== categoryId && categoryIds.includes(row.categoryId));
+
+  return (
+    <div className="space-y-4" data-testid={`drill-down-${categoryId}`}>
+      {subcategories.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {subcategories.map((row) => (
+            <div key={row.categoryId} className="flex items-center gap-2 border rounded-lg px-3 py-1 text-sm">
+              <CategoryBadge categoryId={row.categoryId} />
+              {formatAmount(row.total)}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-2">
+          {Array.from({ length: 5 }).map((_, i) => (
+            <Skeleton key={i} className="h-8 w-full" />
+          ))}
+        </div>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Category</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {data?.transactions.map((transaction) => {
+              // Only the lines of a split transaction that fall in this category
+              const lines = transaction.splits.filter(split => categoryIds.includes(split.categoryId));
+              const amount = lines.length > 0
+                ? lines.reduce((sum, split) => sum + parseFloat(split.amount), 0)
+                : transaction.amount;
+              return (
+                <TableRow key={transaction.id} data-testid={`drill-down-transaction-${transaction.id}`}>
+                  <TableCell className="whitespace-nowrap text-muted-foreground">
+                    {formatDate(transaction.date)}
+                  </TableCell>
+                  <TableCell className="font-medium">{transaction.description}</TableCell>
+                  <TableCell><TransactionCategory transaction={{ ...transaction, splits: lines }} /></TableCell>
+                  <TableCell className="text-right">
+                    {formatAmount(amount, transaction.currency)}
+                    {lines.length > 0 && (
+                      <span className="block text-xs text-muted-foreground">
+                        of {formatAmount(transaction.amount, transaction.currency)}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-muted-foreground">
+          {data?.nextCursor ? `Showing the ${DRILL_DOWN_LIMIT} largest transactions.` : null}
+        </p>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setLocation(`/transactions?${toTransactionSearchParams(filters)}`)}
+          data-testid="button-open-in-transactions"
+        >
+          <ExternalLink className="w-4 h-4 mr-2" />
+          Open in Transactions
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Download } from "lucide-react";
+
+export interface ExportOption {
+  label: string;
+  href: string;
+  testId: string;
+}
+
+// "Export" button listing download links; the server sends each file as an
+// attachment, so following a link saves it without leaving the page.
+export function ExportMenu({ options }: { options: ExportOption[] }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" data-testid="button-export">
+          <Download className="w-4 h-4 mr-2" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        {options.map((option) => (
+          <DropdownMenuItem key={option.href} asChild>
+            <a href={option.href} download data-testid={option.testId}>
+              {option.label}
+            </a>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
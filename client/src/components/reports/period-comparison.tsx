@@ -0,0 +1,154 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CategoryBadge } from "@/components/categories/category-badge";
+import { useCategories } from "@/hooks/use-categories";
+import { useReport, rollUpCategoryTotals, type CategoryTotal, type PeriodComparison as Comparison, type ReportPeriod } from "@/hooks/use-report";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+
+interface PeriodComparisonProps {
+  period: ReportPeriod;
+}
+
+// Change from a baseline, e.g. +12.5%. Spending going up is bad, income going
+// up is good, so the colour depends on the row's direction.
+function Change({ current, baseline, higherIsBetter }: { current: number; baseline: number; higherIsBetter: boolean }) {
+  if (baseline === 0) {
+    return <span className="text-muted-foreground">{current === 0 ? "–" : "new"}</span>;
+  }
+  const change = ((current - baseline) / Math.abs(baseline)) * 100;
+  const isGood = higherIsBetter ? change >= 0 : change <= 0;
+  return (
+    <span className={isGood ? "text-success" : "text-destructive"}>
+      {change > 0 ? "+" : ""}{change.toFixed(1)}%
+    </span>
+  );
+}
+
+export function PeriodComparison({ period }: PeriodComparisonProps) {
+  const { formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
+  const { getCategory } = useCategories();
+  const { data: comparison, isLoading } = useReport<Comparison>("comparison", period);
+
+  if (isLoading || !comparison) {
+    return <Skeleton className="h-80 w-full" />;
+  }
+
+  const { current, previous, yearAgo } = comparison;
+  const formatRange = ({ startDate, endDate }: ReportPeriod) => {
+    const options: Intl.DateTimeFormatOptions = { day: "numeric", month: "short", year: "numeric" };
+    return `${formatDate(startDate, options)} – ${formatDate(endDate, options)}`;
+  };
+  const rollUp = (totals: CategoryTotal[]) => rollUpCategoryTotals(totals, (id) => getCategory(id)?.parentId);
+
+  const renderSection = (title: string, type: "income" | "expense") => {
+    const key = type === "income" ? "incomeByCategory" : "expensesByCategory";
+    const currentRows = rollUp(current[key]);
+    const previousRows = rollUp(previous[key]);
+    const yearAgoRows = rollUp(yearAgo[key]);
+    const totalOf = (rows: typeof currentRows, categoryId: string | null) =>
+      rows.find(row => row.categoryId === categoryId)?.total ?? 0;
+
+    // Categories from any of the three periods, ordered by the current one.
+    const categoryIds: Array<string | null> = [];
+    [currentRows, previousRows, yearAgoRows].forEach((rows) => {
+      rows.forEach((row) => {
+        if (!categoryIds.includes(row.categoryId)) categoryIds.push(row.categoryId);
+      });
+    });
+
+    const higherIsBetter = type === "income";
+    const totalKey = type === "income" ? "income" : "expenses";
+
+    return (
+      <Card data-testid={`comparison-${type}`}>
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {categoryIds.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing recorded in these periods.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">This period</TableHead>
+                  <TableHead className="text-right">Previous</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                  <TableHead className="text-right">Year ago</TableHead>
+                  <TableHead className="text-right">Change</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categoryIds.map((categoryId) => {
+                  const value = totalOf(currentRows, categoryId);
+                  const previousValue = totalOf(previousRows, categoryId);
+                  const yearAgoValue = totalOf(yearAgoRows, categoryId);
+                  return (
+                    <TableRow key={categoryId ?? "uncategorized"} data-testid={`comparison-row-${type}-${categoryId ?? "uncategorized"}`}>
+                      <TableCell><CategoryBadge categoryId={categoryId} /></TableCell>
+                      <TableCell className="text-right">{formatAmount(value)}</TableCell>
+                      <TableCell className="text-right text-muted-foreground">{formatAmount(previousValue)}</TableCell>
+                      <TableCell className="text-right">
+                        <Change current={value} baseline={previousValue} higherIsBetter={higherIsBetter} />
+                      </TableCell>
+                      <TableCell className="text-right text-muted-foreground">{formatAmount(yearAgoValue)}</TableCell>
+                      <TableCell className="text-right">
+                        <Change current={value} baseline={yearAgoValue} higherIsBetter={higherIsBetter} />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">{formatAmount(current[totalKey])}</TableCell>
+                  <TableCell className="text-right">{formatAmount(previous[totalKey])}</TableCell>
+                  <TableCell className="text-right">
+                    <Change current={parseFloat(current[totalKey])} baseline={parseFloat(previous[totalKey])} higherIsBetter={higherIsBetter} />
+                  </TableCell>
+                  <TableCell className="text-right">{formatAmount(yearAgo[totalKey])}</TableCell>
+                  <TableCell className="text-right">
+                    <Change current={parseFloat(current[totalKey])} baseline={parseFloat(yearAgo[totalKey])} higherIsBetter={higherIsBetter} />
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  const net = (summary: typeof current) => parseFloat(summary.net);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {[
+          { label: "This period", summary: current, testId: "current" },
+          { label: "Previous period", summary: previous, testId: "previous" },
+          { label: "Same period last year", summary: yearAgo, testId: "year-ago" },
+        ].map(({ label, summary, testId }) => (
+          <Card key={testId}>
+            <CardContent className="p-6">
+              <p className="text-sm text-muted-foreground">{label}</p>
+              <p className="text-xs text-muted-foreground mb-2">{formatRange(summary)}</p>
+              <p className={`text-2xl font-bold ${net(summary) >= 0 ? 'text-success' : 'text-destructive'}`} data-testid={`text-comparison-net-${testId}`}>
+                {formatAmount(net(summary))}
+              </p>
+              <p className="text-xs text-muted-foreground">net</p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {renderSection("Income", "income")}
+      {renderSection("Expenses", "expense")}
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useSettings } from "@/hooks/use-settings";
+import type { ReportPeriod } from "@/hooks/use-report";
+import {
+  DEFAULT_PERIOD_SETTINGS,
+  getBudgetMonthOf,
+  getBudgetMonthPeriod,
+  getWeekStart,
+  shiftBudgetMonth,
+  todayIn,
+  type PeriodSettings,
+} from "@shared/periods";
+
+export type PeriodPreset = "thisWeek" | "thisMonth" | "lastMonth" | "last3Months" | "thisYear" | "lastYear" | "custom";
+
+const presetLabels: Record<PeriodPreset, string> = {
+  thisWeek: "This week",
+  thisMonth: "This month",
+  lastMonth: "Last month",
+  last3Months: "Last 3 months",
+  thisYear: "This year",
+  lastYear: "Last year",
+  custom: "Custom range",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const toDateString = (date: Date) => date.toISOString().split('T')[0];
+
+// Periods relative to today in the user's time zone. Months are budget
+// months, so they start on the user's budget month start day; whole-month
+// periods compare month-for-month on the comparison report.
+export function getPresetPeriod(preset: Exclude<PeriodPreset, "custom">, settings: PeriodSettings = DEFAULT_PERIOD_SETTINGS, now = new Date()): ReportPeriod {
+  const today = todayIn(settings.timeZone, now);
+  const year = today.getUTCFullYear();
+  const current = getBudgetMonthOf(today, settings.budgetMonthStartDay);
+  const monthPeriod = (months: number) => {
+    const { month, year } = shiftBudgetMonth(current, months);
+    return getBudgetMonthPeriod(month, year, settings.budgetMonthStartDay);
+  };
+  const toPeriod = (startDate: Date, endDate: Date) => ({ startDate: toDateString(startDate), endDate: toDateString(endDate) });
+
+  switch (preset) {
+    case "thisWeek": {
+      const startDate = getWeekStart(today, settings.weekStartsOn);
+      return toPeriod(startDate, new Date(startDate.getTime() + 6 * DAY_MS));
+    }
+    case "thisMonth":
+      return toPeriod(monthPeriod(0).startDate, monthPeriod(0).endDate);
+    case "lastMonth":
+      return toPeriod(monthPeriod(-1).startDate, monthPeriod(-1).endDate);
+    case "last3Months":
+      return toPeriod(monthPeriod(-2).startDate, monthPeriod(0).endDate);
+    case "thisYear":
+      return toPeriod(new Date(Date.UTC(year, 0, 1)), new Date(Date.UTC(year, 11, 31)));
+    case "lastYear":
+      return toPeriod(new Date(Date.UTC(year - 1, 0, 1)), new Date(Date.UTC(year - 1, 11, 31)));
+  }
+}
+
+interface PeriodPickerProps {
+  preset: PeriodPreset;
+  period: ReportPeriod;
+  onChange: (preset: PeriodPreset, period: ReportPeriod) => void;
+}
+
+export function PeriodPicker({ preset, period, onChange }: PeriodPickerProps) {
+  const { settings } = useSettings();
+
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid="period-picker">
+      <Select
+        value={preset}
+        onValueChange={(value) => {
+          const next = value as PeriodPreset;
+          onChange(next, next === "custom" ? period : getPresetPeriod(next, settings));
+        }}
+      >
+        <SelectTrigger className="w-40" data-testid="select-period-preset">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(presetLabels).map(([value, label]) => (
+            <SelectItem key={value} value={value}>
+              {label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {preset === "custom" && (
+        <>
+          <Input
+            type="date"
+            className="w-auto"
+            value={period.startDate}
+            max={period.endDate}
+            onChange={(e) => e.target.value && onChange("custom", { ...period, startDate: e.target.value })}
+            aria-label="Start date"
+            data-testid="input-period-start"
+          />
+          <span className="text-muted-foreground">to</span>
+          <Input
+            type="date"
+            className="w-auto"
+            value={period.endDate}
+            min={period.startDate}
+            onChange={(e) => e.target.value && onChange("custom", { ...period, endDate: e.target.value })}
+            aria-label="End date"
+            data-testid="input-period-end"
+          />
+        </>
+      )}
+    </div>
+  );
+}
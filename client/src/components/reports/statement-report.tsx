@@ -0,0 +1,114 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CategoryBadge } from "@/components/categories/category-badge";
+import { useCategories } from "@/hooks/use-categories";
+import { useReport, rollUpCategoryTotals, type CategoryTotal, type PeriodSummary, type ReportPeriod } from "@/hooks/use-report";
+import { useCurrency } from "@/hooks/use-currency";
+
+interface StatementReportProps {
+  period: ReportPeriod;
+}
+
+// Income statement: totals per top-level category for income and expenses,
+// and the net result.
+export function StatementReport({ period }: StatementReportProps) {
+  const { formatAmount } = useCurrency();
+  const { getCategory } = useCategories();
+  const { data: statement, isLoading } = useReport<PeriodSummary>("statement", period);
+
+  if (isLoading || !statement) {
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        {Array.from({ length: 3 }).map((_, i) => (
+          <Skeleton key={i} className="h-24 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const income = parseFloat(statement.income);
+  const net = parseFloat(statement.net);
+  const savingsRate = income > 0 ? (net / income) * 100 : 0;
+
+  const renderSection = (title: string, totals: CategoryTotal[], total: string, testId: string) => {
+    const rows = rollUpCategoryTotals(totals, (id) => getCategory(id)?.parentId);
+    return (
+      <Card data-testid={testId}>
+        <CardHeader>
+          <CardTitle>{title}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {rows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">Nothing recorded in this period.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Category</TableHead>
+                  <TableHead className="text-right">Transactions</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rows.map((row) => (
+                  <TableRow key={row.categoryId ?? "uncategorized"}>
+                    <TableCell><CategoryBadge categoryId={row.categoryId} /></TableCell>
+                    <TableCell className="text-right text-muted-foreground">{row.count}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+              <TableFooter>
+                <TableRow>
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatAmount(total)}</TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Income</p>
+            <p className="text-2xl font-bold text-success" data-testid="text-statement-income">{formatAmount(income)}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Expenses</p>
+            <p className="text-2xl font-bold text-destructive" data-testid="text-statement-expenses">
+              {formatAmount(statement.expenses)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Net</p>
+            <p className={`text-2xl font-bold ${net >= 0 ? 'text-success' : 'text-destructive'}`} data-testid="text-statement-net">
+              {formatAmount(net)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm text-muted-foreground">Savings Rate</p>
+            <p className="text-2xl font-bold" data-testid="text-statement-savings-rate">{savingsRate.toFixed(1)}%</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {renderSection("Income", statement.incomeByCategory, statement.income, "statement-income")}
+        {renderSection("Expenses", statement.expensesByCategory, statement.expenses, "statement-expenses")}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useLocation } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { toTransactionSearchParams } from "@/components/transactions/transaction-filters";
+import { useReport, type ReportPeriod, type TagTotal } from "@/hooks/use-report";
+import { useCurrency } from "@/hooks/use-currency";
+
+interface TagTotalsProps {
+  period: ReportPeriod;
+}
+
+export function TagTotals({ period }: TagTotalsProps) {
+  const { formatAmount } = useCurrency();
+  const [, setLocation] = useLocation();
+  const { data: totals, isLoading } = useReport<TagTotal[]>("tags", period);
+
+  const largest = totals?.length ? parseFloat(totals[0].total) : 0;
+
+  const openTag = (tag: string) => {
+    const filters = toTransactionSearchParams({
+      ...period,
+      type: ["expense"],
+      categoryId: [],
+      tag: [tag],
+      sort: "date",
+      order: "desc",
+    });
+    setLocation(`/transactions?${filters}`);
+  };
+
+  return (
+    <Card data-testid="card-tag-totals">
+      <CardHeader>
+        <CardTitle>Spending by Tag</CardTitle>
+        <CardDescription>
+          A transaction with several tags counts towards each of them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : !totals?.length ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No tagged expenses in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Tag</TableHead>
+                <TableHead className="w-1/3"></TableHead>
+                <TableHead className="text-right">Transactions</TableHead>
+                <TableHead className="text-right">Spent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {totals.map((row) => (
+                <TableRow
+                  key={row.tagId}
+                  className="cursor-pointer"
+                  onClick={() => openTag(row.tag)}
+                  data-testid={`row-tag-${row.tag}`}
+                >
+                  <TableCell>
+                    <Badge variant="outline">#{row.tag}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Progress value={largest > 0 ? (parseFloat(row.total) / largest) * 100 : 0} className="h-1.5" />
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">{row.count}</TableCell>
+                  <TableCell className="text-right">{formatAmount(row.total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,59 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useReport, type PayeeTotal, type ReportPeriod } from "@/hooks/use-report";
+import { useCurrency } from "@/hooks/use-currency";
+
+interface TopPayeesProps {
+  period: ReportPeriod;
+}
+
+export function TopPayees({ period }: TopPayeesProps) {
+  const { formatAmount } = useCurrency();
+  const { data: payees, isLoading } = useReport<PayeeTotal[]>("payees", period, { limit: "10" });
+
+  const largest = payees?.length ? parseFloat(payees[0].total) : 0;
+
+  return (
+    <Card data-testid="card-top-payees">
+      <CardHeader>
+        <CardTitle>Top Payees</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => (
+              <Skeleton key={i} className="h-8 w-full" />
+            ))}
+          </div>
+        ) : !payees?.length ? (
+          <p className="text-sm text-muted-foreground text-center py-6">No expenses in this period.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Payee</TableHead>
+                <TableHead className="w-1/3"></TableHead>
+                <TableHead className="text-right">Transactions</TableHead>
+                <TableHead className="text-right">Spent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {payees.map((payee, index) => (
+                <TableRow key={payee.payee} data-testid={`row-payee-${index}`}>
+                  <TableCell className="font-medium">{payee.payee}</TableCell>
+                  <TableCell>
+                    <Progress value={largest > 0 ? (parseFloat(payee.total) / largest) * 100 : 0} className="h-1.5" />
+                  </TableCell>
+                  <TableCell className="text-right text-muted-foreground">{payee.count}</TableCell>
+                  <TableCell className="text-right">{formatAmount(payee.total)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
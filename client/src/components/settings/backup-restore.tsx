@@ -0,0 +1,108 @@
+import { useRef, useState, type ChangeEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader2, Upload } from "lucide-react";
+import type { RestoreMode, RestoreSummary } from "@shared/backup";
+
+function describeSummary(summary: RestoreSummary) {
+  const sections = Object.values(summary);
+  const added = sections.reduce((total, section) => total + section.added, 0);
+  const skipped = sections.reduce((total, section) => total + section.skipped, 0);
+  const transactions = summary.transactions.added;
+  return `Restored ${added} records, including ${transactions} transactions` + (skipped > 0 ? `; ${skipped} you already had were skipped` : "");
+}
+
+// Download a JSON backup of all the user's data, or restore one by merging
+// it into the current data or replacing it.
+export function BackupRestore() {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+
+  const restoreMutation = useMutation({
+    mutationFn: async (file: File) => {
+      let archive: unknown;
+      try {
+        archive = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not a JSON backup`);
+      }
+      const response = await apiRequest("POST", `/api/backup/restore?mode=${mode}`, archive);
+      return (await response.json()) as { mode: RestoreMode; summary: RestoreSummary };
+    },
+    onSuccess: ({ summary }) => {
+      // Everything may have changed
+      queryClient.invalidateQueries();
+      toast({
+        title: "Success",
+        description: describeSummary(summary),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to restore backup",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (mode === "replace" && !confirm("Replace all your data with this backup? Everything not in the backup, including attachments, will be deleted.")) {
+      return;
+    }
+    restoreMutation.mutate(file);
+  };
+
+  return (
+    <div className="space-y-4 max-w-xl" data-testid="backup-restore">
+      <div>
+        <Button variant="outline" asChild data-testid="button-download-backup">
+          <a href="/api/backup" download>
+            <Download className="w-4 h-4 mr-2" />
+            Download Backup
+          </a>
+        </Button>
+        <p className="text-sm text-muted-foreground mt-2">
+          Transactions, budgets, goals, notifications and everything they use. Attachments are not included.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-2">
+          <Label htmlFor="restore-mode">Restore mode</Label>
+          <Select value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+            <SelectTrigger id="restore-mode" className="w-64" data-testid="select-restore-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="merge">Merge with my data</SelectItem>
+              <SelectItem value="replace">Replace all my data</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <input ref={inputRef} type="file" accept="application/json,.json" hidden onChange={handleFile} />
+        <Button
+          variant={mode === "replace" ? "destructive" : "default"}
+          onClick={() => inputRef.current?.click()}
+          disabled={restoreMutation.isPending}
+          data-testid="button-restore-backup"
+        >
+          {restoreMutation.isPending ? (
+            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+          ) : (
+            <Upload className="w-4 h-4 mr-2" />
+          )}
+          Restore from File
+        </Button>
+      </div>
+    </div>
+  );
+}
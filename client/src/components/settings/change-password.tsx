@@ -0,0 +1,104 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { PasswordRequirements } from "@/components/auth/password-requirements";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+// Changing the password signs out every other session.
+export function ChangePassword() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/user/password", { currentPassword, newPassword });
+      return (await response.json()) as { revoked: number };
+    },
+    onSuccess: (data) => {
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Success",
+        description: data.revoked > 0
+          ? `Password changed. ${data.revoked} other session${data.revoked === 1 ? " was" : "s were"} signed out.`
+          : "Password changed",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to change password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const mismatch = confirmPassword.length > 0 && confirmPassword !== newPassword;
+
+  return (
+    <form
+      className="space-y-4 max-w-xl"
+      onSubmit={(event) => {
+        event.preventDefault();
+        changeMutation.mutate();
+      }}
+    >
+      <div className="space-y-2">
+        <Label htmlFor="current-password">Current Password</Label>
+        <Input
+          id="current-password"
+          type="password"
+          value={currentPassword}
+          onChange={(event) => setCurrentPassword(event.target.value)}
+          autoComplete="current-password"
+          disabled={changeMutation.isPending}
+          data-testid="input-current-password"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-password">New Password</Label>
+        <Input
+          id="new-password"
+          type="password"
+          value={newPassword}
+          onChange={(event) => setNewPassword(event.target.value)}
+          autoComplete="new-password"
+          disabled={changeMutation.isPending}
+          data-testid="input-new-password"
+        />
+        <PasswordRequirements password={newPassword} personal={user ? [user.username, user.email] : []} />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="confirm-new-password">Confirm New Password</Label>
+        <Input
+          id="confirm-new-password"
+          type="password"
+          value={confirmPassword}
+          onChange={(event) => setConfirmPassword(event.target.value)}
+          autoComplete="new-password"
+          disabled={changeMutation.isPending}
+          data-testid="input-confirm-new-password"
+        />
+        {mismatch && <p className="text-sm text-destructive">Passwords don't match</p>}
+      </div>
+      <Button
+        type="submit"
+        disabled={!currentPassword || !newPassword || newPassword !== confirmPassword || changeMutation.isPending}
+        data-testid="button-change-password"
+      >
+        {changeMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+        Change Password
+      </Button>
+    </form>
+  );
+}
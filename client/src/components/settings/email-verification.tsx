@@ -0,0 +1,65 @@
+import { useMutation } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Mail } from "lucide-react";
+
+// The account's email address, whether it's verified, and a way to have
+// the verification link sent again.
+export function EmailVerification() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/email-verification");
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send the verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <div className="space-y-3 max-w-xl">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium" data-testid="text-user-email">{user.email}</span>
+        {user.emailVerifiedAt ? (
+          <Badge variant="secondary" data-testid="badge-email-verified">Verified</Badge>
+        ) : (
+          <Badge variant="outline" data-testid="badge-email-unverified">Not verified</Badge>
+        )}
+      </div>
+      {!user.emailVerifiedAt && (
+        <>
+          <p className="text-sm text-muted-foreground">
+            Follow the link we emailed you to confirm this address. It's where password reset links are sent.
+          </p>
+          <Button
+            variant="outline"
+            onClick={() => resendMutation.mutate()}
+            disabled={resendMutation.isPending}
+            data-testid="button-resend-verification"
+          >
+            {resendMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Mail className="w-4 h-4 mr-2" />}
+            Send Verification Email
+          </Button>
+        </>
+      )}
+    </div>
+  );
+}
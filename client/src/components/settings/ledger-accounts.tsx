@@ -0,0 +1,129 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { defaultAccountLedgerName, defaultCategoryLedgerName } from "@shared/ledger";
+import type { Account, LedgerAccount, LedgerAccountMapping } from "@shared/schema";
+
+interface LedgerNameInputProps {
+  label: string;
+  target: Omit<LedgerAccountMapping, "name">;
+  saved: string;
+  placeholder: string;
+  testId: string;
+}
+
+// Saves when the field loses focus; clearing it goes back to the default.
+function LedgerNameInput({ label, target, saved, placeholder, testId }: LedgerNameInputProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState(saved);
+
+  useEffect(() => setName(saved), [saved]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: string) => {
+      await apiRequest("PUT", "/api/ledger-accounts", { ...target, name: value });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ledger-accounts"] });
+      toast({
+        title: "Success",
+        description: `${label} is saved`,
+      });
+    },
+    onError: (error: any) => {
+      setName(saved);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save ledger account",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleBlur = () => {
+    const value = name.trim();
+    if (value !== saved) saveMutation.mutate(value);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-2 items-center">
+      <Label htmlFor={testId}>{label}</Label>
+      <Input
+        id={testId}
+        value={name}
+        placeholder={placeholder}
+        onChange={(event) => setName(event.target.value)}
+        onBlur={handleBlur}
+        disabled={saveMutation.isPending}
+        className="font-mono text-sm"
+        data-testid={testId}
+      />
+    </div>
+  );
+}
+
+// The account names categories and accounts go by in the Ledger, hledger
+// and Beancount exports, and that Beancount imports are matched against.
+export function LedgerAccounts() {
+  const { categories, getCategoryLabel } = useCategories();
+
+  const { data: accounts, isLoading: accountsLoading } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const { data: ledgerAccounts, isLoading } = useQuery<LedgerAccount[]>({
+    queryKey: ["/api/ledger-accounts"],
+  });
+
+  if (isLoading || accountsLoading) {
+    return (
+      <div className="space-y-4 max-w-3xl">
+        {Array.from({ length: 4 }).map((_, i) => (
+          <Skeleton key={i} className="h-10 w-full" />
+        ))}
+      </div>
+    );
+  }
+
+  const savedName = (match: (ledgerAccount: LedgerAccount) => boolean) => ledgerAccounts?.find(match)?.name ?? "";
+
+  return (
+    <div className="space-y-6 max-w-3xl">
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium">Accounts</h3>
+        {accounts?.filter(account => !account.isArchived).map((account) => (
+          <LedgerNameInput
+            key={account.id}
+            label={account.name}
+            target={{ accountId: account.id }}
+            saved={savedName(ledgerAccount => ledgerAccount.accountId === account.id)}
+            placeholder={defaultAccountLedgerName(account)}
+            testId={`input-ledger-account-${account.id}`}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <h3 className="text-sm font-medium">Categories</h3>
+        <p className="text-sm text-muted-foreground">
+          Without a name, a category is an Expenses account for spending and an Income account for income.
+        </p>
+        {categories.filter(category => !category.isArchived).map((category) => (
+          <LedgerNameInput
+            key={category.id}
+            label={getCategoryLabel(category.id)}
+            target={{ categoryId: category.id }}
+            saved={savedName(ledgerAccount => ledgerAccount.categoryId === category.id)}
+            placeholder={defaultCategoryLedgerName(categories, category.id, "Expenses")}
+            testId={`input-ledger-category-${category.id}`}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
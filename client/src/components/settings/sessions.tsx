@@ -0,0 +1,151 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, LogOut, Monitor, Smartphone } from "lucide-react";
+import type { UserSession } from "@shared/schema";
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg(e|A|iOS)?\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\/|FxiOS\//, "Firefox"],
+  [/Chrome\/|CriOS\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Android/, "Android"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/CrOS/, "ChromeOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Firefox on Windows" from a user agent, near enough to recognize a device.
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} on ${system}`;
+  return browser ?? system ?? userAgent.slice(0, 60);
+}
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobi|Android|iPhone|iPad/.test(userAgent);
+
+// Where the account is signed in. Other sessions can be signed out one at
+// a time, or all at once along with this one.
+export function ActiveSessions() {
+  const { logoutMutation } = useAuth();
+  const { settings } = useSettings();
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<UserSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const formatTime = (time: string) =>
+    new Date(time).toLocaleString(settings.locale, { dateStyle: "medium", timeStyle: "short", timeZone: settings.timeZone });
+
+  const onError = (fallback: string) => (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({
+        title: "Success",
+        description: "Session signed out",
+      });
+    },
+    onError: onError("Failed to sign out session"),
+  });
+
+  const revokeAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/sessions");
+    },
+    onSuccess: () => {
+      logoutMutation.mutate();
+    },
+    onError: onError("Failed to sign out other sessions"),
+  });
+
+  const handleRevoke = (session: UserSession) => {
+    if (confirm(`Sign out ${describeDevice(session.userAgent)}?`)) {
+      revokeMutation.mutate(session.id);
+    }
+  };
+
+  const handleRevokeAll = () => {
+    if (confirm("Sign out of every session, including this one?")) {
+      revokeAllMutation.mutate();
+    }
+  };
+
+  if (isLoading) {
+    return <Skeleton className="h-24 w-full max-w-xl" />;
+  }
+
+  return (
+    <div className="space-y-4 max-w-xl">
+      <ul className="divide-y rounded-md border" data-testid="list-sessions">
+        {sessions?.map((session) => {
+          const Icon = isMobile(session.userAgent) ? Smartphone : Monitor;
+          return (
+            <li key={session.id} className="flex items-center gap-3 p-3" data-testid={`session-${session.id}`}>
+              <Icon className="h-5 w-5 shrink-0 text-muted-foreground" />
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium truncate" title={session.userAgent ?? undefined}>
+                    {describeDevice(session.userAgent)}
+                  </span>
+                  {session.current && <Badge variant="secondary">This device</Badge>}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {[
+                    session.ip,
+                    session.lastSeenAt && `Last active ${formatTime(session.lastSeenAt)}`,
+                    session.signedInAt && `signed in ${formatTime(session.signedInAt)}`,
+                  ].filter(Boolean).join(" · ")}
+                </p>
+              </div>
+              {!session.current && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleRevoke(session)}
+                  disabled={revokeMutation.isPending}
+                  data-testid={`button-revoke-session-${session.id}`}
+                >
+                  Sign Out
+                </Button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+      <Button
+        variant="outline"
+        onClick={handleRevokeAll}
+        disabled={revokeAllMutation.isPending || logoutMutation.isPending}
+        data-testid="button-logout-everywhere"
+      >
+        {revokeAllMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <LogOut className="w-4 h-4 mr-2" />}
+        Log Out Everywhere
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,270 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Copy, KeyRound, Loader2, ShieldCheck, ShieldOff } from "lucide-react";
+import type { TwoFactorSetup, TwoFactorStatus } from "@shared/schema";
+
+function CodeInput({ value, onChange, disabled, testId }: { value: string; onChange: (value: string) => void; disabled?: boolean; testId: string }) {
+  return (
+    <InputOTP maxLength={6} value={value} onChange={onChange} disabled={disabled} data-testid={testId}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }).map((_, index) => (
+          <InputOTPSlot key={index} index={index} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+// Shown once, right after the codes are generated.
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const { toast } = useToast();
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(codes.join("\n"));
+    toast({
+      title: "Success",
+      description: "Recovery codes copied",
+    });
+  };
+
+  return (
+    <div className="space-y-3" data-testid="recovery-codes">
+      <p className="text-sm">
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app, and they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-md border p-4 font-mono text-sm max-w-sm">
+        {codes.map(code => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" onClick={handleCopy} data-testid="button-copy-recovery-codes">
+          <Copy className="w-4 h-4 mr-2" />
+          Copy
+        </Button>
+        <Button onClick={onDone} data-testid="button-recovery-codes-done">
+          I've saved them
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// Turns two-factor authentication on with an authenticator app, replaces
+// recovery codes and turns it off. Changes that weaken the account ask for
+// the password again.
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [action, setAction] = useState<"regenerate" | "disable" | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+  });
+
+  const onError = (fallback: string) => (error: any) => {
+    setCode("");
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const reset = () => {
+    setSetup(null);
+    setCode("");
+    setPassword("");
+    setAction(null);
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/2fa/setup");
+      return (await response.json()) as TwoFactorSetup;
+    },
+    onSuccess: (data) => {
+      setSetup(data);
+      setCode("");
+    },
+    onError: onError("Failed to start two-factor authentication setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/2fa/enable", { code });
+      return (await response.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      reset();
+      setRecoveryCodes(data.recoveryCodes);
+      toast({
+        title: "Success",
+        description: "Two-factor authentication is on",
+      });
+    },
+    onError: onError("Failed to turn on two-factor authentication"),
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/2fa/recovery-codes", { password });
+      return (await response.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      reset();
+      setRecoveryCodes(data.recoveryCodes);
+    },
+    onError: onError("Failed to generate recovery codes"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/2fa/disable", { password, code });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+      reset();
+      toast({
+        title: "Success",
+        description: "Two-factor authentication is off",
+      });
+    },
+    onError: onError("Failed to turn off two-factor authentication"),
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-10 w-full max-w-xl" />;
+  }
+
+  if (recoveryCodes) {
+    return <RecoveryCodes codes={recoveryCodes} onDone={() => setRecoveryCodes(null)} />;
+  }
+
+  if (setup) {
+    return (
+      <div className="space-y-4 max-w-xl" data-testid="two-factor-setup">
+        <p className="text-sm">
+          Scan this QR code with an authenticator app such as Google Authenticator, 1Password or Aegis, then enter the code it shows.
+        </p>
+        <img src={setup.qrCode} alt="QR code for your authenticator app" className="w-48 h-48 border rounded-md" data-testid="img-2fa-qr-code" />
+        <div className="space-y-1">
+          <p className="text-sm text-muted-foreground">Can't scan it? Enter this key instead:</p>
+          <code className="block font-mono text-sm break-all" data-testid="text-2fa-secret">
+            {setup.secret.match(/.{1,4}/g)?.join(" ")}
+          </code>
+        </div>
+        <div className="space-y-2">
+          <Label>Code from the app</Label>
+          <CodeInput value={code} onChange={setCode} disabled={enableMutation.isPending} testId="input-2fa-enable-code" />
+        </div>
+        <div className="flex gap-2">
+          <Button
+            onClick={() => enableMutation.mutate()}
+            disabled={code.length !== 6 || enableMutation.isPending}
+            data-testid="button-2fa-enable"
+          >
+            {enableMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Turn On
+          </Button>
+          <Button variant="outline" onClick={reset} data-testid="button-2fa-cancel-setup">
+            Cancel
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status?.enabled) {
+    return (
+      <div className="space-y-3 max-w-xl">
+        <p className="text-sm text-muted-foreground">
+          Sign in with a code from an authenticator app as well as your password.
+        </p>
+        <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-2fa-setup">
+          {setupMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+          Set Up Two-Factor Authentication
+        </Button>
+      </div>
+    );
+  }
+
+  const pending = regenerateMutation.isPending || disableMutation.isPending;
+
+  return (
+    <div className="space-y-4 max-w-xl" data-testid="two-factor-enabled">
+      <div className="flex items-center gap-2">
+        <Badge>On</Badge>
+        <span className="text-sm text-muted-foreground" data-testid="text-recovery-codes-remaining">
+          {status.recoveryCodesRemaining} of 10 recovery codes left
+        </span>
+      </div>
+
+      {action ? (
+        <form
+          className="space-y-4"
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (action === "regenerate") regenerateMutation.mutate();
+            else disableMutation.mutate();
+          }}
+        >
+          <div className="space-y-2">
+            <Label htmlFor="two-factor-password">Password</Label>
+            <Input
+              id="two-factor-password"
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              autoComplete="current-password"
+              disabled={pending}
+              data-testid="input-2fa-password"
+            />
+          </div>
+          {action === "disable" && (
+            <div className="space-y-2">
+              <Label>Code from the app</Label>
+              <CodeInput value={code} onChange={setCode} disabled={pending} testId="input-2fa-disable-code" />
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button
+              type="submit"
+              variant={action === "disable" ? "destructive" : "default"}
+              disabled={!password || (action === "disable" && code.length !== 6) || pending}
+              data-testid="button-2fa-confirm"
+            >
+              {pending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {action === "disable" ? "Turn Off" : "Generate New Codes"}
+            </Button>
+            <Button type="button" variant="outline" onClick={reset} data-testid="button-2fa-cancel">
+              Cancel
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" onClick={() => setAction("regenerate")} data-testid="button-2fa-regenerate">
+            <KeyRound className="w-4 h-4 mr-2" />
+            New Recovery Codes
+          </Button>
+          <Button variant="outline" onClick={() => setAction("disable")} data-testid="button-2fa-disable">
+            <ShieldOff className="w-4 h-4 mr-2" />
+            Turn Off
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CategoryBadge } from "@/components/categories/category-badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Copy, Check, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import type { Transaction } from "@shared/schema";
+
+interface DuplicateCandidate {
+  transactions: [Transaction, Transaction];
+  similarity: number;
+}
+
+// Lists likely duplicate pairs for review. Keeping one side merges the pair;
+// dismissing remembers that the two are distinct.
+export function DuplicateReview() {
+  const { formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
+  const { toast } = useToast();
+
+  // Keyed under /api/transactions so any transaction change refreshes it
+  const { data: candidates } = useQuery<DuplicateCandidate[]>({
+    queryKey: ["/api/transactions", "duplicates"],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update duplicates",
+      variant: "destructive",
+    });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: async (data: { keepId: string; removeId: string }) => {
+      const response = await apiRequest("POST", "/api/transactions/duplicates/merge", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Duplicate removed",
+      });
+    },
+    onError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (transactionIds: [string, string]) => {
+      await apiRequest("POST", "/api/transactions/duplicates/dismiss", { transactionIds });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions", "duplicates"] });
+    },
+    onError,
+  });
+
+  if (!candidates?.length) return null;
+
+  const isPending = mergeMutation.isPending || dismissMutation.isPending;
+
+  return (
+    <Card className="mb-6 border-warning/50" data-testid="duplicate-review">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Copy className="w-5 h-5 mr-2 text-warning" />
+          Possible Duplicates ({candidates.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {candidates.map(({ transactions: [first, second] }) => (
+          <div
+            key={`${first.id}:${second.id}`}
+            className="border rounded-lg p-3 space-y-2"
+            data-testid={`duplicate-${first.id}-${second.id}`}
+          >
+            {[first, second].map((transaction) => {
+              const other = transaction === first ? second : first;
+              return (
+                <div key={transaction.id} className="flex items-center justify-between">
+                  <div className="flex items-center space-x-3 text-sm">
+                    <span className="w-24 text-muted-foreground">
+                      {formatDate(transaction.date)}
+                    </span>
+                    <span className="font-medium">{transaction.description}</span>
+                    {transaction.type !== 'transfer' && <CategoryBadge categoryId={transaction.categoryId} />}
+                    <span>{formatAmount(transaction.amount, transaction.currency)}</span>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => mergeMutation.mutate({ keepId: transaction.id, removeId: other.id })}
+                    disabled={isPending}
+                    data-testid={`button-keep-${transaction.id}`}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Keep this
+                  </Button>
+                </div>
+              );
+            })}
+            <div className="flex justify-end">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => dismissMutation.mutate([first.id, second.id])}
+                disabled={isPending}
+                data-testid={`button-dismiss-duplicate-${first.id}-${second.id}`}
+              >
+                <X className="w-4 h-4 mr-1" />
+                Not duplicates
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
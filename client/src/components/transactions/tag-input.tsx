@@ -0,0 +1,119 @@
+import { useState, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+import { tagNameSchema, type TagWithUsage } from "@shared/schema";
+
+// The tag as the server will store it, or null if it isn't a valid tag.
+export function normalizeTag(name: string): string | null {
+  const result = tagNameSchema.safeParse(name);
+  return result.success ? result.data : null;
+}
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+// Enter or a comma adds the typed tag. Suggestions are the tags already in
+// use, most used first.
+export function TagInput({ value, onChange, disabled }: TagInputProps) {
+  const [text, setText] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const { data: tags } = useQuery<TagWithUsage[]>({
+    queryKey: ["/api/tags"],
+  });
+
+  const query = normalizeTag(text) ?? "";
+  const suggestions = (tags ?? [])
+    .filter(tag => !value.includes(tag.name) && tag.name.includes(query))
+    .slice(0, 8);
+
+  const add = (name: string) => {
+    const tag = normalizeTag(name);
+    if (tag && !value.includes(tag)) onChange([...value, tag]);
+    setText("");
+    setHighlighted(-1);
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      setIsOpen(true);
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((index) => Math.max(-1, Math.min(suggestions.length - 1, index + step)));
+    } else if (e.key === "Enter" || e.key === ",") {
+      const suggestion = isOpen ? suggestions[highlighted] : undefined;
+      if (!suggestion && !text.trim()) return;
+      e.preventDefault();
+      add(suggestion ? suggestion.name : text);
+    } else if (e.key === "Backspace" && !text && value.length > 0) {
+      onChange(value.slice(0, -1));
+    } else if (e.key === "Escape" && isOpen) {
+      e.preventDefault();
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative" data-testid="tag-input">
+      <div className="flex flex-wrap items-center gap-1 min-h-10 rounded-md border border-input bg-background px-2 py-1 focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="pr-1" data-testid={`tag-${tag}`}>
+            {tag}
+            <button
+              type="button"
+              className="ml-1 rounded-sm hover:bg-muted-foreground/20"
+              onClick={() => onChange(value.filter(t => t !== tag))}
+              disabled={disabled}
+              aria-label={`Remove ${tag}`}
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          className="flex-1 min-w-[120px] bg-transparent py-1 text-sm outline-none placeholder:text-muted-foreground"
+          placeholder={value.length === 0 ? "Add tags, e.g. reimbursable" : undefined}
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setHighlighted(-1);
+            setIsOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsOpen(true)}
+          onBlur={() => {
+            if (text.trim()) add(text);
+            setIsOpen(false);
+          }}
+          disabled={disabled}
+          aria-label="Tags"
+          data-testid="input-transaction-tags"
+        />
+      </div>
+      {isOpen && suggestions.length > 0 && (
+        <ul className="absolute z-50 mt-1 w-full rounded-md border bg-popover p-1 text-popover-foreground shadow-md" role="listbox">
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag.id}
+              role="option"
+              aria-selected={index === highlighted}
+              className={`flex cursor-pointer items-center justify-between rounded-sm px-2 py-1.5 text-sm ${index === highlighted ? "bg-accent" : "hover:bg-accent"}`}
+              // Keeps focus in the input so blur doesn't add the partial text
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => add(tag.name)}
+              data-testid={`suggestion-tag-${tag.name}`}
+            >
+              {tag.name}
+              <span className="text-xs text-muted-foreground">{tag.count}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
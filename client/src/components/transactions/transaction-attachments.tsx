@@ -0,0 +1,244 @@
+import { useRef, type ChangeEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  ATTACHMENT_ACCEPT,
+  attachmentUrl,
+  checkAttachmentFile,
+  formatFileSize,
+  thumbnailUrl,
+  uploadAttachment,
+} from "@/lib/attachments";
+import { Download, FileText, Loader2, Paperclip, Trash2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_ATTACHMENTS_PER_TRANSACTION, type Attachment } from "@shared/schema";
+
+function AttachmentIcon({ attachment, className }: { attachment: Attachment; className: string }) {
+  return attachment.hasThumbnail ? (
+    <img src={thumbnailUrl(attachment.id)} alt={attachment.fileName} className={`${className} rounded object-cover`} loading="lazy" />
+  ) : (
+    <div className={`${className} rounded bg-muted flex items-center justify-center`}>
+      <FileText className="w-4 h-4 text-muted-foreground" />
+    </div>
+  );
+}
+
+// Preview for a row in the transactions list: the first attachment, opening
+// in a new tab, with a count when there are more.
+export function AttachmentPreview({ attachments }: { attachments: Attachment[] }) {
+  if (attachments.length === 0) return null;
+  const [first] = attachments;
+  return (
+    <a
+      href={attachmentUrl(first.id)}
+      target="_blank"
+      rel="noreferrer"
+      className="relative shrink-0"
+      title={attachments.map(attachment => attachment.fileName).join("\n")}
+      data-testid={`attachment-preview-${first.transactionId}`}
+    >
+      <AttachmentIcon attachment={first} className="w-8 h-8" />
+      {attachments.length > 1 && (
+        <span className="absolute -top-1 -right-1 rounded-full bg-primary px-1 text-[10px] leading-4 text-primary-foreground">
+          {attachments.length}
+        </span>
+      )}
+    </a>
+  );
+}
+
+interface TransactionAttachmentsProps {
+  transactionId: string;
+  disabled?: boolean;
+}
+
+// Attachments of a saved transaction. Uploads and deletes apply immediately.
+export function TransactionAttachments({ transactionId, disabled }: TransactionAttachmentsProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // Keyed under /api/transactions so it refreshes with the transaction
+  const { data: attachments, isLoading } = useQuery<Attachment[]>({
+    queryKey: ["/api/transactions", transactionId, "attachments"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: async (files: File[]) => {
+      for (const file of files) {
+        await uploadAttachment(transactionId, file);
+      }
+    },
+    onSuccess: (_, files) => {
+      refresh();
+      toast({
+        title: "Success",
+        description: files.length === 1 ? "File attached successfully" : `${files.length} files attached successfully`,
+      });
+    },
+    onError: (error: any) => {
+      refresh();
+      toast({
+        title: "Error",
+        description: error.message || "Failed to upload attachment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/attachments/${id}`);
+    },
+    onSuccess: () => {
+      refresh();
+      toast({
+        title: "Success",
+        description: "Attachment deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete attachment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFiles = (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const error = files.map(checkAttachmentFile).find(Boolean);
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    if (files.length > 0) uploadMutation.mutate(files);
+  };
+
+  const isFull = (attachments?.length ?? 0) >= MAX_ATTACHMENTS_PER_TRANSACTION;
+
+  return (
+    <div className="space-y-2" data-testid="transaction-attachments">
+      {isLoading ? (
+        <Skeleton className="h-10 w-full" />
+      ) : (
+        attachments?.map((attachment) => (
+          <div key={attachment.id} className="flex items-center gap-3 rounded-md border p-2" data-testid={`attachment-${attachment.id}`}>
+            <a href={attachmentUrl(attachment.id)} target="_blank" rel="noreferrer">
+              <AttachmentIcon attachment={attachment} className="w-10 h-10" />
+            </a>
+            <div className="min-w-0 flex-1">
+              <a
+                href={attachmentUrl(attachment.id)}
+                target="_blank"
+                rel="noreferrer"
+                className="block truncate text-sm font-medium hover:underline"
+              >
+                {attachment.fileName}
+              </a>
+              <p className="text-xs text-muted-foreground">{formatFileSize(attachment.size)}</p>
+            </div>
+            <Button variant="ghost" size="sm" asChild>
+              <a href={attachmentUrl(attachment.id, true)} aria-label={`Download ${attachment.fileName}`}>
+                <Download className="w-4 h-4" />
+              </a>
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => deleteMutation.mutate(attachment.id)}
+              disabled={disabled || deleteMutation.isPending}
+              aria-label={`Delete ${attachment.fileName}`}
+              data-testid={`button-delete-attachment-${attachment.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))
+      )}
+
+      <input ref={inputRef} type="file" accept={ATTACHMENT_ACCEPT} multiple hidden onChange={handleFiles} />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || isFull || uploadMutation.isPending}
+        data-testid="button-add-attachment"
+      >
+        {uploadMutation.isPending ? (
+          <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+        ) : (
+          <Paperclip className="w-4 h-4 mr-1" />
+        )}
+        Attach receipt
+      </Button>
+    </div>
+  );
+}
+
+interface PendingAttachmentsProps {
+  files: File[];
+  onChange: (files: File[]) => void;
+  disabled?: boolean;
+}
+
+// Files picked for a transaction that hasn't been saved yet; the form
+// uploads them once it is created.
+export function PendingAttachments({ files, onChange, disabled }: PendingAttachmentsProps) {
+  const { toast } = useToast();
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = (e: ChangeEvent<HTMLInputElement>) => {
+    const picked = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    const error = picked.map(checkAttachmentFile).find(Boolean);
+    if (error) {
+      toast({ title: "Error", description: error, variant: "destructive" });
+      return;
+    }
+    onChange([...files, ...picked].slice(0, MAX_ATTACHMENTS_PER_TRANSACTION));
+  };
+
+  return (
+    <div className="space-y-2" data-testid="pending-attachments">
+      {files.map((file, index) => (
+        <div key={`${file.name}-${index}`} className="flex items-center gap-3 rounded-md border p-2 text-sm">
+          <FileText className="w-4 h-4 text-muted-foreground" />
+          <span className="min-w-0 flex-1 truncate">{file.name}</span>
+          <span className="text-xs text-muted-foreground">{formatFileSize(file.size)}</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange(files.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label={`Remove ${file.name}`}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+      <input ref={inputRef} type="file" accept={ATTACHMENT_ACCEPT} multiple hidden onChange={handleFiles} />
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => inputRef.current?.click()}
+        disabled={disabled || files.length >= MAX_ATTACHMENTS_PER_TRANSACTION}
+        data-testid="button-add-attachment"
+      >
+        <Paperclip className="w-4 h-4 mr-1" />
+        Attach receipt
+      </Button>
+    </div>
+  );
+}
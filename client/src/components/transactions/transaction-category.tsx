@@ -0,0 +1,31 @@
+import { CategoryBadge } from "@/components/categories/category-badge";
+import { useCurrency } from "@/hooks/use-currency";
+import type { Transaction, TransactionSplit } from "@shared/schema";
+
+interface TransactionCategoryProps {
+  transaction: Transaction & { splits?: TransactionSplit[] };
+  "data-testid"?: string;
+}
+
+// The transaction's category, or one badge per line of a split transaction
+// with the line's amount and note on hover.
+export function TransactionCategory({ transaction, "data-testid": testId }: TransactionCategoryProps) {
+  const { formatAmount } = useCurrency();
+
+  if (!transaction.splits?.length) {
+    return <CategoryBadge categoryId={transaction.categoryId} data-testid={testId} />;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-1" data-testid={testId}>
+      {transaction.splits.map((split) => (
+        <span
+          key={split.id}
+          title={`${formatAmount(split.amount, transaction.currency)}${split.note ? ` · ${split.note}` : ""}`}
+        >
+          <CategoryBadge categoryId={split.categoryId} />
+        </span>
+      ))}
+    </div>
+  );
+}
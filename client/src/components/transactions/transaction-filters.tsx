@@ -0,0 +1,303 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ChevronDown, Search, X } from "lucide-react";
+import { useCategories } from "@/hooks/use-categories";
+import type { TagWithUsage } from "@shared/schema";
+
+const TRANSACTION_TYPES = [
+  { value: "income", label: "Income" },
+  { value: "expense", label: "Expense" },
+  { value: "transfer", label: "Transfer" },
+];
+
+// Filters as they appear in the page's query string. Dates are yyyy-mm-dd.
+export interface TransactionFilters {
+  search?: string;
+  startDate?: string;
+  endDate?: string;
+  type: string[];
+  categoryId: string[];
+  tag: string[];
+  minAmount?: string;
+  maxAmount?: string;
+  sort: "date" | "amount";
+  order: "asc" | "desc";
+}
+
+export function parseTransactionFilters(search: string): TransactionFilters {
+  const params = new URLSearchParams(search);
+  const list = (key: string) => params.getAll(key).flatMap(v => v.split(",")).filter(Boolean);
+  return {
+    search: params.get("search") || undefined,
+    startDate: params.get("startDate") || undefined,
+    endDate: params.get("endDate") || undefined,
+    type: list("type"),
+    categoryId: list("categoryId"),
+    tag: list("tag"),
+    minAmount: params.get("minAmount") || undefined,
+    maxAmount: params.get("maxAmount") || undefined,
+    sort: params.get("sort") === "amount" ? "amount" : "date",
+    order: params.get("order") === "asc" ? "asc" : "desc",
+  };
+}
+
+// Serializes filters, leaving out empty values and the default sort.
+export function toTransactionSearchParams(filters: TransactionFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.search) params.set("search", filters.search);
+  if (filters.startDate) params.set("startDate", filters.startDate);
+  if (filters.endDate) params.set("endDate", filters.endDate);
+  if (filters.type.length) params.set("type", filters.type.join(","));
+  if (filters.categoryId.length) params.set("categoryId", filters.categoryId.join(","));
+  if (filters.tag.length) params.set("tag", filters.tag.join(","));
+  if (filters.minAmount) params.set("minAmount", filters.minAmount);
+  if (filters.maxAmount) params.set("maxAmount", filters.maxAmount);
+  if (filters.sort !== "date") params.set("sort", filters.sort);
+  if (filters.order !== "desc") params.set("order", filters.order);
+  return params;
+}
+
+interface TransactionFilterBarProps {
+  filters: TransactionFilters;
+  onChange: (patch: Partial<TransactionFilters>) => void;
+}
+
+export function TransactionFilterBar({ filters, onChange }: TransactionFilterBarProps) {
+  const { getOptions, getCategoryLabel } = useCategories();
+  const [searchText, setSearchText] = useState(filters.search ?? "");
+
+  const { data: tags } = useQuery<TagWithUsage[]>({
+    queryKey: ["/api/tags"],
+  });
+  // Tags named in the URL stay selectable even when no longer in use
+  const tagNames = Array.from(new Set([...(tags ?? []).map(tag => tag.name), ...filters.tag])).sort();
+
+  // Follow the URL when the search is cleared from a chip or by navigation
+  useEffect(() => {
+    setSearchText(filters.search ?? "");
+  }, [filters.search]);
+
+  useEffect(() => {
+    if (searchText.trim() === (filters.search ?? "")) return;
+    const timeout = setTimeout(() => onChange({ search: searchText.trim() || undefined }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  const toggle = (key: "type" | "categoryId" | "tag", value: string) => {
+    const values = filters[key];
+    onChange({ [key]: values.includes(value) ? values.filter(v => v !== value) : [...values, value] });
+  };
+
+  const commitAmount = (key: "minAmount" | "maxAmount", value: string) => {
+    const amount = value.trim();
+    if (amount !== (filters[key] ?? "")) onChange({ [key]: amount || undefined });
+  };
+
+  const chips: Array<{ key: string; label: string; onRemove: () => void }> = [];
+  if (filters.search) {
+    chips.push({ key: "search", label: `"${filters.search}"`, onRemove: () => onChange({ search: undefined }) });
+  }
+  filters.type.forEach((type) => {
+    chips.push({
+      key: `type-${type}`,
+      label: TRANSACTION_TYPES.find(t => t.value === type)?.label ?? type,
+      onRemove: () => toggle("type", type),
+    });
+  });
+  filters.categoryId.forEach((id) => {
+    chips.push({ key: `category-${id}`, label: getCategoryLabel(id), onRemove: () => toggle("categoryId", id) });
+  });
+  filters.tag.forEach((tag) => {
+    chips.push({ key: `tag-${tag}`, label: `#${tag}`, onRemove: () => toggle("tag", tag) });
+  });
+  if (filters.startDate) {
+    chips.push({ key: "startDate", label: `From ${filters.startDate}`, onRemove: () => onChange({ startDate: undefined }) });
+  }
+  if (filters.endDate) {
+    chips.push({ key: "endDate", label: `To ${filters.endDate}`, onRemove: () => onChange({ endDate: undefined }) });
+  }
+  if (filters.minAmount) {
+    chips.push({ key: "minAmount", label: `Amount ≥ ${filters.minAmount}`, onRemove: () => onChange({ minAmount: undefined }) });
+  }
+  if (filters.maxAmount) {
+    chips.push({ key: "maxAmount", label: `Amount ≤ ${filters.maxAmount}`, onRemove: () => onChange({ maxAmount: undefined }) });
+  }
+
+  return (
+    <div className="space-y-3" data-testid="transaction-filters">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="relative flex-1 min-w-[200px]">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            className="pl-9"
+            placeholder="Search descriptions"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            data-testid="input-search-transactions"
+          />
+        </div>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" data-testid="button-filter-type">
+              Type{filters.type.length > 0 && ` (${filters.type.length})`}
+              <ChevronDown className="w-4 h-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {TRANSACTION_TYPES.map(({ value, label }) => (
+              <DropdownMenuCheckboxItem
+                key={value}
+                checked={filters.type.includes(value)}
+                onCheckedChange={() => toggle("type", value)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" data-testid="button-filter-category">
+              Category{filters.categoryId.length > 0 && ` (${filters.categoryId.length})`}
+              <ChevronDown className="w-4 h-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="max-h-80 overflow-y-auto">
+            {getOptions().map(({ category, depth }) => (
+              <DropdownMenuCheckboxItem
+                key={category.id}
+                checked={filters.categoryId.includes(category.id)}
+                onCheckedChange={() => toggle("categoryId", category.id)}
+                onSelect={(e) => e.preventDefault()}
+                className={depth > 0 ? "pl-12" : undefined}
+              >
+                {category.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" data-testid="button-filter-tag">
+              Tag{filters.tag.length > 0 && ` (${filters.tag.length})`}
+              <ChevronDown className="w-4 h-4 ml-2" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent className="max-h-80 overflow-y-auto">
+            {tagNames.length === 0 ? (
+              <p className="px-2 py-1.5 text-sm text-muted-foreground">No tags yet</p>
+            ) : tagNames.map((tag) => (
+              <DropdownMenuCheckboxItem
+                key={tag}
+                checked={filters.tag.includes(tag)}
+                onCheckedChange={() => toggle("tag", tag)}
+                onSelect={(e) => e.preventDefault()}
+              >
+                {tag}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Input
+          type="date"
+          className="w-auto"
+          value={filters.startDate ?? ""}
+          onChange={(e) => onChange({ startDate: e.target.value || undefined })}
+          aria-label="From date"
+          data-testid="input-filter-start-date"
+        />
+        <Input
+          type="date"
+          className="w-auto"
+          value={filters.endDate ?? ""}
+          onChange={(e) => onChange({ endDate: e.target.value || undefined })}
+          aria-label="To date"
+          data-testid="input-filter-end-date"
+        />
+
+        {(["minAmount", "maxAmount"] as const).map((key) => (
+          <Input
+            key={`${key}-${filters[key] ?? ""}`}
+            type="number"
+            min="0"
+            step="0.01"
+            className="w-28"
+            placeholder={key === "minAmount" ? "Min amount" : "Max amount"}
+            defaultValue={filters[key]}
+            onBlur={(e) => commitAmount(key, e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+            data-testid={`input-filter-${key === "minAmount" ? "min" : "max"}-amount`}
+          />
+        ))}
+
+        <Select
+          value={`${filters.sort}-${filters.order}`}
+          onValueChange={(value) => {
+            const [sort, order] = value.split("-") as [TransactionFilters["sort"], TransactionFilters["order"]];
+            onChange({ sort, order });
+          }}
+        >
+          <SelectTrigger className="w-44" data-testid="select-sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="date-desc">Newest first</SelectItem>
+            <SelectItem value="date-asc">Oldest first</SelectItem>
+            <SelectItem value="amount-desc">Largest amount</SelectItem>
+            <SelectItem value="amount-asc">Smallest amount</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {chips.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2" data-testid="filter-chips">
+          {chips.map((chip) => (
+            <Badge key={chip.key} variant="secondary" className="pr-1" data-testid={`chip-${chip.key}`}>
+              {chip.label}
+              <button
+                type="button"
+                className="ml-1 rounded-sm hover:bg-muted-foreground/20"
+                onClick={chip.onRemove}
+                aria-label={`Remove ${chip.label}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </Badge>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({
+              search: undefined,
+              startDate: undefined,
+              endDate: undefined,
+              type: [],
+              categoryId: [],
+              tag: [],
+              minAmount: undefined,
+              maxAmount: undefined,
+            })}
+            data-testid="button-clear-filters"
+          >
+            Clear all
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
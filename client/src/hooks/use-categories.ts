@@ -0,0 +1,52 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Category } from "@shared/schema";
+
+export type CategoryOption = {
+  category: Category;
+  label: string;
+  depth: number;
+};
+
+export function useCategories() {
+  const { data: categories, isLoading } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const getCategory = (id?: string | null) => categories?.find(c => c.id === id);
+
+  const getCategoryLabel = (id?: string | null) => {
+    const category = getCategory(id);
+    if (!category) return "Uncategorized";
+    const parent = getCategory(category.parentId);
+    return parent ? `${parent.name} › ${category.name}` : category.name;
+  };
+
+  // Ids of a category and its subcategories, e.g. for budget roll-ups.
+  const getCategoryTreeIds = (id: string) => [
+    id,
+    ...(categories?.filter(c => c.parentId === id).map(c => c.id) || []),
+  ];
+
+  // Active categories for selects, each parent followed by its subcategories.
+  // `keepId` keeps an archived category listed when it is the current value.
+  const getOptions = (keepId?: string | null): CategoryOption[] => {
+    const visible = categories?.filter(c => !c.isArchived || c.id === keepId) || [];
+    return visible
+      .filter(c => !c.parentId || !visible.some(p => p.id === c.parentId))
+      .flatMap((parent) => [
+        { category: parent, label: getCategoryLabel(parent.id), depth: 0 },
+        ...visible
+          .filter(c => c.parentId === parent.id)
+          .map((child) => ({ category: child, label: getCategoryLabel(child.id), depth: 1 })),
+      ]);
+  };
+
+  return {
+    categories: categories || [],
+    isLoading,
+    getCategory,
+    getCategoryLabel,
+    getCategoryTreeIds,
+    getOptions,
+  };
+}
@@ -0,0 +1,24 @@
+import { useAuth } from "@/hooks/use-auth";
+import { useSettings } from "@/hooks/use-settings";
+import { DEFAULT_CURRENCY, type CurrencyDisplay } from "@shared/schema";
+
+export function formatCurrency(
+  amount: number | string,
+  currency: string,
+  { locale, currencyDisplay }: { locale?: string; currencyDisplay?: CurrencyDisplay } = {},
+) {
+  return new Intl.NumberFormat(locale, { style: "currency", currency, currencyDisplay }).format(Number(amount));
+}
+
+// Totals and analytics are reported in the user's base currency; single
+// transactions and accounts are shown in their own currency.
+export function useCurrency() {
+  const { user } = useAuth();
+  const { settings } = useSettings();
+  const baseCurrency = user?.baseCurrency ?? DEFAULT_CURRENCY;
+
+  return {
+    baseCurrency,
+    formatAmount: (amount: number | string, currency: string = baseCurrency) => formatCurrency(amount, currency, settings),
+  };
+}
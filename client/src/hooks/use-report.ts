@@ -0,0 +1,77 @@
+import { useQuery } from "@tanstack/react-query";
+
+// Inclusive date range as yyyy-mm-dd strings.
+export type ReportPeriod = {
+  startDate: string;
+  endDate: string;
+};
+
+export type CategoryTotal = {
+  categoryId: string | null;
+  type: "income" | "expense";
+  total: string;
+  count: number;
+};
+
+export type PeriodSummary = ReportPeriod & {
+  income: string;
+  expenses: string;
+  net: string;
+  incomeByCategory: CategoryTotal[];
+  expensesByCategory: CategoryTotal[];
+};
+
+export type PeriodComparison = {
+  current: PeriodSummary;
+  previous: PeriodSummary;
+  yearAgo: PeriodSummary;
+};
+
+export type PayeeTotal = {
+  payee: string;
+  total: string;
+  count: number;
+};
+
+export type TagTotal = {
+  tagId: string;
+  tag: string;
+  total: string;
+  count: number;
+};
+
+// Fetches one of the period-based analytics reports. Keyed under
+// /api/analytics so transaction changes that refresh analytics refresh these.
+export function useReport<T>(report: "statement" | "comparison" | "payees" | "tags", period: ReportPeriod, params: Record<string, string> = {}) {
+  const query = new URLSearchParams({ ...period, ...params }).toString();
+
+  return useQuery<T>({
+    queryKey: ["/api/analytics", report, query],
+    queryFn: async () => {
+      const response = await fetch(`/api/analytics/${report}?${query}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error(`Failed to fetch ${report} report`);
+      return response.json();
+    },
+  });
+}
+
+export type CategoryRollup = {
+  categoryId: string | null; // top-level category, or null for uncategorized
+  total: number;
+  count: number;
+};
+
+// Folds subcategory totals into their parent category, largest first.
+export function rollUpCategoryTotals(totals: CategoryTotal[], getParentId: (id: string) => string | null | undefined): CategoryRollup[] {
+  const rollups = new Map<string | null, CategoryRollup>();
+  totals.forEach((row) => {
+    const categoryId = row.categoryId ? getParentId(row.categoryId) ?? row.categoryId : null;
+    const rollup = rollups.get(categoryId) ?? { categoryId, total: 0, count: 0 };
+    rollup.total += parseFloat(row.total);
+    rollup.count += row.count;
+    rollups.set(categoryId, rollup);
+  });
+  return Array.from(rollups.values()).sort((a, b) => b.total - a.total);
+}
@@ -0,0 +1,51 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/use-auth";
+import {
+  DEFAULT_PERIOD_SETTINGS,
+  getBudgetMonthOf,
+  getBudgetMonthPeriod,
+  todayIn,
+} from "@shared/periods";
+import type { UserSettings } from "@shared/schema";
+
+export type DisplaySettings = Omit<UserSettings, "userId" | "updatedAt">;
+
+// Used until the user's settings have loaded; matches the column defaults.
+export const DEFAULT_SETTINGS: DisplaySettings = {
+  currencyDisplay: "symbol",
+  locale: "en-IN",
+  ...DEFAULT_PERIOD_SETTINGS,
+};
+
+export function useSettings() {
+  const { user } = useAuth();
+  const { data, isLoading } = useQuery<UserSettings>({
+    queryKey: ["/api/user/settings"],
+    enabled: !!user,
+  });
+
+  const settings: DisplaySettings = data ?? DEFAULT_SETTINGS;
+  const currentBudgetMonth = getBudgetMonthOf(todayIn(settings.timeZone), settings.budgetMonthStartDay);
+
+  // Stored dates are calendar dates at UTC midnight, so they are formatted in
+  // UTC whatever the user's time zone.
+  const formatDate = (date: Date | string, options: Intl.DateTimeFormatOptions = {}) =>
+    new Date(date).toLocaleDateString(settings.locale, { ...options, timeZone: "UTC" });
+
+  // "March 2026", or "25 Mar – 24 Apr" when budget months don't start on the 1st.
+  const formatBudgetMonth = (month: number, year: number) => {
+    const { startDate, endDate } = getBudgetMonthPeriod(month, year, settings.budgetMonthStartDay);
+    if (settings.budgetMonthStartDay === 1) {
+      return formatDate(startDate, { month: "long", year: "numeric" });
+    }
+    return `${formatDate(startDate, { day: "numeric", month: "short" })} – ${formatDate(endDate, { day: "numeric", month: "short", year: "numeric" })}`;
+  };
+
+  return {
+    settings,
+    isLoading,
+    currentBudgetMonth,
+    formatDate,
+    formatBudgetMonth,
+  };
+}
@@ -0,0 +1,97 @@
+import {
+  ATTACHMENT_CONTENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  type Attachment,
+  type AttachmentContentType,
+} from "@shared/schema";
+
+const THUMBNAIL_SIZE = 160; // px, longest side
+
+export const ATTACHMENT_ACCEPT = ATTACHMENT_CONTENT_TYPES.join(",");
+
+export function attachmentUrl(id: string, download = false) {
+  return `/api/attachments/${id}${download ? "?download=1" : ""}`;
+}
+
+export function thumbnailUrl(id: string) {
+  return `/api/attachments/${id}/thumbnail`;
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Checks type and size before uploading, returning an error message or null.
+export function checkAttachmentFile(file: File): string | null {
+  if (!ATTACHMENT_CONTENT_TYPES.includes(file.type as AttachmentContentType)) {
+    return `${file.name}: only JPEG, PNG, WebP and PDF files can be attached`;
+  }
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name}: files must be at most ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  return null;
+}
+
+async function throwIfFailed(response: Response) {
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.message || `Upload failed (${response.status})`);
+  }
+}
+
+// Scales an image down to a JPEG thumbnail, or resolves null when the
+// browser can't decode it.
+function createThumbnail(file: File): Promise<Blob | null> {
+  return new Promise((resolve) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      canvas.getContext("2d")?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      canvas.toBlob(resolve, "image/jpeg", 0.8);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      resolve(null);
+    };
+    image.src = url;
+  });
+}
+
+// Uploads a file to a transaction. Images also get a thumbnail; if that
+// fails the attachment is kept and shown with a file icon instead.
+export async function uploadAttachment(transactionId: string, file: File): Promise<Attachment> {
+  const response = await fetch(`/api/transactions/${transactionId}/attachments`, {
+    method: "POST",
+    headers: {
+      "Content-Type": file.type,
+      "X-File-Name": encodeURIComponent(file.name),
+    },
+    body: file,
+    credentials: "include",
+  });
+  await throwIfFailed(response);
+  const attachment: Attachment = await response.json();
+
+  if (!file.type.startsWith("image/")) return attachment;
+  try {
+    const thumbnail = await createThumbnail(file);
+    if (!thumbnail) return attachment;
+    const thumbnailResponse = await fetch(thumbnailUrl(attachment.id), {
+      method: "PUT",
+      headers: { "Content-Type": "image/jpeg" },
+      body: thumbnail,
+      credentials: "include",
+    });
+    await throwIfFailed(thumbnailResponse);
+    return await thumbnailResponse.json();
+  } catch {
+    return attachment;
+  }
+}
@@ -0,0 +1,41 @@
+import {
+  Car,
+  Film,
+  GraduationCap,
+  HeartPulse,
+  Home,
+  Plane,
+  Receipt,
+  Shield,
+  ShoppingBag,
+  ShoppingCart,
+  Tag,
+  TrendingUp,
+  Utensils,
+  Wallet,
+  Zap,
+  type LucideIcon,
+} from "lucide-react";
+
+// Icon names stored on categories, mapped to their lucide components.
+export const categoryIcons: Record<string, LucideIcon> = {
+  utensils: Utensils,
+  car: Car,
+  film: Film,
+  receipt: Receipt,
+  "shopping-bag": ShoppingBag,
+  "heart-pulse": HeartPulse,
+  "graduation-cap": GraduationCap,
+  plane: Plane,
+  "shopping-cart": ShoppingCart,
+  zap: Zap,
+  shield: Shield,
+  "trending-up": TrendingUp,
+  wallet: Wallet,
+  home: Home,
+  tag: Tag,
+};
+
+export function getCategoryIcon(icon?: string | null): LucideIcon {
+  return (icon && categoryIcons[icon]) || Tag;
+}
@@ -1,21 +1,38 @@
 import { useState } from "react";
 import { useAuth } from "@/hooks/use-auth";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { PasswordRequirements } from "@/components/auth/password-requirements";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, passwordResetRequestSchema, passwordResetSchema } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { z } from "zod";
-import { Loader2 } from "lucide-react";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
 import { useEffect } from "react";
 
-const loginSchema = insertUserSchema.pick({ username: true, password: true });
+// Usernames are only checked against the rules on registration, so
+// accounts made before them can still sign in.
+const loginSchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
 const registerSchema = insertUserSchema.extend({
-  confirmPassword: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+const newPasswordSchema = passwordResetSchema.omit({ token: true }).extend({
+  confirmPassword: z.string(),
 }).refine((data) => data.password === data.confirmPassword, {
   message: "Passwords don't match",
   path: ["confirmPassword"],
@@ -23,17 +40,378 @@ const registerSchema = insertUserSchema.extend({
 
 type LoginData = z.infer<typeof loginSchema>;
 type RegisterData = z.infer<typeof registerSchema>;
+type ForgotPasswordData = z.infer<typeof passwordResetRequestSchema>;
+type NewPasswordData = z.infer<typeof newPasswordSchema>;
+
+// Second sign-in step for accounts with two-factor authentication: a code
+// from the authenticator app, or one of the recovery codes.
+function TwoFactorStep({ onCancel }: { onCancel: () => void }) {
+  const { twoFactorMutation } = useAuth();
+  const [, setLocation] = useLocation();
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+
+  const submit = (data: { code: string } | { recoveryCode: string }) => {
+    twoFactorMutation.mutate(data, {
+      onSuccess: () => {
+        setLocation("/");
+      },
+      onError: () => {
+        setCode("");
+      },
+    });
+  };
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (useRecoveryCode) submit({ recoveryCode: recoveryCode.trim() });
+    else submit({ code });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Two-factor authentication</CardTitle>
+        <CardDescription>
+          {useRecoveryCode
+            ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+            : "Enter the 6-digit code from your authenticator app."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {useRecoveryCode ? (
+            <div className="space-y-2">
+              <Label htmlFor="login-recovery-code">Recovery code</Label>
+              <Input
+                id="login-recovery-code"
+                value={recoveryCode}
+                onChange={(event) => setRecoveryCode(event.target.value)}
+                placeholder="xxxxx-xxxxx"
+                autoComplete="off"
+                autoFocus
+                className="font-mono"
+                disabled={twoFactorMutation.isPending}
+                data-testid="input-login-recovery-code"
+              />
+            </div>
+          ) : (
+            <div className="flex justify-center">
+              <InputOTP
+                maxLength={6}
+                value={code}
+                onChange={setCode}
+                onComplete={(value: string) => submit({ code: value })}
+                autoFocus
+                disabled={twoFactorMutation.isPending}
+                data-testid="input-login-totp"
+              >
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }).map((_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={twoFactorMutation.isPending || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+            data-testid="button-verify-2fa"
+          >
+            {twoFactorMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Verifying...
+              </>
+            ) : (
+              "Verify"
+            )}
+          </Button>
+
+          <div className="flex justify-between text-sm">
+            <Button
+              type="button"
+              variant="link"
+              className="px-0"
+              onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+              data-testid="button-toggle-recovery-code"
+            >
+              {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+            </Button>
+            <Button
+              type="button"
+              variant="link"
+              className="px-0"
+              onClick={onCancel}
+              data-testid="button-cancel-2fa"
+            >
+              Back to sign in
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Asks for the account's email address and sends a reset link to it.
+function ForgotPasswordStep({ onBack }: { onBack: () => void }) {
+  const { toast } = useToast();
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  const form = useForm<ForgotPasswordData>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordData) => {
+      const response = await apiRequest("POST", "/api/password-reset", data);
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      setSentMessage(data.message);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to send the reset link",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Reset your password</CardTitle>
+        <CardDescription>
+          Enter the email address of your account and we'll send you a link to choose a new password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {sentMessage ? (
+          <p className="text-sm" data-testid="text-reset-link-sent">{sentMessage}</p>
+        ) : (
+          <form onSubmit={form.handleSubmit((data) => requestMutation.mutate(data))} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="forgot-email">Email</Label>
+              <Input
+                id="forgot-email"
+                type="email"
+                data-testid="input-forgot-email"
+                {...form.register("email")}
+                disabled={requestMutation.isPending}
+              />
+              {form.formState.errors.email && (
+                <p className="text-sm text-destructive">
+                  {form.formState.errors.email.message}
+                </p>
+              )}
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={requestMutation.isPending}
+              data-testid="button-send-reset-link"
+            >
+              {requestMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Sending...
+                </>
+              ) : (
+                "Send reset link"
+              )}
+            </Button>
+          </form>
+        )}
+
+        <Button type="button" variant="link" className="w-full" onClick={onBack} data-testid="button-back-to-login">
+          Back to sign in
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Opened from the link in a password reset email.
+function ResetPasswordStep({ token }: { token: string }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+
+  const form = useForm<NewPasswordData>({
+    resolver: zodResolver(newPasswordSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async ({ password }: NewPasswordData) => {
+      const response = await apiRequest("POST", "/api/password-reset/confirm", { token, password });
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+      setLocation("/auth");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset password",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Choose a new password</CardTitle>
+        <CardDescription>Your new password replaces the old one straight away.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reset-password">New Password</Label>
+            <Input
+              id="reset-password"
+              type="password"
+              autoComplete="new-password"
+              data-testid="input-reset-password"
+              {...form.register("password")}
+              disabled={resetMutation.isPending}
+            />
+            {form.formState.errors.password && (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.password.message}
+              </p>
+            )}
+            <PasswordRequirements password={form.watch("password")} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reset-confirmPassword">Confirm Password</Label>
+            <Input
+              id="reset-confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              data-testid="input-reset-confirmPassword"
+              {...form.register("confirmPassword")}
+              disabled={resetMutation.isPending}
+            />
+            {form.formState.errors.confirmPassword && (
+              <p className="text-sm text-destructive">
+                {form.formState.errors.confirmPassword.message}
+              </p>
+            )}
+          </div>
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={resetMutation.isPending}
+            data-testid="button-reset-password"
+          >
+            {resetMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Reset password"
+            )}
+          </Button>
+        </form>
+
+        <Button type="button" variant="link" className="w-full" onClick={() => setLocation("/auth")} data-testid="button-back-to-login">
+          Back to sign in
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Opened from the link in a verification email; confirms the address as
+// soon as it loads, whether or not the user is signed in.
+function VerifyEmailStep({ token }: { token: string }) {
+  const { user } = useAuth();
+  const [, setLocation] = useLocation();
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/email-verification/confirm", { token });
+      return (await response.json()) as { message: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  const { mutate } = verifyMutation;
+  useEffect(() => {
+    mutate();
+  }, [token, mutate]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Email verification</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {verifyMutation.isSuccess ? (
+          <p className="flex items-center gap-2 text-sm" data-testid="text-email-verified">
+            <CheckCircle2 className="h-4 w-4 text-success" />
+            {verifyMutation.data.message}
+          </p>
+        ) : verifyMutation.isError ? (
+          <p className="flex items-center gap-2 text-sm text-destructive" data-testid="text-email-verification-failed">
+            <XCircle className="h-4 w-4" />
+            {verifyMutation.error.message || "Failed to verify your email address"}
+          </p>
+        ) : (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Verifying...
+          </p>
+        )}
+
+        <Button
+          className="w-full"
+          onClick={() => setLocation(user ? "/" : "/auth")}
+          disabled={verifyMutation.isPending}
+          data-testid="button-continue"
+        >
+          {user ? "Continue to SavvyFinance" : "Sign in"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
 
 export default function AuthPage() {
   const { user, loginMutation, registerMutation } = useAuth();
   const [, setLocation] = useLocation();
+  const [step, setStep] = useState<"credentials" | "two-factor" | "forgot-password">("credentials");
+
+  // Links from account emails: /auth?reset=<token> and /auth?verify=<token>
+  const params = new URLSearchParams(useSearch());
+  const resetToken = params.get("reset");
+  const verifyToken = params.get("verify");
 
   // Redirect if already logged in
   useEffect(() => {
-    if (user) {
+    if (user && !verifyToken) {
       setLocation("/");
     }
-  }, [user, setLocation]);
+  }, [user, verifyToken, setLocation]);
 
   const loginForm = useForm<LoginData>({
     resolver: zodResolver(loginSchema),
@@ -57,8 +435,12 @@ export default function AuthPage() {
 
   const onLogin = (data: LoginData) => {
     loginMutation.mutate(data, {
-      onSuccess: () => {
-        setLocation("/");
+      onSuccess: (result) => {
+        if ("twoFactorRequired" in result) {
+          setStep("two-factor");
+        } else {
+          setLocation("/");
+        }
       },
     });
   };
@@ -72,7 +454,7 @@ export default function AuthPage() {
     });
   };
 
-  if (user) {
+  if (user && !verifyToken) {
     return null; // Keep a loading state or return null while redirecting
   }
 
@@ -91,194 +473,223 @@ export default function AuthPage() {
             <p className="text-muted-foreground">Your Smart Personal Finance Companion</p>
           </div>
 
-          <Tabs defaultValue="login" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="login" data-testid="tab-login">Login</TabsTrigger>
-              <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
-            </TabsList>
-
-            <TabsContent value="login">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Welcome back</CardTitle>
-                  <CardDescription>Sign in to your account to continue</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
-                    <div className="space-y-2">
-                      <Label htmlFor="login-username">Username</Label>
-                      <Input
-                        id="login-username"
-                        data-testid="input-login-username"
-                        {...loginForm.register("username")}
-                        disabled={loginMutation.isPending}
-                      />
-                      {loginForm.formState.errors.username && (
-                        <p className="text-sm text-destructive">
-                          {loginForm.formState.errors.username.message}
-                        </p>
-                      )}
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="login-password">Password</Label>
-                      <Input
-                        id="login-password"
-                        type="password"
-                        data-testid="input-login-password"
-                        {...loginForm.register("password")}
+          {verifyToken ? (
+            <VerifyEmailStep token={verifyToken} />
+          ) : resetToken ? (
+            <ResetPasswordStep token={resetToken} />
+          ) : step === "two-factor" ? (
+            <TwoFactorStep
+              onCancel={() => {
+                setStep("credentials");
+                loginForm.resetField("password");
+              }}
+            />
+          ) : step === "forgot-password" ? (
+            <ForgotPasswordStep onBack={() => setStep("credentials")} />
+          ) : (
+            <Tabs defaultValue="login" className="w-full">
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="login" data-testid="tab-login">Login</TabsTrigger>
+                <TabsTrigger value="register" data-testid="tab-register">Register</TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="login">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Welcome back</CardTitle>
+                    <CardDescription>Sign in to your account to continue</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={loginForm.handleSubmit(onLogin)} className="space-y-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="login-username">Username</Label>
+                        <Input
+                          id="login-username"
+                          data-testid="input-login-username"
+                          {...loginForm.register("username")}
+                          disabled={loginMutation.isPending}
+                        />
+                        {loginForm.formState.errors.username && (
+                          <p className="text-sm text-destructive">
+                            {loginForm.formState.errors.username.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="login-password">Password</Label>
+                        <Input
+                          id="login-password"
+                          type="password"
+                          data-testid="input-login-password"
+                          {...loginForm.register("password")}
+                          disabled={loginMutation.isPending}
+                        />
+                        {loginForm.formState.errors.password && (
+                          <p className="text-sm text-destructive">
+                            {loginForm.formState.errors.password.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
                         disabled={loginMutation.isPending}
-                      />
-                      {loginForm.formState.errors.password && (
-                        <p className="text-sm text-destructive">
-                          {loginForm.formState.errors.password.message}
-                        </p>
-                      )}
-                    </div>
-
-                    <Button 
-                      type="submit" 
-                      className="w-full" 
-                      disabled={loginMutation.isPending}
-                      data-testid="button-login"
-                    >
-                      {loginMutation.isPending ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Signing in...
-                        </>
-                      ) : (
-                        "Sign in"
-                      )}
-                    </Button>
-                  </form>
-                </CardContent>
-              </Card>
-            </TabsContent>
-
-            <TabsContent value="register">
-              <Card>
-                <CardHeader>
-                  <CardTitle>Create account</CardTitle>
-                  <CardDescription>Sign up to start managing your finances</CardDescription>
-                </CardHeader>
-                <CardContent>
-                  <form onSubmit={registerForm.handleSubmit(onRegister)} className="space-y-4">
-                    <div className="grid grid-cols-2 gap-4">
+                        data-testid="button-login"
+                      >
+                        {loginMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Signing in...
+                          </>
+                        ) : (
+                          "Sign in"
+                        )}
+                      </Button>
+
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="w-full"
+                        onClick={() => setStep("forgot-password")}
+                        data-testid="button-forgot-password"
+                      >
+                        Forgot password?
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+
+              <TabsContent value="register">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Create account</CardTitle>
+                    <CardDescription>Sign up to start managing your finances</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <form onSubmit={registerForm.handleSubmit(onRegister)} className="space-y-4">
+                      <div className="grid grid-cols-2 gap-4">
+                        <div className="space-y-2">
+                          <Label htmlFor="register-firstName">First Name</Label>
+                          <Input
+                            id="register-firstName"
+                            data-testid="input-register-firstName"
+                            {...registerForm.register("firstName")}
+                            disabled={registerMutation.isPending}
+                          />
+                          {registerForm.formState.errors.firstName && (
+                            <p className="text-sm text-destructive">
+                              {registerForm.formState.errors.firstName.message}
+                            </p>
+                          )}
+                        </div>
+
+                        <div className="space-y-2">
+                          <Label htmlFor="register-lastName">Last Name</Label>
+                          <Input
+                            id="register-lastName"
+                            data-testid="input-register-lastName"
+                            {...registerForm.register("lastName")}
+                            disabled={registerMutation.isPending}
+                          />
+                          {registerForm.formState.errors.lastName && (
+                            <p className="text-sm text-destructive">
+                              {registerForm.formState.errors.lastName.message}
+                            </p>
+                          )}
+                        </div>
+                      </div>
+
                       <div className="space-y-2">
-                        <Label htmlFor="register-firstName">First Name</Label>
+                        <Label htmlFor="register-username">Username</Label>
                         <Input
-                          id="register-firstName"
-                          data-testid="input-register-firstName"
-                          {...registerForm.register("firstName")}
+                          id="register-username"
+                          data-testid="input-register-username"
+                          {...registerForm.register("username")}
                           disabled={registerMutation.isPending}
                         />
-                        {registerForm.formState.errors.firstName && (
+                        {registerForm.formState.errors.username && (
                           <p className="text-sm text-destructive">
-                            {registerForm.formState.errors.firstName.message}
+                            {registerForm.formState.errors.username.message}
                           </p>
                         )}
                       </div>
 
                       <div className="space-y-2">
-                        <Label htmlFor="register-lastName">Last Name</Label>
+                        <Label htmlFor="register-email">Email</Label>
                         <Input
-                          id="register-lastName"
-                          data-testid="input-register-lastName"
-                          {...registerForm.register("lastName")}
+                          id="register-email"
+                          type="email"
+                          data-testid="input-register-email"
+                          {...registerForm.register("email")}
                           disabled={registerMutation.isPending}
                         />
-                        {registerForm.formState.errors.lastName && (
+                        {registerForm.formState.errors.email && (
                           <p className="text-sm text-destructive">
-                            {registerForm.formState.errors.lastName.message}
+                            {registerForm.formState.errors.email.message}
                           </p>
                         )}
                       </div>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="register-username">Username</Label>
-                      <Input
-                        id="register-username"
-                        data-testid="input-register-username"
-                        {...registerForm.register("username")}
-                        disabled={registerMutation.isPending}
-                      />
-                      {registerForm.formState.errors.username && (
-                        <p className="text-sm text-destructive">
-                          {registerForm.formState.errors.username.message}
-                        </p>
-                      )}
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="register-email">Email</Label>
-                      <Input
-                        id="register-email"
-                        type="email"
-                        data-testid="input-register-email"
-                        {...registerForm.register("email")}
-                        disabled={registerMutation.isPending}
-                      />
-                      {registerForm.formState.errors.email && (
-                        <p className="text-sm text-destructive">
-                          {registerForm.formState.errors.email.message}
-                        </p>
-                      )}
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="register-password">Password</Label>
-                      <Input
-                        id="register-password"
-                        type="password"
-                        data-testid="input-register-password"
-                        {...registerForm.register("password")}
-                        disabled={registerMutation.isPending}
-                      />
-                      {registerForm.formState.errors.password && (
-                        <p className="text-sm text-destructive">
-                          {registerForm.formState.errors.password.message}
-                        </p>
-                      )}
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="register-confirmPassword">Confirm Password</Label>
-                      <Input
-                        id="register-confirmPassword"
-                        type="password"
-                        data-testid="input-register-confirmPassword"
-                        {...registerForm.register("confirmPassword")}
+
+                      <div className="space-y-2">
+                        <Label htmlFor="register-password">Password</Label>
+                        <Input
+                          id="register-password"
+                          type="password"
+                          data-testid="input-register-password"
+                          {...registerForm.register("password")}
+                          disabled={registerMutation.isPending}
+                        />
+                        {registerForm.formState.errors.password && (
+                          <p className="text-sm text-destructive">
+                            {registerForm.formState.errors.password.message}
+                          </p>
+                        )}
+                        <PasswordRequirements
+                          password={registerForm.watch("password")}
+                          personal={[registerForm.watch("username"), registerForm.watch("email")]}
+                        />
+                      </div>
+
+                      <div className="space-y-2">
+                        <Label htmlFor="register-confirmPassword">Confirm Password</Label>
+                        <Input
+                          id="register-confirmPassword"
+                          type="password"
+                          data-testid="input-register-confirmPassword"
+                          {...registerForm.register("confirmPassword")}
+                          disabled={registerMutation.isPending}
+                        />
+                        {registerForm.formState.errors.confirmPassword && (
+                          <p className="text-sm text-destructive">
+                            {registerForm.formState.errors.confirmPassword.message}
+                          </p>
+                        )}
+                      </div>
+
+                      <Button 
+                        type="submit" 
+                        className="w-full" 
                         disabled={registerMutation.isPending}
-                      />
-                      {registerForm.formState.errors.confirmPassword && (
-                        <p className="text-sm text-destructive">
-                          {registerForm.formState.errors.confirmPassword.message}
-                        </p>
-                      )}
-                    </div>
-
-                    <Button 
-                      type="submit" 
-                      className="w-full" 
-                      disabled={registerMutation.isPending}
-                      data-testid="button-register"
-                    >
-                      {registerMutation.isPending ? (
-                        <>
-                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                          Creating account...
-                        </>
-                      ) : (
-                        "Create account"
-                      )}
-                    </Button>
-                  </form>
-                </CardContent>
-              </Card>
-            </TabsContent>
-          </Tabs>
+                        data-testid="button-register"
+                      >
+                        {registerMutation.isPending ? (
+                          <>
+                            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            Creating account...
+                          </>
+                        ) : (
+                          "Create account"
+                        )}
+                      </Button>
+                    </form>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          )}
         </div>
       </div>
 
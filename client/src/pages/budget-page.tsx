@@ -3,6 +3,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 import { BudgetForm } from "@/components/forms/budget-form";
+import { ExportMenu } from "@/components/reports/export-menu";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -12,18 +13,23 @@ import { queryClient } from "@/lib/queryClient";
 import { Plus, Edit, Trash2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
 import type { Budget } from "@shared/schema";
 
 export default function BudgetPage() {
+  const { formatAmount } = useCurrency();
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [editingBudget, setEditingBudget] = useState<Budget | null>(null);
   const { toast } = useToast();
+  const { getCategory, getCategoryLabel, getCategoryTreeIds } = useCategories();
 
-  const currentMonth = new Date().getMonth() + 1;
-  const currentYear = new Date().getFullYear();
+  const { currentBudgetMonth, formatBudgetMonth } = useSettings();
+  const { month: currentMonth, year: currentYear } = currentBudgetMonth;
 
   const { data: budgets, isLoading } = useQuery<Budget[]>({
-    queryKey: ["/api/budgets"],
+    queryKey: ["/api/budgets", currentMonth, currentYear],
     queryFn: async () => {
       const response = await fetch(`/api/budgets?month=${currentMonth}&year=${currentYear}`, {
         credentials: "include",
@@ -33,8 +39,8 @@ export default function BudgetPage() {
     },
   });
 
-  const { data: spendingData } = useQuery<Array<{ category: string; total: string }>>({
-    queryKey: ["/api/analytics/spending"],
+  const { data: spendingData } = useQuery<Array<{ categoryId: string; category: string; color: string; total: string }>>({
+    queryKey: ["/api/analytics/spending", currentMonth, currentYear],
     queryFn: async () => {
       const response = await fetch(`/api/analytics/spending?month=${currentMonth}&year=${currentYear}`, {
         credentials: "include",
@@ -80,30 +86,21 @@ export default function BudgetPage() {
     setEditingBudget(null);
   };
 
-  const getSpentAmount = (category: string) => {
-    const spent = spendingData?.find(s => s.category === category);
-    return spent ? parseFloat(spent.total) : 0;
+  // A parent category's budget includes spending in its subcategories.
+  const getSpentAmount = (categoryId: string) => {
+    const treeIds = getCategoryTreeIds(categoryId);
+    return spendingData
+      ?.filter(s => treeIds.includes(s.categoryId))
+      .reduce((sum, s) => sum + parseFloat(s.total), 0) || 0;
   };
 
-  const getCategoryColor = (category: string, percentage: number) => {
-    const colors: Record<string, string> = {
-      Food: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-green-500",
-      Transportation: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-blue-500",
-      Entertainment: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-green-500",
-      Bills: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-purple-500",
-      Shopping: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-yellow-500",
-      Healthcare: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-pink-500",
-      Education: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-indigo-500",
-      Travel: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-orange-500",
-      Groceries: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-lime-500",
-      Utilities: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-cyan-500",
-      Insurance: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-gray-500",
-      Investment: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-emerald-500",
-      Other: percentage >= 80 ? "bg-red-500" : percentage >= 60 ? "bg-yellow-500" : "bg-slate-500",
-    };
-    return colors[category] || colors.Other;
+  const getStatusColor = (percentage: number) => {
+    if (percentage >= 80) return "bg-red-500";
+    if (percentage >= 60) return "bg-yellow-500";
+    return undefined;
   };
 
+
   return (
     <div className="flex h-screen bg-background">
       <Sidebar />
@@ -112,32 +109,40 @@ export default function BudgetPage() {
           title="Budget" 
           subtitle="Set and track your monthly budgets"
           action={
-            <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-              <DialogTrigger asChild>
-                <Button data-testid="button-add-budget">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Budget
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-md">
-                <DialogHeader>
-                  <DialogTitle>
-                    {editingBudget ? "Edit Budget" : "Add Budget"}
-                  </DialogTitle>
-                </DialogHeader>
-                <BudgetForm 
-                  budget={editingBudget}
-                  onSuccess={handleFormClose}
-                />
-              </DialogContent>
-            </Dialog>
+            <div className="flex items-center gap-2">
+              <ExportMenu
+                options={[
+                  { label: "Monthly statement (PDF)", href: `/api/analytics/monthly-statement?month=${currentMonth}&year=${currentYear}&format=pdf`, testId: "link-export-statement-pdf" },
+                  { label: "Monthly statement (XLSX)", href: `/api/analytics/monthly-statement?month=${currentMonth}&year=${currentYear}&format=xlsx`, testId: "link-export-statement-xlsx" },
+                ]}
+              />
+              <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+                <DialogTrigger asChild>
+                  <Button data-testid="button-add-budget">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Budget
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-md">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingBudget ? "Edit Budget" : "Add Budget"}
+                    </DialogTitle>
+                  </DialogHeader>
+                  <BudgetForm 
+                    budget={editingBudget}
+                    onSuccess={handleFormClose}
+                  />
+                </DialogContent>
+              </Dialog>
+            </div>
           }
         />
 
         <div className="flex-1 overflow-y-auto p-6">
           <Card>
             <CardHeader>
-              <CardTitle>Monthly Budgets - {new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}</CardTitle>
+              <CardTitle>Monthly Budgets - {formatBudgetMonth(currentMonth, currentYear)}</CardTitle>
             </CardHeader>
             <CardContent>
               {isLoading ? (
@@ -169,24 +174,28 @@ export default function BudgetPage() {
               ) : (
                 <div className="space-y-6">
                   {budgets?.map((budget) => {
-                    const spentAmount = getSpentAmount(budget.category);
+                    const spentAmount = getSpentAmount(budget.categoryId);
                     const budgetAmount = parseFloat(budget.amount);
                     const percentage = (spentAmount / budgetAmount) * 100;
+                    const statusColor = getStatusColor(percentage);
                     const remaining = budgetAmount - spentAmount;
 
                     return (
                       <div key={budget.id} className="space-y-3" data-testid={`budget-${budget.id}`}>
                         <div className="flex items-center justify-between">
                           <div className="flex items-center space-x-2">
-                            <div className={`w-3 h-3 rounded-full ${getCategoryColor(budget.category, percentage)}`}></div>
+                            <div
+                              className={`w-3 h-3 rounded-full ${statusColor ?? ""}`}
+                              style={statusColor ? undefined : { backgroundColor: getCategory(budget.categoryId)?.color }}
+                            ></div>
                             <span className="font-medium" data-testid={`text-category-${budget.id}`}>
-                              {budget.category}
+                              {getCategoryLabel(budget.categoryId)}
                             </span>
                           </div>
                           <div className="flex items-center space-x-2">
                             <div className="text-right" data-testid={`text-amounts-${budget.id}`}>
-                              <span className="font-semibold">₹{spentAmount.toLocaleString()}</span>
-                              <span className="text-muted-foreground"> / ₹{budgetAmount.toLocaleString()}</span>
+                              <span className="font-semibold">{formatAmount(spentAmount)}</span>
+                              <span className="text-muted-foreground"> / {formatAmount(budgetAmount)}</span>
                             </div>
                             <div className="flex items-center space-x-1">
                               <Button
@@ -219,9 +228,12 @@ export default function BudgetPage() {
                         <p className="text-sm text-muted-foreground" data-testid={`text-status-${budget.id}`}>
                           {percentage.toFixed(1)}% used • 
                           {remaining > 0 ? (
-                            <span className="text-success"> ₹{remaining.toLocaleString()} remaining</span>
+                            <span className="text-success"> {formatAmount(remaining)} remaining</span>
                           ) : (
-                            <span className="text-destructive"> ₹{Math.abs(remaining).toLocaleString()} over budget</span>
+                            <span className="text-destructive"> {formatAmount(Math.abs(remaining))} over budget</span>
+                          )}
+                          {budget.alertThresholds.length > 0 && (
+                            <> • Alerts at {budget.alertThresholds.map(t => `${t}%`).join(", ")}</>
                           )}
                         </p>
                       </div>
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { CategoryForm } from "@/components/forms/category-form";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getCategoryIcon } from "@/lib/category-icons";
+import { Plus, Edit, Archive, ArchiveRestore } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCategories } from "@/hooks/use-categories";
+import type { Category } from "@shared/schema";
+
+export default function CategoriesPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<Category | null>(null);
+  const { toast } = useToast();
+  const { categories, isLoading } = useCategories();
+
+  const archiveMutation = useMutation({
+    mutationFn: async ({ id, isArchived }: { id: string; isArchived: boolean }) => {
+      await apiRequest("PUT", `/api/categories/${id}`, { isArchived });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update category",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (category: Category) => {
+    setEditingCategory(category);
+    setIsFormOpen(true);
+  };
+
+  const handleFormClose = () => {
+    setIsFormOpen(false);
+    setEditingCategory(null);
+  };
+
+  const topLevel = categories.filter(c => !c.parentId);
+
+  const renderCategory = (category: Category, depth: number) => {
+    const Icon = getCategoryIcon(category.icon);
+    return (
+      <div
+        key={category.id}
+        className={`flex items-center justify-between p-3 hover:bg-accent rounded-lg transition-colors ${
+          depth > 0 ? "ml-8" : ""
+        } ${category.isArchived ? "opacity-60" : ""}`}
+        data-testid={`category-${category.id}`}
+      >
+        <div className="flex items-center space-x-3">
+          <div
+            className="w-8 h-8 rounded-full flex items-center justify-center"
+            style={{ backgroundColor: `${category.color}1a`, color: category.color }}
+          >
+            <Icon className="w-4 h-4" />
+          </div>
+          <span className="font-medium" data-testid={`text-category-name-${category.id}`}>
+            {category.name}
+          </span>
+          {category.isArchived && <Badge variant="secondary">Archived</Badge>}
+        </div>
+        <div className="flex items-center space-x-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleEdit(category)}
+            data-testid={`button-edit-category-${category.id}`}
+          >
+            <Edit className="w-4 h-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => archiveMutation.mutate({ id: category.id, isArchived: !category.isArchived })}
+            disabled={archiveMutation.isPending}
+            data-testid={`button-archive-category-${category.id}`}
+          >
+            {category.isArchived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Categories"
+          subtitle="Organize transactions with your own categories"
+          action={
+            <Dialog open={isFormOpen} onOpenChange={(open) => (open ? setIsFormOpen(true) : handleFormClose())}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-category">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Category
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingCategory ? "Edit Category" : "Add Category"}
+                  </DialogTitle>
+                </DialogHeader>
+                <CategoryForm
+                  category={editingCategory}
+                  onSuccess={handleFormClose}
+                />
+              </DialogContent>
+            </Dialog>
+          }
+        />
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Your Categories</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {Array.from({ length: 6 }).map((_, i) => (
+                    <div key={i} className="flex items-center space-x-3">
+                      <Skeleton className="w-8 h-8 rounded-full" />
+                      <Skeleton className="h-4 w-40" />
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-1">
+                  {topLevel.map((parent) => [
+                    renderCategory(parent, 0),
+                    ...categories
+                      .filter(c => c.parentId === parent.id)
+                      .map((child) => renderCategory(child, 1)),
+                  ])}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { ExchangeRateForm } from "@/components/forms/exchange-rate-form";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Trash2, AlertTriangle } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import { CURRENCIES, type ExchangeRate, type MissingExchangeRate, type PublicUser } from "@shared/schema";
+
+const SHORT_DATE: Intl.DateTimeFormatOptions = { day: "numeric", month: "short", year: "numeric" };
+
+export default function CurrenciesPage() {
+  const [formDefaults, setFormDefaults] = useState<{ fromCurrency: string; date: string } | undefined>();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const { baseCurrency } = useCurrency();
+  const { formatDate } = useSettings();
+  const { toast } = useToast();
+
+  const { data: rates, isLoading } = useQuery<ExchangeRate[]>({
+    queryKey: ["/api/exchange-rates"],
+  });
+
+  const { data: missing } = useQuery<MissingExchangeRate[]>({
+    queryKey: ["/api/exchange-rates", "missing"],
+  });
+
+  const baseCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const response = await apiRequest("PATCH", "/api/user", { baseCurrency: currency });
+      return response.json();
+    },
+    onSuccess: (user: PublicUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+      queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: `Reports are now in ${user.baseCurrency}`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to change base currency",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/exchange-rates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/exchange-rates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      toast({
+        title: "Success",
+        description: "Exchange rate deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete exchange rate",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openForm = (defaults?: { fromCurrency: string; date: string }) => {
+    setFormDefaults(defaults);
+    setIsFormOpen(true);
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Currencies"
+          subtitle="Choose your reporting currency and manage exchange rates"
+          action={
+            <Button onClick={() => openForm()} data-testid="button-add-rate">
+              <Plus className="w-4 h-4 mr-2" />
+              Add Rate
+            </Button>
+          }
+        />
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Base Currency</CardTitle>
+              <CardDescription>
+                Dashboards, reports and budgets convert every amount to this currency using the rate on the transaction date.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Select
+                value={baseCurrency}
+                onValueChange={(value) => baseCurrencyMutation.mutate(value)}
+                disabled={baseCurrencyMutation.isPending}
+              >
+                <SelectTrigger className="w-40" data-testid="select-base-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((currency) => (
+                    <SelectItem key={currency} value={currency}>
+                      {currency}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </CardContent>
+          </Card>
+
+          {missing && missing.length > 0 && (
+            <Card className="border-warning" data-testid="card-missing-rates">
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <AlertTriangle className="w-5 h-5 mr-2 text-warning" />
+                  Missing Rates
+                </CardTitle>
+                <CardDescription>
+                  These transactions are left out of converted totals until a rate to {baseCurrency} on or before their date is added.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex flex-wrap gap-2">
+                  {missing.map(({ currency, date }) => (
+                    <Button
+                      key={`${currency}-${date}`}
+                      variant="outline"
+                      size="sm"
+                      onClick={() => openForm({ fromCurrency: currency, date })}
+                      data-testid={`button-missing-rate-${currency}-${date}`}
+                    >
+                      {currency} on {formatDate(date, SHORT_DATE)}
+                    </Button>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Exchange Rates</CardTitle>
+              <CardDescription>
+                Rates you enter take precedence over rates fetched from the exchange-rate provider.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-2">
+                  {Array.from({ length: 4 }).map((_, i) => (
+                    <Skeleton key={i} className="h-8 w-full" />
+                  ))}
+                </div>
+              ) : !rates?.length ? (
+                <p className="text-sm text-muted-foreground text-center py-6">
+                  No exchange rates yet. Add one for each foreign currency you use.
+                </p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Effective From</TableHead>
+                      <TableHead>Rate</TableHead>
+                      <TableHead>Source</TableHead>
+                      <TableHead className="w-12"></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rates.map((rate) => (
+                      <TableRow key={rate.id} data-testid={`row-rate-${rate.id}`}>
+                        <TableCell>{formatDate(rate.date, SHORT_DATE)}</TableCell>
+                        <TableCell>
+                          1 {rate.fromCurrency} = {parseFloat(rate.rate).toLocaleString(undefined, { maximumFractionDigits: 8 })} {rate.toCurrency}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={rate.source === "manual" ? "secondary" : "outline"} className="capitalize">
+                            {rate.source}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteMutation.mutate(rate.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-rate-${rate.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Add Exchange Rate</DialogTitle>
+            </DialogHeader>
+            <ExchangeRateForm
+              key={formDefaults ? `${formDefaults.fromCurrency}-${formDefaults.date}` : "new"}
+              defaults={formDefaults}
+              onSuccess={() => setIsFormOpen(false)}
+            />
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,262 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { GoalForm } from "@/components/forms/goal-form";
+import { GoalContributionForm } from "@/components/forms/goal-contribution-form";
+import { GoalContributions } from "@/components/goals/goal-contributions";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Edit, Trash2, Target, History, CheckCircle2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import type { GoalWithProgress } from "@shared/schema";
+
+const SHORT_DATE: Intl.DateTimeFormatOptions = { day: "numeric", month: "short", year: "numeric" };
+
+export default function GoalsPage() {
+  const { formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingGoal, setEditingGoal] = useState<GoalWithProgress | null>(null);
+  const [contributionGoalId, setContributionGoalId] = useState<string | null>(null);
+  const [historyGoalId, setHistoryGoalId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: goals, isLoading } = useQuery<GoalWithProgress[]>({
+    queryKey: ["/api/goals"],
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/goals/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/goals"] });
+      toast({
+        title: "Success",
+        description: "Goal deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete goal",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (goal: GoalWithProgress) => {
+    setEditingGoal(goal);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Delete this goal and its contribution history?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleFormClose = () => {
+    setIsFormOpen(false);
+    setEditingGoal(null);
+  };
+
+  const renderProjection = (goal: GoalWithProgress) => {
+    if (goal.isCompleted) {
+      return (
+        <p className="flex items-center text-sm text-success" data-testid={`text-projection-${goal.id}`}>
+          <CheckCircle2 className="w-4 h-4 mr-1" />
+          Goal reached
+        </p>
+      );
+    }
+
+    return (
+      <div className="space-y-1 text-sm text-muted-foreground" data-testid={`text-projection-${goal.id}`}>
+        {goal.projectedCompletionDate ? (
+          <p>
+            Projected to finish {formatDate(goal.projectedCompletionDate, SHORT_DATE)} at {formatAmount(goal.monthlyRate)}/month
+          </p>
+        ) : (
+          <p>Add contributions to see a projected finish date</p>
+        )}
+        {goal.requiredMonthly && goal.targetDate && (
+          <p>
+            Save {formatAmount(goal.requiredMonthly)}/month to reach it by {formatDate(goal.targetDate, SHORT_DATE)}
+          </p>
+        )}
+        {goal.targetDate && !goal.requiredMonthly && (
+          <p className="text-destructive">Target date {formatDate(goal.targetDate, SHORT_DATE)} has passed</p>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Goals"
+          subtitle="Save towards what matters"
+          action={
+            <Dialog open={isFormOpen} onOpenChange={(open) => (open ? setIsFormOpen(true) : handleFormClose())}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-goal">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Goal
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingGoal ? "Edit Goal" : "Add Goal"}
+                  </DialogTitle>
+                </DialogHeader>
+                <GoalForm
+                  goal={editingGoal}
+                  onSuccess={handleFormClose}
+                />
+              </DialogContent>
+            </Dialog>
+          }
+        />
+
+        <div className="flex-1 overflow-y-auto p-6">
+          {isLoading ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {Array.from({ length: 2 }).map((_, i) => (
+                <Card key={i}>
+                  <CardContent className="p-6 space-y-3">
+                    <Skeleton className="h-5 w-40" />
+                    <Skeleton className="h-2 w-full" />
+                    <Skeleton className="h-4 w-64" />
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          ) : goals && goals.length > 0 ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              {goals.map((goal) => {
+                const current = parseFloat(goal.currentAmount);
+                const target = parseFloat(goal.targetAmount);
+                const percentage = target > 0 ? (current / target) * 100 : 0;
+
+                return (
+                  <Card key={goal.id} className={historyGoalId === goal.id ? "lg:col-span-2" : undefined} data-testid={`goal-${goal.id}`}>
+                    <CardHeader className="pb-3">
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="flex items-center gap-2" data-testid={`text-goal-title-${goal.id}`}>
+                          {goal.title}
+                          {goal.isCompleted ? (
+                            <Badge className="bg-success text-success-foreground">Completed</Badge>
+                          ) : goal.isOnTrack !== null && (
+                            <Badge variant={goal.isOnTrack ? "secondary" : "destructive"} data-testid={`badge-on-track-${goal.id}`}>
+                              {goal.isOnTrack ? "On track" : "Behind"}
+                            </Badge>
+                          )}
+                        </CardTitle>
+                        <div className="flex items-center space-x-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleEdit(goal)}
+                            data-testid={`button-edit-goal-${goal.id}`}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleDelete(goal.id)}
+                            disabled={deleteMutation.isPending}
+                            data-testid={`button-delete-goal-${goal.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                      <div className="flex items-baseline justify-between">
+                        <span className="text-2xl font-bold" data-testid={`text-goal-current-${goal.id}`}>
+                          {formatAmount(current)}
+                        </span>
+                        <span className="text-sm text-muted-foreground">
+                          of {formatAmount(target)} ({Math.min(percentage, 100).toFixed(0)}%)
+                        </span>
+                      </div>
+                      <Progress value={Math.min(percentage, 100)} className="h-2" data-testid={`progress-goal-${goal.id}`} />
+                      {renderProjection(goal)}
+
+                      <div className="flex items-center gap-2 pt-2">
+                        <Button
+                          size="sm"
+                          onClick={() => setContributionGoalId(goal.id)}
+                          data-testid={`button-add-contribution-${goal.id}`}
+                        >
+                          <Plus className="w-4 h-4 mr-1" />
+                          Add Contribution
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setHistoryGoalId(historyGoalId === goal.id ? null : goal.id)}
+                          data-testid={`button-history-${goal.id}`}
+                        >
+                          <History className="w-4 h-4 mr-1" />
+                          {historyGoalId === goal.id ? "Hide History" : "History"}
+                        </Button>
+                      </div>
+
+                      {historyGoalId === goal.id && (
+                        <div className="pt-2">
+                          <GoalContributions goalId={goal.id} />
+                        </div>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          ) : (
+            <Card>
+              <CardContent className="text-center py-12">
+                <Target className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No goals yet</h3>
+                <p className="text-muted-foreground mb-4">
+                  Set a savings target and track every deposit towards it.
+                </p>
+                <Button onClick={() => setIsFormOpen(true)} data-testid="button-add-first-goal">
+                  Add Your First Goal
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <Dialog open={!!contributionGoalId} onOpenChange={(open) => !open && setContributionGoalId(null)}>
+          <DialogContent className="max-w-md">
+            <DialogHeader>
+              <DialogTitle>Add Contribution</DialogTitle>
+            </DialogHeader>
+            {contributionGoalId && (
+              <GoalContributionForm
+                goalId={contributionGoalId}
+                onSuccess={() => setContributionGoalId(null)}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      </main>
+    </div>
+  );
+}
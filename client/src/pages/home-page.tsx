@@ -1,6 +1,7 @@
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 import { FinancialOverview } from "@/components/dashboard/financial-overview";
+import { AccountsOverview } from "@/components/dashboard/accounts-overview";
 import { Charts } from "@/components/dashboard/charts";
 import { BudgetProgress } from "@/components/dashboard/budget-progress";
 import { RecentTransactions } from "@/components/dashboard/recent-transactions";
@@ -18,6 +19,7 @@ export default function HomePage() {
         <div className="flex-1 overflow-y-auto p-6">
           <AlertNotifications />
           <FinancialOverview />
+          <AccountsOverview />
           <Charts />
           <BudgetProgress />
           <RecentTransactions />
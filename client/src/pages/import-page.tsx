@@ -0,0 +1,321 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { CsvColumnMapper } from "@/components/import/csv-column-mapper";
+import { StatementImport } from "@/components/import/statement-import";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Loader2, Upload, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/hooks/use-settings";
+import type { CsvMapping, ImportProfile } from "@shared/schema";
+
+interface PreviewRow {
+  line: number;
+  payload: {
+    date: string;
+    description: string;
+    amount: string;
+    type: "income" | "expense";
+  };
+  errors: string[];
+}
+
+interface CsvPreview {
+  headers: string[];
+  sampleRows: string[][];
+  delimiter: CsvMapping["delimiter"];
+  mapping: CsvMapping | null;
+  rows: PreviewRow[];
+}
+
+// Rows shown in the preview table; the counts above it cover the whole file.
+const PREVIEW_LIMIT = 100;
+
+// OFX, QFX, QIF and Beancount files describe their own layout and skip
+// column mapping
+const isStatementFile = (name: string) => /\.(ofx|qfx|qif|beancount|bean)$/i.test(name);
+
+export default function ImportPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { formatDate } = useSettings();
+  const [content, setContent] = useState<string | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [profileName, setProfileName] = useState("");
+  const [mapping, setMapping] = useState<CsvMapping | null>(null);
+  const [preview, setPreview] = useState<CsvPreview | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+
+  const { data: profiles } = useQuery<ImportProfile[]>({
+    queryKey: ["/api/import/profiles"],
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async (data: { content: string; profileName?: string; mapping?: CsvMapping }) => {
+      const response = await apiRequest("POST", "/api/import/csv/preview", data);
+      return (await response.json()) as CsvPreview;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      setMapping(result.mapping ?? {
+        delimiter: result.delimiter,
+        hasHeader: true,
+        dateFormat: "YYYY-MM-DD",
+        decimalSeparator: ".",
+        columns: { date: 0, description: 1, amount: 2 },
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to read file",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/import/csv", {
+        content,
+        mapping,
+        profileName: profileName.trim() || undefined,
+        skipInvalid,
+      });
+      return (await response.json()) as { imported: number; skipped: number };
+    },
+    onSuccess: ({ imported, skipped }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/import/profiles"] });
+      toast({
+        title: "Import complete",
+        description: skipped > 0
+          ? `Imported ${imported} transactions, skipped ${skipped} invalid rows`
+          : `Imported ${imported} transactions`,
+      });
+      setLocation("/transactions");
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to import transactions",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const text = await file.text();
+    setContent(text);
+    setFileName(file.name);
+    setPreview(null);
+    if (!isStatementFile(file.name)) {
+      previewMutation.mutate({ content: text, profileName: profileName.trim() || undefined });
+    }
+  };
+
+  const refreshPreview = () => {
+    if (content && mapping) {
+      previewMutation.mutate({ content, mapping });
+    }
+  };
+
+  const rows = preview?.rows ?? [];
+  const invalidCount = rows.filter(row => row.errors.length > 0).length;
+  const validCount = rows.length - invalidCount;
+  const isPending = previewMutation.isPending || importMutation.isPending;
+  // The preview must reflect the mapping that will be imported
+  const isPreviewStale = JSON.stringify(mapping) !== JSON.stringify(preview?.mapping ?? null);
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Import"
+          subtitle="Load transactions from your bank statements"
+        />
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Statement File</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="profileName">Bank</Label>
+                  <Input
+                    id="profileName"
+                    list="import-profiles"
+                    placeholder="e.g. HDFC Savings"
+                    value={profileName}
+                    onChange={(e) => setProfileName(e.target.value)}
+                    disabled={isPending}
+                    data-testid="input-import-profile"
+                  />
+                  <datalist id="import-profiles">
+                    {profiles?.map((profile) => (
+                      <option key={profile.id} value={profile.name} />
+                    ))}
+                  </datalist>
+                  <p className="text-sm text-muted-foreground">
+                    For CSV files, the column mapping is remembered for this bank.
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="file">Statement File</Label>
+                  <Input
+                    id="file"
+                    type="file"
+                    accept=".csv,.ofx,.qfx,.qif,.beancount,.bean"
+                    onChange={handleFileChange}
+                    disabled={isPending}
+                    data-testid="input-import-file"
+                  />
+                  {fileName && <p className="text-sm text-muted-foreground">{fileName}</p>}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {content && isStatementFile(fileName) && <StatementImport content={content} />}
+
+          {preview && mapping && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Column Mapping</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <CsvColumnMapper
+                  headers={preview.headers}
+                  mapping={mapping}
+                  onChange={setMapping}
+                  disabled={isPending}
+                />
+                <Button
+                  variant={isPreviewStale ? "default" : "outline"}
+                  onClick={refreshPreview}
+                  disabled={isPending}
+                  data-testid="button-refresh-preview"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Update Preview
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {preview && (
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <CardTitle>Preview</CardTitle>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="secondary" data-testid="text-valid-count">{validCount} ready</Badge>
+                    {invalidCount > 0 && (
+                      <Badge variant="destructive" data-testid="text-invalid-count">{invalidCount} with errors</Badge>
+                    )}
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {rows.length === 0 ? (
+                  <p className="text-muted-foreground">
+                    Map the columns above and update the preview to see the transactions in this file.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead>Status</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rows.slice(0, PREVIEW_LIMIT).map((row) => (
+                        <TableRow key={row.line} data-testid={`preview-row-${row.line}`}>
+                          <TableCell>{row.line}</TableCell>
+                          <TableCell>
+                            {row.errors.length === 0
+                              ? formatDate(row.payload.date)
+                              : row.payload.date}
+                          </TableCell>
+                          <TableCell>{row.payload.description}</TableCell>
+                          <TableCell className="capitalize">{row.payload.type}</TableCell>
+                          <TableCell className="text-right">
+                            {row.payload.amount && parseFloat(row.payload.amount).toLocaleString()}
+                          </TableCell>
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <span className="text-sm text-destructive">{row.errors.join("; ")}</span>
+                            ) : (
+                              <Badge variant="outline">OK</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                {rows.length > PREVIEW_LIMIT && (
+                  <p className="text-sm text-muted-foreground">
+                    Showing the first {PREVIEW_LIMIT} of {rows.length} rows.
+                  </p>
+                )}
+
+                {rows.length > 0 && (
+                  <div className="flex items-center justify-between">
+                    {invalidCount > 0 ? (
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          id="skipInvalid"
+                          checked={skipInvalid}
+                          onCheckedChange={setSkipInvalid}
+                          disabled={isPending}
+                          data-testid="switch-skip-invalid"
+                        />
+                        <Label htmlFor="skipInvalid">Skip rows with errors</Label>
+                      </div>
+                    ) : <div />}
+                    <Button
+                      onClick={() => importMutation.mutate()}
+                      disabled={isPending || isPreviewStale || validCount === 0 || (invalidCount > 0 && !skipInvalid)}
+                      data-testid="button-import"
+                    >
+                      {importMutation.isPending ? (
+                        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      ) : (
+                        <Upload className="w-4 h-4 mr-2" />
+                      )}
+                      Import {validCount} Transactions
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { RecurringForm } from "@/components/forms/recurring-form";
+import { CategoryBadge } from "@/components/categories/category-badge";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Edit, Trash2, Pause, Play, Repeat, SkipForward, Undo2, ChevronDown, ChevronUp } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import type { AccountWithBalance, RecurringTransaction } from "@shared/schema";
+
+interface UpcomingOccurrence {
+  date: string;
+  amount: string;
+  description: string;
+  categoryId: string | null;
+  isSkipped: boolean;
+  isModified: boolean;
+}
+
+const frequencyNouns: Record<RecurringTransaction["frequency"], [string, string]> = {
+  daily: ["day", "days"],
+  weekly: ["week", "weeks"],
+  monthly: ["month", "months"],
+  yearly: ["year", "years"],
+};
+
+const ordinals: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" };
+const weekdays = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+type DateFormatter = ReturnType<typeof useSettings>["formatDate"];
+
+function describeSchedule(recurring: RecurringTransaction, formatDate: DateFormatter) {
+  const [singular, plural] = frequencyNouns[recurring.frequency];
+  let text = recurring.interval === 1 ? `Every ${singular}` : `Every ${recurring.interval} ${plural}`;
+
+  if (recurring.frequency === 'monthly' && recurring.weekOfMonth != null && recurring.dayOfWeek != null) {
+    text += ` on the ${ordinals[recurring.weekOfMonth]} ${weekdays[recurring.dayOfWeek]}`;
+  }
+  if (recurring.endDate) {
+    text += `, until ${formatDate(recurring.endDate)}`;
+  } else if (recurring.occurrenceLimit) {
+    text += `, ${recurring.occurrenceLimit} times`;
+  }
+  return text;
+}
+
+// Occurrences are in their account's currency, or the base currency.
+function UpcomingOccurrences({ recurring, currency }: { recurring: RecurringTransaction; currency?: string }) {
+  const { formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
+  const { toast } = useToast();
+  const [editing, setEditing] = useState<UpcomingOccurrence | null>(null);
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+
+  const { data: occurrences, isLoading } = useQuery<UpcomingOccurrence[]>({
+    queryKey: ["/api/recurring", recurring.id, "upcoming"],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update occurrence",
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: { occurrenceDate: string; isSkipped?: boolean; amount?: string; description?: string }) => {
+      const response = await apiRequest("PUT", `/api/recurring/${recurring.id}/occurrences`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring", recurring.id, "upcoming"] });
+      setEditing(null);
+    },
+    onError,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (date: string) => {
+      await apiRequest("DELETE", `/api/recurring/${recurring.id}/occurrences?date=${encodeURIComponent(date)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring", recurring.id, "upcoming"] });
+    },
+    onError,
+  });
+
+  const handleEdit = (occurrence: UpcomingOccurrence) => {
+    setEditing(occurrence);
+    setAmount(occurrence.amount);
+    setDescription(occurrence.description);
+  };
+
+  const isPending = updateMutation.isPending || restoreMutation.isPending;
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  if (!occurrences?.length) {
+    return <p className="text-sm text-muted-foreground">No upcoming occurrences.</p>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {occurrences.map((occurrence) => (
+        <div
+          key={occurrence.date}
+          className="flex items-center justify-between py-2 px-3 rounded-md bg-muted/50"
+          data-testid={`occurrence-${recurring.id}-${occurrence.date}`}
+        >
+          <div className={`flex items-center space-x-3 text-sm ${occurrence.isSkipped ? "line-through text-muted-foreground" : ""}`}>
+            <span className="w-24">{formatDate(occurrence.date)}</span>
+            <span>{occurrence.description}</span>
+            <span className="font-medium">{formatAmount(occurrence.amount, currency)}</span>
+            {occurrence.isSkipped && <Badge variant="secondary">Skipped</Badge>}
+            {occurrence.isModified && <Badge variant="outline">Modified</Badge>}
+          </div>
+          <div className="flex items-center space-x-1">
+            {occurrence.isSkipped || occurrence.isModified ? (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => restoreMutation.mutate(occurrence.date)}
+                disabled={isPending}
+                title="Restore"
+                data-testid={`button-restore-occurrence-${occurrence.date}`}
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+            ) : (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleEdit(occurrence)}
+                  disabled={isPending}
+                  title="Edit this occurrence"
+                  data-testid={`button-edit-occurrence-${occurrence.date}`}
+                >
+                  <Edit className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => updateMutation.mutate({ occurrenceDate: occurrence.date, isSkipped: true })}
+                  disabled={isPending}
+                  title="Skip this occurrence"
+                  data-testid={`button-skip-occurrence-${occurrence.date}`}
+                >
+                  <SkipForward className="w-4 h-4" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Edit occurrence on {editing && formatDate(editing.date)}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="occurrence-description">Description</Label>
+              <Input
+                id="occurrence-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-occurrence-description"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="occurrence-amount">Amount</Label>
+              <Input
+                id="occurrence-amount"
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                data-testid="input-occurrence-amount"
+              />
+            </div>
+            <Button
+              className="w-full"
+              disabled={isPending || !description || !(parseFloat(amount) > 0)}
+              onClick={() => editing && updateMutation.mutate({ occurrenceDate: editing.date, amount, description })}
+              data-testid="button-save-occurrence"
+            >
+              Save Occurrence
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+export default function RecurringPage() {
+  const { formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRecurring, setEditingRecurring] = useState<RecurringTransaction | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const { data: schedules, isLoading } = useQuery<RecurringTransaction[]>({
+    queryKey: ["/api/recurring"],
+  });
+
+  const { data: accounts } = useQuery<AccountWithBalance[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const getAccountCurrency = (accountId: string | null) => accounts?.find(a => a.id === accountId)?.currency;
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PUT", `/api/recurring/${id}`, { isActive });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update recurring transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/recurring/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring"] });
+      toast({
+        title: "Success",
+        description: "Recurring transaction deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete recurring transaction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (recurring: RecurringTransaction) => {
+    setEditingRecurring(recurring);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Delete this recurring transaction? Transactions already created are kept.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleFormClose = () => {
+    setIsFormOpen(false);
+    setEditingRecurring(null);
+  };
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Recurring"
+          subtitle="Schedule transactions that repeat automatically"
+          action={
+            <Dialog open={isFormOpen} onOpenChange={(open) => (open ? setIsFormOpen(true) : handleFormClose())}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-recurring">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Recurring
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingRecurring ? "Edit Recurring Transaction" : "Add Recurring Transaction"}
+                  </DialogTitle>
+                </DialogHeader>
+                <RecurringForm
+                  recurring={editingRecurring}
+                  onSuccess={handleFormClose}
+                />
+              </DialogContent>
+            </Dialog>
+          }
+        />
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Schedules</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <div key={i} className="flex items-center space-x-4">
+                      <Skeleton className="w-10 h-10 rounded-full" />
+                      <div className="space-y-2 flex-1">
+                        <Skeleton className="h-4 w-48" />
+                        <Skeleton className="h-3 w-32" />
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : schedules && schedules.length > 0 ? (
+                <div className="space-y-3">
+                  {schedules.map((recurring) => {
+                    const isExpanded = expandedId === recurring.id;
+                    return (
+                      <div
+                        key={recurring.id}
+                        className={`border rounded-lg p-4 ${recurring.isActive ? "" : "opacity-60"}`}
+                        data-testid={`recurring-${recurring.id}`}
+                      >
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-4">
+                            <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+                              <Repeat className="w-5 h-5 text-primary" />
+                            </div>
+                            <div>
+                              <div className="flex items-center space-x-2">
+                                <p className="font-medium" data-testid={`text-recurring-description-${recurring.id}`}>
+                                  {recurring.description}
+                                </p>
+                                {recurring.type === 'transfer' ? (
+                                  <Badge variant="outline">Transfer</Badge>
+                                ) : (
+                                  <CategoryBadge categoryId={recurring.categoryId} />
+                                )}
+                                {!recurring.isActive && <Badge variant="secondary">Paused</Badge>}
+                              </div>
+                              <p className="text-sm text-muted-foreground">
+                                {describeSchedule(recurring, formatDate)}
+                                {recurring.nextDate ? ` · Next: ${formatDate(recurring.nextDate)}` : " · Ended"}
+                              </p>
+                            </div>
+                          </div>
+                          <div className="flex items-center space-x-2">
+                            <span
+                              className={`font-semibold mr-2 ${
+                                recurring.type === 'income'
+                                  ? "text-green-600"
+                                  : recurring.type === 'expense'
+                                    ? "text-red-600"
+                                    : ""
+                              }`}
+                            >
+                              {formatAmount(recurring.amount, getAccountCurrency(recurring.accountId))}
+                            </span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setExpandedId(isExpanded ? null : recurring.id)}
+                              title="Upcoming occurrences"
+                              data-testid={`button-expand-recurring-${recurring.id}`}
+                            >
+                              {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => toggleMutation.mutate({ id: recurring.id, isActive: !recurring.isActive })}
+                              disabled={toggleMutation.isPending}
+                              title={recurring.isActive ? "Pause" : "Resume"}
+                              data-testid={`button-toggle-recurring-${recurring.id}`}
+                            >
+                              {recurring.isActive ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleEdit(recurring)}
+                              data-testid={`button-edit-recurring-${recurring.id}`}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDelete(recurring.id)}
+                              disabled={deleteMutation.isPending}
+                              data-testid={`button-delete-recurring-${recurring.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {isExpanded && (
+                          <div className="mt-4">
+                            <UpcomingOccurrences recurring={recurring} currency={getAccountCurrency(recurring.accountId)} />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <Repeat className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground mb-4">No recurring transactions yet</p>
+                  <Button onClick={() => setIsFormOpen(true)} data-testid="button-add-first-recurring">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Your First Recurring Transaction
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
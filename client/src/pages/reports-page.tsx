@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { PeriodPicker, getPresetPeriod, type PeriodPreset } from "@/components/reports/period-picker";
+import { StatementReport } from "@/components/reports/statement-report";
+import { CategoryBreakdown } from "@/components/reports/category-breakdown";
+import { PeriodComparison } from "@/components/reports/period-comparison";
+import { TopPayees } from "@/components/reports/top-payees";
+import { TagTotals } from "@/components/reports/tag-totals";
+import { useSettings } from "@/hooks/use-settings";
+import type { ReportPeriod } from "@/hooks/use-report";
+
+export default function ReportsPage() {
+  const { settings } = useSettings();
+  const [preset, setPreset] = useState<PeriodPreset>("thisMonth");
+  const [customPeriod, setCustomPeriod] = useState<ReportPeriod>(() => getPresetPeriod("thisMonth", settings));
+  // Presets follow the settings, which may load after the page does
+  const period = preset === "custom" ? customPeriod : getPresetPeriod(preset, settings);
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Reports"
+          subtitle="See where your money went and how it compares"
+          action={
+            <PeriodPicker
+              preset={preset}
+              period={period}
+              onChange={(nextPreset, nextPeriod) => {
+                setPreset(nextPreset);
+                setCustomPeriod(nextPeriod);
+              }}
+            />
+          }
+        />
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <Tabs defaultValue="statement" className="space-y-6">
+            <TabsList>
+              <TabsTrigger value="statement" data-testid="tab-statement">Statement</TabsTrigger>
+              <TabsTrigger value="categories" data-testid="tab-categories">Categories</TabsTrigger>
+              <TabsTrigger value="comparison" data-testid="tab-comparison">Comparison</TabsTrigger>
+              <TabsTrigger value="payees" data-testid="tab-payees">Payees</TabsTrigger>
+              <TabsTrigger value="tags" data-testid="tab-tags">Tags</TabsTrigger>
+            </TabsList>
+            <TabsContent value="statement">
+              <StatementReport period={period} />
+            </TabsContent>
+            <TabsContent value="categories">
+              <CategoryBreakdown period={period} />
+            </TabsContent>
+            <TabsContent value="comparison">
+              <PeriodComparison period={period} />
+            </TabsContent>
+            <TabsContent value="payees">
+              <TopPayees period={period} />
+            </TabsContent>
+            <TabsContent value="tags">
+              <TagTotals period={period} />
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+    </div>
+  );
+}
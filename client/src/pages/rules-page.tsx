@@ -0,0 +1,300 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { RuleForm, ruleFieldLabels, ruleOperatorLabels } from "@/components/forms/rule-form";
+import { CategoryBadge } from "@/components/categories/category-badge";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, Play, Wand2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Account, CategorizationRule, RuleCondition } from "@shared/schema";
+
+export default function RulesPage() {
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingRule, setEditingRule] = useState<CategorizationRule | null>(null);
+  const { toast } = useToast();
+
+  const { data: rules, isLoading } = useQuery<CategorizationRule[]>({
+    queryKey: ["/api/rules"],
+  });
+
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update rule",
+      variant: "destructive",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: Partial<CategorizationRule> & { id: string }) => {
+      await apiRequest("PUT", `/api/rules/${id}`, data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError,
+  });
+
+  // Rewrites priorities to match the new order
+  const reorderMutation = useMutation({
+    mutationFn: async (ordered: CategorizationRule[]) => {
+      await Promise.all(
+        ordered
+          .map((rule, priority) => ({ rule, priority }))
+          .filter(({ rule, priority }) => rule.priority !== priority)
+          .map(({ rule, priority }) => apiRequest("PUT", `/api/rules/${rule.id}`, { priority }))
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/rules/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      toast({
+        title: "Success",
+        description: "Rule deleted successfully",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to delete rule",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async (ruleId?: string) => {
+      const response = await apiRequest("POST", "/api/rules/apply", { ruleId });
+      return (await response.json()) as { updated: number };
+    },
+    onSuccess: ({ updated }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      toast({
+        title: "Rules applied",
+        description: `Recategorized ${updated} transaction${updated === 1 ? "" : "s"}`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to apply rules",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleEdit = (rule: CategorizationRule) => {
+    setEditingRule(rule);
+    setIsFormOpen(true);
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm("Delete this rule? Transactions it already categorized keep their category.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleApply = (ruleId?: string) => {
+    const message = ruleId
+      ? "Apply this rule to all existing transactions it matches?"
+      : "Re-run all active rules over existing transactions? Matching transactions will be recategorized.";
+    if (confirm(message)) {
+      applyMutation.mutate(ruleId);
+    }
+  };
+
+  const handleMove = (index: number, offset: number) => {
+    if (!rules) return;
+    const ordered = [...rules];
+    const [moved] = ordered.splice(index, 1);
+    ordered.splice(index + offset, 0, moved);
+    reorderMutation.mutate(ordered);
+  };
+
+  const handleFormClose = () => {
+    setIsFormOpen(false);
+    setEditingRule(null);
+  };
+
+  const describeCondition = (condition: RuleCondition) => {
+    const value = condition.field === "accountId"
+      ? accounts?.find(a => a.id === condition.value)?.name ?? "Unknown account"
+      : condition.field === "amount" ? condition.value : `"${condition.value}"`;
+    return `${ruleFieldLabels[condition.field]} ${ruleOperatorLabels[condition.operator]} ${value}`;
+  };
+
+  const isPending = updateMutation.isPending || reorderMutation.isPending || applyMutation.isPending;
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Rules"
+          subtitle="Categorize transactions automatically"
+          action={
+            <Dialog open={isFormOpen} onOpenChange={(open) => (open ? setIsFormOpen(true) : handleFormClose())}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-add-rule">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Rule
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-xl">
+                <DialogHeader>
+                  <DialogTitle>
+                    {editingRule ? "Edit Rule" : "Add Rule"}
+                  </DialogTitle>
+                </DialogHeader>
+                <RuleForm
+                  rule={editingRule}
+                  defaultPriority={rules?.length ?? 0}
+                  onSuccess={handleFormClose}
+                />
+              </DialogContent>
+            </Dialog>
+          }
+        />
+
+        <div className="flex-1 overflow-y-auto p-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Your Rules</CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Rules run top to bottom; the first match sets the category.
+                  </p>
+                </div>
+                <Button
+                  variant="outline"
+                  onClick={() => handleApply()}
+                  disabled={isPending || !rules?.length}
+                  data-testid="button-apply-rules"
+                >
+                  <Wand2 className="w-4 h-4 mr-2" />
+                  Re-run Rules
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <div key={i} className="space-y-2">
+                      <Skeleton className="h-4 w-48" />
+                      <Skeleton className="h-3 w-72" />
+                    </div>
+                  ))}
+                </div>
+              ) : rules && rules.length > 0 ? (
+                <div className="space-y-2">
+                  {rules.map((rule, index) => (
+                    <div
+                      key={rule.id}
+                      className={`flex items-center justify-between p-3 border rounded-lg ${rule.isActive ? "" : "opacity-60"}`}
+                      data-testid={`rule-${rule.id}`}
+                    >
+                      <div className="space-y-1">
+                        <p className="font-medium" data-testid={`text-rule-name-${rule.id}`}>{rule.name}</p>
+                        <div className="flex items-center flex-wrap gap-2 text-sm text-muted-foreground">
+                          <span>{rule.conditions.map(describeCondition).join(" and ")}</span>
+                          <span>→</span>
+                          <CategoryBadge categoryId={rule.categoryId} />
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-1">
+                        <Switch
+                          checked={rule.isActive}
+                          onCheckedChange={(isActive) => updateMutation.mutate({ id: rule.id, isActive })}
+                          disabled={isPending}
+                          data-testid={`switch-rule-active-${rule.id}`}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMove(index, -1)}
+                          disabled={isPending || index === 0}
+                          data-testid={`button-move-up-${rule.id}`}
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleMove(index, 1)}
+                          disabled={isPending || index === rules.length - 1}
+                          data-testid={`button-move-down-${rule.id}`}
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleApply(rule.id)}
+                          disabled={isPending}
+                          title="Apply to existing transactions"
+                          data-testid={`button-apply-rule-${rule.id}`}
+                        >
+                          <Play className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleEdit(rule)}
+                          data-testid={`button-edit-rule-${rule.id}`}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDelete(rule.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-rule-${rule.id}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="text-center py-12">
+                  <Wand2 className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground mb-4">
+                    No rules yet. Rules pick a category for new and imported transactions.
+                  </p>
+                  <Button onClick={() => setIsFormOpen(true)} data-testid="button-add-first-rule">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Your First Rule
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
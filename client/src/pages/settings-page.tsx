@@ -0,0 +1,137 @@
+import { useLocation } from "wouter";
+import { Sidebar } from "@/components/layout/sidebar";
+import { Header } from "@/components/layout/header";
+import { SettingsForm } from "@/components/forms/settings-form";
+import { BackupRestore } from "@/components/settings/backup-restore";
+import { LedgerAccounts } from "@/components/settings/ledger-accounts";
+import { TwoFactorSettings } from "@/components/settings/two-factor";
+import { EmailVerification } from "@/components/settings/email-verification";
+import { ChangePassword } from "@/components/settings/change-password";
+import { ActiveSessions } from "@/components/settings/sessions";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Coins } from "lucide-react";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+
+export default function SettingsPage() {
+  const [, setLocation] = useLocation();
+  const { baseCurrency } = useCurrency();
+  const { settings, isLoading } = useSettings();
+
+  return (
+    <div className="flex h-screen bg-background">
+      <Sidebar />
+      <main className="flex-1 flex flex-col overflow-hidden">
+        <Header
+          title="Settings"
+          subtitle="How amounts and dates are shown, and when your budget month begins"
+        />
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Preferences</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {isLoading ? (
+                <div className="space-y-4 max-w-xl">
+                  {Array.from({ length: 3 }).map((_, i) => (
+                    <Skeleton key={i} className="h-10 w-full" />
+                  ))}
+                </div>
+              ) : (
+                <SettingsForm settings={settings} />
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Base Currency</CardTitle>
+              <CardDescription>
+                Totals, budgets and reports are shown in {baseCurrency}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Button variant="outline" onClick={() => setLocation("/currencies")} data-testid="button-manage-currencies">
+                <Coins className="w-4 h-4 mr-2" />
+                Manage Currencies
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Email Address</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <EmailVerification />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Password</CardTitle>
+              <CardDescription>
+                Changing your password signs you out on every other device.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ChangePassword />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Two-Factor Authentication</CardTitle>
+              <CardDescription>
+                Protect your account with a second step when you sign in.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <TwoFactorSettings />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Active Sessions</CardTitle>
+              <CardDescription>
+                Browsers and devices signed in to your account. Sign out any you don't recognize, then change your password.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ActiveSessions />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Plain-Text Accounting</CardTitle>
+              <CardDescription>
+                Account names for the Ledger, hledger and Beancount exports, like Expenses:Food:Groceries. Beancount files you import are matched to your categories and accounts by these names.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <LedgerAccounts />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Backup &amp; Restore</CardTitle>
+              <CardDescription>
+                Keep a copy of your data, or move it to another SavvyFinance account.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <BackupRestore />
+            </CardContent>
+          </Card>
+        </div>
+      </main>
+    </div>
+  );
+}
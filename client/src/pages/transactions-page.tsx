@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useRef, useState } from "react";
+import { useInfiniteQuery, useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 import { TransactionForm } from "@/components/forms/transaction-form";
@@ -7,28 +8,112 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { TransactionCategory } from "@/components/transactions/transaction-category";
+import { DuplicateReview } from "@/components/transactions/duplicate-review";
+import { AttachmentPreview } from "@/components/transactions/transaction-attachments";
+import { ExportMenu } from "@/components/reports/export-menu";
+import {
+  TransactionFilterBar,
+  parseTransactionFilters,
+  toTransactionSearchParams,
+  type TransactionFilters,
+} from "@/components/transactions/transaction-filters";
 import { Skeleton } from "@/components/ui/skeleton";
 import { queryClient } from "@/lib/queryClient";
-import { Plus, Edit, Trash2 } from "lucide-react";
+import { Plus, Edit, Trash2, Loader2, SearchX, StickyNote } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Transaction } from "@shared/schema";
+import { useCategories } from "@/hooks/use-categories";
+import { useCurrency } from "@/hooks/use-currency";
+import { useSettings } from "@/hooks/use-settings";
+import type { Account, TransactionWithDetails, TransactionPage } from "@shared/schema";
+
+const PAGE_SIZE = 50;
 
 export default function TransactionsPage() {
+  const { formatAmount } = useCurrency();
+  const { formatDate } = useSettings();
   const [isFormOpen, setIsFormOpen] = useState(false);
-  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+  const [editingTransaction, setEditingTransaction] = useState<TransactionWithDetails | null>(null);
   const { toast } = useToast();
+  const { getCategoryTreeIds } = useCategories();
+  const [, setLocation] = useLocation();
+  const searchString = useSearch();
+  const filters = parseTransactionFilters(searchString);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  // Selecting a parent category also matches its subcategories
+  const requestParams = toTransactionSearchParams(filters);
+  if (filters.categoryId.length) {
+    requestParams.set("categoryId", Array.from(new Set(filters.categoryId.flatMap(getCategoryTreeIds))).join(","));
+  }
+  const exportUrl = (format: "csv" | "xlsx" | "ledger" | "hledger" | "beancount") => {
+    const params = new URLSearchParams(requestParams);
+    params.set("format", format);
+    return `/api/transactions/export?${params}`;
+  };
+  requestParams.set("limit", String(PAGE_SIZE));
+  const requestQuery = requestParams.toString();
+
+  // Keyed under /api/transactions so any transaction change refreshes it
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/transactions", "search", requestQuery],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(requestQuery);
+      if (pageParam) params.set("cursor", pageParam);
+      const response = await fetch(`/api/transactions/search?${params}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch transactions");
+      return (await response.json()) as TransactionPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
 
-  const { data: transactions, isLoading } = useQuery<Transaction[]>({
-    queryKey: ["/api/transactions"],
+  const { data: accounts } = useQuery<Account[]>({
+    queryKey: ["/api/accounts"],
   });
 
+  const transactions = data?.pages.flatMap(page => page.transactions) ?? [];
+  const hasFilters = !!(filters.search || filters.startDate || filters.endDate || filters.minAmount ||
+    filters.maxAmount || filters.type.length || filters.categoryId.length || filters.tag.length);
+
+  // Load the next page when the end of the table scrolls into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) fetchNextPage();
+    }, { rootMargin: "200px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  // Reads the current URL rather than `filters` so debounced callers never
+  // apply a patch on top of stale filters.
+  const updateFilters = (patch: Partial<TransactionFilters>) => {
+    const next = { ...parseTransactionFilters(window.location.search), ...patch };
+    const query = toTransactionSearchParams(next).toString();
+    setLocation(query ? `/transactions?${query}` : "/transactions", { replace: true });
+  };
+
   const deleteMutation = useMutation({
     mutationFn: async (id: string) => {
       await apiRequest("DELETE", `/api/transactions/${id}`);
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/analytics"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/accounts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
       toast({
         title: "Success",
         description: "Transaction deleted successfully",
@@ -43,7 +128,7 @@ export default function TransactionsPage() {
     },
   });
 
-  const handleEdit = (transaction: Transaction) => {
+  const handleEdit = (transaction: TransactionWithDetails) => {
     setEditingTransaction(transaction);
     setIsFormOpen(true);
   };
@@ -59,76 +144,73 @@ export default function TransactionsPage() {
     setEditingTransaction(null);
   };
 
-  const getCategoryColor = (category: string) => {
-    const colors: Record<string, string> = {
-      Food: "bg-red-100 text-red-800",
-      Transportation: "bg-blue-100 text-blue-800", 
-      Entertainment: "bg-green-100 text-green-800",
-      Bills: "bg-purple-100 text-purple-800",
-      Shopping: "bg-yellow-100 text-yellow-800",
-      Healthcare: "bg-pink-100 text-pink-800",
-      Education: "bg-indigo-100 text-indigo-800",
-      Travel: "bg-orange-100 text-orange-800",
-      Groceries: "bg-lime-100 text-lime-800",
-      Utilities: "bg-cyan-100 text-cyan-800",
-      Insurance: "bg-gray-100 text-gray-800",
-      Investment: "bg-emerald-100 text-emerald-800",
-      Income: "bg-teal-100 text-teal-800",
-      Other: "bg-slate-100 text-slate-800",
-    };
-    return colors[category] || colors.Other;
-  };
+  const getAccountName = (id?: string | null) => accounts?.find(a => a.id === id)?.name;
 
   return (
     <div className="flex h-screen bg-background">
       <Sidebar />
       <main className="flex-1 flex flex-col overflow-hidden">
-        <Header 
-          title="Transactions" 
+        <Header
+          title="Transactions"
           subtitle="Manage your income and expenses"
           action={
-            <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-              <DialogTrigger asChild>
-                <Button data-testid="button-add-transaction">
-                  <Plus className="w-4 h-4 mr-2" />
-                  Add Transaction
-                </Button>
-              </DialogTrigger>
-              <DialogContent className="max-w-md">
-                <DialogHeader>
-                  <DialogTitle>
-                    {editingTransaction ? "Edit Transaction" : "Add Transaction"}
-                  </DialogTitle>
-                </DialogHeader>
-                <TransactionForm 
-                  transaction={editingTransaction}
-                  onSuccess={handleFormClose}
-                />
-              </DialogContent>
-            </Dialog>
+            <div className="flex items-center gap-2">
+              <ExportMenu
+                options={[
+                  { label: "CSV", href: exportUrl("csv"), testId: "link-export-csv" },
+                  { label: "Excel (XLSX)", href: exportUrl("xlsx"), testId: "link-export-xlsx" },
+                  { label: "Ledger", href: exportUrl("ledger"), testId: "link-export-ledger" },
+                  { label: "hledger", href: exportUrl("hledger"), testId: "link-export-hledger" },
+                  { label: "Beancount", href: exportUrl("beancount"), testId: "link-export-beancount" },
+                ]}
+              />
+              <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+                <DialogTrigger asChild>
+                  <Button data-testid="button-add-transaction">
+                    <Plus className="w-4 h-4 mr-2" />
+                    Add Transaction
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingTransaction ? "Edit Transaction" : "Add Transaction"}
+                    </DialogTitle>
+                  </DialogHeader>
+                  <TransactionForm
+                    transaction={editingTransaction}
+                    onSuccess={handleFormClose}
+                  />
+                </DialogContent>
+              </Dialog>
+            </div>
           }
         />
 
         <div className="flex-1 overflow-y-auto p-6">
+          <DuplicateReview />
           <Card>
-            <CardHeader>
-              <CardTitle>Recent Transactions</CardTitle>
+            <CardHeader className="space-y-4">
+              <CardTitle>All Transactions</CardTitle>
+              <TransactionFilterBar filters={filters} onChange={updateFilters} />
             </CardHeader>
             <CardContent>
               {isLoading ? (
                 <div className="space-y-4">
                   {Array.from({ length: 5 }).map((_, i) => (
                     <div key={i} className="flex items-center space-x-4">
-                      <Skeleton className="w-12 h-12 rounded-full" />
-                      <div className="flex-1 space-y-2">
-                        <Skeleton className="h-4 w-3/4" />
-                        <Skeleton className="h-3 w-1/2" />
-                      </div>
+                      <Skeleton className="h-4 w-24" />
+                      <Skeleton className="h-4 flex-1" />
                       <Skeleton className="h-4 w-20" />
                     </div>
                   ))}
                 </div>
-              ) : transactions?.length === 0 ? (
+              ) : transactions.length === 0 && hasFilters ? (
+                <div className="text-center py-12" data-testid="text-no-matches">
+                  <SearchX className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+                  <p className="text-muted-foreground">No transactions match these filters.</p>
+                </div>
+              ) : transactions.length === 0 ? (
                 <div className="text-center py-12">
                   <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
                     <Plus className="w-8 h-8 text-muted-foreground" />
@@ -142,72 +224,102 @@ export default function TransactionsPage() {
                   </Button>
                 </div>
               ) : (
-                <div className="space-y-4">
-                  {transactions?.map((transaction) => (
-                    <div
-                      key={transaction.id}
-                      className="flex items-center space-x-4 p-3 hover:bg-accent rounded-lg transition-colors"
-                      data-testid={`transaction-${transaction.id}`}
-                    >
-                      <div className={`w-10 h-10 rounded-full flex items-center justify-center ${
-                        transaction.type === 'income' ? 'bg-success/10' : 'bg-destructive/10'
-                      }`}>
-                        {transaction.type === 'income' ? (
-                          <svg className="w-5 h-5 text-success" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M7 17l10-10M17 7H7v10" />
-                          </svg>
-                        ) : (
-                          <svg className="w-5 h-5 text-destructive" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M17 7l-10 10M7 7l10 10" />
-                          </svg>
-                        )}
-                      </div>
-                      
-                      <div className="flex-1">
-                        <p className="font-medium" data-testid={`text-description-${transaction.id}`}>
-                          {transaction.description}
-                        </p>
-                        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                          <Badge className={getCategoryColor(transaction.category)} data-testid={`badge-category-${transaction.id}`}>
-                            {transaction.category}
-                          </Badge>
-                          <span>•</span>
-                          <span data-testid={`text-date-${transaction.id}`}>
-                            {new Date(transaction.date).toLocaleDateString()}
-                          </span>
-                        </div>
-                      </div>
-                      
-                      <div className="flex items-center space-x-2">
-                        <p className={`font-medium ${
-                          transaction.type === 'income' ? 'text-success' : 'text-destructive'
-                        }`} data-testid={`text-amount-${transaction.id}`}>
-                          {transaction.type === 'income' ? '+' : '-'}₹{parseFloat(transaction.amount).toLocaleString()}
-                        </p>
-                        
-                        <div className="flex items-center space-x-1">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleEdit(transaction)}
-                            data-testid={`button-edit-${transaction.id}`}
+                <>
+                  <Table data-testid="table-transactions">
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Account</TableHead>
+                        <TableHead className="text-right">Amount</TableHead>
+                        <TableHead className="w-24" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {transactions.map((transaction) => (
+                        <TableRow key={transaction.id} data-testid={`transaction-${transaction.id}`}>
+                          <TableCell className="whitespace-nowrap text-muted-foreground" data-testid={`text-date-${transaction.id}`}>
+                            {formatDate(transaction.date)}
+                          </TableCell>
+                          <TableCell data-testid={`text-description-${transaction.id}`}>
+                            <div className="flex items-center gap-3">
+                              <AttachmentPreview attachments={transaction.attachments} />
+                              <div className="min-w-0">
+                                <div className="flex items-center gap-1.5 font-medium">
+                                  {transaction.description}
+                                  {transaction.notes && (
+                                    <StickyNote className="w-3.5 h-3.5 shrink-0 text-muted-foreground" aria-label="Has notes" data-testid={`icon-notes-${transaction.id}`}>
+                                      <title>{transaction.notes}</title>
+                                    </StickyNote>
+                                  )}
+                                </div>
+                                {transaction.tags.length > 0 && (
+                                  <div className="flex flex-wrap gap-1 mt-1" data-testid={`tags-${transaction.id}`}>
+                                    {transaction.tags.map((tag) => (
+                                      <button
+                                        key={tag}
+                                        type="button"
+                                        onClick={() => !filters.tag.includes(tag) && updateFilters({ tag: [...filters.tag, tag] })}
+                                        title={`Show transactions tagged ${tag}`}
+                                      >
+                                        <Badge variant="outline" className="text-xs font-normal">#{tag}</Badge>
+                                      </button>
+                                    ))}
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {transaction.type === 'transfer' ? (
+                              <Badge variant="secondary" data-testid={`badge-category-${transaction.id}`}>Transfer</Badge>
+                            ) : (
+                              <TransactionCategory transaction={transaction} data-testid={`badge-category-${transaction.id}`} />
+                            )}
+                          </TableCell>
+                          <TableCell className="text-muted-foreground">
+                            {transaction.type === 'transfer'
+                              ? `${getAccountName(transaction.accountId) ?? "—"} → ${getAccountName(transaction.transferAccountId) ?? "—"}`
+                              : getAccountName(transaction.accountId) ?? "—"}
+                          </TableCell>
+                          <TableCell
+                            className={`text-right font-medium whitespace-nowrap ${
+                              transaction.type === 'income' ? 'text-success' : transaction.type === 'transfer' ? 'text-muted-foreground' : 'text-destructive'
+                            }`}
+                            data-testid={`text-amount-${transaction.id}`}
                           >
-                            <Edit className="w-4 h-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDelete(transaction.id)}
-                            disabled={deleteMutation.isPending}
-                            data-testid={`button-delete-${transaction.id}`}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
-                </div>
+                            {transaction.type === 'income' ? '+' : transaction.type === 'expense' ? '-' : ''}{formatAmount(transaction.amount, transaction.currency)}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex items-center justify-end space-x-1">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleEdit(transaction)}
+                                data-testid={`button-edit-${transaction.id}`}
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDelete(transaction.id)}
+                                disabled={deleteMutation.isPending}
+                                data-testid={`button-delete-${transaction.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                  <div ref={loadMoreRef} className="flex justify-center py-4" data-testid="transactions-load-more">
+                    {isFetchingNextPage && <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />}
+                  </div>
+                </>
               )}
             </CardContent>
           </Card>
@@ -0,0 +1,50 @@
+CREATE TABLE "categories" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"parent_id" uuid,
+	"name" text NOT NULL,
+	"color" text DEFAULT '#64748b' NOT NULL,
+	"icon" text DEFAULT 'tag' NOT NULL,
+	"is_archived" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+-- Seed the former enum values as categories for every existing user, then
+-- point transactions and budgets at the matching rows.
+INSERT INTO "categories" ("user_id", "name", "color", "icon")
+SELECT "users"."id", "defaults"."name", "defaults"."color", "defaults"."icon"
+FROM "users"
+CROSS JOIN (VALUES
+	('Food', '#ef4444', 'utensils'),
+	('Transportation', '#3b82f6', 'car'),
+	('Entertainment', '#22c55e', 'film'),
+	('Bills', '#a855f7', 'receipt'),
+	('Shopping', '#eab308', 'shopping-bag'),
+	('Healthcare', '#ec4899', 'heart-pulse'),
+	('Education', '#6366f1', 'graduation-cap'),
+	('Travel', '#f97316', 'plane'),
+	('Groceries', '#84cc16', 'shopping-cart'),
+	('Utilities', '#06b6d4', 'zap'),
+	('Insurance', '#6b7280', 'shield'),
+	('Investment', '#10b981', 'trending-up'),
+	('Income', '#14b8a6', 'wallet'),
+	('Other', '#64748b', 'tag')
+) AS "defaults"("name", "color", "icon");--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "category_id" uuid;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "category_id" uuid;--> statement-breakpoint
+UPDATE "budgets" SET "category_id" = "categories"."id"
+FROM "categories"
+WHERE "categories"."user_id" = "budgets"."user_id" AND "categories"."name" = "budgets"."category"::text;--> statement-breakpoint
+-- Transfers keep a null category. The type is compared as text because the
+-- 'transfer' value added in 0001 can't be used in the same transaction.
+UPDATE "transactions" SET "category_id" = "categories"."id"
+FROM "categories"
+WHERE "categories"."user_id" = "transactions"."user_id" AND "categories"."name" = "transactions"."category"::text AND "transactions"."type"::text <> 'transfer';--> statement-breakpoint
+ALTER TABLE "budgets" ALTER COLUMN "category_id" SET NOT NULL;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parent_id_categories_id_fk" FOREIGN KEY ("parent_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "budgets" DROP COLUMN "category";--> statement-breakpoint
+ALTER TABLE "transactions" DROP COLUMN "category";--> statement-breakpoint
+DROP TYPE "public"."category";
\ No newline at end of file
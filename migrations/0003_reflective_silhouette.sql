@@ -0,0 +1,43 @@
+CREATE TYPE "public"."recurrence_frequency" AS ENUM('daily', 'weekly', 'monthly', 'yearly');--> statement-breakpoint
+CREATE TABLE "recurring_exceptions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"recurring_transaction_id" uuid NOT NULL,
+	"occurrence_date" timestamp NOT NULL,
+	"is_skipped" boolean DEFAULT false NOT NULL,
+	"amount" numeric(12, 2),
+	"description" text,
+	"category_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "recurring_exceptions_recurring_transaction_id_occurrence_date_unique" UNIQUE("recurring_transaction_id","occurrence_date")
+);
+--> statement-breakpoint
+CREATE TABLE "recurring_transactions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"account_id" uuid,
+	"transfer_account_id" uuid,
+	"amount" numeric(12, 2) NOT NULL,
+	"description" text NOT NULL,
+	"category_id" uuid,
+	"type" "transaction_type" NOT NULL,
+	"frequency" "recurrence_frequency" NOT NULL,
+	"interval" integer DEFAULT 1 NOT NULL,
+	"week_of_month" integer,
+	"day_of_week" integer,
+	"start_date" timestamp NOT NULL,
+	"end_date" timestamp,
+	"occurrence_limit" integer,
+	"occurrence_count" integer DEFAULT 0 NOT NULL,
+	"next_date" timestamp,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "recurring_transaction_id" uuid;--> statement-breakpoint
+ALTER TABLE "recurring_exceptions" ADD CONSTRAINT "recurring_exceptions_recurring_transaction_id_recurring_transactions_id_fk" FOREIGN KEY ("recurring_transaction_id") REFERENCES "public"."recurring_transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_exceptions" ADD CONSTRAINT "recurring_exceptions_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD CONSTRAINT "recurring_transactions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD CONSTRAINT "recurring_transactions_account_id_accounts_id_fk" FOREIGN KEY ("account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD CONSTRAINT "recurring_transactions_transfer_account_id_accounts_id_fk" FOREIGN KEY ("transfer_account_id") REFERENCES "public"."accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "recurring_transactions" ADD CONSTRAINT "recurring_transactions_category_id_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."categories"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_recurring_transaction_id_recurring_transactions_id_fk" FOREIGN KEY ("recurring_transaction_id") REFERENCES "public"."recurring_transactions"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
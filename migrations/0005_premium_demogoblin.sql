@@ -0,0 +1,2 @@
+ALTER TABLE "transactions" ADD COLUMN "external_id" text;--> statement-breakpoint
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_user_id_external_id_unique" UNIQUE("user_id","external_id");
\ No newline at end of file
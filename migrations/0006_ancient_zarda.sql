@@ -0,0 +1,12 @@
+CREATE TABLE "duplicate_dismissals" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"first_transaction_id" uuid NOT NULL,
+	"second_transaction_id" uuid NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "duplicate_dismissals_pair_unique" UNIQUE("user_id","first_transaction_id","second_transaction_id")
+);
+--> statement-breakpoint
+ALTER TABLE "duplicate_dismissals" ADD CONSTRAINT "duplicate_dismissals_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "duplicate_dismissals" ADD CONSTRAINT "duplicate_dismissals_first_transaction_id_transactions_id_fk" FOREIGN KEY ("first_transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "duplicate_dismissals" ADD CONSTRAINT "duplicate_dismissals_second_transaction_id_transactions_id_fk" FOREIGN KEY ("second_transaction_id") REFERENCES "public"."transactions"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "transactions_user_date_idx" ON "transactions" USING btree ("user_id","date");
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "budget_alerts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"budget_id" uuid NOT NULL,
+	"threshold" integer NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "budget_alerts_budget_id_threshold_unique" UNIQUE("budget_id","threshold")
+);
+--> statement-breakpoint
+ALTER TABLE "budgets" ADD COLUMN "alert_thresholds" jsonb DEFAULT '[80,100]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_budget_id_budgets_id_fk" FOREIGN KEY ("budget_id") REFERENCES "public"."budgets"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
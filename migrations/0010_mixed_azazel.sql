@@ -0,0 +1,17 @@
+CREATE TYPE "public"."goal_contribution_type" AS ENUM('deposit', 'withdrawal');--> statement-breakpoint
+CREATE TABLE "goal_contributions" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"goal_id" uuid NOT NULL,
+	"type" "goal_contribution_type" NOT NULL,
+	"amount" numeric(12, 2) NOT NULL,
+	"date" timestamp NOT NULL,
+	"transaction_id" uuid,
+	"note" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_goal_id_goals_id_fk" FOREIGN KEY ("goal_id") REFERENCES "public"."goals"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "goal_contributions" ADD CONSTRAINT "goal_contributions_transaction_id_transactions_id_fk" FOREIGN KEY ("transaction_id") REFERENCES "public"."transactions"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Keep existing balances as an opening deposit so the ledger adds up
+INSERT INTO "goal_contributions" ("goal_id", "type", "amount", "date", "note")
+SELECT "id", 'deposit', "current_amount", "created_at", 'Opening balance' FROM "goals" WHERE "current_amount" > 0;
\ No newline at end of file
@@ -0,0 +1,16 @@
+CREATE TABLE "exchange_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"from_currency" text NOT NULL,
+	"to_currency" text NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"date" timestamp NOT NULL,
+	"source" text DEFAULT 'manual' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "exchange_rates_user_id_from_currency_to_currency_date_unique" UNIQUE("user_id","from_currency","to_currency","date")
+);
+--> statement-breakpoint
+ALTER TABLE "accounts" ADD COLUMN "currency" text DEFAULT 'INR' NOT NULL;--> statement-breakpoint
+ALTER TABLE "transactions" ADD COLUMN "currency" text DEFAULT 'INR' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "base_currency" text DEFAULT 'INR' NOT NULL;--> statement-breakpoint
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
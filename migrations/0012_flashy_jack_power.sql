@@ -0,0 +1,11 @@
+CREATE TABLE "user_settings" (
+	"user_id" uuid PRIMARY KEY NOT NULL,
+	"currency_display" text DEFAULT 'symbol' NOT NULL,
+	"locale" text DEFAULT 'en-IN' NOT NULL,
+	"time_zone" text DEFAULT 'UTC' NOT NULL,
+	"week_starts_on" integer DEFAULT 1 NOT NULL,
+	"budget_month_start_day" integer DEFAULT 1 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_settings" ADD CONSTRAINT "user_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
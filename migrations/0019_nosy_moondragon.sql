@@ -0,0 +1 @@
+ALTER TABLE "recurring_transactions" ADD COLUMN "occurrence_offset" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
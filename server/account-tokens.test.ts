@@ -0,0 +1,164 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { storage } from "./storage";
+import { createSignedToken, verifySignedToken } from "./account-tokens";
+import { createTestApp, mailedToken, sentMail, signUp, TEST_PASSWORD } from "./test/app";
+
+const HOUR_MS = 60 * 60 * 1000;
+const NEW_PASSWORD = "Copper-Lighthouse-Willow-63";
+
+describe("signed tokens", () => {
+  const id = "6f1c8a52-1b0e-4c59-9d1a-3f5e2b7c9a10";
+  const expiresAt = new Date(Date.now() + HOUR_MS);
+
+  it("verify to the row id until they expire", () => {
+    const token = createSignedToken("password_reset", id, expiresAt);
+    expect(verifySignedToken("password_reset", token)).toBe(id);
+    expect(verifySignedToken("password_reset", token, expiresAt.getTime() + 1)).toBeNull();
+  });
+
+  it("are bound to their purpose", () => {
+    const token = createSignedToken("password_reset", id, expiresAt);
+    expect(verifySignedToken("email_verification", token)).toBeNull();
+  });
+
+  it("turn away tampered or malformed tokens", () => {
+    const [tokenId, expires, signature] = createSignedToken("password_reset", id, expiresAt).split(".");
+    const later = (expiresAt.getTime() + 24 * HOUR_MS).toString(36);
+    const otherId = "0b9e4d27-5a63-4f18-8c2e-7d4a1f6b3e95";
+    expect(verifySignedToken("password_reset", `${tokenId}.${later}.${signature}`)).toBeNull();
+    expect(verifySignedToken("password_reset", `${otherId}.${expires}.${signature}`)).toBeNull();
+    expect(verifySignedToken("password_reset", `${tokenId}.${expires}.${signature.slice(1)}`)).toBeNull();
+    expect(verifySignedToken("password_reset", `${tokenId}.${expires}`)).toBeNull();
+    expect(verifySignedToken("password_reset", "")).toBeNull();
+  });
+});
+
+describe("account links", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  const mailCount = (to: string) => sentMail.filter(mail => mail.to === to).length;
+
+  describe("password reset", () => {
+    it("sets the new password and signs out every session", async () => {
+      const { agent, user } = await signUp(app);
+      const otherDevice = request.agent(app);
+      await otherDevice.post("/api/login").send({ username: user.username, password: TEST_PASSWORD }).expect(200);
+
+      await request(app).post("/api/password-reset").send({ email: user.email }).expect(202);
+      const token = await mailedToken(user.email, "reset");
+      await request(app).post("/api/password-reset/confirm").send({ token, password: NEW_PASSWORD }).expect(200);
+
+      await agent.get("/api/user").expect(401);
+      await otherDevice.get("/api/user").expect(401);
+      await request(app).post("/api/login").send({ username: user.username, password: TEST_PASSWORD }).expect(401);
+      await request(app).post("/api/login").send({ username: user.username, password: NEW_PASSWORD }).expect(200);
+    });
+
+    it("links work once", async () => {
+      const { user } = await signUp(app);
+      await request(app).post("/api/password-reset").send({ email: user.email }).expect(202);
+      const token = await mailedToken(user.email, "reset");
+
+      await request(app).post("/api/password-reset/confirm").send({ token, password: NEW_PASSWORD }).expect(200);
+      await request(app).post("/api/password-reset/confirm").send({ token, password: "Another-Fresh-Password-71" }).expect(400);
+      await request(app).post("/api/login").send({ username: user.username, password: NEW_PASSWORD }).expect(200);
+    });
+
+    it("turns away expired links", async () => {
+      const { user } = await signUp(app);
+      const expired = await storage.createAuthToken(user.id, "password_reset", user.email, new Date(Date.now() - 1000));
+
+      // The signature has expired too...
+      const token = createSignedToken("password_reset", expired.id, expired.expiresAt);
+      await request(app).post("/api/password-reset/confirm").send({ token, password: NEW_PASSWORD }).expect(400);
+      // ...and the row is checked even when it hasn't
+      const resigned = createSignedToken("password_reset", expired.id, new Date(Date.now() + HOUR_MS));
+      await request(app).post("/api/password-reset/confirm").send({ token: resigned, password: NEW_PASSWORD }).expect(400);
+    });
+
+    it("doesn't take a verification link", async () => {
+      const { user } = await signUp(app);
+      const token = await mailedToken(user.email, "verify");
+      await request(app).post("/api/password-reset/confirm").send({ token, password: NEW_PASSWORD }).expect(400);
+    });
+
+    it("answers the same whether or not the address has an account", async () => {
+      const known = await request(app).post("/api/password-reset").send({ email: (await signUp(app)).user.email });
+      const unknown = await request(app).post("/api/password-reset").send({ email: "nobody@example.com" });
+      expect(unknown.status).toBe(known.status);
+      expect(unknown.body).toEqual(known.body);
+    });
+  });
+
+  describe("email verification", () => {
+    it("marks the address verified with the link sent on registration", async () => {
+      const { agent, user } = await signUp(app);
+      expect(user.emailVerifiedAt).toBeNull();
+      const token = await mailedToken(user.email, "verify");
+
+      await request(app).post("/api/email-verification/confirm").send({ token }).expect(200);
+      const { body } = await agent.get("/api/user").expect(200);
+      expect(body.emailVerifiedAt).not.toBeNull();
+
+      // The link is used up, and there is nothing left to resend
+      await request(app).post("/api/email-verification/confirm").send({ token }).expect(400);
+      await agent.post("/api/email-verification").expect(400);
+    });
+
+    it("doesn't take a password reset link", async () => {
+      const { user } = await signUp(app);
+      await request(app).post("/api/password-reset").send({ email: user.email }).expect(202);
+      const token = await mailedToken(user.email, "reset");
+      await request(app).post("/api/email-verification/confirm").send({ token }).expect(400);
+    });
+
+    it("only sends another link after a minute", async () => {
+      const { agent, user } = await signUp(app);
+      const first = await mailedToken(user.email, "verify");
+
+      await agent.post("/api/email-verification").expect(202);
+      expect(mailCount(user.email)).toBe(1);
+
+      vi.useFakeTimers({ toFake: ["Date"], now: Date.now() + 61 * 1000 });
+      await agent.post("/api/email-verification").expect(202);
+      expect(mailCount(user.email)).toBe(2);
+      const second = await mailedToken(user.email, "verify");
+      expect(second).not.toBe(first);
+
+      // The new link replaces the old one
+      await request(app).post("/api/email-verification/confirm").send({ token: first }).expect(400);
+      await request(app).post("/api/email-verification/confirm").send({ token: second }).expect(200);
+    });
+
+    it("needs a signed-in user to resend", async () => {
+      await request(app).post("/api/email-verification").expect(401);
+    });
+  });
+
+  it("limits how many links one IP can ask for", async () => {
+    // `trust proxy` is set, so the forwarded address is the client's
+    const ip = "10.200.0.1";
+    for (let i = 0; i < 10; i++) {
+      await request(app).post("/api/password-reset").set("X-Forwarded-For", ip).send({ email: `nobody${i}@example.com` }).expect(202);
+    }
+
+    const response = await request(app).post("/api/password-reset").set("X-Forwarded-For", ip).send({ email: "nobody@example.com" }).expect(429);
+    expect(response.headers["retry-after"]).toBe(String(15 * 60));
+    expect(response.body.error).toBe("Too many emails requested. Try again in 15 minutes.");
+
+    // Verification links count towards the same limit
+    const { agent } = await signUp(app);
+    await agent.post("/api/email-verification").set("X-Forwarded-For", ip).expect(429);
+    await request(app).post("/api/password-reset").set("X-Forwarded-For", "10.200.0.2").send({ email: "nobody@example.com" }).expect(202);
+  });
+});
@@ -0,0 +1,88 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { storage } from "./storage";
+import { getMailer } from "./mailer";
+import type { AuthTokenPurpose, User } from "@shared/schema";
+
+// Links for resetting a password and verifying an email address. A link's
+// token is "<row id>.<expiry>.<signature>": the HMAC lets forged or
+// tampered links be turned away without a database lookup, and the
+// auth_tokens row makes each link work once.
+
+const TOKEN_LIFETIME_MS: Record<AuthTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000, // an hour
+  email_verification: 24 * 60 * 60 * 1000, // a day
+};
+
+// A user can ask for a new link once a minute.
+const RESEND_INTERVAL_MS = 60 * 1000;
+
+// Where the emailed links point: the web app's /auth page.
+const APP_URL = (process.env.APP_URL || process.env.VITE_FRONTEND_URL || "http://localhost:5173").replace(/\/+$/, "");
+
+function sign(purpose: AuthTokenPurpose, id: string, expires: string) {
+  return createHmac("sha256", process.env.SESSION_SECRET!).update(`${purpose}.${id}.${expires}`).digest("base64url");
+}
+
+export function createSignedToken(purpose: AuthTokenPurpose, id: string, expiresAt: Date) {
+  const expires = expiresAt.getTime().toString(36);
+  return `${id}.${expires}.${sign(purpose, id, expires)}`;
+}
+
+// The token's row id, or null when the signature doesn't match or the
+// token has expired.
+export function verifySignedToken(purpose: AuthTokenPurpose, token: string, now = Date.now()) {
+  const [id, expires, signature] = token.trim().split(".");
+  if (!id || !expires || !signature) return null;
+  const expected = Buffer.from(sign(purpose, id, expires));
+  const supplied = Buffer.from(signature);
+  if (expected.length !== supplied.length || !timingSafeEqual(expected, supplied)) return null;
+  if (parseInt(expires, 36) < now) return null;
+  return id;
+}
+
+// Creates the token row and returns the link, or null when a link for the
+// same purpose was sent moments ago.
+async function createLink(user: User, purpose: AuthTokenPurpose, param: string) {
+  const latest = await storage.getLatestAuthToken(user.id, purpose);
+  if (latest && Date.now() - latest.createdAt.getTime() < RESEND_INTERVAL_MS) return null;
+
+  const expiresAt = new Date(Date.now() + TOKEN_LIFETIME_MS[purpose]);
+  const row = await storage.createAuthToken(user.id, purpose, user.email, expiresAt);
+  return `${APP_URL}/auth?${param}=${encodeURIComponent(createSignedToken(purpose, row.id, expiresAt))}`;
+}
+
+export async function sendPasswordResetEmail(user: User) {
+  const link = await createLink(user, "password_reset", "reset");
+  if (!link) return;
+  await getMailer().send({
+    to: user.email,
+    subject: "Reset your SavvyFinance password",
+    text: [
+      `Hi ${user.firstName},`,
+      "",
+      "Someone asked to reset the password of your SavvyFinance account. To choose a new password, open this link within the next hour:",
+      "",
+      link,
+      "",
+      "If it wasn't you, ignore this email; your password stays the same.",
+    ].join("\n"),
+  });
+}
+
+export async function sendVerificationEmail(user: User) {
+  const link = await createLink(user, "email_verification", "verify");
+  if (!link) return;
+  await getMailer().send({
+    to: user.email,
+    subject: "Confirm your email address for SavvyFinance",
+    text: [
+      `Hi ${user.firstName},`,
+      "",
+      `Please confirm that ${user.email} is your email address by opening this link within the next 24 hours:`,
+      "",
+      link,
+      "",
+      "If you didn't create a SavvyFinance account, ignore this email.",
+    ].join("\n"),
+  });
+}
@@ -0,0 +1,96 @@
+import { randomUUID } from "crypto";
+import { getFileStorage } from "./file-storage";
+import type { Attachment, AttachmentContentType } from "@shared/schema";
+
+// Thumbnails are made by the browser, so they only need to be small images.
+export const MAX_THUMBNAIL_SIZE = 200 * 1024; // bytes
+const THUMBNAIL_CONTENT_TYPES: AttachmentContentType[] = ["image/jpeg", "image/png", "image/webp"];
+
+// File signatures. The declared Content-Type must match what the bytes are,
+// so a renamed script can't be served back as an image.
+const SIGNATURES: Array<{ type: AttachmentContentType; matches: (data: Buffer) => boolean }> = [
+  { type: "image/jpeg", matches: (data) => data.length > 3 && data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff },
+  { type: "image/png", matches: (data) => data.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { type: "image/webp", matches: (data) => data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP" },
+  { type: "application/pdf", matches: (data) => data.toString("latin1", 0, 5) === "%PDF-" },
+];
+
+export function detectContentType(data: Buffer): AttachmentContentType | null {
+  return SIGNATURES.find(signature => signature.matches(data))?.type ?? null;
+}
+
+// Checks an upload against the declared type, returning an error message or
+// null when it is acceptable.
+export function validateUpload(data: Buffer, declaredType: string | undefined, options: { thumbnail?: boolean } = {}): string | null {
+  if (data.length === 0) return "File is empty";
+  const allowed = options.thumbnail ? THUMBNAIL_CONTENT_TYPES : SIGNATURES.map(signature => signature.type);
+  const contentType = declaredType?.split(";")[0].trim().toLowerCase();
+  if (!contentType || !allowed.includes(contentType as AttachmentContentType)) {
+    return options.thumbnail ? "Thumbnails must be JPEG, PNG or WebP images" : "Only JPEG, PNG, WebP and PDF files can be attached";
+  }
+  if (detectContentType(data) !== contentType) {
+    return "File contents do not match its type";
+  }
+  return null;
+}
+
+// Keeps the last path segment, drops control characters and caps the length.
+export function sanitizeFileName(name: string | undefined): string {
+  let decoded = name ?? "";
+  try {
+    decoded = decodeURIComponent(decoded);
+  } catch {
+    // Not percent-encoded; use as is
+  }
+  const base = decoded.split(/[\\/]/).pop()!.replace(/[\u0000-\u001f\u007f"]/g, "").trim();
+  return base.slice(-200) || "attachment";
+}
+
+function fileKey(attachment: Pick<Attachment, "userId" | "id">) {
+  return `${attachment.userId}/${attachment.id}`;
+}
+
+function thumbnailKey(attachment: Pick<Attachment, "userId" | "id">) {
+  return `${attachment.userId}/${attachment.id}.thumb`;
+}
+
+// Stores the file under a fresh id, which the attachment row must then use.
+export async function storeAttachmentFile(userId: string, data: Buffer): Promise<string> {
+  const id = randomUUID();
+  await getFileStorage().put(fileKey({ userId, id }), data);
+  return id;
+}
+
+export async function storeThumbnail(attachment: Attachment, data: Buffer) {
+  await getFileStorage().put(thumbnailKey(attachment), data);
+}
+
+export async function readAttachmentFile(attachment: Attachment): Promise<Buffer | null> {
+  return await getFileStorage().get(fileKey(attachment));
+}
+
+export async function readThumbnail(attachment: Attachment): Promise<Buffer | null> {
+  return attachment.hasThumbnail ? await getFileStorage().get(thumbnailKey(attachment)) : null;
+}
+
+// Removes the files of attachments whose rows are already gone. Failures are
+// logged rather than thrown: the rows are deleted either way, and a stray
+// file is harmless.
+export async function removeAttachmentFiles(removed: Array<Pick<Attachment, "userId" | "id">>) {
+  const fileStorage = getFileStorage();
+  for (const attachment of removed) {
+    try {
+      await fileStorage.delete(fileKey(attachment));
+      await fileStorage.delete(thumbnailKey(attachment));
+    } catch (error) {
+      console.error('Error removing attachment files:', error);
+    }
+  }
+}
+
+// Content-Disposition with the original name, readable by old and new
+// browsers alike.
+export function contentDisposition(type: "inline" | "attachment", fileName: string) {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_");
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
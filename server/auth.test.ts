@@ -0,0 +1,154 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import type TestAgent from "supertest/lib/agent";
+import { storage } from "./storage";
+import { currentTotpStep, totpCode } from "./two-factor";
+import { createTestApp, mailedToken, signUp, TEST_PASSWORD } from "./test/app";
+import { PUBLIC_USER_FIELDS, type PublicUser } from "@shared/schema";
+
+// Fields that hold a password hash, TOTP secret, recovery code hash or
+// email token in the database. None of them may appear in a response, at
+// any depth.
+const SECRET_FIELDS = ["password", "secret", "codeHash", "token"];
+
+// The one exception: two-factor setup shows the new secret once, so it can
+// be typed into an authenticator app that can't scan the QR code.
+const ALLOWED_SECRET_FIELDS: Partial<Record<(typeof RESPONSES)[number], string[]>> = {
+  setup: ["body.secret"],
+};
+
+function secretFieldsIn(value: unknown, path = "body"): string[] {
+  if (Array.isArray(value)) return value.flatMap((item, index) => secretFieldsIn(item, `${path}[${index}]`));
+  if (value && typeof value === "object") {
+    return Object.entries(value).flatMap(([key, field]) => [
+      ...(SECRET_FIELDS.includes(key) ? [`${path}.${key}`] : []),
+      ...secretFieldsIn(field, `${path}.${key}`),
+    ]);
+  }
+  return [];
+}
+
+const RESPONSES = [
+  "register", "user", "updateUser", "login", "setup", "enable", "status",
+  "recoveryCodes", "loginWithTwoFactor", "loginSecondStep", "userWithTwoFactor",
+  "sessions", "backup", "resendVerification", "verifyEmail", "changePassword",
+  "passwordReset", "passwordResetConfirm",
+] as const;
+
+const STATUS: Partial<Record<(typeof RESPONSES)[number], number>> = {
+  register: 201,
+  resendVerification: 202,
+  passwordReset: 202,
+};
+
+const NEW_PASSWORD = "Amber-Orchard-Compass-17";
+const RESET_PASSWORD = "Velvet-Glacier-Meadow-58";
+
+describe("auth responses", () => {
+  let app: Express;
+  let agent: TestAgent;
+  let user: PublicUser;
+  let recoveryCodes: string[];
+  // Every password hash the user has had along the way
+  const passwordHashes: string[] = [];
+  const mailedTokens: string[] = [];
+  const responses = {} as Record<(typeof RESPONSES)[number], { status: number; body: unknown; text: string }>;
+
+  const recordPasswordHash = async () => {
+    passwordHashes.push((await storage.getUser(user.id))!.password);
+  };
+
+  beforeAll(async () => {
+    app = await createTestApp();
+
+    // Every response is recorded along the way and checked below
+    const registered = request.agent(app);
+    responses.register = await registered
+      .post("/api/register")
+      .send({ username: "secret_keeper", password: TEST_PASSWORD, email: "secret_keeper@example.com", firstName: "Test", lastName: "User" });
+    ({ agent, user } = await signUp(app));
+    await recordPasswordHash();
+
+    responses.user = await agent.get("/api/user");
+    responses.updateUser = await agent.patch("/api/user").send({ baseCurrency: "EUR" });
+    responses.login = await request.agent(app).post("/api/login").send({ username: user.username, password: TEST_PASSWORD });
+
+    responses.setup = await agent.post("/api/2fa/setup");
+    const { secret } = responses.setup.body as { secret: string };
+    responses.enable = await agent.post("/api/2fa/enable").send({ code: totpCode(secret, currentTotpStep()) });
+    responses.status = await agent.get("/api/2fa");
+    responses.recoveryCodes = await agent.post("/api/2fa/recovery-codes").send({ password: TEST_PASSWORD });
+    recoveryCodes = (responses.recoveryCodes.body as { recoveryCodes: string[] }).recoveryCodes;
+
+    const twoFactorLogin = request.agent(app);
+    responses.loginWithTwoFactor = await twoFactorLogin.post("/api/login").send({ username: user.username, password: TEST_PASSWORD });
+    responses.loginSecondStep = await twoFactorLogin.post("/api/login/2fa").send({ recoveryCode: recoveryCodes[0] });
+    responses.userWithTwoFactor = await twoFactorLogin.get("/api/user");
+
+    responses.sessions = await agent.get("/api/sessions");
+    responses.backup = await agent.get("/api/backup");
+
+    const verifyToken = await mailedToken(user.email, "verify");
+    mailedTokens.push(verifyToken);
+    responses.resendVerification = await agent.post("/api/email-verification");
+    responses.verifyEmail = await request(app).post("/api/email-verification/confirm").send({ token: verifyToken });
+
+    responses.changePassword = await agent
+      .post("/api/user/password")
+      .send({ currentPassword: TEST_PASSWORD, newPassword: NEW_PASSWORD });
+    await recordPasswordHash();
+
+    responses.passwordReset = await request(app).post("/api/password-reset").send({ email: user.email });
+    const resetToken = await mailedToken(user.email, "reset");
+    mailedTokens.push(resetToken);
+    responses.passwordResetConfirm = await request(app)
+      .post("/api/password-reset/confirm")
+      .send({ token: resetToken, password: RESET_PASSWORD });
+    await recordPasswordHash();
+  });
+
+  it.each(RESPONSES)("%s succeeds without secret fields", (name) => {
+    const { status, body } = responses[name];
+    expect(status).toBe(STATUS[name] ?? 200);
+    expect(secretFieldsIn(body)).toEqual(ALLOWED_SECRET_FIELDS[name] ?? []);
+  });
+
+  it("never include a stored password hash", () => {
+    expect(new Set(passwordHashes).size).toBe(3);
+    for (const name of RESPONSES) {
+      for (const hash of passwordHashes) {
+        expect(responses[name].text).not.toContain(hash);
+        // Nor the scrypt output on its own, without the salt
+        expect(responses[name].text).not.toContain(hash.split(".")[0]);
+      }
+    }
+  });
+
+  it("show the TOTP secret only when setting it up", async () => {
+    const twoFactor = await storage.getTwoFactorSecret(user.id);
+    expect(twoFactor?.secret).toBeTruthy();
+    expect((responses.setup.body as { secret: string }).secret).toBe(twoFactor!.secret);
+
+    for (const name of RESPONSES.filter(name => name !== "setup")) {
+      expect(responses[name].text).not.toContain(twoFactor!.secret);
+    }
+  });
+
+  it("never include an emailed token", () => {
+    expect(mailedTokens).toHaveLength(2);
+    for (const name of RESPONSES) {
+      for (const token of mailedTokens) {
+        expect(responses[name].text).not.toContain(token);
+        // The row id part is what the database looks the token up by
+        expect(responses[name].text).not.toContain(token.split(".")[0]);
+      }
+    }
+  });
+
+  it("return users with public fields only", () => {
+    for (const name of ["register", "user", "updateUser", "login", "loginSecondStep", "userWithTwoFactor"] as const) {
+      expect(Object.keys(responses[name].body as object).sort()).toEqual([...PUBLIC_USER_FIELDS].sort());
+    }
+  });
+});
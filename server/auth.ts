@@ -5,7 +5,21 @@ import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { hashRecoveryCode, verifyTotpCode } from "./two-factor";
+import { sendPasswordResetEmail, sendVerificationEmail, verifySignedToken } from "./account-tokens";
+import { checkPassword, passwordPolicy } from "./password-policy";
+import { emailLockoutMessage, getLockout, lockoutMessage, recordEmailRequest, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
+import { recordSignIn, trackSessionActivity } from "./sessions";
+import {
+  User as SelectUser,
+  PUBLIC_USER_FIELDS,
+  type PublicUser,
+  insertUserSchema,
+  emailVerificationSchema,
+  passwordResetRequestSchema,
+  passwordResetSchema,
+  twoFactorLoginSchema,
+} from "@shared/schema";
 
 declare global {
   namespace Express {
@@ -13,21 +27,86 @@ declare global {
   }
 }
 
+declare module "express-session" {
+  interface SessionData {
+    // Password checked, waiting for the second step (POST /api/login/2fa)
+    pendingTwoFactor?: { userId: string; expiresAt: number; attempts: number };
+    // Secret shown during two-factor setup, until a code confirms it
+    pendingTotpSecret?: string;
+    // Shown in the list of active sessions (see sessions.ts)
+    signedInAt?: number;
+    lastSeenAt?: number;
+    ip?: string;
+    userAgent?: string;
+  }
+}
+
+const TWO_FACTOR_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+
 const scryptAsync = promisify(scrypt);
 
-async function hashPassword(password: string) {
+export async function hashPassword(password: string) {
   const salt = randomBytes(16).toString("hex");
   const buf = (await scryptAsync(password, salt, 64)) as Buffer;
   return `${buf.toString("hex")}.${salt}`;
 }
 
-async function comparePasswords(supplied: string, stored: string) {
+export async function comparePasswords(supplied: string, stored: string) {
   const [hashed, salt] = stored.split(".");
   const hashedBuf = Buffer.from(hashed, "hex");
   const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
   return timingSafeEqual(hashedBuf, suppliedBuf);
 }
 
+// Every response that includes a user goes through this.
+export function toPublicUser(user: SelectUser): PublicUser {
+  const result: Partial<PublicUser> = {};
+  PUBLIC_USER_FIELDS.forEach((field) => {
+    (result as Record<string, unknown>)[field] = user[field];
+  });
+  return result as PublicUser;
+}
+
+const registrationSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+});
+
+function logIn(req: Request, res: Response, user: SelectUser) {
+  req.login(user, (err: Error | undefined) => {
+    if (err) {
+      console.error("Login session error:", err);
+      return res.status(500).json({ error: "Internal server error" });
+    }
+    recordLoginSuccess(user.username);
+    recordSignIn(req);
+    res.status(200).json(toPublicUser(user));
+  });
+}
+
+// Refuses the request while the client IP or username is locked out.
+function rejectIfLockedOut(req: Request, res: Response, username: string) {
+  const lockout = getLockout(req.ip ?? "", username);
+  if (lockout === 0) return false;
+  res.set("Retry-After", String(Math.ceil(lockout / 1000)));
+  res.status(429).json({ error: lockoutMessage(lockout) });
+  return true;
+}
+
+// Counts a request that emails a link, refusing it once the client IP has
+// asked for too many.
+function rejectIfTooManyEmails(req: Request, res: Response) {
+  const lockout = recordEmailRequest(req.ip ?? "");
+  if (lockout === 0) return false;
+  res.set("Retry-After", String(Math.ceil(lockout / 1000)));
+  res.status(429).json({ error: emailLockoutMessage(lockout) });
+  return true;
+}
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET!,
@@ -40,6 +119,7 @@ export function setupAuth(app: Express) {
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionActivity);
 
   // Local strategy
   passport.use(
@@ -73,10 +153,19 @@ export function setupAuth(app: Express) {
   // Registration route
   app.post("/api/register", async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { username, password, email, firstName, lastName } = req.body;
+      const parsed = registrationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid registration details." });
+      }
+      const { username, password, email, firstName, lastName } = parsed.data;
 
-      if (!username || !password || !email || !firstName || !lastName) {
-        return res.status(400).json({ error: "All fields are required." });
+      const passwordProblem = checkPassword(password, [username, email]);
+      if (passwordProblem) {
+        return res.status(400).json({ error: passwordProblem });
+      }
+      // The unique index is case-sensitive; older addresses may not be lowercase
+      if (await storage.getUserByEmail(email)) {
+        return res.status(400).json({ error: "Email already exists." });
       }
 
       const hashedPassword = await hashPassword(password);
@@ -88,9 +177,14 @@ export function setupAuth(app: Express) {
         lastName,
       });
 
+      sendVerificationEmail(user).catch((error) => {
+        console.error("Error sending verification email:", error);
+      });
+
       req.login(user, (err: Error | undefined) => {
         if (err) return next(err);
-        res.status(201).json(user);
+        recordSignIn(req);
+        res.status(201).json(toPublicUser(user));
       });
     } catch (error: any) {
       if (
@@ -106,6 +200,9 @@ export function setupAuth(app: Express) {
 
   // Login route
   app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    const username = typeof req.body?.username === "string" ? req.body.username : "";
+    if (rejectIfLockedOut(req, res, username)) return;
+
     passport.authenticate(
       "local",
       (err: Error | null, user?: SelectUser | false, info?: { message?: string }) => {
@@ -114,19 +211,174 @@ export function setupAuth(app: Express) {
           return res.status(500).json({ error: "Internal server error" });
         }
         if (!user) {
+          recordLoginFailure(req.ip ?? "", username);
           return res.status(401).json({ error: info?.message || "Invalid credentials" });
         }
-        req.login(user, (err: Error | undefined) => {
-          if (err) {
-            console.error("Login session error:", err);
-            return res.status(500).json({ error: "Internal server error" });
+        storage.getTwoFactorSecret(user.id).then((twoFactor) => {
+          // With two-factor authentication on, the session only remembers
+          // who is signing in until a code is entered.
+          if (twoFactor) {
+            req.session.pendingTwoFactor = { userId: user.id, expiresAt: Date.now() + TWO_FACTOR_TIMEOUT_MS, attempts: 0 };
+            return res.status(200).json({ twoFactorRequired: true });
           }
-          res.status(200).json(user);
+          logIn(req, res, user);
+        }).catch((err) => {
+          console.error("Login error:", err);
+          res.status(500).json({ error: "Internal server error" });
         });
       }
     )(req, res, next);
   });
 
+  // Second login step: a code from the authenticator app or a recovery code
+  app.post("/api/login/2fa", async (req: Request, res: Response) => {
+    try {
+      const pending = req.session.pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Your sign-in has expired. Please sign in again." });
+      }
+
+      const parsed = twoFactorLoginSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Enter a code." });
+      }
+
+      pending.attempts += 1;
+      if (pending.attempts > MAX_TWO_FACTOR_ATTEMPTS) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Too many attempts. Please sign in again." });
+      }
+
+      const [user, twoFactor] = await Promise.all([
+        storage.getUser(pending.userId),
+        storage.getTwoFactorSecret(pending.userId),
+      ]);
+      if (!user || !twoFactor) {
+        delete req.session.pendingTwoFactor;
+        return res.status(401).json({ error: "Please sign in again." });
+      }
+      if (rejectIfLockedOut(req, res, user.username)) return;
+
+      let verified: boolean;
+      if ("code" in parsed.data) {
+        const step = verifyTotpCode(twoFactor.secret, parsed.data.code, twoFactor.lastUsedStep);
+        verified = step !== null && (await storage.useTotpStep(user.id, step));
+      } else {
+        verified = await storage.useRecoveryCode(user.id, hashRecoveryCode(parsed.data.recoveryCode));
+      }
+      if (!verified) {
+        recordLoginFailure(req.ip ?? "", user.username);
+        return res.status(401).json({ error: "Invalid code" });
+      }
+
+      delete req.session.pendingTwoFactor;
+      logIn(req, res, user);
+    } catch (error: any) {
+      console.error("Two-factor login error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Password reset. The response is the same, and just as quick, whether
+  // or not an account uses the address, so it can't be used to find out
+  // who has one: the email is sent after responding.
+  app.post("/api/password-reset", async (req: Request, res: Response) => {
+    if (rejectIfTooManyEmails(req, res)) return;
+
+    try {
+      const parsed = passwordResetRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Enter your email address." });
+      }
+
+      const user = await storage.getUserByEmail(parsed.data.email);
+      if (user) {
+        sendPasswordResetEmail(user).catch((error) => {
+          console.error("Error sending password reset email:", error);
+        });
+      }
+      res.status(202).json({ message: "If an account uses that email address, a link to reset its password is on its way." });
+    } catch (error: any) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  app.post("/api/password-reset/confirm", async (req: Request, res: Response) => {
+    try {
+      const parsed = passwordResetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request." });
+      }
+
+      const invalidLink = "This reset link is invalid, expired or already used. Please ask for a new one.";
+      const tokenId = verifySignedToken("password_reset", parsed.data.token);
+      const token = tokenId ? await storage.getAuthToken(tokenId) : undefined;
+      const owner = token && (await storage.getUser(token.userId));
+      if (!tokenId || !owner) {
+        return res.status(400).json({ error: invalidLink });
+      }
+      const passwordProblem = checkPassword(parsed.data.password, [owner.username, owner.email]);
+      if (passwordProblem) {
+        return res.status(400).json({ error: passwordProblem });
+      }
+
+      const user = await storage.resetPassword(tokenId, await hashPassword(parsed.data.password));
+      if (!user) {
+        return res.status(400).json({ error: invalidLink });
+      }
+      // Whoever knew the old password is signed out
+      await storage.deleteUserSessions(user.id, req.sessionID);
+      res.status(200).json({ message: "Your password has been reset. You can sign in with it now." });
+    } catch (error: any) {
+      console.error("Password reset error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // Email verification. Links go out on registration; signed-in users can
+  // ask for another.
+  app.post("/api/email-verification", async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (req.user!.emailVerifiedAt) {
+        return res.status(400).json({ error: "Your email address is already verified." });
+      }
+      if (rejectIfTooManyEmails(req, res)) return;
+      await sendVerificationEmail(req.user!);
+      res.status(202).json({ message: `A verification link is on its way to ${req.user!.email}.` });
+    } catch (error: any) {
+      console.error("Error sending verification email:", error);
+      res.status(500).json({ error: "Failed to send the verification email." });
+    }
+  });
+
+  app.post("/api/email-verification/confirm", async (req: Request, res: Response) => {
+    try {
+      const parsed = emailVerificationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request." });
+      }
+
+      const tokenId = verifySignedToken("email_verification", parsed.data.token);
+      const user = tokenId && (await storage.verifyEmail(tokenId));
+      if (!user) {
+        return res.status(400).json({ error: "This verification link is invalid, expired or already used." });
+      }
+      res.status(200).json({ message: `${user.email} is verified.` });
+    } catch (error: any) {
+      console.error("Email verification error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+
+  // The rules new passwords are checked against, for forms to show
+  app.get("/api/password-policy", (_req: Request, res: Response) => {
+    res.json(passwordPolicy);
+  });
+
   // Logout
   app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
     req.logout((err: Error | undefined) => {
@@ -138,6 +390,6 @@ export function setupAuth(app: Express) {
   // Get current user
   app.get("/api/user", (req: Request, res: Response) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    res.json(req.user);
+    res.json(toPublicUser(req.user!));
   });
 }
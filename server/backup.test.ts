@@ -0,0 +1,148 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type TestAgent from "supertest/lib/agent";
+import type { BackupArchive } from "@shared/backup";
+import { createTestApp, signUp } from "./test/app";
+
+// A user with a bit of everything: nested categories (one named like a
+// default category), accounts in two currencies, a split, a transfer, tags, a recurring transaction with a
+// skipped occurrence, a rule, a budget and a goal.
+async function populate(agent: TestAgent) {
+  const created = async (response: Promise<{ status: number; body: any }>) => {
+    const { status, body } = await response;
+    expect(status, JSON.stringify(body)).toBe(201);
+    return body;
+  };
+
+  const food = await created(agent.post("/api/categories").send({ name: "Food", color: "#22c55e" }));
+  const groceries = await created(agent.post("/api/categories").send({ name: "Groceries", color: "#16a34a", parentId: food.id }));
+  const salary = await created(agent.post("/api/categories").send({ name: "Salary", color: "#3b82f6", type: "income" }));
+  const checking = await created(agent.post("/api/accounts").send({ name: "Checking", type: "checking", currency: "USD" }));
+  const savings = await created(agent.post("/api/accounts").send({ name: "Savings", type: "savings", currency: "USD" }));
+  const euros = await created(agent.post("/api/accounts").send({ name: "Euro card", type: "credit_card", currency: "EUR" }));
+
+  await created(agent.post("/api/transactions").send({
+    amount: "2500.00", description: "Pay", type: "income", date: "2026-03-01", categoryId: salary.id, accountId: checking.id,
+  }));
+  await created(agent.post("/api/transactions").send({
+    amount: "60.00", description: "Market", type: "expense", date: "2026-03-02", accountId: checking.id, tags: ["weekly-shop"],
+    splits: [{ categoryId: groceries.id, amount: "45.00", note: "Veg" }, { categoryId: food.id, amount: "15.00" }],
+  }));
+  await created(agent.post("/api/transactions").send({
+    amount: "500.00", description: "Save", type: "transfer", date: "2026-03-03", accountId: checking.id, transferAccountId: savings.id,
+  }));
+  await created(agent.post("/api/transactions").send({
+    amount: "12.50", description: "Café", type: "expense", date: "2026-03-04", categoryId: food.id, accountId: euros.id, tags: ["travel"],
+  }));
+  await created(agent.post("/api/exchange-rates").send({ fromCurrency: "EUR", toCurrency: "USD", rate: "1.1", date: "2026-03-01" }));
+
+  const rent = await created(agent.post("/api/recurring").send({
+    amount: "900.00", description: "Rent", type: "expense", frequency: "monthly", interval: 1,
+    startDate: "2030-01-01T00:00:00.000Z", categoryId: food.id, accountId: checking.id,
+  }));
+  await agent.put(`/api/recurring/${rent.id}/occurrences`).send({ occurrenceDate: "2030-02-01T00:00:00.000Z", isSkipped: true }).expect(200);
+  await created(agent.post("/api/rules").send({
+    name: "Market", categoryId: groceries.id, priority: 1,
+    conditions: [{ field: "description", operator: "contains", value: "market" }, { field: "accountId", operator: "equals", value: checking.id }],
+  }));
+  await created(agent.post("/api/budgets").send({ categoryId: groceries.id, amount: "400.00", month: 3, year: 2026 }));
+  const goal = await created(agent.post("/api/goals").send({ title: "Holiday", targetAmount: "1000.00" }));
+  await created(agent.post(`/api/goals/${goal.id}/contributions`).send({ type: "deposit", amount: "50.00", date: "2026-03-05" }));
+}
+
+async function exportArchive(agent: TestAgent) {
+  const response = await agent.get("/api/backup").expect(200);
+  return JSON.parse(response.text) as BackupArchive;
+}
+
+describe("backup and restore", () => {
+  let app: Express;
+  let agent: TestAgent;
+  let archive: BackupArchive;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ({ agent } = await signUp(app));
+    await populate(agent);
+    archive = await exportArchive(agent);
+  });
+
+  it("exports every record", () => {
+    const { data } = archive;
+    expect(data.categories.filter(category => category.name === "Food")).toHaveLength(2);
+    expect(data.categories.filter(category => category.parentId)).toMatchObject([{ name: "Groceries" }]);
+    expect(data.accounts).toHaveLength(3);
+    expect(data.transactions).toHaveLength(4);
+    expect(data.recurringTransactions[0].exceptions).toMatchObject([{ isSkipped: true }]);
+    expect(data.rules).toHaveLength(1);
+    expect(data.budgets).toHaveLength(1);
+    expect(data.goals[0].contributions).toHaveLength(1);
+    expect(data.exchangeRates).toHaveLength(1);
+  });
+
+  it("restores what it exported, replacing the user's data", async () => {
+    const { body } = await agent.post("/api/backup/restore").query({ mode: "replace" }).send(archive).expect(200);
+    expect(body.summary.transactions).toEqual({ added: 4, skipped: 0 });
+
+    expect((await exportArchive(agent)).data).toEqual(archive.data);
+  });
+
+  it("skips everything when merging into the same user", async () => {
+    const { body } = await agent.post("/api/backup/restore").send(archive).expect(200);
+    expect(body.summary.transactions).toEqual({ added: 0, skipped: 4 });
+    expect(body.summary.categories).toEqual({ added: 0, skipped: archive.data.categories.length });
+
+    expect((await exportArchive(agent)).data).toEqual(archive.data);
+  });
+
+  it("restores into another user under new ids", async () => {
+    const { agent: other } = await signUp(app);
+    await other.post("/api/backup/restore").send(archive).expect(200);
+    const { data } = await exportArchive(other);
+
+    // Ids taken by the first user are replaced, so compare by name
+    const accountNames = (ids: typeof data) => new Map(ids.accounts.map(account => [account.id, account.name]));
+    const categoryNames = (ids: typeof data) => new Map(ids.categories.map(category => [category.id, category.name]));
+    const readable = (copy: typeof data) => copy.transactions.map(transaction => ({
+      description: transaction.description,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      account: accountNames(copy).get(transaction.accountId!),
+      transferAccount: transaction.transferAccountId ? accountNames(copy).get(transaction.transferAccountId) : null,
+      category: transaction.categoryId ? categoryNames(copy).get(transaction.categoryId) : null,
+      splits: transaction.splits.map(split => ({ ...split, categoryId: categoryNames(copy).get(split.categoryId) })),
+      tags: transaction.tags,
+    }));
+
+    expect(data.accounts.map(account => account.id)).not.toEqual(archive.data.accounts.map(account => account.id));
+    expect(readable(data)).toEqual(readable(archive.data));
+    expect(data.transactions.find(transaction => transaction.description === "Café")?.currency).toBe("EUR");
+    expect(data.rules[0].conditions[1].value).toBe(data.accounts.find(account => account.name === "Checking")?.id);
+  });
+
+  describe("refuses transactions the app wouldn't accept", () => {
+    const withTransaction = (description: string, change: Record<string, unknown>): BackupArchive => ({
+      ...archive,
+      data: {
+        ...archive.data,
+        transactions: archive.data.transactions.map(transaction =>
+          transaction.description === description ? { ...transaction, ...change } : transaction),
+      },
+    });
+    const market = () => archive.data.transactions.find(transaction => transaction.description === "Market")!;
+
+    it.each([
+      ["split lines that don't add up", "Market", () => ({ splits: market().splits.map(split => ({ ...split, amount: "1.00" })) }), "Split lines must add up to the transaction amount"],
+      ["a single split line", "Market", () => ({ splits: market().splits.slice(0, 1), amount: market().splits[0].amount }), "A split needs at least two lines"],
+      ["a transfer with a category", "Save", () => ({ categoryId: archive.data.categories[0].id }), "Transfers cannot have a category"],
+      ["a transfer to the same account", "Save", () => ({ transferAccountId: market().accountId }), "Cannot transfer to the same account"],
+      ["an expense with a destination account", "Café", () => ({ transferAccountId: market().accountId }), "Only transfers can have a destination account"],
+    ])("%s", async (_, description, change, message) => {
+      const { body } = await agent.post("/api/backup/restore").query({ mode: "replace" }).send(withTransaction(description, change())).expect(400);
+      expect(body.message).toBe("Invalid backup");
+      expect(body.errors.map((error: { message: string }) => error.message)).toContain(message);
+
+      expect((await exportArchive(agent)).data).toEqual(archive.data);
+    });
+  });
+});
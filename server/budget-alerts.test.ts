@@ -0,0 +1,135 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type TestAgent from "supertest/lib/agent";
+import { eq } from "drizzle-orm";
+import { budgetAlerts } from "@shared/schema";
+import { db } from "./db";
+import { createTestApp, signUp } from "./test/app";
+
+type Notification = { title: string; message: string; type: string };
+
+describe("budget alerts", () => {
+  let app: Express;
+  let agent: TestAgent;
+  let categoryId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  // A fresh user with one category; budgets are 100.00 for March 2026
+  beforeEach(async () => {
+    ({ agent } = await signUp(app));
+    ({ body: { id: categoryId } } = await agent.post("/api/categories").send({ name: "Dining", color: "#f97316" }).expect(201));
+  });
+
+  const createBudget = async (extra: Record<string, unknown> = {}) => {
+    const { body } = await agent.post("/api/budgets").send({ categoryId, amount: "100.00", month: 3, year: 2026, ...extra }).expect(201);
+    return body.id as string;
+  };
+  const spend = async (amount: string, date = "2026-03-10", category = categoryId) => {
+    const { body } = await agent.post("/api/transactions")
+      .send({ amount, description: "Dinner", type: "expense", date, categoryId: category }).expect(201);
+    return body.id as string;
+  };
+  const alerts = async () => {
+    const { body } = await agent.get("/api/notifications").expect(200);
+    return (body as Notification[]).filter(notification => notification.type === "budget_alert").map(({ title, message }) => ({ title, message }));
+  };
+  // Thresholds already notified about, which won't notify again
+  const alertedThresholds = async (budgetId: string) => {
+    const rows = await db.select().from(budgetAlerts).where(eq(budgetAlerts.budgetId, budgetId));
+    return rows.map(row => row.threshold).sort((a, b) => a - b);
+  };
+
+  it("notifies once a threshold is crossed", async () => {
+    const budgetId = await createBudget();
+    await spend("79.00");
+    expect(await alerts()).toEqual([]);
+
+    await spend("2.00");
+    expect(await alerts()).toEqual([
+      { title: "Budget Alert", message: "You have spent 81% of your Dining budget for March 2026." },
+    ]);
+    expect(await alertedThresholds(budgetId)).toEqual([80]);
+  });
+
+  it("notifies for the highest threshold reached at once", async () => {
+    const budgetId = await createBudget();
+    await spend("120.00");
+    expect(await alerts()).toEqual([
+      { title: "Budget Exceeded", message: "You have spent 120% of your Dining budget for March 2026." },
+    ]);
+    expect(await alertedThresholds(budgetId)).toEqual([80, 100]);
+  });
+
+  it("doesn't notify about a threshold twice", async () => {
+    await createBudget();
+    await spend("85.00");
+    await spend("5.00");
+    await spend("1.00");
+    expect(await alerts()).toHaveLength(1);
+
+    await spend("20.00");
+    expect((await alerts()).map(alert => alert.title)).toEqual(["Budget Exceeded", "Budget Alert"]);
+  });
+
+  it("re-arms a threshold when spending drops back below it", async () => {
+    const budgetId = await createBudget();
+    const dinner = await spend("85.00");
+    expect(await alertedThresholds(budgetId)).toEqual([80]);
+
+    await agent.put(`/api/transactions/${dinner}`).send({ amount: "50.00" }).expect(200);
+    expect(await alertedThresholds(budgetId)).toEqual([]);
+
+    await spend("40.00");
+    expect(await alerts()).toHaveLength(2);
+    expect(await alertedThresholds(budgetId)).toEqual([80]);
+  });
+
+  it("re-arms the budget a transaction is moved out of", async () => {
+    const budgetId = await createBudget();
+    const dinner = await spend("85.00");
+
+    await agent.put(`/api/transactions/${dinner}`).send({ date: "2026-04-10" }).expect(200);
+    expect(await alertedThresholds(budgetId)).toEqual([]);
+
+    await agent.delete(`/api/transactions/${await spend("90.00")}`).expect(204);
+    expect(await alertedThresholds(budgetId)).toEqual([]);
+  });
+
+  it("counts spending in the transaction's own budget month", async () => {
+    const { body: settings } = await agent.get("/api/user/settings").expect(200);
+    await agent.put("/api/user/settings").send({ ...settings, budgetMonthStartDay: 25, userId: undefined, updatedAt: undefined }).expect(200);
+    const march = await createBudget();
+    const april = await createBudget({ month: 4 });
+
+    // The 24th of April is still in the March budget month, which runs from 25 March
+    await spend("85.00", "2026-04-24");
+    expect(await alertedThresholds(march)).toEqual([80]);
+    expect(await alertedThresholds(april)).toEqual([]);
+    expect(await alerts()).toEqual([
+      { title: "Budget Alert", message: "You have spent 85% of your Dining budget for Mar 25 – Apr 24." },
+    ]);
+
+    await spend("85.00", "2026-04-25");
+    expect(await alertedThresholds(april)).toEqual([80]);
+  });
+
+  it("counts subcategories towards their parent's budget", async () => {
+    const budgetId = await createBudget();
+    const { body: takeaway } = await agent.post("/api/categories").send({ name: "Takeaway", color: "#fb923c", parentId: categoryId }).expect(201);
+
+    await spend("90.00", "2026-03-10", takeaway.id);
+    expect(await alertedThresholds(budgetId)).toEqual([80]);
+  });
+
+  it("uses the budget's own thresholds", async () => {
+    const budgetId = await createBudget({ alertThresholds: [50] });
+    await spend("60.00");
+    expect(await alertedThresholds(budgetId)).toEqual([50]);
+
+    await agent.put(`/api/budgets/${budgetId}`).send({ amount: "200.00" }).expect(200);
+    expect(await alertedThresholds(budgetId)).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { storage, type CategoryTotal } from "./storage";
+import { getBudgetMonthOf, getBudgetMonthPeriod } from "@shared/periods";
+import type { Budget, Category, Transaction, TransactionSplit } from "@shared/schema";
+
+type BudgetTransaction = Pick<Transaction, "type" | "categoryId" | "date"> & {
+  splits?: Pick<TransactionSplit, "categoryId">[];
+};
+
+// A split transaction counts towards each of its lines' categories.
+const categoryIdsOf = (transaction: BudgetTransaction) =>
+  transaction.splits?.length
+    ? transaction.splits.map(split => split.categoryId)
+    : transaction.categoryId ? [transaction.categoryId] : [];
+
+// Spending against a budget in its month's category totals. A parent
+// category's budget also covers spending in its subcategories.
+export function getBudgetSpent(budget: Budget, categories: Category[], totals: CategoryTotal[]) {
+  const coveredIds = new Set([budget.categoryId, ...categories.filter(c => c.parentId === budget.categoryId).map(c => c.id)]);
+  return totals
+    .filter(t => t.type === 'expense' && t.categoryId && coveredIds.has(t.categoryId))
+    .reduce((sum, t) => sum + parseFloat(t.total), 0);
+}
+
+const formatDay = (date: Date) => date.toLocaleDateString('en-US', { day: 'numeric', month: 'short', timeZone: 'UTC' });
+
+// Compares the budget's spending with its alert thresholds and sends one
+// notification for the highest threshold newly reached.
+async function evaluateBudget(userId: string, budget: Budget, categories: Category[], budgetMonthStartDay: number) {
+  const category = categories.find(c => c.id === budget.categoryId);
+  const limit = parseFloat(budget.amount);
+  if (!category || !(limit > 0)) return;
+
+  const { startDate, endDate } = getBudgetMonthPeriod(budget.month, budget.year, budgetMonthStartDay);
+  // Totals are in the base currency, like budget amounts
+  const totals = await storage.getCategoryTotals(userId, startDate, endDate);
+
+  const totalSpent = getBudgetSpent(budget, categories, totals);
+  const percentage = (totalSpent / limit) * 100;
+
+  const reached = budget.alertThresholds.filter(threshold => percentage >= threshold);
+  const newlyReached = await storage.syncBudgetAlerts(userId, budget.id, reached);
+  if (newlyReached.length === 0) return;
+
+  const threshold = Math.max(...newlyReached);
+  const period = budgetMonthStartDay === 1
+    ? startDate.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : `${formatDay(startDate)} – ${formatDay(endDate)}`;
+  await storage.createNotification({
+    userId,
+    title: threshold >= 100 ? 'Budget Exceeded' : 'Budget Alert',
+    message: `You have spent ${Math.floor(percentage)}% of your ${category.name} budget for ${period}.`,
+    type: 'budget_alert',
+  });
+}
+
+// Re-evaluates a single budget, e.g. after its amount or thresholds change.
+export async function checkBudget(userId: string, budget: Budget) {
+  try {
+    const { budgetMonthStartDay } = await storage.getUserSettings(userId);
+    await evaluateBudget(userId, budget, await storage.getCategories(userId), budgetMonthStartDay);
+  } catch (error) {
+    console.error('Error checking budget alerts:', error);
+  }
+}
+
+// Re-evaluates every budget the given transactions count towards, in each
+// transaction's own budget month. Pass both the old and new versions of an
+// edited transaction so the budget it left is re-armed as well.
+export async function checkBudgetAlerts(userId: string, transactions: BudgetTransaction[]) {
+  try {
+    const expenses = transactions.filter(t => t.type === 'expense' && categoryIdsOf(t).length > 0);
+    if (expenses.length === 0) return;
+
+    const categories = await storage.getCategories(userId);
+    const { budgetMonthStartDay } = await storage.getUserSettings(userId);
+    const checked = new Set<string>();
+
+    for (const transaction of expenses) {
+      const { month, year } = getBudgetMonthOf(new Date(transaction.date), budgetMonthStartDay);
+      const budgetCategoryIds = categoryIdsOf(transaction).flatMap((id) => {
+        const category = categories.find(c => c.id === id);
+        if (!category) return [];
+        return category.parentId ? [category.id, category.parentId] : [category.id];
+      });
+
+      for (const categoryId of budgetCategoryIds) {
+        const key = `${categoryId}:${month}:${year}`;
+        if (checked.has(key)) continue;
+        checked.add(key);
+
+        const budget = await storage.getBudgetByCategory(userId, categoryId, month, year);
+        if (budget) await evaluateBudget(userId, budget, categories, budgetMonthStartDay);
+      }
+    }
+  } catch (error) {
+    console.error('Error checking budget alerts:', error);
+  }
+}
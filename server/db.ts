@@ -2,7 +2,6 @@ import pkg from "pg";
 const { Pool } = pkg; // Use default import for Pool
 import { drizzle } from "drizzle-orm/node-postgres";
 import * as schema from "@shared/schema";
-import { users } from "@shared/schema";
 import dotenv from "dotenv";
 
 dotenv.config();
@@ -17,11 +16,12 @@ export const pool = new Pool({
 
 export const db = drizzle(pool, { schema });
 
-// Debug query to test database connection
+// Debug query to test database connection. It reads no rows, so nothing
+// from the database ends up in the log.
 (async () => {
   try {
-    const testQuery = await db.select().from(users).limit(1);
-    console.log("✅ Database connection successful:", testQuery);
+    await pool.query("SELECT 1");
+    console.log("✅ Database connection successful");
   } catch (error) {
     console.error("❌ Database connection failed:", error);
   }
@@ -0,0 +1,103 @@
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type TestAgent from "supertest/lib/agent";
+import { MAX_ATTACHMENTS_PER_TRANSACTION } from "@shared/schema";
+import { storage } from "./storage";
+import { createTestApp, signUp } from "./test/app";
+
+const PDF = Buffer.from("%PDF-1.4\n1 0 obj\n<<>>\nendobj\ntrailer\n<<>>\n%%EOF\n");
+
+describe("merging duplicate transactions", () => {
+  let app: Express;
+  let agent: TestAgent;
+  let userId: string;
+  let categoryId: string;
+  let otherCategoryId: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  beforeEach(async () => {
+    ({ agent, user: { id: userId } } = await signUp(app));
+    ({ body: { id: categoryId } } = await agent.post("/api/categories").send({ name: "Market", color: "#22c55e" }).expect(201));
+    ({ body: { id: otherCategoryId } } = await agent.post("/api/categories").send({ name: "Snacks", color: "#f97316" }).expect(201));
+  });
+
+  const create = async (extra: Record<string, unknown> = {}) => {
+    const { body } = await agent.post("/api/transactions")
+      .send({ amount: "30.00", description: "Market", type: "expense", date: "2026-03-02", categoryId, ...extra }).expect(201);
+    return body.id as string;
+  };
+  const attach = async (transactionId: string, count: number) => {
+    for (let i = 0; i < count; i++) {
+      await agent.post(`/api/transactions/${transactionId}/attachments`).set("Content-Type", "application/pdf").send(PDF).expect(201);
+    }
+  };
+
+  it("answers with the kept transaction's splits, tags and attachments", async () => {
+    const keepId = await create({
+      categoryId: null, tags: ["weekly"],
+      splits: [{ categoryId, amount: "20.00" }, { categoryId: otherCategoryId, amount: "10.00" }],
+    });
+    const removeId = await create({ tags: ["weekly", "cash"], notes: "Paid in cash" });
+    await attach(keepId, 1);
+    await attach(removeId, 2);
+
+    const { body } = await agent.post("/api/transactions/duplicates/merge").send({ keepId, removeId }).expect(200);
+    expect(body).toMatchObject({ id: keepId, notes: "Paid in cash" });
+    expect(body.splits.map((split: { amount: string }) => split.amount)).toEqual(["20.00", "10.00"]);
+    expect([...body.tags].sort()).toEqual(["cash", "weekly"]);
+    expect(body.attachments).toHaveLength(3);
+
+    // The same shape the transaction has everywhere else
+    const { body: fetched } = await agent.get("/api/transactions").expect(200);
+    expect(fetched).toEqual([JSON.parse(JSON.stringify(await storage.getTransaction(userId, keepId)))]);
+    expect(Object.keys(body).sort()).toEqual(Object.keys(fetched[0]).sort());
+  });
+
+  it(`refuses to leave more than ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments on one transaction`, async () => {
+    const keepId = await create();
+    const removeId = await create();
+    await attach(keepId, 6);
+    await attach(removeId, MAX_ATTACHMENTS_PER_TRANSACTION - 5);
+
+    const { body } = await agent.post("/api/transactions/duplicates/merge").send({ keepId, removeId }).expect(400);
+    expect(body.message).toContain(`more than ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments`);
+
+    // Nothing moved or was deleted
+    expect((await storage.getTransaction(userId, keepId))?.attachments).toHaveLength(6);
+    expect((await storage.getTransaction(userId, removeId))?.attachments).toHaveLength(MAX_ATTACHMENTS_PER_TRANSACTION - 5);
+  });
+
+  it("allows exactly the limit", async () => {
+    const keepId = await create();
+    const removeId = await create();
+    await attach(keepId, 5);
+    await attach(removeId, MAX_ATTACHMENTS_PER_TRANSACTION - 5);
+
+    const { body } = await agent.post("/api/transactions/duplicates/merge").send({ keepId, removeId }).expect(200);
+    expect(body.attachments).toHaveLength(MAX_ATTACHMENTS_PER_TRANSACTION);
+    expect(await storage.getTransaction(userId, removeId)).toBeUndefined();
+  });
+
+  it("carries the removed transaction's account over when it's in the same currency", async () => {
+    const { body: account } = await agent.post("/api/accounts").send({ name: "Wallet", type: "cash", currency: "INR" }).expect(201);
+    const keepId = await create();
+    const removeId = await create({ accountId: account.id });
+
+    const { body } = await agent.post("/api/transactions/duplicates/merge").send({ keepId, removeId }).expect(200);
+    expect(body).toMatchObject({ accountId: account.id, currency: "INR" });
+  });
+
+  it("refuses to attach an account in another currency", async () => {
+    const { body: account } = await agent.post("/api/accounts").send({ name: "Dollar card", type: "credit_card", currency: "USD" }).expect(201);
+    const keepId = await create();
+    const removeId = await create({ accountId: account.id });
+
+    const { body } = await agent.post("/api/transactions/duplicates/merge").send({ keepId, removeId }).expect(400);
+    expect(body.message).toContain("different currency");
+    expect(await storage.getTransaction(userId, keepId)).toMatchObject({ accountId: null, currency: "INR" });
+    expect(await storage.getTransaction(userId, removeId)).toMatchObject({ accountId: account.id, currency: "USD" });
+  });
+});
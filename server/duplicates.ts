@@ -0,0 +1,98 @@
+import type { Transaction } from "@shared/schema";
+
+// Two transactions are flagged when they have the same type and amount,
+// fall within MAX_DAYS_APART of each other and their descriptions are at
+// least MIN_SIMILARITY alike.
+const MAX_DAYS_APART = 3;
+const MIN_SIMILARITY = 0.6;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DuplicateCandidate {
+  transactions: [Transaction, Transaction];
+  similarity: number;
+}
+
+// Order-independent key for a pair, matching how dismissals are stored.
+export function getPairKey(firstId: string, secondId: string) {
+  return firstId < secondId ? `${firstId}:${secondId}` : `${secondId}:${firstId}`;
+}
+
+function normalize(description: string) {
+  return description.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function bigrams(text: string) {
+  const counts = new Map<string, number>();
+  const compact = text.replace(/ /g, "");
+  for (let i = 0; i < compact.length - 1; i++) {
+    const bigram = compact.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+// Sørensen–Dice coefficient over character bigrams, from 0 (nothing in
+// common) to 1. A description contained in the other, like "AMAZON" and
+// "AMAZON MKTPLACE 1234", counts as a match.
+export function descriptionSimilarity(first: string, second: string) {
+  const a = normalize(first);
+  const b = normalize(second);
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+  if (a.includes(b) || b.includes(a)) return 1;
+
+  const aBigrams = bigrams(a);
+  const bBigrams = bigrams(b);
+  let total = 0;
+  let overlap = 0;
+  aBigrams.forEach(count => { total += count; });
+  bBigrams.forEach((count, bigram) => {
+    total += count;
+    overlap += Math.min(count, aBigrams.get(bigram) ?? 0);
+  });
+  return total === 0 ? 0 : (2 * overlap) / total;
+}
+
+// Re-importing a statement line is already prevented by its external id, so
+// two different ids from the same source (the same OFX account, or QIF) are
+// two real bank entries, like two coffees on the same day.
+function isSameStatementSource(first: Transaction, second: Transaction) {
+  if (!first.externalId || !second.externalId) return false;
+  const source = (externalId: string) => externalId.slice(0, externalId.lastIndexOf(":"));
+  return source(first.externalId) === source(second.externalId);
+}
+
+// Transactions are bucketed by type and amount and sorted by date, so only
+// neighbours within the date window are ever compared.
+export function findDuplicateCandidates(transactions: Transaction[], dismissedPairs: Set<string>): DuplicateCandidate[] {
+  const buckets = new Map<string, Transaction[]>();
+  for (const transaction of transactions) {
+    const key = `${transaction.type}:${parseFloat(transaction.amount).toFixed(2)}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(transaction);
+    else buckets.set(key, [transaction]);
+  }
+
+  const candidates: DuplicateCandidate[] = [];
+  for (const bucket of Array.from(buckets.values())) {
+    bucket.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (let i = 0; i < bucket.length; i++) {
+      for (let j = i + 1; j < bucket.length; j++) {
+        const first = bucket[i];
+        const second = bucket[j];
+        if (second.date.getTime() - first.date.getTime() > MAX_DAYS_APART * DAY_MS) break;
+        if (dismissedPairs.has(getPairKey(first.id, second.id))) continue;
+        if (isSameStatementSource(first, second)) continue;
+
+        const similarity = descriptionSimilarity(first.description, second.description);
+        if (similarity >= MIN_SIMILARITY) {
+          candidates.push({ transactions: [first, second], similarity });
+        }
+      }
+    }
+  }
+
+  return candidates.sort((a, b) => b.transactions[1].date.getTime() - a.transactions[1].date.getTime());
+}
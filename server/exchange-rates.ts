@@ -0,0 +1,70 @@
+import { storage } from "./storage";
+import type { InsertExchangeRate } from "@shared/schema";
+
+// A source of historical exchange rates. Rates it returns are cached in the
+// user's rate table, where manual rates always take precedence.
+export interface ExchangeRateProvider {
+  name: string;
+  // Units of `to` per unit of `from` on `date`, or null when unknown
+  getRate(from: string, to: string, date: string): Promise<number | null>;
+}
+
+// European Central Bank reference rates via frankfurter.app. Needs no API
+// key; dates without a fixing (weekends, holidays) get the previous one.
+export const frankfurterProvider: ExchangeRateProvider = {
+  name: "frankfurter",
+  async getRate(from, to, date) {
+    const response = await fetch(`https://api.frankfurter.app/${date}?from=${from}&to=${to}`, {
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) return null;
+    const body = await response.json() as { rates?: Record<string, number> };
+    return body.rates?.[to] ?? null;
+  },
+};
+
+const providers: Record<string, ExchangeRateProvider> = {
+  frankfurter: frankfurterProvider,
+};
+
+// Offline by default: only manual rates are used unless
+// EXCHANGE_RATE_PROVIDER names one of the providers above.
+let provider: ExchangeRateProvider | null = providers[process.env.EXCHANGE_RATE_PROVIDER ?? ""] ?? null;
+
+export function setExchangeRateProvider(next: ExchangeRateProvider | null) {
+  provider = next;
+}
+
+// Lookups the provider could not answer are not retried until restart.
+const failedLookups = new Set<string>();
+const MAX_LOOKUPS = 50;
+
+// Asks the provider for rates that foreign-currency income and expenses are
+// missing, so analytics can convert them. Errors are logged; the affected
+// transactions stay out of converted totals until a rate is added.
+export async function fillMissingExchangeRates(userId: string) {
+  if (!provider) return;
+
+  try {
+    const user = await storage.getUser(userId);
+    if (!user) return;
+
+    const missing = (await storage.getMissingExchangeRates(userId))
+      .filter(({ currency, date }) => !failedLookups.has(`${provider!.name}:${currency}:${user.baseCurrency}:${date}`))
+      .slice(0, MAX_LOOKUPS);
+
+    const rates: InsertExchangeRate[] = [];
+    for (const { currency, date } of missing) {
+      const rate = await provider.getRate(currency, user.baseCurrency, date).catch(() => null);
+      if (rate && rate > 0) {
+        rates.push({ fromCurrency: currency, toCurrency: user.baseCurrency, rate: rate.toString(), date: new Date(date) });
+      } else {
+        failedLookups.add(`${provider.name}:${currency}:${user.baseCurrency}:${date}`);
+      }
+    }
+
+    await storage.cacheExchangeRates(userId, provider.name, rates);
+  } catch (error) {
+    console.error('Error fetching exchange rates:', error);
+  }
+}
@@ -0,0 +1,75 @@
+import type { Account, Category, TransactionWithDetails } from "@shared/schema";
+
+// A table ready to be written as CSV or as a spreadsheet sheet. Cells are
+// plain values; the column format says how to show them.
+export type Cell = string | number | Date | null;
+export type ColumnFormat = "text" | "date" | "amount" | "integer" | "percent";
+
+export interface ExportColumn {
+  header: string;
+  format?: ColumnFormat; // defaults to text
+  width?: number; // in characters, for spreadsheets
+}
+
+export interface ExportTable {
+  name: string;
+  columns: ExportColumn[];
+  rows: Cell[][];
+  total?: Cell[]; // a closing totals row
+}
+
+export function allRows(table: ExportTable): Cell[][] {
+  return table.total ? [...table.rows, table.total] : table.rows;
+}
+
+// Dates are stored as UTC midnight, so the UTC date is the calendar date.
+export function formatIsoDate(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function categoryLabel(categories: Category[], id: string | null | undefined) {
+  const category = categories.find(c => c.id === id);
+  if (!category) return "";
+  const parent = categories.find(c => c.id === category.parentId);
+  return parent ? `${parent.name} / ${category.name}` : category.name;
+}
+
+// One row per transaction. Split transactions list each line's category
+// and amount so the rows still add up to the transaction amount.
+export function transactionsTable(transactions: TransactionWithDetails[], categories: Category[], accounts: Account[]): ExportTable {
+  const accountName = (id: string | null) => accounts.find(a => a.id === id)?.name ?? "";
+
+  return {
+    name: "Transactions",
+    columns: [
+      { header: "Date", format: "date", width: 12 },
+      { header: "Description", width: 40 },
+      { header: "Type", width: 10 },
+      { header: "Category", width: 28 },
+      { header: "Amount", format: "amount", width: 14 },
+      { header: "Currency", width: 9 },
+      { header: "Account", width: 20 },
+      { header: "To Account", width: 20 },
+      { header: "Split Lines", width: 40 },
+      { header: "Tags", width: 24 },
+      { header: "Notes", width: 40 },
+    ],
+    rows: transactions.map(transaction => [
+      transaction.date,
+      transaction.description,
+      transaction.type,
+      transaction.splits.length
+        ? Array.from(new Set(transaction.splits.map(split => categoryLabel(categories, split.categoryId)))).join("; ")
+        : categoryLabel(categories, transaction.categoryId),
+      parseFloat(transaction.amount),
+      transaction.currency,
+      accountName(transaction.accountId),
+      accountName(transaction.transferAccountId),
+      transaction.splits
+        .map(split => `${categoryLabel(categories, split.categoryId)}: ${split.amount}${split.note ? ` (${split.note})` : ""}`)
+        .join("; "),
+      transaction.tags.join(", "),
+      transaction.notes ?? "",
+    ]),
+  };
+}
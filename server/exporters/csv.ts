@@ -0,0 +1,29 @@
+import { allRows, formatIsoDate, type ExportColumn, type ExportTable, type Cell } from "./common";
+
+// Text that a spreadsheet would run as a formula gets a leading quote.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function formatCell(value: Cell, column: ExportColumn): string {
+  if (value === null) return "";
+  if (value instanceof Date) return formatIsoDate(value);
+  if (typeof value === "number") {
+    if (column.format === "amount") return value.toFixed(2);
+    if (column.format === "percent") return (value * 100).toFixed(1);
+    return String(value);
+  }
+  return FORMULA_START.test(value) ? `'${value}` : value;
+}
+
+function quote(field: string) {
+  return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+}
+
+// RFC 4180 CSV with a header row. The byte order mark lets Excel detect
+// UTF-8, so names like "Café" survive a double-click open.
+export function toCsv(table: ExportTable): string {
+  const lines = [
+    table.columns.map(column => quote(column.header)),
+    ...allRows(table).map(row => row.map((value, i) => quote(formatCell(value, table.columns[i])))),
+  ];
+  return "\uFEFF" + lines.map(line => line.join(",")).join("\r\n") + "\r\n";
+}
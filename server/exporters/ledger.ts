@@ -0,0 +1,172 @@
+import type { Account, TransactionWithDetails } from "@shared/schema";
+import { OPENING_BALANCES_ACCOUNT, type LedgerNames } from "@shared/ledger";
+import { formatIsoDate } from "./common";
+
+// Writes transactions as a plain-text accounting journal: Ledger and
+// hledger share one syntax, Beancount has its own. Every transaction
+// becomes balanced postings with explicit amounts: income and expenses move
+// money between an account and its categories, transfers between two
+// accounts. Split transactions get one posting per split line.
+
+export const LEDGER_FORMATS = ["ledger", "hledger", "beancount"] as const;
+export type LedgerFormat = typeof LEDGER_FORMATS[number];
+
+export const LEDGER_FILE_EXTENSIONS: Record<LedgerFormat, string> = {
+  ledger: "ledger",
+  hledger: "journal",
+  beancount: "beancount",
+};
+
+export interface LedgerBook {
+  transactions: TransactionWithDetails[];
+  accounts: Account[];
+  names: LedgerNames;
+  baseCurrency: string;
+  includeOpeningBalances: boolean; // only meaningful for unfiltered exports
+}
+
+interface Posting {
+  account: string;
+  amount: string; // signed decimal
+  note?: string | null;
+}
+
+interface Entry {
+  date: Date;
+  description: string;
+  currency: string;
+  postings: Posting[];
+  notes?: string | null;
+  tags: string[];
+}
+
+const negate = (amount: string) => (amount.startsWith("-") ? amount.slice(1) : `-${amount}`);
+
+function transactionPostings(transaction: TransactionWithDetails, names: LedgerNames): Posting[] {
+  const account = names.account(transaction.accountId);
+  if (transaction.type === "transfer") {
+    return [
+      { account: names.account(transaction.transferAccountId), amount: transaction.amount },
+      { account, amount: negate(transaction.amount) },
+    ];
+  }
+
+  // Expenses add to their categories and take from the account; income the
+  // other way round.
+  const root = transaction.type === "income" ? "Income" : "Expenses";
+  const sign = (amount: string) => (transaction.type === "income" ? negate(amount) : amount);
+  const lines = transaction.splits.length > 0
+    ? transaction.splits.map(split => ({ account: names.category(split.categoryId, root), amount: sign(split.amount), note: split.note }))
+    : [{ account: names.category(transaction.categoryId, root), amount: sign(transaction.amount) }];
+  return [...lines, { account, amount: negate(sign(transaction.amount)) }];
+}
+
+function entries({ transactions, accounts, names, includeOpeningBalances }: LedgerBook): Entry[] {
+  const sorted = [...transactions].sort((a, b) =>
+    a.date.getTime() - b.date.getTime() || a.createdAt.getTime() - b.createdAt.getTime());
+  const result: Entry[] = sorted.map(transaction => ({
+    date: transaction.date,
+    description: transaction.description,
+    currency: transaction.currency,
+    postings: transactionPostings(transaction, names),
+    notes: transaction.notes,
+    tags: transaction.tags,
+  }));
+
+  if (includeOpeningBalances) {
+    // Opening balances come first, on the first day the book covers
+    const date = openingDate({ transactions, accounts });
+    const openings = accounts
+      .filter(account => parseFloat(account.openingBalance) !== 0)
+      .map(account => ({
+        date,
+        description: `Opening balance: ${account.name}`,
+        currency: account.currency,
+        postings: [
+          { account: names.account(account.id), amount: account.openingBalance },
+          { account: OPENING_BALANCES_ACCOUNT, amount: negate(account.openingBalance) },
+        ],
+        tags: [],
+      }));
+    result.unshift(...openings);
+  }
+  return result;
+}
+
+// The earliest transaction, or the day the first account was created.
+function openingDate({ transactions, accounts }: Pick<LedgerBook, "transactions" | "accounts">) {
+  const times = [
+    ...transactions.map(transaction => transaction.date.getTime()),
+    ...accounts.map(account => Date.UTC(account.createdAt.getUTCFullYear(), account.createdAt.getUTCMonth(), account.createdAt.getUTCDate())),
+  ];
+  return times.length > 0 ? new Date(Math.min(...times)) : new Date(Date.UTC(new Date().getUTCFullYear(), 0, 1));
+}
+
+const oneLine = (text: string) => text.replace(/\s+/g, " ").trim();
+
+// Tag names as the tools accept them: letters, digits, dashes and underscores.
+const tagName = (tag: string) => tag.replace(/[^A-Za-z0-9_-]/g, "-");
+
+// Lines up amounts in a column after the account names.
+function postingLine(indent: string, posting: Posting, currency: string, width: number) {
+  return `${indent}${posting.account.padEnd(width)}  ${posting.amount.padStart(12)} ${currency}`;
+}
+
+function toLedgerJournal(book: LedgerBook, format: "ledger" | "hledger", exportedAt: Date) {
+  const journal = entries(book);
+  const accountNames = Array.from(new Set(journal.flatMap(entry => entry.postings.map(posting => posting.account)))).sort();
+  const lines = [`; Exported from SavvyFinance on ${formatIsoDate(exportedAt)}`, ""];
+  accountNames.forEach(name => lines.push(`account ${name}`));
+
+  journal.forEach((entry) => {
+    // A semicolon would start a comment in the description
+    const description = oneLine(entry.description).replace(/;/g, ",") || "(no description)";
+    lines.push("", `${formatIsoDate(entry.date)} * ${description}`);
+    if (entry.tags.length > 0) {
+      const tags = entry.tags.map(tagName);
+      lines.push(format === "ledger" ? `    ; :${tags.join(":")}:` : `    ; ${tags.map(tag => `${tag}:`).join(", ")}`);
+    }
+    entry.notes?.split(/\r?\n/).forEach(line => lines.push(`    ; ${line}`.trimEnd()));
+    const width = Math.max(...entry.postings.map(posting => posting.account.length));
+    entry.postings.forEach((posting) => {
+      const line = postingLine("    ", posting, entry.currency, width);
+      lines.push(posting.note ? `${line}  ; ${oneLine(posting.note)}` : line);
+    });
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+const beancountString = (text: string) => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+function toBeancount(book: LedgerBook, exportedAt: Date) {
+  const journal = entries(book);
+  const accountNames = Array.from(new Set(journal.flatMap(entry => entry.postings.map(posting => posting.account)))).sort();
+  // Beancount rejects postings to accounts opened after them, so every
+  // account opens on the first day of the book.
+  const openDate = formatIsoDate(journal.length > 0 ? journal[0].date : openingDate(book));
+  const lines = [
+    `; Exported from SavvyFinance on ${formatIsoDate(exportedAt)}`,
+    `option "title" "SavvyFinance"`,
+    `option "operating_currency" "${book.baseCurrency}"`,
+    "",
+  ];
+  accountNames.forEach(name => lines.push(`${openDate} open ${name}`));
+
+  journal.forEach((entry) => {
+    const tags = entry.tags.map(tag => ` #${tagName(tag)}`).join("");
+    lines.push("", `${formatIsoDate(entry.date)} * ${beancountString(oneLine(entry.description))}${tags}`);
+    if (entry.notes) lines.push(`  note: ${beancountString(entry.notes)}`);
+    const width = Math.max(...entry.postings.map(posting => posting.account.length));
+    entry.postings.forEach((posting) => {
+      lines.push(postingLine("  ", posting, entry.currency, width));
+      if (posting.note) lines.push(`    note: ${beancountString(posting.note)}`);
+    });
+  });
+
+  return lines.join("\n") + "\n";
+}
+
+export function toLedger(book: LedgerBook, format: LedgerFormat, exportedAt = new Date()) {
+  return format === "beancount" ? toBeancount(book, exportedAt) : toLedgerJournal(book, format, exportedAt);
+}
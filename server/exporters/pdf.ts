@@ -0,0 +1,172 @@
+import { deflateSync } from "zlib";
+
+// A small PDF writer for printable reports: text in the standard Helvetica
+// fonts, lines and filled rectangles on A4 pages. Coordinates are points
+// from the top-left corner. The standard fonts only cover Windows-1252, so
+// other characters print as "?".
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+// Advance widths per 1000 units of font size for characters 32-126, from
+// the Adobe font metrics for Helvetica and Helvetica-Bold.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_WIDTH = 556; // accented letters and symbols
+
+// Windows-1252 bytes for the characters it places outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "„": 0x84, "…": 0x85, "‘": 0x91, "’": 0x92,
+  "“": 0x93, "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "™": 0x99,
+};
+
+function encodeText(text: string): number[] {
+  // Number formats use thin spaces and minus signs in some locales
+  const normalized = text.normalize("NFC").replace(/[\u2000-\u200a\u202f]/g, " ").replace(/\u2212/g, "-");
+  return Array.from(normalized, (char) => {
+    const code = char.charCodeAt(0);
+    if (char.length === 1 && ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff))) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 0x3f; // "?"
+  });
+}
+
+// A PDF string literal, escaping delimiters and writing other bytes in octal
+function pdfString(bytes: number[]) {
+  return "(" + bytes.map((byte) => {
+    if (byte === 0x28 || byte === 0x29 || byte === 0x5c) return "\\" + String.fromCharCode(byte);
+    return byte < 0x80 ? String.fromCharCode(byte) : "\\" + byte.toString(8).padStart(3, "0");
+  }).join("") + ")";
+}
+
+export type Color = [number, number, number]; // 0-1 RGB
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: "left" | "right";
+  color?: Color;
+}
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+const rgb = ([r, g, b]: Color) => `${num(r)} ${num(g)} ${num(b)}`;
+
+export function textWidth(text: string, size: number, bold = false) {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = encodeText(text).reduce((total, byte) => total + (byte >= 32 && byte <= 126 ? widths[byte - 32] : DEFAULT_WIDTH), 0);
+  return (units * size) / 1000;
+}
+
+// Shortens text with an ellipsis until it fits the width.
+export function fitText(text: string, maxWidth: number, size: number, bold = false) {
+  if (textWidth(text, size, bold) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}…`, size, bold) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}…`;
+}
+
+export function createPdfDocument(title: string) {
+  const pages: string[][] = [];
+  let current = -1;
+
+  const draw = (operation: string) => {
+    if (current < 0) throw new Error('PDF has no pages.');
+    pages[current].push(operation);
+  };
+
+  return {
+    get pageCount() {
+      return pages.length;
+    },
+
+    addPage() {
+      pages.push([]);
+      current = pages.length - 1;
+    },
+
+    // Later drawing goes to an earlier page, e.g. for "Page 1 of 3" footers.
+    setPage(index: number) {
+      current = index;
+    },
+
+    // `y` is the text baseline.
+    text(text: string, x: number, y: number, { size = 10, bold = false, align = "left", color = [0, 0, 0] }: TextOptions = {}) {
+      const left = align === "right" ? x - textWidth(text, size, bold) : x;
+      draw(`BT ${rgb(color)} rg /${bold ? "F2" : "F1"} ${num(size)} Tf ${num(left)} ${num(PAGE_HEIGHT - y)} Td ${pdfString(encodeText(text))} Tj ET`);
+    },
+
+    line(x1: number, y1: number, x2: number, y2: number, { width = 0.5, color = [0.8, 0.8, 0.8] }: { width?: number; color?: Color } = {}) {
+      draw(`${rgb(color)} RG ${num(width)} w ${num(x1)} ${num(PAGE_HEIGHT - y1)} m ${num(x2)} ${num(PAGE_HEIGHT - y2)} l S`);
+    },
+
+    rect(x: number, y: number, width: number, height: number, color: Color) {
+      draw(`${rgb(color)} rg ${num(x)} ${num(PAGE_HEIGHT - y - height)} ${num(width)} ${num(height)} re f`);
+    },
+
+    toBuffer(): Buffer {
+      const objects: Buffer[] = [];
+      const add = (body: string | Buffer) => {
+        objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+        return objects.length;
+      };
+
+      const catalog = add("");
+      const pageTree = add("");
+      const regular = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+      const bold = add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+      const info = add(`<< /Title ${pdfString(encodeText(title))} /Producer (SavvyFinance) >>`);
+
+      const pageIds = pages.map((operations) => {
+        const content = deflateSync(Buffer.from(operations.join("\n"), "latin1"));
+        const stream = add(Buffer.concat([
+          Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+          content,
+          Buffer.from("\nendstream", "latin1"),
+        ]));
+        return add(`<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+          `/Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${stream} 0 R >>`);
+      });
+      objects[catalog - 1] = Buffer.from(`<< /Type /Catalog /Pages ${pageTree} 0 R >>`, "latin1");
+      objects[pageTree - 1] = Buffer.from(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`, "latin1");
+
+      const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+      let length = chunks[0].length;
+      const offsets = objects.map((body, i) => {
+        const offset = length;
+        const chunk = Buffer.concat([Buffer.from(`${i + 1} 0 obj\n`, "latin1"), body, Buffer.from("\nendobj\n", "latin1")]);
+        chunks.push(chunk);
+        length += chunk.length;
+        return offset;
+      });
+
+      const xref = [
+        "xref",
+        `0 ${objects.length + 1}`,
+        "0000000000 65535 f ",
+        ...offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n `),
+        "trailer",
+        `<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>`,
+        "startxref",
+        String(length),
+        "%%EOF",
+      ].join("\n");
+      chunks.push(Buffer.from(xref + "\n", "latin1"));
+      return Buffer.concat(chunks);
+    },
+  };
+}
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
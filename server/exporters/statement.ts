@@ -0,0 +1,230 @@
+import type { Budget, Category } from "@shared/schema";
+import type { PeriodSummary, ReportPeriod } from "../reports";
+import type { CategoryTotal } from "../storage";
+import { getBudgetSpent } from "../budget-alerts";
+import { allRows, categoryLabel, type Cell, type ColumnFormat, type ExportTable } from "./common";
+import { createPdfDocument, fitText, PAGE_HEIGHT, PAGE_WIDTH, type Color, type PdfDocument } from "./pdf";
+
+// What a monthly statement shows: totals for one budget month, where the
+// money came from and went, and how spending compared with each budget.
+// Amounts are in the user's base currency.
+export interface MonthlyStatement {
+  label: string; // e.g. "March 2026"
+  owner: string;
+  currency: string;
+  locale: string;
+  summary: PeriodSummary;
+  categories: Category[];
+  budgets: Budget[];
+  totals: CategoryTotal[]; // category totals for the period, for budget spending
+}
+
+// "March 2026" for calendar months, or the dates when budget months start
+// on another day, e.g. "25 Mar 2026 – 24 Apr 2026".
+export function formatStatementPeriod({ startDate, endDate }: ReportPeriod, budgetMonthStartDay: number, locale: string) {
+  const options = { timeZone: "UTC", numberingSystem: "latn" };
+  if (budgetMonthStartDay === 1) {
+    return new Intl.DateTimeFormat(locale, { ...options, month: "long", year: "numeric" }).format(startDate);
+  }
+  const day = new Intl.DateTimeFormat(locale, { ...options, day: "numeric", month: "short", year: "numeric" });
+  return `${day.format(startDate)} – ${day.format(endDate)}`;
+}
+
+function breakdownTable(name: string, rows: CategoryTotal[], categories: Category[]): ExportTable {
+  const total = rows.reduce((sum, row) => sum + parseFloat(row.total), 0);
+  const count = rows.reduce((sum, row) => sum + row.count, 0);
+  return {
+    name,
+    columns: [
+      { header: "Category", width: 32 },
+      { header: "Transactions", format: "integer", width: 14 },
+      { header: "Amount", format: "amount", width: 16 },
+      { header: "Share", format: "percent", width: 10 },
+    ],
+    rows: rows.map(row => [
+      categoryLabel(categories, row.categoryId) || "Uncategorized",
+      row.count,
+      parseFloat(row.total),
+      total > 0 ? parseFloat(row.total) / total : null,
+    ]),
+    total: ["Total", count, total, total > 0 ? 1 : null],
+  };
+}
+
+// The statement as tables, shared by the spreadsheet and the PDF.
+export function statementTables(statement: MonthlyStatement): ExportTable[] {
+  const { summary, categories } = statement;
+  const income = parseFloat(summary.income);
+  const net = parseFloat(summary.net);
+
+  const budgetRows = statement.budgets
+    .map((budget) => {
+      const amount = parseFloat(budget.amount);
+      const spent = getBudgetSpent(budget, categories, statement.totals);
+      return { label: categoryLabel(categories, budget.categoryId), amount, spent };
+    })
+    .sort((a, b) => a.label.localeCompare(b.label));
+  const budgeted = budgetRows.reduce((sum, row) => sum + row.amount, 0);
+  const budgetSpent = budgetRows.reduce((sum, row) => sum + row.spent, 0);
+
+  return [
+    {
+      name: "Summary",
+      columns: [
+        { header: "Income", format: "amount", width: 16 },
+        { header: "Expenses", format: "amount", width: 16 },
+        { header: "Net", format: "amount", width: 16 },
+        { header: "Savings Rate", format: "percent", width: 14 },
+      ],
+      rows: [[income, parseFloat(summary.expenses), net, income > 0 ? net / income : null]],
+    },
+    breakdownTable("Expenses by Category", summary.expensesByCategory, categories),
+    breakdownTable("Income by Category", summary.incomeByCategory, categories),
+    {
+      name: "Budget vs Actual",
+      columns: [
+        { header: "Category", width: 32 },
+        { header: "Budget", format: "amount", width: 16 },
+        { header: "Spent", format: "amount", width: 16 },
+        { header: "Remaining", format: "amount", width: 16 },
+        { header: "Used", format: "percent", width: 10 },
+      ],
+      rows: budgetRows.map(row => [row.label, row.amount, row.spent, row.amount - row.spent, row.amount > 0 ? row.spent / row.amount : null]),
+      total: ["Total", budgeted, budgetSpent, budgeted - budgetSpent, budgeted > 0 ? budgetSpent / budgeted : null],
+    },
+  ];
+}
+
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = PAGE_HEIGHT - 56; // leaves room for the footer
+const ROW_HEIGHT = 18;
+const NUMBER_COLUMN_WIDTH = 88;
+const MUTED: Color = [0.42, 0.45, 0.5];
+const SHADE: Color = [0.95, 0.96, 0.97];
+const OVER_BUDGET: Color = [0.8, 0.15, 0.15];
+
+// Locale-aware formatting, always in Latin digits, which the PDF fonts have.
+function createFormatter(locale: string, currency: string) {
+  const amount = new Intl.NumberFormat(locale, { style: "currency", currency, currencyDisplay: "code", numberingSystem: "latn" });
+  const integer = new Intl.NumberFormat(locale, { maximumFractionDigits: 0, numberingSystem: "latn" });
+  const percent = new Intl.NumberFormat(locale, { style: "percent", maximumFractionDigits: 1, numberingSystem: "latn" });
+  const date = new Intl.DateTimeFormat(locale, { day: "numeric", month: "short", year: "numeric", timeZone: "UTC", numberingSystem: "latn" });
+
+  return (value: Cell, format: ColumnFormat = "text") => {
+    if (value === null) return "–";
+    if (value instanceof Date) return date.format(value);
+    if (typeof value === "string") return value;
+    if (format === "amount") return amount.format(value);
+    if (format === "percent") return percent.format(value);
+    return integer.format(value);
+  };
+}
+
+// Draws a table from `y`, continuing on new pages with the header repeated.
+// Returns where the next content can start.
+function drawTable(doc: PdfDocument, table: ExportTable, y: number, format: ReturnType<typeof createFormatter>, emptyText: string) {
+  const numberColumns = table.columns.length - 1;
+  const labelWidth = CONTENT_WIDTH - numberColumns * NUMBER_COLUMN_WIDTH;
+  const columnRight = (i: number) => MARGIN + labelWidth + i * NUMBER_COLUMN_WIDTH - 6;
+
+  const drawHeader = (top: number) => {
+    doc.rect(MARGIN, top, CONTENT_WIDTH, ROW_HEIGHT, SHADE);
+    table.columns.forEach((column, i) => {
+      const options = { size: 9, bold: true, color: MUTED };
+      if (i === 0) doc.text(column.header, MARGIN + 6, top + 12.5, options);
+      else doc.text(column.header, columnRight(i), top + 12.5, { ...options, align: "right" });
+    });
+    return top + ROW_HEIGHT;
+  };
+
+  const drawRow = (row: Cell[], top: number, bold: boolean) => {
+    row.forEach((value, i) => {
+      const column = table.columns[i];
+      if (i === 0) {
+        doc.text(fitText(format(value), labelWidth - 12, 10, bold), MARGIN + 6, top + 12.5, { bold });
+        return;
+      }
+      // Overspending shows in red
+      const isOver = column.header === "Remaining" && typeof value === "number" && value < 0;
+      doc.text(format(value, column.format), columnRight(i), top + 12.5, { bold, align: "right", color: isOver ? OVER_BUDGET : undefined });
+    });
+  };
+
+  y = drawHeader(y);
+  if (table.rows.length === 0) {
+    doc.text(emptyText, MARGIN + 6, y + 14, { size: 10, color: MUTED });
+    return y + ROW_HEIGHT + 24;
+  }
+
+  const rows = allRows(table);
+  rows.forEach((row, index) => {
+    if (y + ROW_HEIGHT > BOTTOM) {
+      doc.addPage();
+      y = drawHeader(MARGIN);
+    }
+    const isTotal = !!table.total && index === rows.length - 1;
+    drawRow(row, y, isTotal);
+    y += ROW_HEIGHT;
+    doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y, isTotal ? { width: 1, color: MUTED } : {});
+  });
+  return y + 24;
+}
+
+// A printable statement on A4 pages.
+export function renderStatementPdf(statement: MonthlyStatement, generatedAt = new Date()): Buffer {
+  const format = createFormatter(statement.locale, statement.currency);
+  const [summary, expenses, income, budgets] = statementTables(statement);
+  const title = `Monthly Statement – ${statement.label}`;
+  const doc = createPdfDocument(title);
+  doc.addPage();
+
+  let y = MARGIN + 18;
+  doc.text("Monthly Statement", MARGIN, y, { size: 20, bold: true });
+  doc.text(generatedAt.toISOString().slice(0, 10), MARGIN + CONTENT_WIDTH, y, { size: 9, color: MUTED, align: "right" });
+  y += 20;
+  doc.text(statement.label, MARGIN, y, { size: 12 });
+  y += 16;
+  doc.text(`${statement.owner} · Amounts in ${statement.currency}`, MARGIN, y, { size: 9, color: MUTED });
+  y += 24;
+
+  // Summary figures side by side
+  const boxWidth = (CONTENT_WIDTH - 3 * 10) / 4;
+  summary.columns.forEach((column, i) => {
+    const x = MARGIN + i * (boxWidth + 10);
+    const value = summary.rows[0][i];
+    doc.rect(x, y, boxWidth, 48, SHADE);
+    doc.text(column.header, x + 10, y + 17, { size: 9, color: MUTED });
+    doc.text(fitText(format(value, column.format), boxWidth - 20, 13, true), x + 10, y + 36, {
+      size: 13,
+      bold: true,
+      color: column.header === "Net" && typeof value === "number" && value < 0 ? OVER_BUDGET : undefined,
+    });
+  });
+  y += 48 + 32;
+
+  const sections: Array<[ExportTable, string]> = [
+    [expenses, "No expenses this month."],
+    [income, "No income this month."],
+    [budgets, "No budgets set for this month."],
+  ];
+  for (const [table, emptyText] of sections) {
+    // Keep a heading together with at least a few rows
+    if (y + 24 + ROW_HEIGHT * 3 > BOTTOM) {
+      doc.addPage();
+      y = MARGIN + 12;
+    }
+    doc.text(table.name, MARGIN, y, { size: 13, bold: true });
+    y = drawTable(doc, table, y + 10, format, emptyText);
+  }
+
+  const pageCount = doc.pageCount;
+  for (let page = 0; page < pageCount; page++) {
+    doc.setPage(page);
+    doc.line(MARGIN, PAGE_HEIGHT - 40, MARGIN + CONTENT_WIDTH, PAGE_HEIGHT - 40);
+    doc.text(`SavvyFinance · ${statement.label}`, MARGIN, PAGE_HEIGHT - 26, { size: 8, color: MUTED });
+    doc.text(`Page ${page + 1} of ${pageCount}`, MARGIN + CONTENT_WIDTH, PAGE_HEIGHT - 26, { size: 8, color: MUTED, align: "right" });
+  }
+
+  return doc.toBuffer();
+}
@@ -0,0 +1,117 @@
+import { createZip } from "./zip";
+import { allRows, type Cell, type ColumnFormat, type ExportTable } from "./common";
+
+// Minimal Office Open XML workbook: one sheet per table, a bold frozen
+// header row, and real numbers and dates so the spreadsheet can sum and
+// sort them. Strings are written inline rather than in a shared table.
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Indexes into cellXfs in styles.xml
+const HEADER_STYLE = 1;
+const FORMAT_STYLES: Record<ColumnFormat, number> = { text: 0, date: 2, amount: 3, integer: 4, percent: 5 };
+
+const STYLES = `${XML_HEADER}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="6">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`;
+
+function escapeXml(text: string) {
+  return text
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// A, B, ..., Z, AA, AB, ...
+function columnName(index: number) {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+// Spreadsheet dates count days from 30 December 1899.
+const EPOCH = Date.UTC(1899, 11, 30);
+const toSerialDate = (date: Date) => (date.getTime() - EPOCH) / (24 * 60 * 60 * 1000);
+
+function cellXml(ref: string, value: Cell, style: number) {
+  const styleAttr = style ? ` s="${style}"` : "";
+  if (value === null || value === "") return "";
+  if (value instanceof Date) return `<c r="${ref}"${styleAttr}><v>${toSerialDate(value)}</v></c>`;
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${styleAttr}><v>${value}</v></c>` : "";
+  }
+  return `<c r="${ref}" t="inlineStr"${styleAttr}><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(table: ExportTable) {
+  const styles = table.columns.map(column => FORMAT_STYLES[column.format ?? "text"]);
+  const header = `<row r="1">${table.columns.map((column, i) => cellXml(`${columnName(i)}1`, column.header, HEADER_STYLE)).join("")}</row>`;
+  const rows = allRows(table).map((row, r) =>
+    `<row r="${r + 2}">${row.map((value, i) => cellXml(`${columnName(i)}${r + 2}`, value, styles[i])).join("")}</row>`
+  );
+  const cols = table.columns
+    .map((column, i) => `<col min="${i + 1}" max="${i + 1}" width="${column.width ?? 14}" customWidth="1"/>`)
+    .join("");
+
+  return `${XML_HEADER}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>
+<cols>${cols}</cols>
+<sheetData>${header}${rows.join("")}</sheetData>
+</worksheet>`;
+}
+
+// Sheet names are at most 31 characters and can't contain []:*?/\
+function sheetName(name: string) {
+  return name.replace(/[\[\]:*?\/\\]/g, " ").slice(0, 31).trim() || "Sheet";
+}
+
+export function createWorkbook(tables: ExportTable[]): Buffer {
+  const sheets = tables.map((table, i) => ({ id: i + 1, name: sheetName(table.name), xml: sheetXml(table) }));
+
+  const contentTypes = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+${sheets.map(sheet => `<Override PartName="/xl/worksheets/sheet${sheet.id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join("\n")}
+</Types>`;
+
+  const rootRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+  const workbook = `${XML_HEADER}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets>${sheets.map(sheet => `<sheet name="${escapeXml(sheet.name)}" sheetId="${sheet.id}" r:id="rId${sheet.id}"/>`).join("")}</sheets>
+</workbook>`;
+
+  const workbookRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+${sheets.map(sheet => `<Relationship Id="rId${sheet.id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${sheet.id}.xml"/>`).join("\n")}
+<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+  return createZip([
+    { name: "[Content_Types].xml", data: Buffer.from(contentTypes) },
+    { name: "_rels/.rels", data: Buffer.from(rootRels) },
+    { name: "xl/workbook.xml", data: Buffer.from(workbook) },
+    { name: "xl/_rels/workbook.xml.rels", data: Buffer.from(workbookRels) },
+    { name: "xl/styles.xml", data: Buffer.from(STYLES) },
+    ...sheets.map(sheet => ({ name: `xl/worksheets/sheet${sheet.id}.xml`, data: Buffer.from(sheet.xml) })),
+  ]);
+}
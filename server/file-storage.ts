@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Where attachment files are kept. Keys are relative paths made of ids the
+// server generates, e.g. "<user id>/<attachment id>".
+export interface FileStorage {
+  name: string;
+  put(key: string, data: Buffer): Promise<void>;
+  // Null when there is no file under the key
+  get(key: string): Promise<Buffer | null>;
+  // Deleting a missing file is not an error
+  delete(key: string): Promise<void>;
+}
+
+// Files under a directory on the server's disk.
+export function createLocalFileStorage(root: string): FileStorage {
+  const resolve = (key: string) => {
+    const filePath = path.resolve(root, key);
+    if (!filePath.startsWith(path.resolve(root) + path.sep)) {
+      throw new Error('Invalid file key.');
+    }
+    return filePath;
+  };
+
+  return {
+    name: "local",
+    async put(key, data) {
+      const filePath = resolve(key);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      // Written to a temporary name first so readers never see half a file
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, data);
+      await fs.rename(tempPath, filePath);
+    },
+    async get(key) {
+      try {
+        return await fs.readFile(resolve(key));
+      } catch (error: any) {
+        if (error.code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+    async delete(key) {
+      await fs.rm(resolve(key), { force: true });
+    },
+  };
+}
+
+// UPLOAD_DIR defaults to ./uploads in the working directory.
+let fileStorage: FileStorage = createLocalFileStorage(process.env.UPLOAD_DIR || path.resolve("uploads"));
+
+export function getFileStorage(): FileStorage {
+  return fileStorage;
+}
+
+export function setFileStorage(next: FileStorage) {
+  fileStorage = next;
+}
@@ -0,0 +1,46 @@
+import type { Goal, GoalContribution, GoalWithProgress } from "@shared/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Rates are averaged over at least this many days so one early deposit
+// doesn't project an absurdly fast finish.
+const MIN_RATE_WINDOW_DAYS = 30;
+
+// Projects when a goal will be reached at its average net contribution rate
+// since the first contribution, and whether that beats the target date.
+export function getGoalProgress(goal: Goal, contributions: GoalContribution[], asOf = new Date()): GoalWithProgress {
+  const target = parseFloat(goal.targetAmount);
+  const current = parseFloat(goal.currentAmount);
+  const remaining = Math.max(target - current, 0);
+
+  let ratePerDay = 0;
+  if (contributions.length > 0) {
+    const firstDate = Math.min(...contributions.map(c => c.date.getTime()));
+    const windowDays = Math.max((asOf.getTime() - firstDate) / DAY_MS, MIN_RATE_WINDOW_DAYS);
+    const net = contributions.reduce((sum, c) => sum + (c.type === 'deposit' ? 1 : -1) * parseFloat(c.amount), 0);
+    ratePerDay = net / windowDays;
+  }
+
+  const projectedCompletionDate = !goal.isCompleted && ratePerDay > 0
+    ? new Date(asOf.getTime() + (remaining / ratePerDay) * DAY_MS)
+    : null;
+
+  const daysToTarget = goal.targetDate ? (goal.targetDate.getTime() - asOf.getTime()) / DAY_MS : null;
+  const requiredMonthly = !goal.isCompleted && daysToTarget !== null && daysToTarget > 0
+    ? ((remaining / daysToTarget) * 30).toFixed(2)
+    : null;
+
+  let isOnTrack: boolean | null = null;
+  if (goal.isCompleted) {
+    isOnTrack = true;
+  } else if (goal.targetDate) {
+    isOnTrack = !!projectedCompletionDate && projectedCompletionDate <= goal.targetDate;
+  }
+
+  return {
+    ...goal,
+    monthlyRate: (ratePerDay * 30).toFixed(2),
+    projectedCompletionDate: projectedCompletionDate?.toISOString() ?? null,
+    requiredMonthly,
+    isOnTrack,
+  };
+}
@@ -0,0 +1,127 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type TestAgent from "supertest/lib/agent";
+import { parseBeancount } from "./beancount";
+import { detectStatementFormat } from "./statement";
+import { createTestApp, signUp } from "../test/app";
+
+// Exporting a user's transactions as Beancount and importing the file into
+// an account with the same accounts and categories should give back the
+// same transactions, and so the same file.
+
+type Created = { id: string };
+
+// Accounts in two currencies, one with an opening balance, and a
+// subcategory under the default Food category.
+async function setUpBooks(agent: TestAgent) {
+  const created = async (response: Promise<{ status: number; body: any }>) => {
+    const { status, body } = await response;
+    expect(status, JSON.stringify(body)).toBe(201);
+    return body as Created;
+  };
+  const { body: categories } = await agent.get("/api/categories").expect(200);
+  const byName = (name: string) => (categories as Array<Created & { name: string }>).find(category => category.name === name)!;
+
+  return {
+    checking: await created(agent.post("/api/accounts").send({ name: "Checking", type: "checking", currency: "USD", openingBalance: "100.00" })),
+    savings: await created(agent.post("/api/accounts").send({ name: "Savings", type: "savings", currency: "USD" })),
+    card: await created(agent.post("/api/accounts").send({ name: "Euro card", type: "credit_card", currency: "EUR" })),
+    food: byName("Food"),
+    income: byName("Income"),
+    travel: byName("Travel"),
+    takeaway: await created(agent.post("/api/categories").send({ name: "Takeaway", color: "#fb923c", parentId: byName("Food").id })),
+  };
+}
+
+// Without the first line, which has the export date
+async function exportBeancount(agent: TestAgent) {
+  const response = await agent.get("/api/transactions/export").query({ format: "beancount" }).expect(200);
+  return response.text.slice(response.text.indexOf("\n") + 1);
+}
+
+describe("Beancount export and import", () => {
+  let app: Express;
+  let source: TestAgent;
+  let journal: string;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ({ agent: source } = await signUp(app));
+    const books = await setUpBooks(source);
+
+    const transactions = [
+      { amount: "2500.00", description: "Pay", type: "income", date: "2026-03-01", categoryId: books.income.id, accountId: books.checking.id },
+      {
+        amount: "60.00", description: "Market \"Saturday\"", type: "expense", date: "2026-03-02", accountId: books.checking.id,
+        tags: ["weekly-shop"], notes: "Cash back too",
+        splits: [{ categoryId: books.food.id, amount: "45.00", note: "Veg" }, { categoryId: books.takeaway.id, amount: "15.00" }],
+      },
+      { amount: "500.00", description: "Save", type: "transfer", date: "2026-03-03", accountId: books.checking.id, transferAccountId: books.savings.id },
+      { amount: "12.50", description: "Café", type: "expense", date: "2026-03-04", categoryId: books.travel.id, accountId: books.card.id, tags: ["trip"] },
+      { amount: "40.00", description: "Refund", type: "income", date: "2026-03-05", categoryId: books.travel.id, accountId: books.card.id },
+    ];
+    for (const transaction of transactions) {
+      await source.post("/api/transactions").send(transaction).expect(201);
+    }
+    journal = await exportBeancount(source);
+  });
+
+  it("writes every transaction in its own currency", () => {
+    expect(detectStatementFormat(journal)).toBe("beancount");
+    expect(journal).toContain("Liabilities:Euro-Card");
+    expect(journal).toMatch(/Expenses:Travel\s+12\.50 EUR/);
+    expect(journal).toMatch(/Assets:Savings\s+500\.00 USD/);
+    expect(journal).toMatch(/Equity:Opening-Balances\s+-100\.00 USD/);
+  });
+
+  it("reads back what it wrote", () => {
+    const accounts = parseBeancount(journal);
+    expect(accounts.map(account => [account.key, account.transactions.length])).toEqual([
+      ["Assets:Checking", 4],
+      ["Assets:Savings", 0],
+      ["Liabilities:Euro-Card", 2],
+    ]);
+    const [opening, pay, market, save] = accounts[0].transactions;
+    expect(opening.error).toMatch(/Equity postings/);
+    expect(pay).toMatchObject({ amount: 2500, description: "Pay", category: "Income:Income" });
+    expect(market).toMatchObject({
+      amount: -60,
+      description: "Market \"Saturday\"",
+      tags: ["weekly-shop"],
+      notes: "Cash back too",
+      splits: [{ category: "Expenses:Food", amount: 45, note: "Veg" }, { category: "Expenses:Food:Takeaway", amount: 15 }],
+    });
+    expect(save).toMatchObject({ amount: -500, transferAccountKey: "Assets:Savings" });
+  });
+
+  it("imports into matching books and exports the same file", async () => {
+    const { agent: target } = await signUp(app);
+    const books = await setUpBooks(target);
+
+    // Accounts map by their ledger names without the user's help
+    const { body: preview } = await target.post("/api/import/statement/preview").send({ content: journal }).expect(200);
+    expect(preview.format).toBe("beancount");
+    expect(Object.fromEntries(preview.accounts.map((account: { key: string; accountId: string }) => [account.key, account.accountId]))).toEqual({
+      "Assets:Checking": books.checking.id,
+      "Assets:Savings": books.savings.id,
+      "Liabilities:Euro-Card": books.card.id,
+    });
+    expect(preview.rows.filter((row: { errors: string[] }) => row.errors.length > 0)).toHaveLength(1);
+
+    // The opening balance is set on the account, not imported
+    const { body: result } = await target.post("/api/import/statement").send({ content: journal, skipInvalid: true }).expect(201);
+    expect(result).toEqual({ imported: 5, skipped: 1, duplicates: 0 });
+
+    expect(await exportBeancount(target)).toBe(journal);
+
+    const { body: transactions } = await target.get("/api/transactions").query({ limit: 10 }).expect(200);
+    expect(transactions.find((transaction: { description: string }) => transaction.description === "Café"))
+      .toMatchObject({ currency: "EUR", amount: "12.50", accountId: books.card.id, categoryId: books.travel.id, tags: ["trip"] });
+    expect(transactions.find((transaction: { type: string }) => transaction.type === "transfer"))
+      .toMatchObject({ accountId: books.checking.id, transferAccountId: books.savings.id, categoryId: null });
+
+    // Importing the file again finds every transaction already there
+    const { body: again } = await target.post("/api/import/statement").send({ content: journal, skipInvalid: true }).expect(201);
+    expect(again).toEqual({ imported: 0, skipped: 1, duplicates: 5 });
+  });
+});
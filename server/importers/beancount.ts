@@ -0,0 +1,242 @@
+import { createHash } from "crypto";
+import { parseAmount, parseDate } from "./common";
+import type { StatementAccount, StatementTransaction } from "./statement";
+
+// Reads transactions from a Beancount file, such as the one the Beancount
+// export writes. Statement accounts are the Assets and Liabilities accounts
+// the transactions move money in and out of; Income and Expenses accounts
+// are matched to categories. Only directives that are transactions are
+// read; open, balance, price and the rest are skipped.
+
+interface Posting {
+  account: string;
+  rawAmount: string; // empty when Beancount is left to fill it in
+  amount: number | null;
+  currency?: string;
+  note?: string;
+}
+
+interface Entry {
+  rawDate: string;
+  strings: string[]; // payee and narration, or just the narration
+  tags: string[];
+  meta: Record<string, string>;
+  postings: Posting[];
+  text: string[]; // the entry's lines, to identify it
+}
+
+const POSTING = /^(?:[*!]\s+)?((?:Assets|Liabilities|Equity|Income|Expenses)(?::[^\s:]+)+)(?:\s+(.*))?$/;
+const AMOUNT = /^([-+]?[\d,]*\.?\d+)\s*([A-Z][A-Z0-9'._-]*)/;
+const META = /^([a-z][A-Za-z0-9_-]*):\s*([\s\S]*)$/;
+const STRING = /"((?:[^"\\]|\\.)*)"/g;
+
+const unescape = (text: string) => text.replace(/\\(.)/g, "$1");
+
+// The line without its comment, and whether a string is still open at the
+// end of it. Semicolons inside strings don't start comments.
+function stripComment(line: string) {
+  let inString = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inString && char === "\\") i++;
+    else if (char === '"') inString = !inString;
+    else if (char === ";" && !inString) return { text: line.slice(0, i).trimEnd(), inString };
+  }
+  return { text: line.trimEnd(), inString };
+}
+
+// Lines with comments removed; strings that span lines are joined into one.
+function logicalLines(content: string) {
+  const lines: string[] = [];
+  let pending: string | null = null;
+  for (const line of content.replace(/^\uFEFF/, "").split(/\r?\n/)) {
+    const combined: string = pending === null ? line : `${pending}\n${line}`;
+    const { text, inString } = stripComment(combined);
+    if (inString) {
+      pending = combined;
+    } else {
+      lines.push(text);
+      pending = null;
+    }
+  }
+  if (pending !== null) lines.push(pending);
+  return lines;
+}
+
+const metaValue = (value: string) => {
+  const match = /^"((?:[^"\\]|\\.)*)"/.exec(value);
+  return match ? unescape(match[1]) : value.trim();
+};
+
+function readEntries(content: string) {
+  const entries: Entry[] = [];
+  const pushedTags = new Set<string>();
+  let entry: Entry | null = null;
+
+  for (const line of logicalLines(content)) {
+    if (!line.trim()) continue;
+
+    if (/^\s/.test(line)) {
+      if (!entry) continue; // metadata of a directive we skip
+      const text = line.trim();
+      entry.text.push(text);
+      const meta = META.exec(text);
+      const posting = POSTING.exec(text);
+      if (meta) {
+        const value = metaValue(meta[2]);
+        const last = entry.postings[entry.postings.length - 1];
+        if (!last) entry.meta[meta[1]] = value;
+        else if (meta[1] === "note") last.note = value;
+      } else if (posting) {
+        const rawAmount = (posting[2] ?? "").trim();
+        const amount = AMOUNT.exec(rawAmount);
+        entry.postings.push({
+          account: posting[1],
+          rawAmount,
+          amount: amount ? parseAmount(amount[1], ".") : null,
+          currency: amount?.[2],
+        });
+      } else if (/^[#^]/.test(text)) {
+        entry.tags.push(...(text.match(/#[^\s#^]+/g) ?? []).map(tag => tag.slice(1)));
+      }
+      continue;
+    }
+
+    entry = null;
+    const tagDirective = /^(pushtag|poptag)\s+#(\S+)/.exec(line);
+    if (tagDirective) {
+      if (tagDirective[1] === "pushtag") pushedTags.add(tagDirective[2]);
+      else pushedTags.delete(tagDirective[2]);
+      continue;
+    }
+
+    const header = /^(\d{4}[-/]\d{2}[-/]\d{2})\s+(?:txn|[*!])(?:\s+(.*))?$/.exec(line);
+    if (!header) continue;
+    const rest = header[2] ?? "";
+    entry = {
+      rawDate: header[1],
+      strings: Array.from(rest.matchAll(STRING), match => unescape(match[1])),
+      tags: [
+        ...Array.from(pushedTags),
+        ...(rest.replace(STRING, "").match(/#[^\s#^]+/g) ?? []).map(tag => tag.slice(1)),
+      ],
+      meta: {},
+      postings: [],
+      text: [line.trim()],
+    };
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+const isMoneyAccount = (account: string) => /^(Assets|Liabilities):/.test(account);
+const isCategoryAccount = (account: string) => /^(Income|Expenses):/.test(account);
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Fills in the one posting Beancount allows without an amount.
+function completePostings(postings: Posting[]) {
+  const missing = postings.filter(posting => !posting.rawAmount);
+  if (missing.length > 1) return "Only one posting can leave out its amount";
+  if (missing.length === 1) {
+    const known = postings.filter(posting => posting.rawAmount);
+    if (known.some(posting => posting.amount === null)) return null;
+    missing[0].amount = -known.reduce((sum, posting) => sum + toCents(posting.amount!), 0) / 100;
+    missing[0].currency = known[0]?.currency;
+  }
+  return null;
+}
+
+// Turns one Beancount transaction into a statement transaction of the
+// account it's filed under. Income and expenses have one money posting and
+// one or more category postings; transfers have two money postings.
+function toStatementTransaction(entry: Entry, externalId: string): { key: string; transaction: StatementTransaction } {
+  const money = entry.postings.filter(posting => isMoneyAccount(posting.account));
+  const categoryPostings = entry.postings.filter(posting => isCategoryAccount(posting.account));
+  const [payee, narration] = entry.strings.length > 1 ? entry.strings : [undefined, entry.strings[0]];
+  const notes = [payee ? narration : undefined, entry.meta.note].filter(Boolean).join("\n");
+
+  const error = completePostings(entry.postings);
+  const source = money.find(posting => (posting.amount ?? 0) < 0) ?? money[0] ?? entry.postings[0];
+  const transaction: StatementTransaction = {
+    externalId,
+    date: parseDate(entry.rawDate.replace(/\//g, "-"), "YYYY-MM-DD"),
+    rawDate: entry.rawDate,
+    amount: source?.amount ?? null,
+    rawAmount: source?.rawAmount ?? "",
+    description: payee || narration || "",
+    tags: entry.tags,
+    notes: notes || undefined,
+  };
+  const key = source?.account ?? "Beancount";
+  const fail = (error: string) => ({ key, transaction: { ...transaction, error } });
+
+  if (error) return fail(error);
+  if (entry.postings.some(posting => posting.amount === null)) {
+    const invalid = entry.postings.find(posting => posting.amount === null)!;
+    return { key, transaction: { ...transaction, amount: null, rawAmount: invalid.rawAmount } };
+  }
+  if (new Set(entry.postings.map(posting => posting.currency)).size > 1) {
+    return fail("Postings in more than one currency can't be imported");
+  }
+  if (entry.postings.some(posting => /^Equity:/.test(posting.account))) {
+    return fail("Equity postings such as opening balances aren't imported; set opening balances on the account");
+  }
+
+  if (money.length === 2 && categoryPostings.length === 0) {
+    const [from, to] = money[0].amount! < 0 ? money : [money[1], money[0]];
+    if (from.amount! >= 0 || to.amount! <= 0) return fail("A transfer must move money out of one account and into the other");
+    return { key: from.account, transaction: { ...transaction, amount: from.amount, rawAmount: from.rawAmount, transferAccountKey: to.account } };
+  }
+
+  if (money.length !== 1 || categoryPostings.length === 0) {
+    return fail("Only transactions between one account and its categories, or transfers between two accounts, can be imported");
+  }
+
+  // Category postings take the opposite sign of the money posting
+  const [account] = money;
+  const amount = account.amount!;
+  if (categoryPostings.some(posting => Math.sign(posting.amount!) === Math.sign(amount))) {
+    return fail("Postings to categories must all go the same way");
+  }
+  const base = { key: account.account, transaction: { ...transaction, amount, rawAmount: account.rawAmount } };
+  if (categoryPostings.length === 1) {
+    return { ...base, transaction: { ...base.transaction, category: categoryPostings[0].account } };
+  }
+  return {
+    ...base,
+    transaction: {
+      ...base.transaction,
+      splits: categoryPostings.map(posting => ({ category: posting.account, amount: Math.abs(posting.amount!), note: posting.note })),
+    },
+  };
+}
+
+// Beancount transactions have no ids, so like QIF rows each is identified by
+// a hash of its text plus how many identical transactions came before it.
+export function parseBeancount(content: string): StatementAccount[] {
+  const accounts: StatementAccount[] = [];
+  const accountFor = (key: string) => {
+    let account = accounts.find(a => a.key === key);
+    if (!account) {
+      account = { key, name: key, transactions: [] };
+      accounts.push(account);
+    }
+    return account;
+  };
+
+  const seen = new Map<string, number>();
+  for (const entry of readEntries(content)) {
+    const fingerprint = entry.text.join("\n");
+    const ordinal = seen.get(fingerprint) ?? 0;
+    seen.set(fingerprint, ordinal + 1);
+
+    const externalId = "beancount:" + createHash("sha256").update(`${fingerprint}|${ordinal}`).digest("hex").slice(0, 40);
+    const { key, transaction } = toStatementTransaction(entry, externalId);
+    accountFor(key).transactions.push(transaction);
+    // Transfers need the other account mapped too
+    if (transaction.transferAccountKey) accountFor(transaction.transferAccountKey);
+  }
+
+  return accounts;
+}
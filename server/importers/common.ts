@@ -0,0 +1,78 @@
+import type { Category, CsvMapping } from "@shared/schema";
+
+// A statement row turned into a transaction payload, plus anything that went
+// wrong while reading it. Payloads are validated against the transaction
+// schema by the caller. `externalId` identifies the row across imports so
+// the same statement line is never imported twice.
+export interface ImportRow {
+  line: number;
+  payload: Record<string, unknown>;
+  errors: string[];
+  externalId?: string;
+  accountKey?: string;
+}
+
+export function parseDate(value: string, format: CsvMapping["dateFormat"]): Date | null {
+  const parts = value.trim().split(/[-/.]/).map(part => parseInt(part, 10));
+  if (parts.length !== 3 || parts.some(isNaN)) return null;
+
+  const [year, month, day] =
+    format.startsWith("YYYY") ? parts :
+    format.startsWith("MM") ? [parts[2], parts[0], parts[1]] :
+    [parts[2], parts[1], parts[0]];
+
+  // Dates are stored as UTC midnight, matching the transaction form
+  const date = new Date(Date.UTC(year < 100 ? 2000 + year : year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date;
+}
+
+// Parses amounts like "1,234.50", "1.234,50", "(45.00)", "-₹ 300" or "12.00 DR"
+// into a signed number.
+export function parseAmount(value: string, decimalSeparator: CsvMapping["decimalSeparator"]): number | null {
+  let text = value.trim();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (/\s*dr\.?$/i.test(text)) {
+    negative = true;
+    text = text.replace(/\s*dr\.?$/i, "");
+  }
+  text = text.replace(/\s*cr\.?$/i, "");
+
+  const thousands = decimalSeparator === "." ? /,/g : /\./g;
+  text = text.replace(thousands, "").replace(decimalSeparator, ".").replace(/[^\d.\-+]/g, "");
+  if (text.startsWith("-")) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  if (!/^\+?\d+(\.\d+)?$/.test(text)) return null;
+  const amount = parseFloat(text);
+  return negative ? -amount : amount;
+}
+
+// Matches a category name from a statement against the user's active
+// categories, case-insensitively. QIF-style "Parent:Child" names match the
+// subcategory first, then the parent.
+export function createCategoryMatcher(categories: Category[]) {
+  const byName = new Map<string, string>();
+  for (const category of categories) {
+    const key = category.name.trim().toLowerCase();
+    if (!category.isArchived && !byName.has(key)) byName.set(key, category.id);
+  }
+
+  return (name?: string | null): string | undefined => {
+    if (!name) return undefined;
+    const parts = name.split(":").map(part => part.trim().toLowerCase()).filter(Boolean);
+    for (const part of parts.reverse()) {
+      const id = byName.get(part);
+      if (id) return id;
+    }
+    return byName.get(name.trim().toLowerCase());
+  };
+}
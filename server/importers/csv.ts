@@ -0,0 +1,136 @@
+import type { Category, CsvMapping } from "@shared/schema";
+import { createCategoryMatcher, parseAmount, parseDate, type ImportRow } from "./common";
+import type { Categorizer } from "../rules";
+
+// RFC 4180 style parsing: quoted fields may contain the delimiter, newlines
+// and doubled quotes. Blank lines are dropped.
+export function parseCsv(content: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  const text = content.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ""));
+}
+
+// Picks whichever supported delimiter occurs most often in the first line.
+export function detectDelimiter(content: string): CsvMapping["delimiter"] {
+  const firstLine = content.split(/\r?\n/, 1)[0] ?? "";
+  const candidates: CsvMapping["delimiter"][] = [",", ";", "\t", "|"];
+  return candidates.reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+}
+
+const headerPatterns: Array<[keyof CsvMapping["columns"], RegExp]> = [
+  ["date", /date/i],
+  ["description", /desc|narration|details|memo|payee|particulars/i],
+  ["debit", /debit|withdrawal/i],
+  ["credit", /credit|deposit/i],
+  ["amount", /amount|value/i],
+  ["category", /category/i],
+];
+
+// Best-effort column mapping from header names, used when the user has no
+// saved profile for the bank yet.
+export function guessColumns(headers: string[]): Partial<CsvMapping["columns"]> {
+  const columns: Partial<CsvMapping["columns"]> = {};
+
+  for (const [key, pattern] of headerPatterns) {
+    const index = headers.findIndex((header, i) =>
+      pattern.test(header) && !Object.values(columns).includes(i)
+    );
+    if (index !== -1) columns[key] = index;
+  }
+
+  return columns;
+}
+
+// Turns parsed CSV rows into transaction payloads. Positive amounts (or the
+// credit column) become income and negative amounts (or debit) expenses.
+// A row's category comes from its category column, then the user's rules,
+// then the mapping's default.
+export function mapCsvRows(rows: string[][], mapping: CsvMapping, categories: Category[], categorize: Categorizer = () => undefined): ImportRow[] {
+  const { columns } = mapping;
+  const matchCategory = createCategoryMatcher(categories);
+  const dataRows = mapping.hasHeader ? rows.slice(1) : rows;
+  const firstLine = mapping.hasHeader ? 2 : 1;
+
+  return dataRows.map((row, i) => {
+    const errors: string[] = [];
+    const cell = (index?: number | null) => (index != null ? (row[index] ?? "").trim() : "");
+
+    const dateText = cell(columns.date);
+    const date = parseDate(dateText, mapping.dateFormat);
+    if (!date) errors.push(`Invalid date "${dateText}"`);
+
+    let amount: number | null = null;
+    if (columns.amount != null) {
+      amount = parseAmount(cell(columns.amount), mapping.decimalSeparator);
+      if (amount === null) errors.push(`Invalid amount "${cell(columns.amount)}"`);
+    } else {
+      const debit = parseAmount(cell(columns.debit), mapping.decimalSeparator);
+      const credit = parseAmount(cell(columns.credit), mapping.decimalSeparator);
+      if (cell(columns.debit) && debit === null) {
+        errors.push(`Invalid debit "${cell(columns.debit)}"`);
+      } else if (cell(columns.credit) && credit === null) {
+        errors.push(`Invalid credit "${cell(columns.credit)}"`);
+      } else if (debit === null && credit === null) {
+        errors.push("Row has neither a debit nor a credit amount");
+      } else {
+        amount = (credit ?? 0) - Math.abs(debit ?? 0);
+      }
+    }
+
+    const transaction = {
+      description: cell(columns.description),
+      amount: amount !== null ? Math.abs(amount).toFixed(2) : "",
+      type: amount !== null && amount < 0 ? "expense" : "income",
+      accountId: mapping.accountId ?? null,
+    };
+
+    return {
+      line: firstLine + i,
+      payload: {
+        ...transaction,
+        date: date ?? dateText,
+        categoryId: matchCategory(cell(columns.category)) ?? categorize(transaction) ?? mapping.defaultCategoryId ?? null,
+      },
+      errors,
+    };
+  });
+}
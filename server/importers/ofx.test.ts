@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { parseOfx } from "./ofx";
+import { detectStatementFormat } from "./statement";
+
+const fixture = (name: string) => readFileSync(path.join(import.meta.dirname, "fixtures", name), "utf8");
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+describe("parseOfx", () => {
+  describe("OFX 1.x (SGML)", () => {
+    const content = fixture("statement-1x.ofx");
+    const accounts = parseOfx(content);
+
+    it("is detected as OFX", () => {
+      expect(detectStatementFormat(content)).toBe("ofx");
+    });
+
+    it("makes one account per statement, keyed by account number", () => {
+      expect(accounts.map(({ key, name }) => ({ key, name }))).toEqual([
+        { key: "000123456789", name: "CHECKING 000123456789" },
+        { key: "4111222233334444", name: "CREDITCARD 4111222233334444" },
+      ]);
+    });
+
+    it("reads leaf elements without end tags", () => {
+      expect(accounts[0].transactions).toEqual([
+        {
+          externalId: "ofx:000123456789:20260105-001",
+          date: day("2026-01-05"),
+          rawDate: "20260105120000.000[-5:EST]",
+          amount: -1234.56,
+          rawAmount: "-1234.56",
+          description: "Barnes & Noble",
+        },
+        {
+          externalId: "ofx:000123456789:20260115-001",
+          date: day("2026-01-15"),
+          rawDate: "20260115",
+          amount: 2500,
+          rawAmount: "+2500.00",
+          description: "ACME PAYROLL",
+        },
+        {
+          externalId: "ofx:000123456789:20260120-001",
+          date: day("2026-01-20"),
+          rawDate: "20260120",
+          amount: -500,
+          rawAmount: "-500.00",
+          description: "Transfer to savings <4321>",
+        },
+        {
+          externalId: "ofx:000123456789:20260131-001",
+          date: null,
+          rawDate: "20260231",
+          amount: -12,
+          rawAmount: "-12.00",
+          description: "FEE",
+        },
+      ]);
+    });
+
+    it("keeps credit card statements apart from bank statements", () => {
+      expect(accounts[1].transactions).toEqual([
+        expect.objectContaining({ externalId: "ofx:4111222233334444:CC-0001", amount: -45.1, description: "Corner Cafe" }),
+      ]);
+    });
+  });
+
+  describe("OFX 2.x (XML)", () => {
+    const content = fixture("statement-2x.ofx");
+    const accounts = parseOfx(content);
+
+    it("is detected as OFX", () => {
+      expect(detectStatementFormat(content)).toBe("ofx");
+    });
+
+    it("reads the statement", () => {
+      expect(accounts).toEqual([
+        {
+          key: "DE89370400440532013000",
+          name: "SAVINGS DE89370400440532013000",
+          transactions: [
+            {
+              externalId: "ofx:DE89370400440532013000:2026022801",
+              date: day("2026-02-28"),
+              rawDate: "20260228235959.000[+1:CET]",
+              amount: 3.75,
+              rawAmount: "3,75",
+              description: 'Zinsen "Tagesgeld"',
+            },
+            {
+              externalId: "ofx:DE89370400440532013000:2026021001",
+              date: day("2026-02-10"),
+              rawDate: "20260210",
+              amount: 500,
+              rawAmount: "500.00",
+              description: "Transfer from checking",
+            },
+            {
+              externalId: "ofx:DE89370400440532013000:20260214:-19.99:2",
+              date: day("2026-02-14"),
+              rawDate: "20260214",
+              amount: -19.99,
+              rawAmount: "-19.99",
+              description: "Müller & Söhne",
+            },
+          ],
+        },
+      ]);
+    });
+  });
+
+  it("skips statements without transactions", () => {
+    expect(parseOfx("<OFX><STMTRS><BANKACCTFROM><ACCTID>1</ACCTID></BANKACCTFROM></STMTRS></OFX>")).toEqual([]);
+  });
+});
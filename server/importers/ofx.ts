@@ -0,0 +1,81 @@
+import type { StatementAccount, StatementTransaction } from "./statement";
+
+const entities: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decode(value: string) {
+  return value.replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (_, name) => entities[name]);
+}
+
+// Value of a leaf element. OFX 1.x is SGML and leaves end tags off leaf
+// elements, so the value runs up to the next tag in both dialects.
+function getElement(block: string, tag: string) {
+  const match = block.match(new RegExp(`<${tag}>([^<]*)`, "i"));
+  return match ? decode(match[1].trim()) : "";
+}
+
+function getAggregates(block: string, tag: string) {
+  return Array.from(block.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, "gi")), match => match[1]);
+}
+
+// OFX dates look like YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]. Only the calendar
+// date is kept, stored as UTC midnight like every other transaction date.
+function parseOfxDate(value: string) {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const [year, month, day] = match.slice(1).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+}
+
+function parseOfxAmount(value: string) {
+  const normalized = value.replace(",", ".").replace(/\s/g, "");
+  return /^[+-]?\d*\.?\d+$/.test(normalized) ? parseFloat(normalized) : null;
+}
+
+// Parses OFX 1.x (SGML) and 2.x (XML) bank and credit card statements,
+// including QFX which is OFX with extra Intuit elements. Each statement
+// becomes one account keyed by its account number; FITIDs identify
+// transactions across downloads.
+export function parseOfx(content: string): StatementAccount[] {
+  const body = content.slice(Math.max(content.search(/<OFX>/i), 0));
+  const statements = [...getAggregates(body, "STMTRS"), ...getAggregates(body, "CCSTMTRS")];
+  const accounts: StatementAccount[] = [];
+
+  for (const statement of statements.length > 0 ? statements : [body]) {
+    const accountNumber = getElement(statement, "ACCTID") || "OFX";
+    const accountType = getElement(statement, "ACCTTYPE") || (/<CCACCTFROM>/i.test(statement) ? "CREDITCARD" : "");
+
+    const transactions = getAggregates(statement, "STMTTRN").map((block, index): StatementTransaction => {
+      const rawDate = getElement(block, "DTPOSTED");
+      const rawAmount = getElement(block, "TRNAMT");
+      const name = getElement(block, "NAME") || getElement(block, "PAYEEID");
+      const memo = getElement(block, "MEMO");
+      // FITIDs are only unique within an account. Files without one fall
+      // back to the position in the statement.
+      const fitId = getElement(block, "FITID") || `${rawDate}:${rawAmount}:${index}`;
+
+      return {
+        externalId: `ofx:${accountNumber}:${fitId}`,
+        date: parseOfxDate(rawDate),
+        rawDate,
+        amount: parseOfxAmount(rawAmount),
+        rawAmount,
+        description: name || memo || getElement(block, "TRNTYPE"),
+      };
+    });
+
+    const existing = accounts.find(a => a.key === accountNumber);
+    if (existing) {
+      existing.transactions.push(...transactions);
+    } else {
+      accounts.push({
+        key: accountNumber,
+        name: accountType ? `${accountType} ${accountNumber}` : accountNumber,
+        transactions,
+      });
+    }
+  }
+
+  return accounts.filter(a => a.transactions.length > 0);
+}
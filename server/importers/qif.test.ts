@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "fs";
+import path from "path";
+import { parseQif } from "./qif";
+import { detectStatementFormat } from "./statement";
+
+const fixture = (name: string) => readFileSync(path.join(import.meta.dirname, "fixtures", name), "utf8");
+
+const day = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+describe("parseQif", () => {
+  const content = fixture("accounts.qif");
+  const accounts = parseQif(content);
+  const [checking, savings, visa] = accounts;
+
+  it("is detected as QIF", () => {
+    expect(detectStatementFormat(content)).toBe("qif");
+  });
+
+  it("splits a multi-account file by its !Account records", () => {
+    expect(accounts.map(({ key, name, transactions }) => ({ key, name, count: transactions.length }))).toEqual([
+      { key: "Checking", name: "Checking", count: 5 },
+      { key: "Savings", name: "Savings", count: 1 },
+      { key: "Visa", name: "Visa", count: 1 },
+    ]);
+  });
+
+  it("reads dates, amounts, payees and categories", () => {
+    expect(checking.transactions.slice(0, 2)).toEqual([
+      expect.objectContaining({
+        date: day("2026-01-05"),
+        rawDate: "1/ 5'26",
+        amount: -1234.56,
+        rawAmount: "-1,234.56",
+        description: "Barnes & Noble",
+        category: "Entertainment:Books",
+      }),
+      expect.objectContaining({
+        date: day("2026-01-15"),
+        amount: 2500,
+        description: "ACME Payroll",
+        category: "Salary",
+      }),
+    ]);
+  });
+
+  it("reads day-first dates when asked to", () => {
+    const [account] = parseQif("!Type:Bank\nD05/01/2026\nT-10.00\nPBakery\n^\n", "DD/MM/YYYY");
+    expect(account.transactions[0].date).toEqual(day("2026-01-05"));
+  });
+
+  it("leaves transfers without a category on both sides", () => {
+    expect(checking.transactions[2]).toMatchObject({ amount: -500, description: "Transfer to savings" });
+    expect(checking.transactions[2].category).toBeUndefined();
+    expect(savings.transactions[0]).toMatchObject({ amount: 500, description: "Transfer from checking" });
+    expect(savings.transactions[0].category).toBeUndefined();
+  });
+
+  it("takes a split transaction's total", () => {
+    expect(checking.transactions[3]).toMatchObject({ amount: -150, category: "Groceries" });
+  });
+
+  it("keeps invalid dates for the import preview to report", () => {
+    expect(visa.transactions[0]).toMatchObject({ date: null, rawDate: "2/30/2026", amount: -45.1 });
+  });
+
+  it("tells identical rows apart by their order", () => {
+    const externalIds = accounts.flatMap(account => account.transactions.map(transaction => transaction.externalId));
+    expect(new Set(externalIds).size).toBe(externalIds.length);
+    expect(checking.transactions[3].externalId).not.toBe(checking.transactions[4].externalId);
+  });
+
+  it("identifies rows the same way on every import", () => {
+    expect(parseQif(content.replace(/\r\n/g, "\n"))).toEqual(accounts);
+  });
+
+  it("skips non-transaction sections", () => {
+    expect(accounts.some(account => account.transactions.some(transaction => transaction.description === "Groceries"))).toBe(false);
+  });
+});
@@ -0,0 +1,119 @@
+import { createHash } from "crypto";
+import { parseAmount, parseDate } from "./common";
+import type { StatementAccount } from "./statement";
+
+// QIF does not say which order day and month come in; US software writes
+// month first.
+export type QifDateFormat = "MM/DD/YYYY" | "DD/MM/YYYY";
+
+// Transaction sections we can import. Investment, category and memorized
+// lists are skipped.
+const TRANSACTION_TYPES = new Set(["bank", "cash", "ccard", "oth a", "oth l"]);
+
+const DEFAULT_ACCOUNT = "QIF";
+
+// Quicken writes dates like "1/5/26", "1/ 5'26" or "01-05-2026"; the
+// apostrophe marks a 2000s year.
+function parseQifDate(value: string, format: QifDateFormat) {
+  const parts = value.replace(/\s/g, "").split(/['/.-]/);
+  if (parts.length !== 3) return null;
+
+  if (parts[0].length === 4) {
+    return parseDate(parts.join("/"), "YYYY/MM/DD");
+  }
+
+  let year = parseInt(parts[2], 10);
+  if (parts[2].length <= 2) {
+    year += value.includes("'") || year < 50 ? 2000 : 1900;
+  }
+  return parseDate(`${parts[0]}/${parts[1]}/${year}`, format);
+}
+
+interface QifRecord {
+  [field: string]: string | undefined;
+}
+
+function readRecords(lines: string[]) {
+  const records: QifRecord[] = [];
+  let record: QifRecord = {};
+
+  for (const line of lines) {
+    if (line === "^") {
+      records.push(record);
+      record = {};
+    } else if (line) {
+      const field = line[0];
+      // Split lines (S, E, $) repeat; the transaction total in T is enough.
+      if (record[field] === undefined) record[field] = line.slice(1).trim();
+    }
+  }
+
+  return records;
+}
+
+// Parses QIF exports, including multi-account files where each `!Account`
+// record names the account that the following `!Type:` section belongs to.
+// QIF has no transaction ids, so each row is identified by a hash of its
+// contents plus how many identical rows came before it in the same account.
+// That makes re-import detection only as stable as the file: if a later
+// export edits, drops or reorders one of several identical rows, the
+// ordinals of the ones after it shift, so a row already imported can come
+// back as new or a new one can be taken for a duplicate.
+export function parseQif(content: string, dateFormat: QifDateFormat = "MM/DD/YYYY"): StatementAccount[] {
+  const accounts: StatementAccount[] = [];
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/).map(line => line.trimEnd());
+
+  let accountName = DEFAULT_ACCOUNT;
+  let section = "";
+  let sectionLines: string[] = [];
+  const seen = new Map<string, number>();
+
+  const flush = () => {
+    if (section === "account") {
+      const [record] = readRecords(sectionLines);
+      if (record?.N) accountName = record.N;
+    } else if (TRANSACTION_TYPES.has(section)) {
+      let account = accounts.find(a => a.key === accountName);
+      if (!account) {
+        account = { key: accountName, name: accountName, transactions: [] };
+        accounts.push(account);
+      }
+
+      for (const record of readRecords(sectionLines)) {
+        const rawDate = record.D ?? "";
+        const rawAmount = record.T ?? record.U ?? "";
+        const fingerprint = [accountName, rawDate, rawAmount, record.P ?? "", record.M ?? "", record.N ?? ""].join("|");
+        const ordinal = seen.get(fingerprint) ?? 0;
+        seen.set(fingerprint, ordinal + 1);
+
+        // "[Account]" categories are transfers in Quicken; they carry no
+        // category here.
+        const category = record.L && !record.L.startsWith("[") ? record.L.split("/")[0] : undefined;
+
+        account.transactions.push({
+          externalId: "qif:" + createHash("sha256").update(`${fingerprint}|${ordinal}`).digest("hex").slice(0, 40),
+          date: parseQifDate(rawDate, dateFormat),
+          rawDate,
+          amount: parseAmount(rawAmount, "."),
+          rawAmount,
+          description: record.P || record.M || "",
+          category,
+        });
+      }
+    }
+    sectionLines = [];
+  };
+
+  for (const line of lines) {
+    if (line.startsWith("!")) {
+      flush();
+      const header = line.slice(1).trim().toLowerCase();
+      section = header === "account" ? "account" : header.startsWith("type:") ? header.slice(5).trim() : "";
+    } else {
+      sectionLines.push(line);
+    }
+  }
+  flush();
+
+  return accounts.filter(a => a.transactions.length > 0);
+}
@@ -0,0 +1,111 @@
+import type { Category } from "@shared/schema";
+import { createCategoryMatcher, type ImportRow } from "./common";
+import { parseOfx } from "./ofx";
+import { parseQif, type QifDateFormat } from "./qif";
+import { parseBeancount } from "./beancount";
+import type { Categorizer } from "../rules";
+
+export type StatementFormat = "ofx" | "qif" | "beancount";
+
+export interface StatementTransaction {
+  externalId: string;
+  date: Date | null;
+  rawDate: string;
+  amount: number | null; // signed: negative is money out
+  rawAmount: string;
+  description: string;
+  category?: string;
+  // Plain-text accounting files can say more than a bank statement
+  transferAccountKey?: string; // the statement account a transfer went to
+  splits?: Array<{ category: string; amount: number; note?: string }>;
+  tags?: string[];
+  notes?: string;
+  error?: string; // why the transaction cannot be imported
+}
+
+// One account's worth of transactions from a statement file. `key` is the
+// account number (OFX) or name (QIF, Beancount) and is what the user maps
+// to one of their own accounts.
+export interface StatementAccount {
+  key: string;
+  name: string;
+  transactions: StatementTransaction[];
+}
+
+export interface StatementMappingOptions {
+  accountMap?: Record<string, string | null>;
+  defaultCategoryId?: string | null;
+  // Looked up before category names are matched, e.g. the user's ledger
+  // account names
+  findCategory?: (name: string) => string | undefined;
+}
+
+export function detectStatementFormat(content: string): StatementFormat | null {
+  const head = content.trimStart().slice(0, 1000);
+  if (/OFXHEADER|<OFX>/i.test(head)) return "ofx";
+  if (/^!(Type|Account|Option)/im.test(head)) return "qif";
+  if (/^(option\s+"|\d{4}[-/]\d{2}[-/]\d{2}\s+(open|txn|\*|!)\s)/m.test(head)) return "beancount";
+  return null;
+}
+
+export function parseStatement(content: string, format: StatementFormat, qifDateFormat?: QifDateFormat): StatementAccount[] {
+  if (format === "beancount") return parseBeancount(content);
+  return format === "ofx" ? parseOfx(content) : parseQif(content, qifDateFormat);
+}
+
+// Turns statement transactions into the same payloads the CSV importer
+// produces, numbering rows across all accounts in file order.
+export function mapStatementRows(
+  accounts: StatementAccount[],
+  options: StatementMappingOptions,
+  categories: Category[],
+  categorize: Categorizer = () => undefined,
+): ImportRow[] {
+  const matchName = createCategoryMatcher(categories);
+  const matchCategory = (name?: string) => (name && options.findCategory?.(name)) || matchName(name);
+  const rows: ImportRow[] = [];
+
+  for (const account of accounts) {
+    for (const transaction of account.transactions) {
+      const errors: string[] = [];
+      if (!transaction.date) errors.push(`Invalid date "${transaction.rawDate}"`);
+      if (transaction.amount === null) errors.push(`Invalid amount "${transaction.rawAmount}"`);
+      if (transaction.error) errors.push(transaction.error);
+
+      const isTransfer = transaction.transferAccountKey !== undefined;
+      const payload = {
+        description: transaction.description,
+        amount: transaction.amount !== null ? Math.abs(transaction.amount).toFixed(2) : "",
+        type: isTransfer ? "transfer" : transaction.amount !== null && transaction.amount < 0 ? "expense" : "income",
+        accountId: options.accountMap?.[account.key] ?? null,
+      };
+
+      // Split lines must name one of the user's categories
+      const splits = transaction.splits?.map((split) => {
+        const categoryId = matchCategory(split.category);
+        if (!categoryId) errors.push(`No category matches "${split.category}"`);
+        return { categoryId, amount: split.amount.toFixed(2), note: split.note ?? null };
+      });
+
+      rows.push({
+        line: rows.length + 1,
+        accountKey: account.key,
+        externalId: transaction.externalId,
+        payload: {
+          ...payload,
+          date: transaction.date ?? transaction.rawDate,
+          categoryId: isTransfer || splits?.length
+            ? null
+            : matchCategory(transaction.category) ?? categorize(payload) ?? options.defaultCategoryId ?? null,
+          ...(isTransfer ? { transferAccountId: options.accountMap?.[transaction.transferAccountKey!] ?? null } : {}),
+          ...(splits?.length ? { splits } : {}),
+          ...(transaction.tags?.length ? { tags: transaction.tags } : {}),
+          ...(transaction.notes ? { notes: transaction.notes } : {}),
+        },
+        errors,
+      });
+    }
+  }
+
+  return rows;
+}
@@ -2,6 +2,8 @@ import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { startRecurringScheduler } from "./scheduler";
+import { disabledMailer, getMailer } from "./mailer";
 
 const app = express();
 
@@ -11,9 +13,26 @@ app.use(cors({
   credentials: true,
 }));
 
-app.use(express.json());
+// Backups can hold years of transactions
+app.use("/api/backup", express.json({ limit: "50mb" }));
+// Statement imports send the file contents as JSON
+app.use(express.json({ limit: "5mb" }));
 app.use(express.urlencoded({ extended: false }));
 
+// Response fields that never go into the log, at any depth: password
+// hashes, two-factor secrets (the QR code and otpauth link hold one too)
+// and recovery codes.
+const SECRET_FIELDS = new Set(["password", "secret", "otpauthUrl", "qrCode", "recoveryCodes", "codeHash", "token"]);
+
+function redactSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(redactSecrets);
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, field]) =>
+      [key, SECRET_FIELDS.has(key) ? "[redacted]" : redactSecrets(field)]));
+  }
+  return value;
+}
+
 // Logging middleware
 app.use((req, res, next) => {
   const start = Date.now();
@@ -31,7 +50,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(redactSecrets(capturedJsonResponse))}`;
       }
       if (logLine.length > 80) logLine = logLine.slice(0, 79) + "…";
       log(logLine);
@@ -74,5 +93,9 @@ app.use((req, res, next) => {
     host: "127.0.0.1",
   }, () => {
     log(`Server running on http://127.0.0.1:${port}`);
+    if (getMailer() === disabledMailer) {
+      log("No SMTP_URL or MAIL_DIR set: password reset and verification emails will not be sent");
+    }
+    startRecurringScheduler();
   });
 })();
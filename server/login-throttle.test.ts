@@ -0,0 +1,122 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { getLockout, lockoutMessage, recordLoginFailure, recordLoginSuccess } from "./login-throttle";
+import { createTestApp, signUp, TEST_PASSWORD } from "./test/app";
+
+const MINUTE_MS = 60 * 1000;
+const LOCKOUT_MS = 15 * MINUTE_MS;
+
+// The throttle's counts are shared by the whole file, so every test signs
+// in from its own address and as its own user.
+let lastIp = 0;
+const newIp = () => {
+  lastIp++;
+  return `10.${(lastIp >> 8) & 255}.${lastIp & 255}.1`;
+};
+const newUsername = () => `user_${randomUUID().slice(0, 8)}`;
+
+function fail(ip: string, username: string, times: number, now: number) {
+  for (let i = 0; i < times; i++) recordLoginFailure(ip, username, now);
+}
+
+describe("login throttle", () => {
+  const now = Date.UTC(2026, 0, 1);
+
+  it("locks a username out after 5 failures for 15 minutes", () => {
+    const username = newUsername();
+    fail(newIp(), username, 4, now);
+    expect(getLockout(newIp(), username, now)).toBe(0);
+
+    recordLoginFailure(newIp(), username, now);
+    expect(getLockout(newIp(), username, now)).toBe(LOCKOUT_MS);
+    expect(getLockout(newIp(), username, now + LOCKOUT_MS - 1)).toBe(1);
+    expect(getLockout(newIp(), username, now + LOCKOUT_MS)).toBe(0);
+  });
+
+  it("ignores case and spaces around the username", () => {
+    const username = newUsername();
+    fail(newIp(), ` ${username.toUpperCase()} `, 5, now);
+    expect(getLockout(newIp(), username, now)).toBe(LOCKOUT_MS);
+  });
+
+  it("locks an IP out after 20 failures across usernames", () => {
+    const ip = newIp();
+    for (let i = 0; i < 19; i++) recordLoginFailure(ip, newUsername(), now);
+    expect(getLockout(ip, newUsername(), now)).toBe(0);
+
+    recordLoginFailure(ip, newUsername(), now);
+    expect(getLockout(ip, newUsername(), now)).toBe(LOCKOUT_MS);
+  });
+
+  it("only counts failures within the last 15 minutes", () => {
+    const username = newUsername();
+    fail(newIp(), username, 4, now);
+    recordLoginFailure(newIp(), username, now + LOCKOUT_MS + 1);
+    expect(getLockout(newIp(), username, now + LOCKOUT_MS + 1)).toBe(0);
+  });
+
+  it("clears a username's failures on success, but not the IP's", () => {
+    const ip = newIp();
+    const username = newUsername();
+    fail(ip, username, 4, now);
+    for (let i = 0; i < 15; i++) recordLoginFailure(ip, newUsername(), now);
+    recordLoginSuccess(username);
+
+    fail(ip, username, 1, now);
+    // The username's count started over...
+    expect(getLockout(newIp(), username, now)).toBe(0);
+    // ...but that was the IP's 20th failure
+    expect(getLockout(ip, newUsername(), now)).toBe(LOCKOUT_MS);
+  });
+
+  it("says how long to wait", () => {
+    expect(lockoutMessage(LOCKOUT_MS)).toBe("Too many failed sign-in attempts. Try again in 15 minutes.");
+    expect(lockoutMessage(30 * 1000)).toBe("Too many failed sign-in attempts. Try again in 1 minute.");
+  });
+});
+
+describe("POST /api/login throttling", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  // `trust proxy` is set, so the forwarded address is the client's
+  const login = (ip: string, username: string, password: string) =>
+    request(app).post("/api/login").set("X-Forwarded-For", ip).send({ username, password });
+
+  it("answers 429 with Retry-After once a username is locked out", async () => {
+    const { user } = await signUp(app);
+    for (let i = 0; i < 5; i++) {
+      await login(newIp(), user.username, "Not-The-Password-1").expect(401);
+    }
+
+    // Even the right password, from anywhere
+    const response = await login(newIp(), user.username, TEST_PASSWORD).expect(429);
+    expect(response.headers["retry-after"]).toBe(String(LOCKOUT_MS / 1000));
+    expect(response.body.error).toBe(lockoutMessage(LOCKOUT_MS));
+  });
+
+  it("answers 429 once an IP is locked out, whoever signs in", async () => {
+    const ip = newIp();
+    for (let i = 0; i < 20; i++) {
+      await login(ip, newUsername(), "Not-The-Password-1").expect(401);
+    }
+    const { user } = await signUp(app);
+    await login(ip, user.username, TEST_PASSWORD).expect(429);
+    await login(newIp(), user.username, TEST_PASSWORD).expect(200);
+  });
+
+  it("starts the count over after a successful sign-in", async () => {
+    const { user } = await signUp(app);
+    const ip = newIp();
+    for (let i = 0; i < 4; i++) await login(ip, user.username, "Not-The-Password-1").expect(401);
+    await login(ip, user.username, TEST_PASSWORD).expect(200);
+
+    for (let i = 0; i < 4; i++) await login(ip, user.username, "Not-The-Password-1").expect(401);
+    await login(ip, user.username, TEST_PASSWORD).expect(200);
+  });
+});
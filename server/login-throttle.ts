@@ -0,0 +1,97 @@
+// Slows down password guessing. Failed sign-ins are counted per client IP
+// and per username over a sliding window; once either count reaches its
+// limit, sign-ins for that key are refused until the lockout ends. Requests
+// that email a link (password resets, verification links) are counted per
+// client IP the same way. Counts are kept in memory, so they reset when the
+// server restarts.
+
+function envInt(name: string, fallback: number) {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = envInt("LOGIN_LOCKOUT_MINUTES", 15) * 60 * 1000;
+// Per IP is higher: several people can share one address.
+const MAX_FAILURES = {
+  username: envInt("LOGIN_MAX_FAILURES_PER_USERNAME", 5),
+  ip: envInt("LOGIN_MAX_FAILURES_PER_IP", 20),
+};
+const MAX_EMAIL_REQUESTS_PER_IP = envInt("MAX_EMAIL_REQUESTS_PER_IP", 10);
+
+type Attempts = { failures: number[]; lockedUntil: number };
+
+// Counts live in this process only. Run several server processes and each
+// keeps its own, so an attacker spread across them gets that many times the
+// limit; sharing them would need a store like Redis. Client IPs are req.ip,
+// which is right only with exactly one reverse proxy in front (`trust proxy`
+// is 1 in auth.ts): exposed directly, a client can pick its own IP with
+// X-Forwarded-For.
+const attempts = new Map<string, Attempts>();
+let lastSweep = Date.now();
+
+const keysFor = (ip: string, username: string) => [
+  { key: `username:${username.trim().toLowerCase()}`, limit: MAX_FAILURES.username },
+  { key: `ip:${ip}`, limit: MAX_FAILURES.ip },
+];
+
+// Drops entries with nothing left to remember, at most once a window.
+function sweep(now: number) {
+  if (now - lastSweep < WINDOW_MS) return;
+  lastSweep = now;
+  Array.from(attempts.entries()).forEach(([key, entry]) => {
+    if (entry.lockedUntil <= now && entry.failures.every(time => now - time > WINDOW_MS)) attempts.delete(key);
+  });
+}
+
+// Milliseconds until the IP or username may try again, or 0 when neither
+// is locked out.
+export function getLockout(ip: string, username: string, now = Date.now()) {
+  return Math.max(0, ...keysFor(ip, username).map(({ key }) => (attempts.get(key)?.lockedUntil ?? 0) - now));
+}
+
+function recordAttempt(key: string, limit: number, now: number) {
+  const entry = attempts.get(key) ?? { failures: [], lockedUntil: 0 };
+  entry.failures = entry.failures.filter(time => now - time <= WINDOW_MS);
+  entry.failures.push(now);
+  if (entry.failures.length >= limit) {
+    entry.lockedUntil = now + LOCKOUT_MS;
+    entry.failures = [];
+  }
+  attempts.set(key, entry);
+}
+
+export function recordLoginFailure(ip: string, username: string, now = Date.now()) {
+  sweep(now);
+  keysFor(ip, username).forEach(({ key, limit }) => recordAttempt(key, limit, now));
+}
+
+// A successful sign-in clears the username's failures; the IP's stay, so
+// one valid account can't be used to reset guessing at others.
+export function recordLoginSuccess(username: string) {
+  attempts.delete(keysFor("", username)[0].key);
+}
+
+// Counts a request for an emailed link from the IP. Returns 0 when it may
+// go ahead, or the milliseconds until the IP may ask again.
+export function recordEmailRequest(ip: string, now = Date.now()) {
+  const key = `email:${ip}`;
+  const lockout = (attempts.get(key)?.lockedUntil ?? 0) - now;
+  if (lockout > 0) return lockout;
+  sweep(now);
+  recordAttempt(key, MAX_EMAIL_REQUESTS_PER_IP, now);
+  return 0;
+}
+
+function inMinutes(ms: number) {
+  const minutes = Math.ceil(ms / 60000);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+export function lockoutMessage(ms: number) {
+  return `Too many failed sign-in attempts. Try again in ${inMinutes(ms)}.`;
+}
+
+export function emailLockoutMessage(ms: number) {
+  return `Too many emails requested. Try again in ${inMinutes(ms)}.`;
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { configuredMailer, consoleMailer, disabledMailer } from "./mailer";
+
+const message = {
+  to: "someone@example.com",
+  subject: "Reset your SavvyFinance password",
+  text: "http://localhost:5173/auth?reset=abc.def.ghi",
+};
+
+describe("configuredMailer", () => {
+  it("sends over SMTP or to a directory when configured", () => {
+    expect(configuredMailer({ SMTP_URL: "smtp://mail.example.com:587", NODE_ENV: "production" }).name).toBe("smtp");
+    expect(configuredMailer({ MAIL_DIR: "/tmp/mail", NODE_ENV: "production" }).name).toBe("file");
+  });
+
+  it("prints to the log only in development", () => {
+    expect(configuredMailer({ NODE_ENV: "development" })).toBe(consoleMailer);
+    expect(configuredMailer({ NODE_ENV: "production" })).toBe(disabledMailer);
+    expect(configuredMailer({})).toBe(disabledMailer);
+  });
+});
+
+describe("disabledMailer", () => {
+  it("refuses to send, naming only the recipient and subject", async () => {
+    const error = await disabledMailer.send(message).catch((error: Error) => error);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toContain(message.to);
+    expect((error as Error).message).toContain(message.subject);
+    expect((error as Error).message).not.toContain("reset=");
+  });
+});
@@ -0,0 +1,201 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type TestAgent from "supertest/lib/agent";
+import { storage } from "./storage";
+import { createTestApp, signUp } from "./test/app";
+
+// Every route that takes a record id must treat another user's record as
+// missing: reading, changing or deleting it answers 404 and leaves it as
+// it was.
+
+const PDF = Buffer.from("%PDF-1.4\n1 0 obj\n<<>>\nendobj\ntrailer\n<<>>\n%%EOF\n");
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(24)]);
+const OCCURRENCE_DATE = "2030-01-01T00:00:00.000Z";
+
+type Ids = Record<
+  "category" | "account" | "transaction" | "otherTransaction" | "attachment" | "recurring" | "rule" | "budget"
+  | "goal" | "contribution" | "intruderGoal" | "exchangeRate" | "notification" | "session",
+  string
+>;
+
+type Case = {
+  name: string;
+  send: (agent: TestAgent, ids: Ids) => Promise<{ status: number }>;
+  // Status the owner gets for the same request, showing the 404 is about
+  // ownership and not a malformed request. Deletes are left out.
+  ownerStatus?: number;
+};
+
+const cases: Record<string, Case[]> = {
+  categories: [
+    { name: "update", send: (agent, ids) => agent.put(`/api/categories/${ids.category}`).send({ name: "Taken" }), ownerStatus: 200 },
+  ],
+  accounts: [
+    { name: "update", send: (agent, ids) => agent.put(`/api/accounts/${ids.account}`).send({ name: "Taken" }), ownerStatus: 200 },
+    // The owner would get 409: the account has transactions in USD
+    { name: "change currency", send: (agent, ids) => agent.put(`/api/accounts/${ids.account}`).send({ currency: "EUR" }) },
+    { name: "delete", send: (agent, ids) => agent.delete(`/api/accounts/${ids.account}`) },
+  ],
+  transactions: [
+    { name: "update", send: (agent, ids) => agent.put(`/api/transactions/${ids.transaction}`).send({ description: "Taken" }), ownerStatus: 200 },
+    { name: "delete", send: (agent, ids) => agent.delete(`/api/transactions/${ids.transaction}`) },
+    { name: "dismiss as duplicates", send: (agent, ids) => agent.post("/api/transactions/duplicates/dismiss").send({ transactionIds: [ids.transaction, ids.otherTransaction] }) },
+    { name: "merge duplicates", send: (agent, ids) => agent.post("/api/transactions/duplicates/merge").send({ keepId: ids.transaction, removeId: ids.otherTransaction }) },
+  ],
+  attachments: [
+    { name: "list", send: (agent, ids) => agent.get(`/api/transactions/${ids.transaction}/attachments`), ownerStatus: 200 },
+    { name: "upload", send: (agent, ids) => agent.post(`/api/transactions/${ids.transaction}/attachments`).set("Content-Type", "application/pdf").send(PDF) },
+    { name: "download", send: (agent, ids) => agent.get(`/api/attachments/${ids.attachment}`), ownerStatus: 200 },
+    { name: "save thumbnail", send: (agent, ids) => agent.put(`/api/attachments/${ids.attachment}/thumbnail`).set("Content-Type", "image/png").send(PNG), ownerStatus: 200 },
+    { name: "get thumbnail", send: (agent, ids) => agent.get(`/api/attachments/${ids.attachment}/thumbnail`), ownerStatus: 200 },
+    { name: "delete", send: (agent, ids) => agent.delete(`/api/attachments/${ids.attachment}`) },
+  ],
+  "recurring transactions": [
+    { name: "update", send: (agent, ids) => agent.put(`/api/recurring/${ids.recurring}`).send({ description: "Taken" }), ownerStatus: 200 },
+    { name: "list upcoming", send: (agent, ids) => agent.get(`/api/recurring/${ids.recurring}/upcoming`), ownerStatus: 200 },
+    { name: "skip an occurrence", send: (agent, ids) => agent.put(`/api/recurring/${ids.recurring}/occurrences`).send({ occurrenceDate: OCCURRENCE_DATE, isSkipped: true }), ownerStatus: 200 },
+    { name: "restore an occurrence", send: (agent, ids) => agent.delete(`/api/recurring/${ids.recurring}/occurrences`).query({ date: OCCURRENCE_DATE }) },
+    { name: "delete", send: (agent, ids) => agent.delete(`/api/recurring/${ids.recurring}`) },
+  ],
+  rules: [
+    { name: "update", send: (agent, ids) => agent.put(`/api/rules/${ids.rule}`).send({ name: "Taken" }), ownerStatus: 200 },
+    { name: "apply", send: (agent, ids) => agent.post("/api/rules/apply").send({ ruleId: ids.rule }), ownerStatus: 200 },
+    { name: "delete", send: (agent, ids) => agent.delete(`/api/rules/${ids.rule}`) },
+  ],
+  budgets: [
+    { name: "update", send: (agent, ids) => agent.put(`/api/budgets/${ids.budget}`).send({ amount: "1.00" }), ownerStatus: 200 },
+    { name: "delete", send: (agent, ids) => agent.delete(`/api/budgets/${ids.budget}`) },
+  ],
+  goals: [
+    { name: "update", send: (agent, ids) => agent.put(`/api/goals/${ids.goal}`).send({ title: "Taken" }), ownerStatus: 200 },
+    { name: "delete", send: (agent, ids) => agent.delete(`/api/goals/${ids.goal}`) },
+    { name: "list contributions", send: (agent, ids) => agent.get(`/api/goals/${ids.goal}/contributions`), ownerStatus: 200 },
+    { name: "add a contribution", send: (agent, ids) => agent.post(`/api/goals/${ids.goal}/contributions`).send({ type: "deposit", amount: "5.00", date: "2026-03-02" }) },
+    { name: "update a contribution", send: (agent, ids) => agent.put(`/api/goals/${ids.goal}/contributions/${ids.contribution}`).send({ amount: "1.00" }), ownerStatus: 200 },
+    { name: "delete a contribution", send: (agent, ids) => agent.delete(`/api/goals/${ids.goal}/contributions/${ids.contribution}`) },
+    // The intruder's own goal doesn't open up the owner's contributions
+    { name: "update a contribution through another goal", send: (agent, ids) => agent.put(`/api/goals/${ids.intruderGoal}/contributions/${ids.contribution}`).send({ amount: "1.00" }) },
+    { name: "delete a contribution through another goal", send: (agent, ids) => agent.delete(`/api/goals/${ids.intruderGoal}/contributions/${ids.contribution}`) },
+  ],
+  notifications: [
+    { name: "mark as read", send: (agent, ids) => agent.put(`/api/notifications/${ids.notification}/read`) },
+  ],
+  "exchange rates": [
+    { name: "delete", send: (agent, ids) => agent.delete(`/api/exchange-rates/${ids.exchangeRate}`) },
+  ],
+  "ledger accounts": [
+    { name: "name a category", send: (agent, ids) => agent.put("/api/ledger-accounts").send({ name: "Expenses:Taken", categoryId: ids.category }), ownerStatus: 200 },
+  ],
+  sessions: [
+    { name: "sign out", send: (agent, ids) => agent.delete(`/api/sessions/${ids.session}`) },
+  ],
+};
+
+describe("records of another user", () => {
+  let app: Express;
+  let owner: TestAgent;
+  let intruder: TestAgent;
+  let ownerId: string;
+  let intruderId: string;
+  const ids = {} as Ids;
+
+  const created = async (response: Promise<{ status: number; body: any }>) => {
+    const { status, body } = await response;
+    expect(status, JSON.stringify(body)).toBe(201);
+    return body.id as string;
+  };
+
+  beforeAll(async () => {
+    app = await createTestApp();
+    ({ agent: owner, user: { id: ownerId } } = await signUp(app));
+    ({ agent: intruder, user: { id: intruderId } } = await signUp(app));
+
+    ids.category = await created(owner.post("/api/categories").send({ name: "Groceries", color: "#22c55e" }));
+    ids.account = await created(owner.post("/api/accounts").send({ name: "Checking", type: "checking", currency: "USD" }));
+    const transaction = { amount: "42.00", type: "expense", date: "2026-03-05", categoryId: ids.category, accountId: ids.account };
+    ids.transaction = await created(owner.post("/api/transactions").send({ ...transaction, description: "Corner shop" }));
+    ids.otherTransaction = await created(owner.post("/api/transactions").send({ ...transaction, description: "Corner shop again" }));
+    ids.attachment = await created(owner.post(`/api/transactions/${ids.transaction}/attachments`).set("Content-Type", "application/pdf").send(PDF));
+    ids.recurring = await created(owner.post("/api/recurring").send({
+      amount: "900.00", description: "Rent", type: "expense", frequency: "monthly", interval: 1,
+      startDate: OCCURRENCE_DATE, categoryId: ids.category, accountId: ids.account,
+    }));
+    ids.rule = await created(owner.post("/api/rules").send({
+      name: "Corner shop", categoryId: ids.category, conditions: [{ field: "description", operator: "contains", value: "corner" }],
+    }));
+    ids.budget = await created(owner.post("/api/budgets").send({ categoryId: ids.category, amount: "500.00", month: 3, year: 2026 }));
+    ids.goal = await created(owner.post("/api/goals").send({ title: "Holiday", targetAmount: "1000.00" }));
+    ids.contribution = await created(owner.post(`/api/goals/${ids.goal}/contributions`).send({ type: "deposit", amount: "50.00", date: "2026-03-01" }));
+    ids.intruderGoal = await created(intruder.post("/api/goals").send({ title: "Mine", targetAmount: "10.00" }));
+    ids.exchangeRate = await created(owner.post("/api/exchange-rates").send({ fromCurrency: "USD", toCurrency: "EUR", rate: "0.9", date: "2026-03-01" }));
+    ids.notification = (await storage.createNotification({ userId: ownerId, title: "Hello", message: "Just you", type: "info" })).id;
+    ids.session = (await owner.get("/api/sessions").expect(200)).body[0].id;
+  });
+
+  Object.entries(cases).forEach(([entity, entityCases]) => {
+    describe(entity, () => {
+      it.each(entityCases)("$name answers 404", async ({ send }) => {
+        const response = await send(intruder, ids);
+        expect(response.status).toBe(404);
+      });
+    });
+  });
+
+  it("are left untouched", async () => {
+    const transaction = await storage.getTransaction(ownerId, ids.transaction);
+    expect(transaction?.description).toBe("Corner shop");
+    expect(transaction?.attachments.map(attachment => attachment.id)).toEqual([ids.attachment]);
+    expect((await storage.getTransaction(ownerId, ids.otherTransaction))?.description).toBe("Corner shop again");
+    expect((await storage.getAccount(ownerId, ids.account))).toMatchObject({ name: "Checking", currency: "USD" });
+    expect((await storage.getCategory(ownerId, ids.category))?.name).toBe("Groceries");
+    expect((await storage.getRecurringTransaction(ownerId, ids.recurring))?.description).toBe("Rent");
+    expect(await storage.getRecurringExceptions(ownerId, ids.recurring)).toEqual([]);
+    expect((await storage.getRule(ownerId, ids.rule))?.name).toBe("Corner shop");
+    expect((await storage.getBudgets(ownerId)).map(budget => [budget.id, budget.amount])).toEqual([[ids.budget, "500.00"]]);
+    expect(await storage.getGoal(ownerId, ids.goal)).toMatchObject({ title: "Holiday", currentAmount: "50.00" });
+    expect((await storage.getGoalContributions(ownerId, ids.goal)).map(contribution => contribution.id)).toEqual([ids.contribution]);
+    expect((await storage.getExchangeRates(ownerId)).map(rate => rate.id)).toEqual([ids.exchangeRate]);
+    expect((await storage.getNotifications(ownerId)).map(notification => notification.isRead)).toEqual([false]);
+    expect(await storage.getLedgerAccounts(ownerId)).toEqual([]);
+    expect((await owner.get("/api/sessions").expect(200)).body.map((session: { id: string }) => session.id)).toEqual([ids.session]);
+  });
+
+  describe("the owner", () => {
+    const ownerCases = Object.entries(cases).flatMap(([entity, entityCases]) =>
+      entityCases.filter(({ ownerStatus }) => ownerStatus).map(entityCase => ({ ...entityCase, entity })));
+
+    it.each(ownerCases)("can $entity: $name", async ({ send, ownerStatus }) => {
+      const response = await send(owner, ids);
+      expect(response.status).toBe(ownerStatus);
+    });
+  });
+
+  // Storage methods that reach a record through its parent filter on the
+  // parent's owner themselves, so a route that forgets to check can't leak
+  // or change another user's rows.
+  describe("storage methods given a parent id", () => {
+    it("don't read another user's rows", async () => {
+      expect(await storage.getRecurringExceptions(ownerId, ids.recurring)).toHaveLength(1);
+      expect(await storage.getRecurringExceptions(intruderId, ids.recurring)).toEqual([]);
+      expect(await storage.getGoalContributions(ownerId, ids.goal)).toHaveLength(1);
+      expect(await storage.getGoalContributions(intruderId, ids.goal)).toEqual([]);
+    });
+
+    it("don't add to or change another user's rows", async () => {
+      const occurrenceDate = new Date(OCCURRENCE_DATE);
+      expect(await storage.upsertRecurringException(intruderId, ids.recurring, { occurrenceDate, isSkipped: false, description: "Taken" })).toBeUndefined();
+      expect(await storage.deleteRecurringException(intruderId, ids.recurring, occurrenceDate)).toBe(false);
+      expect(await storage.getRecurringExceptions(ownerId, ids.recurring)).toMatchObject([{ isSkipped: true, description: null }]);
+
+      expect(await storage.createGoalContribution(intruderId, ids.goal, { type: "withdrawal", amount: "1.00", date: "2026-03-03" })).toBeUndefined();
+      expect(await storage.updateGoalContribution(intruderId, ids.goal, ids.contribution, { amount: "2.00" })).toBeUndefined();
+      expect(await storage.deleteGoalContribution(intruderId, ids.goal, ids.contribution)).toBe(false);
+      expect((await storage.getGoalContributions(ownerId, ids.goal)).map(contribution => contribution.id)).toEqual([ids.contribution]);
+      expect((await storage.getGoal(ownerId, ids.goal))?.currentAmount).toBe("1.00");
+
+      expect(await storage.syncBudgetAlerts(intruderId, ids.budget, [50, 80])).toEqual([]);
+      // Still newly reached for the owner: the intruder recorded nothing
+      expect(await storage.syncBudgetAlerts(ownerId, ids.budget, [50])).toEqual([50]);
+    });
+  });
+});
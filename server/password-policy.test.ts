@@ -0,0 +1,65 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import { randomUUID } from "crypto";
+import { checkPassword } from "./password-policy";
+import { createTestApp, signUp, TEST_PASSWORD } from "./test/app";
+
+describe("checkPassword", () => {
+  it("accepts a long, uncommon password", () => {
+    expect(checkPassword(TEST_PASSWORD, ["jane", "jane@example.com"])).toBeNull();
+  });
+
+  it("asks for at least 8 characters", () => {
+    expect(checkPassword("Sh0rt!")).toBe("Password requirement not met: At least 8 characters.");
+  });
+
+  it("refuses common passwords, also with digits or symbols tacked on", () => {
+    const tooCommon = "This password is too common. Please choose another one.";
+    expect(checkPassword("password")).toBe(tooCommon);
+    expect(checkPassword("Password123!")).toBe(tooCommon);
+  });
+
+  it("refuses passwords containing the username or the email's local part", () => {
+    const personal = "Password requirement not met: Doesn't contain your username or email address.";
+    expect(checkPassword("xx-JaneDoe-Harbor", ["janedoe", "someone@example.com"])).toBe(personal);
+    expect(checkPassword("Lantern-jane.doe-9", ["jd", "jane.doe@example.com"])).toBe(personal);
+  });
+});
+
+describe("POST /api/register validation", () => {
+  let app: Express;
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  const details = (overrides: Record<string, unknown> = {}) => {
+    const username = `user_${randomUUID().slice(0, 8)}`;
+    return { username, password: TEST_PASSWORD, email: `${username}@example.com`, firstName: "Test", lastName: "User", ...overrides };
+  };
+  async function registrationError(overrides: Record<string, unknown>) {
+    const { body } = await request(app).post("/api/register").send(details(overrides)).expect(400);
+    return body.error;
+  }
+
+  it("explains what is wrong with the details", async () => {
+    expect(await registrationError({ username: "ab" })).toBe("Username must be at least 3 characters");
+    expect(await registrationError({ username: "jane doe" })).toBe("Usernames can only contain letters, digits, dots, dashes and underscores");
+    expect(await registrationError({ email: "not-an-email" })).toBe("Enter a valid email address");
+    expect(await registrationError({ firstName: "" })).toBe("First name is required");
+  });
+
+  it("explains what is wrong with the password", async () => {
+    expect(await registrationError({ password: "Sh0rt!" })).toBe("Password requirement not met: At least 8 characters.");
+    expect(await registrationError({ password: "Password123!" })).toBe("This password is too common. Please choose another one.");
+    expect(await registrationError({ username: "harborlantern", password: "my-harborlantern-1" }))
+      .toBe("Password requirement not met: Doesn't contain your username or email address.");
+  });
+
+  it("refuses a username or email that is taken", async () => {
+    const { user } = await signUp(app);
+    expect(await registrationError({ username: user.username })).toBe("Username already exists.");
+    expect(await registrationError({ email: user.email.toUpperCase() })).toBe("Email already exists.");
+  });
+});
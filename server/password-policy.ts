@@ -0,0 +1,31 @@
+import { DEFAULT_PASSWORD_POLICY, passwordRequirements, type PasswordPolicy } from "@shared/password-policy";
+import { COMMON_PASSWORDS } from "./common-passwords";
+
+function envInt(name: string, fallback: number, min: number, max: number) {
+  const value = parseInt(process.env[name] ?? "", 10);
+  return Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback;
+}
+
+// PASSWORD_MIN_LENGTH and PASSWORD_MIN_CHARACTER_CLASSES override the
+// defaults; the maximum only keeps scrypt inputs reasonable.
+export const passwordPolicy: PasswordPolicy = {
+  minLength: envInt("PASSWORD_MIN_LENGTH", DEFAULT_PASSWORD_POLICY.minLength, 6, 64),
+  maxLength: DEFAULT_PASSWORD_POLICY.maxLength,
+  minCharacterClasses: envInt("PASSWORD_MIN_CHARACTER_CLASSES", DEFAULT_PASSWORD_POLICY.minCharacterClasses, 1, 4),
+};
+
+// Common passwords with a number or symbol tacked on ("password123!") are
+// just as easy to guess.
+function isCommonPassword(password: string) {
+  const lower = password.toLowerCase();
+  const stem = lower.replace(/[\d\W_]+$/, "");
+  return COMMON_PASSWORDS.has(lower) || (stem.length >= 4 && COMMON_PASSWORDS.has(stem));
+}
+
+// Why the password isn't allowed, or null when it is.
+export function checkPassword(password: string, personal: string[] = []): string | null {
+  const unmet = passwordRequirements(password, passwordPolicy, personal).find(requirement => !requirement.met);
+  if (unmet) return `Password requirement not met: ${unmet.label}.`;
+  if (isCommonPassword(password)) return "This password is too common. Please choose another one.";
+  return null;
+}
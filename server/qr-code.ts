@@ -0,0 +1,10 @@
+import QRCode from "qrcode";
+
+// QR codes for two-factor enrollment links, drawn as SVG at error
+// correction level M.
+
+// An SVG data URL, ready for an <img> tag.
+export async function qrCodeDataUrl(text: string, quietZone = 4) {
+  const svg = await QRCode.toString(text, { type: "svg", errorCorrectionLevel: "M", margin: quietZone });
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString("base64")}`;
+}
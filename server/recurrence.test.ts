@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { getFirstIndexAfter, getOccurrenceDate, getScheduledDate, getUpcomingOccurrences, type RecurrenceRule } from "./recurrence";
+
+const at = (value: string) => new Date(`${value}T00:00:00.000Z`);
+const dates = (rule: RecurrenceRule, count: number) =>
+  getUpcomingOccurrences(rule, 0, count).map(({ date }) => date.toISOString().slice(0, 10));
+
+describe("getOccurrenceDate", () => {
+  it("steps daily and weekly by the interval", () => {
+    expect(dates({ frequency: "daily", startDate: at("2026-02-27"), interval: 1 }, 3)).toEqual(["2026-02-27", "2026-02-28", "2026-03-01"]);
+    expect(dates({ frequency: "weekly", startDate: at("2026-01-05"), interval: 2 }, 3)).toEqual(["2026-01-05", "2026-01-19", "2026-02-02"]);
+  });
+
+  describe("month-end clamping", () => {
+    it("falls back to the last day of shorter months without drifting", () => {
+      const rule: RecurrenceRule = { frequency: "monthly", startDate: at("2026-01-31") };
+      expect(dates(rule, 5)).toEqual(["2026-01-31", "2026-02-28", "2026-03-31", "2026-04-30", "2026-05-31"]);
+      // February of a leap year
+      expect(getOccurrenceDate(rule, 25).toISOString().slice(0, 10)).toBe("2028-02-29");
+    });
+
+    it("keeps the time of day", () => {
+      const rule: RecurrenceRule = { frequency: "monthly", startDate: new Date("2026-01-31T09:30:00.000Z") };
+      expect(getOccurrenceDate(rule, 1).toISOString()).toBe("2026-02-28T09:30:00.000Z");
+    });
+
+    it("moves a yearly February 29th to the 28th outside leap years", () => {
+      const rule: RecurrenceRule = { frequency: "yearly", startDate: at("2024-02-29") };
+      expect(dates(rule, 5)).toEqual(["2024-02-29", "2025-02-28", "2026-02-28", "2027-02-28", "2028-02-29"]);
+    });
+
+    it("steps by the interval", () => {
+      const rule: RecurrenceRule = { frequency: "monthly", startDate: at("2026-08-31"), interval: 3 };
+      expect(dates(rule, 3)).toEqual(["2026-08-31", "2026-11-30", "2027-02-28"]);
+    });
+  });
+
+  describe("nth weekday of the month", () => {
+    it("finds the second Tuesday", () => {
+      const rule: RecurrenceRule = { frequency: "monthly", startDate: at("2026-01-01"), weekOfMonth: 2, dayOfWeek: 2 };
+      expect(dates(rule, 4)).toEqual(["2026-01-13", "2026-02-10", "2026-03-10", "2026-04-14"]);
+    });
+
+    it("finds the last Friday", () => {
+      const rule: RecurrenceRule = { frequency: "monthly", startDate: at("2026-01-01"), weekOfMonth: -1, dayOfWeek: 5 };
+      expect(dates(rule, 4)).toEqual(["2026-01-30", "2026-02-27", "2026-03-27", "2026-04-24"]);
+    });
+
+    it("starts the next month when the start month's weekday has passed", () => {
+      const rule: RecurrenceRule = { frequency: "monthly", startDate: at("2026-01-20"), weekOfMonth: 2, dayOfWeek: 2 };
+      expect(dates(rule, 2)).toEqual(["2026-02-10", "2026-03-10"]);
+    });
+
+    it("crosses into the next year", () => {
+      const rule: RecurrenceRule = { frequency: "monthly", startDate: at("2026-11-01"), weekOfMonth: 1, dayOfWeek: 1 };
+      expect(dates(rule, 3)).toEqual(["2026-11-02", "2026-12-07", "2027-01-04"]);
+    });
+  });
+});
+
+describe("getScheduledDate", () => {
+  const rule: RecurrenceRule = { frequency: "monthly", startDate: at("2026-01-15") };
+
+  it("stops at the occurrence limit", () => {
+    const limited = { ...rule, occurrenceLimit: 3 };
+    expect(getScheduledDate(limited, 2)).toEqual(at("2026-03-15"));
+    expect(getScheduledDate(limited, 3)).toBeNull();
+    expect(dates(limited, 10)).toHaveLength(3);
+  });
+
+  it("stops after the end date, which is inclusive", () => {
+    const ended = { ...rule, endDate: at("2026-03-15") };
+    expect(getScheduledDate(ended, 2)).toEqual(at("2026-03-15"));
+    expect(getScheduledDate(ended, 3)).toBeNull();
+  });
+});
+
+describe("getFirstIndexAfter", () => {
+  const rule: RecurrenceRule = { frequency: "monthly", startDate: at("2026-01-31") };
+
+  it("is 0 before the start", () => {
+    expect(getFirstIndexAfter(rule, at("2025-12-31"))).toBe(0);
+  });
+
+  it("skips an occurrence on the date itself", () => {
+    expect(getFirstIndexAfter(rule, at("2026-02-28"))).toBe(2);
+    expect(getFirstIndexAfter(rule, at("2026-02-27"))).toBe(1);
+    expect(getFirstIndexAfter(rule, at("2026-03-01"))).toBe(2);
+  });
+
+  it("works for nth-weekday rules", () => {
+    const weekday: RecurrenceRule = { frequency: "monthly", startDate: at("2026-01-01"), weekOfMonth: 2, dayOfWeek: 2 };
+    expect(getFirstIndexAfter(weekday, at("2026-02-10"))).toBe(2);
+    expect(getOccurrenceDate(weekday, 2)).toEqual(at("2026-03-10"));
+  });
+});
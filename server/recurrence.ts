@@ -0,0 +1,107 @@
+import type { RecurringTransaction } from "@shared/schema";
+
+export type RecurrenceRule = Pick<RecurringTransaction, "frequency" | "startDate"> &
+  Partial<Pick<RecurringTransaction, "interval" | "weekOfMonth" | "dayOfWeek" | "endDate" | "occurrenceLimit" | "occurrenceOffset">>;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// All calendar math is done in UTC, matching how transaction dates are stored.
+function daysInMonth(year: number, month: number) {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+function timeOfDay(date: Date) {
+  return date.getTime() - Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+}
+
+// The nth (1-4) or last (-1) given weekday of a month. `month` may overflow
+// past December; it is normalized first.
+function nthWeekdayOfMonth(year: number, month: number, weekOfMonth: number, dayOfWeek: number) {
+  const normalized = new Date(Date.UTC(year, month, 1));
+  const y = normalized.getUTCFullYear();
+  const m = normalized.getUTCMonth();
+
+  if (weekOfMonth === -1) {
+    const lastDay = daysInMonth(y, m);
+    const offset = (new Date(Date.UTC(y, m, lastDay)).getUTCDay() - dayOfWeek + 7) % 7;
+    return Date.UTC(y, m, lastDay - offset);
+  }
+
+  const offset = (dayOfWeek - normalized.getUTCDay() + 7) % 7;
+  return Date.UTC(y, m, 1 + offset + (weekOfMonth - 1) * 7);
+}
+
+// Same day of month `months` later, clamped to the target month's last day so
+// a schedule starting on the 31st still fires at the end of shorter months.
+function addMonthsClamped(date: Date, months: number) {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const day = Math.min(date.getUTCDate(), daysInMonth(target.getUTCFullYear(), target.getUTCMonth()));
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), day) + timeOfDay(date));
+}
+
+// Date of the occurrence with the given zero-based index. Each occurrence is
+// computed from the start date rather than the previous one, so clamping
+// never drifts the schedule.
+export function getOccurrenceDate(rule: RecurrenceRule, index: number): Date {
+  const start = new Date(rule.startDate);
+  const step = index * (rule.interval ?? 1);
+
+  switch (rule.frequency) {
+    case "daily":
+      return new Date(start.getTime() + step * DAY_MS);
+    case "weekly":
+      return new Date(start.getTime() + step * 7 * DAY_MS);
+    case "monthly": {
+      if (rule.weekOfMonth == null || rule.dayOfWeek == null) {
+        return addMonthsClamped(start, step);
+      }
+      const year = start.getUTCFullYear();
+      const month = start.getUTCMonth();
+      const time = timeOfDay(start);
+      // Begin the following month when the start month's weekday has passed.
+      const firstInStartMonth = nthWeekdayOfMonth(year, month, rule.weekOfMonth, rule.dayOfWeek) + time;
+      const monthOffset = firstInStartMonth < start.getTime() ? 1 : 0;
+      return new Date(nthWeekdayOfMonth(year, month + monthOffset + step, rule.weekOfMonth, rule.dayOfWeek) + time);
+    }
+    case "yearly":
+      return addMonthsClamped(start, step * 12);
+  }
+}
+
+// Date of the occurrence with the given index, or null when it falls past
+// the end date or occurrence limit.
+export function getScheduledDate(rule: RecurrenceRule, index: number): Date | null {
+  if (rule.occurrenceLimit != null && index - (rule.occurrenceOffset ?? 0) >= rule.occurrenceLimit) {
+    return null;
+  }
+
+  const date = getOccurrenceDate(rule, index);
+  if (rule.endDate && date > new Date(rule.endDate)) {
+    return null;
+  }
+
+  return date;
+}
+
+// Up to `count` scheduled occurrences starting at index `fromIndex`.
+export function getUpcomingOccurrences(rule: RecurrenceRule, fromIndex: number, count: number) {
+  const occurrences: Array<{ index: number; date: Date }> = [];
+
+  for (let index = fromIndex; occurrences.length < count; index++) {
+    const date = getScheduledDate(rule, index);
+    if (!date) break;
+    occurrences.push({ index, date });
+  }
+
+  return occurrences;
+}
+
+// Index of the first occurrence strictly after `date`, used when a schedule
+// is edited so that the new rule only applies going forward.
+export function getFirstIndexAfter(rule: RecurrenceRule, date: Date) {
+  let index = 0;
+  while (getOccurrenceDate(rule, index) <= date) {
+    index++;
+  }
+  return index;
+}
@@ -0,0 +1,78 @@
+import type { CategoryTotal } from "./storage";
+
+export interface ReportPeriod {
+  startDate: Date;
+  endDate: Date; // inclusive
+}
+
+// Income and expenses for a period, per category.
+export interface PeriodSummary extends ReportPeriod {
+  income: string;
+  expenses: string;
+  net: string;
+  incomeByCategory: CategoryTotal[];
+  expensesByCategory: CategoryTotal[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Whole months start on the same day of the month as the day after they end:
+// calendar months (1 March - 31 March) or budget months (25 March - 24 April).
+function isWholeMonths({ startDate, endDate }: ReportPeriod) {
+  const dayAfterEnd = new Date(endDate.getTime() + DAY_MS);
+  return startDate.getUTCDate() <= 28 && startDate.getUTCDate() === dayAfterEnd.getUTCDate();
+}
+
+function countMonths({ startDate, endDate }: ReportPeriod) {
+  const dayAfterEnd = new Date(endDate.getTime() + DAY_MS);
+  return (dayAfterEnd.getUTCFullYear() - startDate.getUTCFullYear()) * 12 + dayAfterEnd.getUTCMonth() - startDate.getUTCMonth();
+}
+
+// The period of the same length immediately before this one. Whole months
+// shift by months (so March compares with February, not with the last 31
+// days); anything else shifts by its length in days.
+export function getPreviousPeriod(period: ReportPeriod): ReportPeriod {
+  if (isWholeMonths(period)) {
+    const { startDate } = period;
+    return {
+      startDate: new Date(Date.UTC(startDate.getUTCFullYear(), startDate.getUTCMonth() - countMonths(period), startDate.getUTCDate())),
+      endDate: new Date(startDate.getTime() - DAY_MS),
+    };
+  }
+
+  const length = period.endDate.getTime() - period.startDate.getTime() + DAY_MS;
+  return {
+    startDate: new Date(period.startDate.getTime() - length),
+    endDate: new Date(period.startDate.getTime() - DAY_MS),
+  };
+}
+
+// The same period one year earlier, keeping month ends on month ends.
+export function getYearAgoPeriod(period: ReportPeriod): ReportPeriod {
+  const shift = (date: Date) => new Date(Date.UTC(date.getUTCFullYear() - 1, date.getUTCMonth(), date.getUTCDate()));
+  if (isWholeMonths(period)) {
+    const dayAfterEnd = new Date(period.endDate.getTime() + DAY_MS);
+    return {
+      startDate: shift(period.startDate),
+      endDate: new Date(shift(dayAfterEnd).getTime() - DAY_MS),
+    };
+  }
+  return { startDate: shift(period.startDate), endDate: shift(period.endDate) };
+}
+
+export function summarizePeriod(period: ReportPeriod, totals: CategoryTotal[]): PeriodSummary {
+  const incomeByCategory = totals.filter(t => t.type === 'income');
+  const expensesByCategory = totals.filter(t => t.type === 'expense');
+  const sum = (rows: CategoryTotal[]) => rows.reduce((total, row) => total + parseFloat(row.total), 0);
+  const income = sum(incomeByCategory);
+  const expenses = sum(expensesByCategory);
+
+  return {
+    ...period,
+    income: income.toFixed(2),
+    expenses: expenses.toFixed(2),
+    net: (income - expenses).toFixed(2),
+    incomeByCategory,
+    expensesByCategory,
+  };
+}
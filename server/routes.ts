@@ -1,117 +1,1767 @@
-import type { Express } from "express";
+import express, { type Express, type RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { setupAuth } from "./auth";
+import { comparePasswords, hashPassword, setupAuth, toPublicUser } from "./auth";
 import { storage } from "./storage";
-import { insertTransactionSchema, insertBudgetSchema, insertGoalSchema } from "@shared/schema";
+import { getFirstIndexAfter, getScheduledDate, getUpcomingOccurrences } from "./recurrence";
+import { catchUpRecurringTransaction } from "./scheduler";
+import { detectDelimiter, guessColumns, mapCsvRows, parseCsv } from "./importers/csv";
+import { detectStatementFormat, mapStatementRows, parseStatement } from "./importers/statement";
+import type { ImportRow } from "./importers/common";
+import { findDuplicateCandidates } from "./duplicates";
+import { createCategorizer } from "./rules";
+import { checkBudget, checkBudgetAlerts } from "./budget-alerts";
+import { getGoalProgress } from "./goals";
+import { getPreviousPeriod, getYearAgoPeriod, summarizePeriod, type ReportPeriod } from "./reports";
+import { fillMissingExchangeRates } from "./exchange-rates";
+import { formatIsoDate, transactionsTable } from "./exporters/common";
+import { toCsv } from "./exporters/csv";
+import { createWorkbook } from "./exporters/xlsx";
+import { formatStatementPeriod, renderStatementPdf, statementTables } from "./exporters/statement";
+import { LEDGER_FILE_EXTENSIONS, LEDGER_FORMATS, toLedger } from "./exporters/ledger";
+import {
+  MAX_THUMBNAIL_SIZE,
+  contentDisposition,
+  detectContentType,
+  readAttachmentFile,
+  readThumbnail,
+  removeAttachmentFiles,
+  sanitizeFileName,
+  storeAttachmentFile,
+  storeThumbnail,
+  validateUpload,
+} from "./attachments";
+import { BACKUP_FORMAT, BACKUP_VERSION, RESTORE_MODES, backupArchiveSchema } from "@shared/backup";
+import {
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUrl,
+  verifyTotpCode,
+} from "./two-factor";
+import { qrCodeDataUrl } from "./qr-code";
+import { checkPassword } from "./password-policy";
+import { findSessionId, listSessions } from "./sessions";
+import { createLedgerNames } from "@shared/ledger";
+import { getBudgetMonthOf, getBudgetMonthPeriod, shiftBudgetMonth, todayIn } from "@shared/periods";
+import {
+  insertTransactionSchema,
+  insertBudgetSchema,
+  insertGoalSchema,
+  insertGoalContributionSchema,
+  insertAccountSchema,
+  insertCategorySchema,
+  insertRecurringTransactionSchema,
+  insertRecurringExceptionSchema,
+  insertCategorizationRuleSchema,
+  insertExchangeRateSchema,
+  insertUserSettingsSchema,
+  insertTransactionSplitSchema,
+  currencySchema,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
+  csvMappingSchema,
+  transactionSearchSchema,
+  tagNameSchema,
+  ledgerAccountMappingSchema,
+  totpCodeSchema,
+  twoFactorPasswordSchema,
+  disableTwoFactorSchema,
+  changePasswordSchema,
+  validateTransactionShape,
+  type CsvMapping,
+  type TwoFactorSetup,
+  type TwoFactorStatus,
+  type InsertTransaction,
+  type InsertTransactionSplit,
+  type InsertCategory,
+  type InsertRecurringTransaction,
+  type InsertCategorizationRule,
+} from "@shared/schema";
 import { z } from "zod";
 
 const transactionPayloadSchema = insertTransactionSchema.extend({
   date: z.coerce.date(),
+  splits: z.array(insertTransactionSplitSchema).max(50).optional(),
+  tags: z.array(tagNameSchema).max(20, "Use at most 20 tags").optional(),
 });
 
+const exchangeRatePayloadSchema = insertExchangeRateSchema.extend({
+  date: z.coerce.date(),
+}).refine((rate) => rate.fromCurrency !== rate.toCurrency, {
+  message: "Choose two different currencies",
+  path: ["toCurrency"],
+});
+
+const userPreferencesSchema = z.object({
+  baseCurrency: currencySchema,
+});
+
+const goalPayloadSchema = insertGoalSchema.extend({
+  targetDate: z.coerce.date().nullable().optional(),
+});
+
+const goalContributionPayloadSchema = insertGoalContributionSchema.extend({
+  date: z.coerce.date(),
+});
+
+const recurringPayloadSchema = insertRecurringTransactionSchema.extend({
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+});
+
+const recurringExceptionPayloadSchema = insertRecurringExceptionSchema.extend({
+  occurrenceDate: z.coerce.date(),
+});
+
+const csvPreviewSchema = z.object({
+  content: z.string().min(1, "File is empty"),
+  profileName: z.string().trim().min(1).optional(),
+  mapping: csvMappingSchema.optional(),
+});
+
+const csvImportSchema = z.object({
+  content: z.string().min(1, "File is empty"),
+  profileName: z.string().trim().min(1).optional(),
+  mapping: csvMappingSchema,
+  skipInvalid: z.boolean().default(false),
+});
+
+const statementPreviewSchema = z.object({
+  content: z.string().min(1, "File is empty"),
+  qifDateFormat: z.enum(["MM/DD/YYYY", "DD/MM/YYYY"]).default("MM/DD/YYYY"),
+  // Statement account number or name -> one of the user's accounts
+  accountMap: z.record(z.string().uuid().nullable()).default({}),
+  defaultCategoryId: z.string().uuid().nullable().optional(),
+});
+
+const statementImportSchema = statementPreviewSchema.extend({
+  skipInvalid: z.boolean().default(false),
+});
+
+const applyRulesSchema = z.object({
+  ruleId: z.string().uuid().optional(),
+});
+
+const duplicatePairSchema = z.object({
+  transactionIds: z.tuple([z.string().uuid(), z.string().uuid()])
+    .refine(([first, second]) => first !== second, "Pick two different transactions"),
+});
+
+const duplicateMergeSchema = z.object({
+  keepId: z.string().uuid(),
+  removeId: z.string().uuid(),
+}).refine((data) => data.keepId !== data.removeId, "Pick two different transactions");
+
+// Report periods are inclusive date ranges, e.g. 2026-03-01 to 2026-03-31.
+const reportPeriodFields = {
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date(),
+};
+const isValidPeriod = (period: ReportPeriod) => period.endDate >= period.startDate;
+const periodError = { message: "End date must be on or after the start date", path: ["endDate"] };
+
+const reportPeriodSchema = z.object(reportPeriodFields).refine(isValidPeriod, periodError);
+
+const payeeReportSchema = z.object({
+  ...reportPeriodFields,
+  limit: z.coerce.number().int().min(1).max(50).default(10),
+}).refine(isValidPeriod, periodError);
+
+// Exports take the transaction list's filters, without paging.
+const transactionExportSchema = transactionSearchSchema.omit({ limit: true, cursor: true }).extend({
+  format: z.enum(["csv", "xlsx", ...LEDGER_FORMATS]).default("csv"),
+});
+const MAX_EXPORT_ROWS = 50000;
+const XLSX_CONTENT_TYPE = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+// A budget month, defaulting to the current one.
+const monthlyStatementSchema = z.object({
+  month: z.coerce.number().int().min(1).max(12).optional(),
+  year: z.coerce.number().int().min(1900).max(9999).optional(),
+  format: z.enum(["pdf", "xlsx"]).default("pdf"),
+});
+
+// Reads the request body as bytes, for file uploads. The global JSON parser
+// leaves other content types alone.
+function rawBody(limit: number): RequestHandler {
+  const parse = express.raw({ type: () => true, limit });
+  return (req, res, next) => parse(req, res, (error?: any) => {
+    if (error?.type === "entity.too.large") {
+      return res.status(413).json({ message: `File must be at most ${Math.round(limit / 1024)} KB` });
+    }
+    next(error);
+  });
+}
+
+const RECURRENCE_FIELDS = ["frequency", "interval", "weekOfMonth", "dayOfWeek", "startDate"] as const;
+
+function validateRecurrence(data: Partial<InsertRecurringTransaction>) {
+  const hasWeekday = data.weekOfMonth != null || data.dayOfWeek != null;
+  if (hasWeekday && (data.weekOfMonth == null || data.dayOfWeek == null)) {
+    return "Week of month and day of week must be set together";
+  }
+  if (hasWeekday && data.frequency !== 'monthly') {
+    return "Nth-weekday schedules must be monthly";
+  }
+  if (data.startDate && data.endDate && data.endDate < data.startDate) {
+    return "End date must be after the start date";
+  }
+  return null;
+}
+
+// Runs each imported row through the transaction schema. Rows that could
+// not be read keep their parse errors; valid rows get the parsed payload.
+// Rows whose external id was imported before, or appears earlier in the same
+// file, are flagged as duplicates.
+function validateImportRows(rows: ImportRow[], importedIds: Set<string>) {
+  const seenIds = new Set(importedIds);
+
+  return rows.map((row) => {
+    const isDuplicate = !!row.externalId && seenIds.has(row.externalId);
+    if (row.externalId) seenIds.add(row.externalId);
+
+    if (row.errors.length > 0) {
+      return { ...row, isDuplicate, data: null };
+    }
+
+    const result = transactionPayloadSchema.safeParse(row.payload);
+    if (!result.success) {
+      const errors = result.error.errors.map(e => `${e.path.join(".") || "row"}: ${e.message}`);
+      return { ...row, errors, isDuplicate, data: null };
+    }
+    const error = validateTransactionShape(result.data);
+    if (error) {
+      return { ...row, errors: [error], isDuplicate, data: null };
+    }
+
+    return { ...row, isDuplicate, data: { ...result.data, externalId: row.externalId ?? null } };
+  });
+}
+
 export function registerRoutes(app: Express): Server {
-  // Budget alerts helper function
-  async function checkBudgetAlerts(userId: string, category: string, month: number, year: number) {
+  // Checks that referenced accounts and categories belong to the user and
+  // that amounts are in the currency of their accounts, then that the
+  // transaction is well formed (see validateTransactionShape). Returns an
+  // error message, or null when valid.
+  async function validateTransactionReferences(userId: string, data: Partial<InsertTransaction> & { splits?: InsertTransactionSplit[] }) {
+    let currency = data.currency;
+    for (const accountId of [data.accountId, data.transferAccountId]) {
+      if (!accountId) continue;
+      const account = await storage.getAccount(userId, accountId);
+      if (!account) {
+        return "Account not found";
+      }
+      if (currency && currency !== account.currency) {
+        return `${account.name} is a ${account.currency} account`;
+      }
+      currency = account.currency;
+    }
+
+    if (data.categoryId && !(await storage.getCategory(userId, data.categoryId))) {
+      return "Category not found";
+    }
+
+    for (const split of data.splits ?? []) {
+      if (!(await storage.getCategory(userId, split.categoryId))) {
+        return "Category not found";
+      }
+    }
+
+    return validateTransactionShape(data);
+  }
+
+  // Categories form a two-level hierarchy: a parent must be one of the user's
+  // top-level categories, and a category with subcategories cannot be nested.
+  async function validateCategoryParent(userId: string, id: string | null, data: Partial<InsertCategory>) {
+    if (!data.parentId) return null;
+
+    const parent = await storage.getCategory(userId, data.parentId);
+    if (!parent || parent.id === id) {
+      return "Parent category not found";
+    }
+    if (parent.parentId) {
+      return "Subcategories cannot have subcategories";
+    }
+    if (id && (await storage.getCategories(userId)).some(c => c.parentId === id)) {
+      return "A category with subcategories cannot be nested";
+    }
+
+    return null;
+  }
+
+  // A rule's category and any accounts named in its conditions must belong
+  // to the user.
+  async function validateRuleReferences(userId: string, data: Partial<InsertCategorizationRule>) {
+    if (data.categoryId && !(await storage.getCategory(userId, data.categoryId))) {
+      return "Category not found";
+    }
+    for (const condition of data.conditions ?? []) {
+      if (condition.field === "accountId" && !(await storage.getAccount(userId, condition.value))) {
+        return "Account not found";
+      }
+    }
+    return null;
+  }
+
+  // Reads a statement with the given mapping and validates every row the
+  // same way POST /api/transactions would. Returns an error message when the
+  // mapping itself references something the user does not own.
+  async function prepareCsvImport(userId: string, content: string, mapping: CsvMapping) {
+    if (mapping.accountId && !(await storage.getAccount(userId, mapping.accountId))) {
+      return { error: "Account not found" };
+    }
+    if (mapping.defaultCategoryId && !(await storage.getCategory(userId, mapping.defaultCategoryId))) {
+      return { error: "Category not found" };
+    }
+
+    const [categories, rules] = await Promise.all([storage.getCategories(userId), storage.getRules(userId)]);
+    const rows = mapCsvRows(parseCsv(content, mapping.delimiter), mapping, categories, createCategorizer(rules));
+    return { rows: validateImportRows(rows, new Set()) };
+  }
+
+  // Same as prepareCsvImport for OFX/QFX, QIF and Beancount files, which
+  // carry their own account numbers or names.
+  async function prepareStatementImport(userId: string, data: z.infer<typeof statementPreviewSchema>) {
+    const format = detectStatementFormat(data.content);
+    if (!format) {
+      return { error: "Unrecognized file format. Upload an OFX, QFX, QIF or Beancount file." };
+    }
+
+    for (const accountId of Object.values(data.accountMap)) {
+      if (accountId && !(await storage.getAccount(userId, accountId))) {
+        return { error: "Account not found" };
+      }
+    }
+    if (data.defaultCategoryId && !(await storage.getCategory(userId, data.defaultCategoryId))) {
+      return { error: "Category not found" };
+    }
+
+    const accounts = parseStatement(data.content, format, data.qifDateFormat);
+    const [categories, userAccounts, ledgerAccounts, rules] = await Promise.all([
+      storage.getCategories(userId),
+      storage.getAccounts(userId),
+      storage.getLedgerAccounts(userId),
+      storage.getRules(userId),
+    ]);
+
+    // Beancount accounts and categories go by the names the ledger exports
+    // give them, so those map back without the user's help.
+    const names = createLedgerNames(categories, userAccounts, ledgerAccounts);
+    const accountMap = { ...data.accountMap };
+    if (format === "beancount") {
+      accounts.forEach(({ key }) => {
+        if (!(key in accountMap)) accountMap[key] = names.findAccount(key) ?? null;
+      });
+    }
+
+    const options = { ...data, accountMap, findCategory: format === "beancount" ? names.findCategory : undefined };
+    const rows = mapStatementRows(accounts, options, categories, createCategorizer(rules));
+    const importedIds = await storage.getExistingExternalIds(userId, rows.flatMap(row => (row.externalId ? [row.externalId] : [])));
+
+    return {
+      format,
+      accounts: accounts.map(({ key, name, transactions }) => ({
+        key,
+        name,
+        accountId: accountMap[key] ?? null,
+        transactionCount: transactions.length,
+      })),
+      rows: validateImportRows(rows, importedIds),
+    };
+  }
+
+  // Setup authentication routes
+  setupAuth(app);
+
+  // User routes
+  app.patch("/api/user", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const validatedData = userPreferencesSchema.parse(req.body);
+      const user = await storage.updateUser(req.user!.id, validatedData);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid user data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update user" });
+      }
+    }
+  });
+
+  // Other sessions are signed out; this one stays signed in.
+  app.post("/api/user/password", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { currentPassword, newPassword } = changePasswordSchema.parse(req.body);
+      if (!(await comparePasswords(currentPassword, req.user!.password))) {
+        return res.status(403).json({ message: "Incorrect password" });
+      }
+      const passwordProblem = checkPassword(newPassword, [req.user!.username, req.user!.email]);
+      if (passwordProblem) {
+        return res.status(400).json({ message: passwordProblem });
+      }
+
+      const user = await storage.updateUser(req.user!.id, { password: await hashPassword(newPassword) });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      const revoked = await storage.deleteUserSessions(user.id, req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to change password" });
+      }
+    }
+  });
+
+  app.get("/api/user/settings", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const settings = await storage.getUserSettings(req.user!.id);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/user/settings", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const validatedData = insertUserSettingsSchema.parse(req.body);
+      const settings = await storage.saveUserSettings(req.user!.id, validatedData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid settings", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save settings" });
+      }
+    }
+  });
+
+  // Two-factor authentication routes. Setup keeps the new secret in the
+  // session until a code from the app confirms it was added.
+  app.get("/api/2fa", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const twoFactor = await storage.getTwoFactorSecret(req.user!.id);
+      const status: TwoFactorStatus = {
+        enabled: !!twoFactor,
+        recoveryCodesRemaining: twoFactor ? await storage.countRecoveryCodes(req.user!.id) : 0,
+      };
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch two-factor authentication status" });
+    }
+  });
+
+  app.post("/api/2fa/setup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      if (await storage.getTwoFactorSecret(req.user!.id)) {
+        return res.status(400).json({ message: "Two-factor authentication is already on" });
+      }
+      const secret = generateTotpSecret();
+      const url = otpauthUrl(secret, req.user!.username);
+      req.session.pendingTotpSecret = secret;
+      const setup: TwoFactorSetup = { secret, otpauthUrl: url, qrCode: await qrCodeDataUrl(url) };
+      res.json(setup);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start two-factor authentication setup" });
+    }
+  });
+
+  // Returns the recovery codes; this is the only time they are shown.
+  app.post("/api/2fa/enable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const code = totpCodeSchema.parse(req.body?.code);
+      const secret = req.session.pendingTotpSecret;
+      if (!secret) {
+        return res.status(400).json({ message: "Start the setup again" });
+      }
+      const step = verifyTotpCode(secret, code);
+      if (step === null) {
+        return res.status(400).json({ message: "Invalid code. Check the time on your device and try again." });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.enableTwoFactor(req.user!.id, secret, step, recoveryCodes.map(hashRecoveryCode));
+      delete req.session.pendingTotpSecret;
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid code", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to turn on two-factor authentication" });
+      }
+    }
+  });
+
+  // Replaces every recovery code, used or not.
+  app.post("/api/2fa/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { password } = twoFactorPasswordSchema.parse(req.body);
+      if (!(await storage.getTwoFactorSecret(req.user!.id))) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+      if (!(await comparePasswords(password, req.user!.password))) {
+        return res.status(403).json({ message: "Incorrect password" });
+      }
+
+      const recoveryCodes = generateRecoveryCodes();
+      await storage.replaceRecoveryCodes(req.user!.id, recoveryCodes.map(hashRecoveryCode));
+      res.json({ recoveryCodes });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to generate recovery codes" });
+      }
+    }
+  });
+
+  app.post("/api/2fa/disable", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { password, code } = disableTwoFactorSchema.parse(req.body);
+      const twoFactor = await storage.getTwoFactorSecret(req.user!.id);
+      if (!twoFactor) {
+        return res.status(400).json({ message: "Two-factor authentication is off" });
+      }
+      if (!(await comparePasswords(password, req.user!.password))) {
+        return res.status(403).json({ message: "Incorrect password" });
+      }
+      const step = verifyTotpCode(twoFactor.secret, code, twoFactor.lastUsedStep);
+      if (step === null || !(await storage.useTotpStep(req.user!.id, step))) {
+        return res.status(403).json({ message: "Invalid code" });
+      }
+
+      await storage.disableTwoFactor(req.user!.id);
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to turn off two-factor authentication" });
+      }
+    }
+  });
+
+  // Session routes: where the user is signed in, and signing out remotely
+  app.get("/api/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const sessions = await listSessions(req.user!.id, req.sessionID);
+      res.json(sessions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch sessions" });
+    }
+  });
+
+  // Signs out every other session; the client logs out of this one itself
+  // to sign out everywhere.
+  app.delete("/api/sessions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const revoked = await storage.deleteUserSessions(req.user!.id, req.sessionID);
+      res.json({ revoked });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out other sessions" });
+    }
+  });
+
+  app.delete("/api/sessions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const sid = await findSessionId(req.user!.id, req.params.id);
+      if (!sid) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      if (sid === req.sessionID) {
+        return res.status(400).json({ message: "Log out to end the current session" });
+      }
+      await storage.deleteUserSession(req.user!.id, sid);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out session" });
+    }
+  });
+
+  // Ledger account routes: the names categories and accounts go by in the
+  // Ledger, hledger and Beancount exports
+  app.get("/api/ledger-accounts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const ledgerAccounts = await storage.getLedgerAccounts(req.user!.id);
+      res.json(ledgerAccounts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch ledger accounts" });
+    }
+  });
+
+  app.put("/api/ledger-accounts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { name, ...target } = ledgerAccountMappingSchema.parse(req.body);
+      if (target.categoryId && !(await storage.getCategory(req.user!.id, target.categoryId))) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      if (target.accountId && !(await storage.getAccount(req.user!.id, target.accountId))) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+
+      if (!name) {
+        await storage.deleteLedgerAccount(req.user!.id, target);
+        return res.sendStatus(204);
+      }
+      const ledgerAccount = await storage.saveLedgerAccount(req.user!.id, target, name);
+      res.json(ledgerAccount);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid ledger account", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save ledger account" });
+      }
+    }
+  });
+
+  // Backup routes
+  app.get("/api/backup", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const data = await storage.exportUserData(req.user!.id);
+      const exportedAt = new Date();
+      const fileName = `savvyfinance-backup-${exportedAt.toISOString().slice(0, 10)}.json`;
+      res.setHeader("Content-Disposition", contentDisposition("attachment", fileName));
+      // Sent as text so the request log doesn't copy the whole archive
+      res.type("json").send(JSON.stringify({ format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt, data }));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export data" });
+    }
+  });
+
+  // Restores a backup from GET /api/backup. ?mode=replace deletes the
+  // user's current data first; the default merges into it.
+  app.post("/api/backup/restore", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const mode = z.enum(RESTORE_MODES).default("merge").parse(req.query.mode);
+      const archive = backupArchiveSchema.parse(req.body);
+      const { summary, removedAttachments } = await storage.restoreUserData(req.user!.id, archive.data, mode);
+      await removeAttachmentFiles(removedAttachments);
+      res.json({ mode, summary });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid backup", errors: error.errors });
+      } else if (error.message === 'Category hierarchy has a cycle.' || error.message === 'Goal balance cannot be negative.') {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to restore backup" });
+      }
+    }
+  });
+
+  // Exchange rate routes
+  app.get("/api/exchange-rates", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const rates = await storage.getExchangeRates(req.user!.id);
+      res.json(rates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch exchange rates" });
+    }
+  });
+
+  // Rates foreign-currency transactions still need after asking the provider
+  app.get("/api/exchange-rates/missing", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      await fillMissingExchangeRates(req.user!.id);
+      const missing = await storage.getMissingExchangeRates(req.user!.id);
+      res.json(missing);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch missing exchange rates" });
+    }
+  });
+
+  app.post("/api/exchange-rates", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const validatedData = exchangeRatePayloadSchema.parse(req.body);
+      const rate = await storage.saveExchangeRate(req.user!.id, validatedData);
+      res.status(201).json(rate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid exchange rate", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to save exchange rate" });
+      }
+    }
+  });
+
+  app.delete("/api/exchange-rates/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const success = await storage.deleteExchangeRate(req.user!.id, req.params.id);
+
+      if (!success) {
+        return res.status(404).json({ message: "Exchange rate not found" });
+      }
+
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete exchange rate" });
+    }
+  });
+
+  // Category routes
+  app.get("/api/categories", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const categories = await storage.getCategories(req.user!.id);
+      res.json(categories);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch categories" });
+    }
+  });
+
+  app.post("/api/categories", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = insertCategorySchema.parse(req.body);
+      const parentError = await validateCategoryParent(req.user!.id, null, validatedData);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+
+      const category = await storage.createCategory({
+        ...validatedData,
+        userId: req.user!.id,
+      });
+      res.status(201).json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid category data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create category" });
+      }
+    }
+  });
+
+  // Categories are archived rather than deleted so history keeps its labels.
+  app.put("/api/categories/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = insertCategorySchema.partial().parse(req.body);
+      const parentError = await validateCategoryParent(req.user!.id, req.params.id, validatedData);
+      if (parentError) {
+        return res.status(400).json({ message: parentError });
+      }
+
+      const category = await storage.updateCategory(req.user!.id, req.params.id, validatedData);
+      
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      res.json(category);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid category data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update category" });
+      }
+    }
+  });
+
+  // Tag routes
+  app.get("/api/tags", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const tags = await storage.getTags(req.user!.id);
+      res.json(tags);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  // Account routes
+  app.get("/api/accounts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const accounts = await storage.getAccounts(req.user!.id);
+      res.json(accounts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch accounts" });
+    }
+  });
+
+  app.post("/api/accounts", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = insertAccountSchema.parse(req.body);
+      const account = await storage.createAccount({
+        ...validatedData,
+        userId: req.user!.id,
+      });
+      res.status(201).json(account);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create account" });
+      }
+    }
+  });
+
+  app.put("/api/accounts/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = insertAccountSchema.partial().parse(req.body);
+      const account = await storage.updateAccount(req.user!.id, req.params.id, validatedData);
+      
+      if (!account) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      res.json(account);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", errors: error.errors });
+      } else if (error.message === "Account has transactions in another currency.") {
+        res.status(409).json({ message: "The account has transactions, so its currency cannot change" });
+      } else {
+        res.status(500).json({ message: "Failed to update account" });
+      }
+    }
+  });
+
+  app.delete("/api/accounts/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const success = await storage.deleteAccount(req.user!.id, req.params.id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Account not found" });
+      }
+      
+      res.sendStatus(204);
+    } catch (error: any) {
+      if (error.message === "Account has transactions.") {
+        return res.status(409).json({ message: "Account has transactions; archive it instead" });
+      }
+      res.status(500).json({ message: "Failed to delete account" });
+    }
+  });
+
+  // Transaction routes
+  app.get("/api/transactions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const transactions = await storage.getTransactions(req.user!.id, limit);
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch transactions" });
+    }
+  });
+
+  app.get("/api/transactions/search", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const filters = transactionSearchSchema.parse(req.query);
+      const page = await storage.searchTransactions(req.user!.id, filters);
+      res.json(page);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search", errors: error.errors });
+      }
+      if (error.message === "Invalid cursor.") {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      res.status(500).json({ message: "Failed to search transactions" });
+    }
+  });
+
+  // The filtered transaction list as a CSV file, a spreadsheet, or a
+  // Ledger, hledger or Beancount journal
+  app.get("/api/transactions/export", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const { format, ...filters } = transactionExportSchema.parse(req.query);
+      const transactions = [];
+      let cursor: string | undefined;
+      do {
+        const page = await storage.searchTransactions(req.user!.id, { ...filters, limit: 200, cursor });
+        transactions.push(...page.transactions);
+        if (transactions.length > MAX_EXPORT_ROWS) {
+          return res.status(400).json({ message: `Exports are limited to ${MAX_EXPORT_ROWS} transactions. Narrow the filters and try again.` });
+        }
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      const [categories, accounts, ledgerAccounts] = await Promise.all([
+        storage.getCategories(req.user!.id),
+        storage.getAccounts(req.user!.id),
+        storage.getLedgerAccounts(req.user!.id),
+      ]);
+
+      if (format === "ledger" || format === "hledger" || format === "beancount") {
+        // Opening balances only add up when the journal has every transaction
+        const { sort, order, ...conditions } = filters;
+        const journal = toLedger({
+          transactions,
+          accounts,
+          names: createLedgerNames(categories, accounts, ledgerAccounts),
+          baseCurrency: req.user!.baseCurrency,
+          includeOpeningBalances: Object.values(conditions).every(value => value === undefined),
+        }, format);
+        res.setHeader("Content-Disposition", contentDisposition("attachment", `transactions-${formatIsoDate(new Date())}.${LEDGER_FILE_EXTENSIONS[format]}`));
+        return res.type("text/plain; charset=utf-8").send(journal);
+      }
+
+      const table = transactionsTable(transactions, categories, accounts);
+      res.setHeader("Content-Disposition", contentDisposition("attachment", `transactions-${formatIsoDate(new Date())}.${format}`));
+      if (format === "xlsx") {
+        res.type(XLSX_CONTENT_TYPE).send(createWorkbook([table]));
+      } else {
+        res.type("text/csv; charset=utf-8").send(toCsv(table));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid export filters", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to export transactions" });
+      }
+    }
+  });
+
+  app.post("/api/transactions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = transactionPayloadSchema.parse(req.body);
+
+      // Uncategorized income and expenses are categorized by the user's rules
+      if (validatedData.type !== 'transfer' && !validatedData.categoryId && !validatedData.splits?.length) {
+        const categorize = createCategorizer(await storage.getRules(req.user!.id));
+        validatedData.categoryId = categorize(validatedData) ?? null;
+        if (!validatedData.categoryId) {
+          return res.status(400).json({ message: "No rule matches this transaction. Choose a category." });
+        }
+      }
+
+      const referenceError = await validateTransactionReferences(req.user!.id, validatedData);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const transaction = await storage.createTransaction({
+        ...validatedData,
+        userId: req.user!.id,
+      });
+      
+      await checkBudgetAlerts(req.user!.id, [transaction]);
+      
+      res.status(201).json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid transaction data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create transaction" });
+      }
+    }
+  });
+
+  app.put("/api/transactions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = transactionPayloadSchema.partial().parse(req.body);
+      const existing = await storage.getTransaction(req.user!.id, req.params.id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      // Split lines are kept unless replaced, so they must still add up
+      const referenceError = await validateTransactionReferences(req.user!.id, {
+        ...existing,
+        ...validatedData,
+        splits: validatedData.splits ?? existing.splits,
+      });
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const transaction = await storage.updateTransaction(req.user!.id, req.params.id, validatedData);
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      // The old month and category may need re-arming as well
+      await checkBudgetAlerts(req.user!.id, [existing, transaction]);
+      
+      res.json(transaction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid transaction data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update transaction" });
+      }
+    }
+  });
+
+  app.delete("/api/transactions/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const existing = await storage.getTransaction(req.user!.id, req.params.id);
+      const success = existing && await storage.deleteTransaction(req.user!.id, req.params.id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      await checkBudgetAlerts(req.user!.id, [existing]);
+      // The rows went with the transaction; the files have to be removed
+      await removeAttachmentFiles(existing.attachments);
+      
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete transaction" });
+    }
+  });
+
+  // Attachment routes. Files are uploaded as the raw request body, with the
+  // file's type as Content-Type and its URI-encoded name in X-File-Name.
+  app.get("/api/transactions/:id/attachments", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const transaction = await storage.getTransaction(req.user!.id, req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      res.json(transaction.attachments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/transactions/:id/attachments", rawBody(MAX_ATTACHMENT_SIZE), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const transaction = await storage.getTransaction(req.user!.id, req.params.id);
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+      if (transaction.attachments.length >= MAX_ATTACHMENTS_PER_TRANSACTION) {
+        return res.status(400).json({ message: `A transaction can have at most ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments` });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ message: "Send the file as the request body" });
+      }
+      const uploadError = validateUpload(req.body, req.get("Content-Type"));
+      if (uploadError) {
+        return res.status(400).json({ message: uploadError });
+      }
+
+      const id = await storeAttachmentFile(req.user!.id, req.body);
+      try {
+        const attachment = await storage.createAttachment({
+          id,
+          userId: req.user!.id,
+          transactionId: transaction.id,
+          fileName: sanitizeFileName(req.get("X-File-Name")),
+          contentType: detectContentType(req.body)!,
+          size: req.body.length,
+        });
+        res.status(201).json(attachment);
+      } catch (error) {
+        await removeAttachmentFiles([{ id, userId: req.user!.id }]);
+        throw error;
+      }
+    } catch (error) {
+      res.status(500).json({ message: "Failed to upload attachment" });
+    }
+  });
+
+  // Served inline so images and PDFs open in the browser; ?download=1 saves
+  // the file instead.
+  app.get("/api/attachments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const attachment = await storage.getAttachment(req.user!.id, req.params.id);
+      const data = attachment && await readAttachmentFile(attachment);
+      if (!attachment || !data) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      res.setHeader("Content-Type", attachment.contentType);
+      res.setHeader("Content-Disposition", contentDisposition(req.query.download ? "attachment" : "inline", attachment.fileName));
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.send(data);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  // Thumbnails are scaled down in the browser and stored next to the file.
+  app.put("/api/attachments/:id/thumbnail", rawBody(MAX_THUMBNAIL_SIZE), async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const attachment = await storage.getAttachment(req.user!.id, req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      if (!Buffer.isBuffer(req.body)) {
+        return res.status(400).json({ message: "Send the thumbnail as the request body" });
+      }
+      const uploadError = validateUpload(req.body, req.get("Content-Type"), { thumbnail: true });
+      if (uploadError) {
+        return res.status(400).json({ message: uploadError });
+      }
+
+      await storeThumbnail(attachment, req.body);
+      const updated = await storage.markAttachmentThumbnail(req.user!.id, attachment.id);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save thumbnail" });
+    }
+  });
+
+  app.get("/api/attachments/:id/thumbnail", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const attachment = await storage.getAttachment(req.user!.id, req.params.id);
+      const data = attachment && await readThumbnail(attachment);
+      if (!data) {
+        return res.status(404).json({ message: "Thumbnail not found" });
+      }
+
+      res.setHeader("Content-Type", detectContentType(data) ?? "application/octet-stream");
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.setHeader("Cache-Control", "private, max-age=3600");
+      res.send(data);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch thumbnail" });
+    }
+  });
+
+  app.delete("/api/attachments/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const attachment = await storage.deleteAttachment(req.user!.id, req.params.id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      await removeAttachmentFiles([attachment]);
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Possible duplicate pairs within `days` of today, minus dismissed pairs
+  app.get("/api/transactions/duplicates", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const days = Math.min(parseInt(req.query.days as string) || 365, 3650);
+      const now = Date.now();
+      const window = days * 24 * 60 * 60 * 1000;
+      const [transactions, dismissedPairs] = await Promise.all([
+        storage.getTransactionsByDateRange(req.user!.id, new Date(now - window), new Date(now + window)),
+        storage.getDismissedDuplicatePairs(req.user!.id),
+      ]);
+
+      res.json(findDuplicateCandidates(transactions, dismissedPairs));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to find duplicate transactions" });
+    }
+  });
+
+  app.post("/api/transactions/duplicates/dismiss", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { transactionIds: [firstId, secondId] } = duplicatePairSchema.parse(req.body);
+
+      const [first, second] = await Promise.all([
+        storage.getTransaction(req.user!.id, firstId),
+        storage.getTransaction(req.user!.id, secondId),
+      ]);
+      if (!first || !second) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      await storage.dismissDuplicatePair(req.user!.id, firstId, secondId);
+      res.sendStatus(204);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid duplicate pair", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to dismiss duplicate" });
+      }
+    }
+  });
+
+  app.post("/api/transactions/duplicates/merge", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { keepId, removeId } = duplicateMergeSchema.parse(req.body);
+      const removed = await storage.getTransaction(req.user!.id, removeId);
+      const transaction = await storage.mergeTransactions(req.user!.id, keepId, removeId);
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Transaction not found" });
+      }
+
+      if (removed) await checkBudgetAlerts(req.user!.id, [removed]);
+      
+      res.json(transaction);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid duplicate pair", errors: error.errors });
+      } else if (error.message === 'Too many attachments to merge.') {
+        res.status(400).json({ message: `Together these transactions have more than ${MAX_ATTACHMENTS_PER_TRANSACTION} attachments. Delete some before merging.` });
+      } else if (error.message === 'Account currency does not match.') {
+        res.status(400).json({ message: "The other transaction's account is in a different currency. Choose an account for the one you keep before merging." });
+      } else {
+        res.status(500).json({ message: "Failed to merge transactions" });
+      }
+    }
+  });
+
+  // Recurring transaction routes
+  app.get("/api/recurring", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const recurring = await storage.getRecurringTransactions(req.user!.id);
+      res.json(recurring);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recurring transactions" });
+    }
+  });
+
+  app.post("/api/recurring", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = recurringPayloadSchema.parse(req.body);
+      const validationError = validateRecurrence(validatedData) ?? await validateTransactionReferences(req.user!.id, validatedData);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      const recurring = await storage.createRecurringTransaction({
+        ...validatedData,
+        userId: req.user!.id,
+        nextDate: getScheduledDate(validatedData, 0),
+      });
+      res.status(201).json(recurring);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid recurring transaction data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create recurring transaction" });
+      }
+    }
+  });
+
+  app.put("/api/recurring/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = recurringPayloadSchema.partial().parse(req.body);
+      const existing = await storage.getRecurringTransaction(req.user!.id, req.params.id);
+      
+      if (!existing) {
+        return res.status(404).json({ message: "Recurring transaction not found" });
+      }
+
+      const merged = { ...existing, ...validatedData };
+      const validationError = validateRecurrence(merged) ?? await validateTransactionReferences(req.user!.id, merged);
+      if (validationError) {
+        return res.status(400).json({ message: validationError });
+      }
+
+      // A changed schedule only applies to occurrences after today.
+      // Occurrences already due belong to the old one and are created
+      // first, rather than skipped. The numbering restarts under the new
+      // schedule, so the offset keeps what was created counting towards the
+      // occurrence limit.
+      const scheduleChanged = RECURRENCE_FIELDS.some(field => field in validatedData);
+      const now = new Date();
+      const current = scheduleChanged ? await catchUpRecurringTransaction(existing, now) : existing;
+      if (scheduleChanged && current.isActive && current.nextDate && current.nextDate <= now) {
+        return res.status(409).json({ message: "This recurring transaction is still catching up on past occurrences. Try again shortly." });
+      }
+
+      let { occurrenceCount, occurrenceOffset } = current;
+      if (scheduleChanged && occurrenceCount > 0) {
+        const counted = occurrenceCount - occurrenceOffset;
+        occurrenceCount = getFirstIndexAfter(merged, now);
+        occurrenceOffset = occurrenceCount - counted;
+      }
+
+      const recurring = await storage.updateRecurringTransaction(req.user!.id, req.params.id, {
+        ...validatedData,
+        occurrenceCount,
+        occurrenceOffset,
+        nextDate: getScheduledDate({ ...merged, occurrenceOffset }, occurrenceCount),
+      });
+      
+      res.json(recurring);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid recurring transaction data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update recurring transaction" });
+      }
+    }
+  });
+
+  app.delete("/api/recurring/:id", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const success = await storage.deleteRecurringTransaction(req.user!.id, req.params.id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Recurring transaction not found" });
+      }
+      
+      res.sendStatus(204);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete recurring transaction" });
+    }
+  });
+
+  // Upcoming occurrences with any per-occurrence exceptions applied
+  app.get("/api/recurring/:id/upcoming", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const recurring = await storage.getRecurringTransaction(req.user!.id, req.params.id);
+      
+      if (!recurring) {
+        return res.status(404).json({ message: "Recurring transaction not found" });
+      }
+
+      const count = Math.min(parseInt(req.query.count as string) || 5, 50);
+      const exceptions = await storage.getRecurringExceptions(req.user!.id, recurring.id);
+      const occurrences = getUpcomingOccurrences(recurring, recurring.occurrenceCount, count).map(({ date }) => {
+        const exception = exceptions.find(e => e.occurrenceDate.getTime() === date.getTime());
+        return {
+          date,
+          amount: exception?.amount ?? recurring.amount,
+          description: exception?.description ?? recurring.description,
+          categoryId: exception?.categoryId ?? recurring.categoryId,
+          isSkipped: exception?.isSkipped ?? false,
+          isModified: !!exception && !exception.isSkipped,
+        };
+      });
+
+      res.json(occurrences);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch upcoming occurrences" });
+    }
+  });
+
+  // Skip or override a single occurrence
+  app.put("/api/recurring/:id/occurrences", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = recurringExceptionPayloadSchema.parse(req.body);
+      const recurring = await storage.getRecurringTransaction(req.user!.id, req.params.id);
+      
+      if (!recurring) {
+        return res.status(404).json({ message: "Recurring transaction not found" });
+      }
+
+      const isScheduled = getUpcomingOccurrences(recurring, recurring.occurrenceCount, 366)
+        .some(({ date }) => date.getTime() === validatedData.occurrenceDate.getTime());
+      if (!isScheduled) {
+        return res.status(400).json({ message: "No upcoming occurrence on that date" });
+      }
+
+      if (validatedData.categoryId && !(await storage.getCategory(req.user!.id, validatedData.categoryId))) {
+        return res.status(400).json({ message: "Category not found" });
+      }
+
+      const exception = await storage.upsertRecurringException(req.user!.id, recurring.id, validatedData);
+      if (!exception) {
+        return res.status(404).json({ message: "Recurring transaction not found" });
+      }
+      res.json(exception);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid occurrence data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update occurrence" });
+      }
+    }
+  });
+
+  // Restore an occurrence to the template's defaults
+  app.delete("/api/recurring/:id/occurrences", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
     try {
-      const budget = await storage.getBudgetByCategory(userId, category, month, year);
-      if (!budget) return;
-
-      const startDate = new Date(year, month - 1, 1);
-      const endDate = new Date(year, month, 0, 23, 59, 59);
-      
-      const transactions = await storage.getTransactionsByDateRange(userId, startDate, endDate);
-      const categoryTransactions = transactions.filter(t => t.category === category && t.type === 'expense');
+      const occurrenceDate = z.coerce.date().parse(req.query.date);
+      const recurring = await storage.getRecurringTransaction(req.user!.id, req.params.id);
       
-      const totalSpent = categoryTransactions.reduce((sum, t) => sum + parseFloat(t.amount), 0);
+      if (!recurring) {
+        return res.status(404).json({ message: "Recurring transaction not found" });
+      }
 
-      if (totalSpent > parseFloat(budget.amount)) {
-        await storage.createNotification({
-          userId,
-          title: 'Budget Alert',
-          message: `You have exceeded your budget for ${category} this month.`,
-          type: 'budget_alert',
-        });
+      const success = await storage.deleteRecurringException(req.user!.id, recurring.id, occurrenceDate);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Occurrence exception not found" });
       }
+      
+      res.sendStatus(204);
     } catch (error) {
-      console.error('Error checking budget alerts:', error);
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid occurrence date", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to restore occurrence" });
+      }
     }
-  }
-
-  // Setup authentication routes
-  setupAuth(app);
+  });
 
-  // Transaction routes
-  app.get("/api/transactions", async (req, res) => {
+  // Categorization rule routes
+  app.get("/api/rules", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
-      const transactions = await storage.getTransactions(req.user!.id, limit);
-      res.json(transactions);
+      const rules = await storage.getRules(req.user!.id);
+      res.json(rules);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch transactions" });
+      res.status(500).json({ message: "Failed to fetch rules" });
     }
   });
 
-  app.post("/api/transactions", async (req, res) => {
+  app.post("/api/rules", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const validatedData = transactionPayloadSchema.parse(req.body);
-      const transaction = await storage.createTransaction({
+      const validatedData = insertCategorizationRuleSchema.parse(req.body);
+      const referenceError = await validateRuleReferences(req.user!.id, validatedData);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const rule = await storage.createRule({
         ...validatedData,
         userId: req.user!.id,
       });
-      
-      // Check budget alerts after creating transaction
-      if (validatedData.type === 'expense') {
-        await checkBudgetAlerts(req.user!.id, validatedData.category, new Date().getMonth() + 1, new Date().getFullYear());
+      res.status(201).json(rule);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid rule data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create rule" });
       }
-      
-      res.status(201).json(transaction);
+    }
+  });
+
+  // Re-runs active rules over existing income and expenses, or only the
+  // given rule. Transactions no rule matches keep their category.
+  app.post("/api/rules/apply", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { ruleId } = applyRulesSchema.parse(req.body ?? {});
+
+      let rules = await storage.getRules(req.user!.id);
+      if (ruleId) {
+        rules = rules.filter(rule => rule.id === ruleId);
+        if (rules.length === 0) {
+          return res.status(404).json({ message: "Rule not found" });
+        }
+      }
+
+      const categorize = createCategorizer(rules);
+      const transactions = await storage.getCategorizableTransactions(req.user!.id);
+      const changed = transactions.flatMap((transaction) => {
+        const categoryId = categorize(transaction);
+        return categoryId && categoryId !== transaction.categoryId ? [{ transaction, categoryId }] : [];
+      });
+
+      const updated = await storage.setTransactionCategories(
+        req.user!.id,
+        changed.map(({ transaction, categoryId }) => ({ id: transaction.id, categoryId })),
+      );
+      await checkBudgetAlerts(req.user!.id, changed.flatMap(({ transaction, categoryId }) => [transaction, { ...transaction, categoryId }]));
+      res.json({ updated });
     } catch (error) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid transaction data", errors: error.errors });
+        res.status(400).json({ message: "Invalid rule data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to create transaction" });
+        res.status(500).json({ message: "Failed to apply rules" });
       }
     }
   });
 
-  app.put("/api/transactions/:id", async (req, res) => {
+  app.put("/api/rules/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const validatedData = transactionPayloadSchema.partial().parse(req.body);
-      const transaction = await storage.updateTransaction(req.params.id, validatedData);
+      const validatedData = insertCategorizationRuleSchema.partial().parse(req.body);
+      const referenceError = await validateRuleReferences(req.user!.id, validatedData);
+      if (referenceError) {
+        return res.status(400).json({ message: referenceError });
+      }
+
+      const rule = await storage.updateRule(req.user!.id, req.params.id, validatedData);
       
-      if (!transaction) {
-        return res.status(404).json({ message: "Transaction not found" });
+      if (!rule) {
+        return res.status(404).json({ message: "Rule not found" });
       }
       
-      res.json(transaction);
+      res.json(rule);
     } catch (error) {
       if (error instanceof z.ZodError) {
-        res.status(400).json({ message: "Invalid transaction data", errors: error.errors });
+        res.status(400).json({ message: "Invalid rule data", errors: error.errors });
       } else {
-        res.status(500).json({ message: "Failed to update transaction" });
+        res.status(500).json({ message: "Failed to update rule" });
       }
     }
   });
 
-  app.delete("/api/transactions/:id", async (req, res) => {
+  app.delete("/api/rules/:id", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const success = await storage.deleteTransaction(req.params.id);
+      const success = await storage.deleteRule(req.user!.id, req.params.id);
       
       if (!success) {
-        return res.status(404).json({ message: "Transaction not found" });
+        return res.status(404).json({ message: "Rule not found" });
       }
       
       res.sendStatus(204);
     } catch (error) {
-      res.status(500).json({ message: "Failed to delete transaction" });
+      res.status(500).json({ message: "Failed to delete rule" });
+    }
+  });
+
+  // Import routes
+  app.get("/api/import/profiles", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const profiles = await storage.getImportProfiles(req.user!.id);
+      res.json(profiles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch import profiles" });
+    }
+  });
+
+  // Parses an uploaded CSV without saving anything. Without an explicit
+  // mapping, the saved profile for the bank is used, falling back to a guess
+  // from the header row.
+  app.post("/api/import/csv/preview", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { content, profileName, mapping: requestedMapping } = csvPreviewSchema.parse(req.body);
+
+      let mapping = requestedMapping;
+      if (!mapping && profileName) {
+        mapping = (await storage.getImportProfile(req.user!.id, profileName))?.mapping;
+      }
+
+      const delimiter = mapping?.delimiter ?? detectDelimiter(content);
+      const parsed = parseCsv(content, delimiter);
+      const headers = parsed[0] ?? [];
+
+      if (!mapping) {
+        const guess = csvMappingSchema.safeParse({ delimiter, columns: guessColumns(headers) });
+        mapping = guess.success ? guess.data : undefined;
+      }
+
+      if (!mapping) {
+        return res.json({ headers, sampleRows: parsed.slice(0, 6), delimiter, mapping: null, rows: [] });
+      }
+
+      const result = await prepareCsvImport(req.user!.id, content, mapping);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json({
+        headers,
+        sampleRows: parsed.slice(0, 6),
+        delimiter,
+        mapping,
+        rows: result.rows!.map(({ data, ...row }) => row),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid import data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to preview import" });
+      }
+    }
+  });
+
+  // Imports every valid row in a single database transaction. Invalid rows
+  // reject the whole file unless the user chose to skip them.
+  app.post("/api/import/csv", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { content, profileName, mapping, skipInvalid } = csvImportSchema.parse(req.body);
+
+      const result = await prepareCsvImport(req.user!.id, content, mapping);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      const invalidRows = result.rows!.filter(row => !row.data);
+      if (invalidRows.length > 0 && !skipInvalid) {
+        return res.status(400).json({
+          message: `${invalidRows.length} row(s) could not be imported`,
+          rows: invalidRows.map(({ line, errors }) => ({ line, errors })),
+        });
+      }
+
+      const validRows = result.rows!.flatMap(row => (row.data ? [row.data] : []));
+      const imported = await storage.importTransactions(req.user!.id, validRows);
+      await checkBudgetAlerts(req.user!.id, imported);
+
+      if (profileName) {
+        await storage.saveImportProfile(req.user!.id, profileName, mapping);
+      }
+
+      res.status(201).json({ imported: imported.length, skipped: invalidRows.length });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid import data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to import transactions" });
+      }
+    }
+  });
+
+  // Parses an OFX/QFX, QIF or Beancount file without saving anything,
+  // listing the accounts it contains so the user can map them.
+  app.post("/api/import/statement/preview", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = statementPreviewSchema.parse(req.body);
+
+      const result = await prepareStatementImport(req.user!.id, validatedData);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      res.json({
+        format: result.format,
+        accounts: result.accounts,
+        rows: result.rows!.map(({ data, ...row }) => row),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid import data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to preview import" });
+      }
+    }
+  });
+
+  // Imports new rows from an OFX/QFX, QIF or Beancount file in a single
+  // database transaction. Rows imported before are skipped.
+  app.post("/api/import/statement", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { skipInvalid, ...validatedData } = statementImportSchema.parse(req.body);
+
+      const result = await prepareStatementImport(req.user!.id, validatedData);
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      const newRows = result.rows!.filter(row => !row.isDuplicate);
+      const invalidRows = newRows.filter(row => !row.data);
+      if (invalidRows.length > 0 && !skipInvalid) {
+        return res.status(400).json({
+          message: `${invalidRows.length} row(s) could not be imported`,
+          rows: invalidRows.map(({ line, errors }) => ({ line, errors })),
+        });
+      }
+
+      const validRows = newRows.flatMap(row => (row.data ? [row.data] : []));
+      const imported = await storage.importTransactions(req.user!.id, validRows);
+      await checkBudgetAlerts(req.user!.id, imported);
+
+      res.status(201).json({
+        imported: imported.length,
+        skipped: invalidRows.length,
+        duplicates: result.rows!.length - newRows.length + validRows.length - imported.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid import data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to import transactions" });
+      }
     }
   });
 
@@ -134,10 +1784,15 @@ export function registerRoutes(app: Express): Server {
     
     try {
       const validatedData = insertBudgetSchema.parse(req.body);
+      if (!(await storage.getCategory(req.user!.id, validatedData.categoryId))) {
+        return res.status(400).json({ message: "Category not found" });
+      }
+
       const budget = await storage.createBudget({
         ...validatedData,
         userId: req.user!.id,
       });
+      await checkBudget(req.user!.id, budget);
       res.status(201).json(budget);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -153,11 +1808,17 @@ export function registerRoutes(app: Express): Server {
     
     try {
       const validatedData = insertBudgetSchema.partial().parse(req.body);
-      const budget = await storage.updateBudget(req.params.id, validatedData);
+      if (validatedData.categoryId && !(await storage.getCategory(req.user!.id, validatedData.categoryId))) {
+        return res.status(400).json({ message: "Category not found" });
+      }
+
+      const budget = await storage.updateBudget(req.user!.id, req.params.id, validatedData);
       
       if (!budget) {
         return res.status(404).json({ message: "Budget not found" });
       }
+
+      await checkBudget(req.user!.id, budget);
       
       res.json(budget);
     } catch (error) {
@@ -173,7 +1834,7 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const success = await storage.deleteBudget(req.params.id);
+      const success = await storage.deleteBudget(req.user!.id, req.params.id);
       
       if (!success) {
         return res.status(404).json({ message: "Budget not found" });
@@ -190,8 +1851,11 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const goals = await storage.getGoals(req.user!.id);
-      res.json(goals);
+      const [goals, contributions] = await Promise.all([
+        storage.getGoals(req.user!.id),
+        storage.getUserGoalContributions(req.user!.id),
+      ]);
+      res.json(goals.map(goal => getGoalProgress(goal, contributions.filter(c => c.goalId === goal.id))));
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch goals" });
     }
@@ -201,7 +1865,7 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const validatedData = insertGoalSchema.parse(req.body);
+      const validatedData = goalPayloadSchema.parse(req.body);
       const goal = await storage.createGoal({
         ...validatedData,
         userId: req.user!.id,
@@ -220,8 +1884,8 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const validatedData = insertGoalSchema.partial().parse(req.body);
-      const goal = await storage.updateGoal(req.params.id, validatedData);
+      const validatedData = goalPayloadSchema.partial().parse(req.body);
+      const goal = await storage.updateGoal(req.user!.id, req.params.id, validatedData);
       
       if (!goal) {
         return res.status(404).json({ message: "Goal not found" });
@@ -241,7 +1905,7 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const success = await storage.deleteGoal(req.params.id);
+      const success = await storage.deleteGoal(req.user!.id, req.params.id);
       
       if (!success) {
         return res.status(404).json({ message: "Goal not found" });
@@ -253,6 +1917,105 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  app.get("/api/goals/:id/contributions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const goal = await storage.getGoal(req.user!.id, req.params.id);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      const contributions = await storage.getGoalContributions(req.user!.id, goal.id);
+      res.json(contributions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch contributions" });
+    }
+  });
+
+  app.post("/api/goals/:id/contributions", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = goalContributionPayloadSchema.parse(req.body);
+      const goal = await storage.getGoal(req.user!.id, req.params.id);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      if (validatedData.transactionId && !(await storage.getTransaction(req.user!.id, validatedData.transactionId))) {
+        return res.status(400).json({ message: "Transaction not found" });
+      }
+
+      const contribution = await storage.createGoalContribution(req.user!.id, goal.id, validatedData);
+      if (!contribution) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      res.status(201).json(contribution);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid contribution data", errors: error.errors });
+      } else if (error.message === "Goal balance cannot be negative.") {
+        res.status(400).json({ message: "Withdrawals cannot exceed the amount saved" });
+      } else {
+        res.status(500).json({ message: "Failed to add contribution" });
+      }
+    }
+  });
+
+  app.put("/api/goals/:id/contributions/:contributionId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const validatedData = goalContributionPayloadSchema.partial().parse(req.body);
+      const goal = await storage.getGoal(req.user!.id, req.params.id);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      if (validatedData.transactionId && !(await storage.getTransaction(req.user!.id, validatedData.transactionId))) {
+        return res.status(400).json({ message: "Transaction not found" });
+      }
+
+      const contribution = await storage.updateGoalContribution(req.user!.id, goal.id, req.params.contributionId, validatedData);
+      if (!contribution) {
+        return res.status(404).json({ message: "Contribution not found" });
+      }
+
+      res.json(contribution);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid contribution data", errors: error.errors });
+      } else if (error.message === "Goal balance cannot be negative.") {
+        res.status(400).json({ message: "Withdrawals cannot exceed the amount saved" });
+      } else {
+        res.status(500).json({ message: "Failed to update contribution" });
+      }
+    }
+  });
+
+  app.delete("/api/goals/:id/contributions/:contributionId", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const goal = await storage.getGoal(req.user!.id, req.params.id);
+      if (!goal) {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+
+      const success = await storage.deleteGoalContribution(req.user!.id, goal.id, req.params.contributionId);
+      if (!success) {
+        return res.status(404).json({ message: "Contribution not found" });
+      }
+
+      res.sendStatus(204);
+    } catch (error: any) {
+      if (error.message === "Goal balance cannot be negative.") {
+        res.status(400).json({ message: "Withdrawals cannot exceed the amount saved" });
+      } else {
+        res.status(500).json({ message: "Failed to delete contribution" });
+      }
+    }
+  });
+
   // Notification routes
   app.get("/api/notifications", async (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
@@ -269,7 +2032,7 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const success = await storage.markNotificationAsRead(req.params.id);
+      const success = await storage.markNotificationAsRead(req.user!.id, req.params.id);
       
       if (!success) {
         return res.status(404).json({ message: "Notification not found" });
@@ -286,10 +2049,15 @@ export function registerRoutes(app: Express): Server {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     
     try {
-      const month = parseInt(req.query.month as string) || new Date().getMonth() + 1;
-      const year = parseInt(req.query.year as string) || new Date().getFullYear();
+      // Defaults to the budget month containing today in the user's time zone
+      const { timeZone, budgetMonthStartDay } = await storage.getUserSettings(req.user!.id);
+      const current = getBudgetMonthOf(todayIn(timeZone), budgetMonthStartDay);
+      const month = parseInt(req.query.month as string) || current.month;
+      const year = parseInt(req.query.year as string) || current.year;
+      const { startDate, endDate } = getBudgetMonthPeriod(month, year, budgetMonthStartDay);
       
-      const spendingData = await storage.getSpendingByCategory(req.user!.id, month, year);
+      await fillMissingExchangeRates(req.user!.id);
+      const spendingData = await storage.getSpendingByCategory(req.user!.id, startDate, endDate);
       res.json(spendingData);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch spending analytics" });
@@ -301,13 +2069,140 @@ export function registerRoutes(app: Express): Server {
     
     try {
       const months = parseInt(req.query.months as string) || 6;
-      const trendsData = await storage.getMonthlyTrends(req.user!.id, months);
+      // The last `months` budget months, up to and including the current one
+      const { timeZone, budgetMonthStartDay } = await storage.getUserSettings(req.user!.id);
+      const current = getBudgetMonthOf(todayIn(timeZone), budgetMonthStartDay);
+      const first = shiftBudgetMonth(current, 1 - months);
+      const { startDate } = getBudgetMonthPeriod(first.month, first.year, budgetMonthStartDay);
+      const { endDate } = getBudgetMonthPeriod(current.month, current.year, budgetMonthStartDay);
+
+      await fillMissingExchangeRates(req.user!.id);
+      const trendsData = await storage.getMonthlyTrends(req.user!.id, startDate, endDate, budgetMonthStartDay);
       res.json(trendsData);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch trend analytics" });
     }
   });
 
+  // Income/expense statement for any date range
+  app.get("/api/analytics/statement", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const period = reportPeriodSchema.parse(req.query);
+      await fillMissingExchangeRates(req.user!.id);
+      const totals = await storage.getCategoryTotals(req.user!.id, period.startDate, period.endDate);
+      res.json(summarizePeriod(period, totals));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid report period", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch statement" });
+      }
+    }
+  });
+
+  // The period alongside the one before it and the same period a year ago
+  app.get("/api/analytics/comparison", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const current = reportPeriodSchema.parse(req.query);
+      const periods = [current, getPreviousPeriod(current), getYearAgoPeriod(current)];
+      await fillMissingExchangeRates(req.user!.id);
+      const [currentSummary, previous, yearAgo] = await Promise.all(periods.map(async (period) =>
+        summarizePeriod(period, await storage.getCategoryTotals(req.user!.id, period.startDate, period.endDate))
+      ));
+      res.json({ current: currentSummary, previous, yearAgo });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid report period", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch comparison" });
+      }
+    }
+  });
+
+  // Printable statement for a budget month: totals, category breakdown and
+  // budget vs actual, as a PDF or a spreadsheet
+  app.get("/api/analytics/monthly-statement", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+
+    try {
+      const query = monthlyStatementSchema.parse(req.query);
+      const { timeZone, locale, budgetMonthStartDay } = await storage.getUserSettings(req.user!.id);
+      const current = getBudgetMonthOf(todayIn(timeZone), budgetMonthStartDay);
+      const month = query.month ?? current.month;
+      const year = query.year ?? current.year;
+      const period = getBudgetMonthPeriod(month, year, budgetMonthStartDay);
+
+      await fillMissingExchangeRates(req.user!.id);
+      const totals = await storage.getCategoryTotals(req.user!.id, period.startDate, period.endDate);
+      const [categories, budgets] = await Promise.all([
+        storage.getCategories(req.user!.id),
+        storage.getBudgets(req.user!.id, month, year),
+      ]);
+      const statement = {
+        label: formatStatementPeriod(period, budgetMonthStartDay, locale),
+        owner: `${req.user!.firstName} ${req.user!.lastName}`,
+        currency: req.user!.baseCurrency,
+        locale,
+        summary: summarizePeriod(period, totals),
+        categories,
+        budgets,
+        totals,
+      };
+
+      const fileName = `statement-${year}-${String(month).padStart(2, "0")}.${query.format}`;
+      res.setHeader("Content-Disposition", contentDisposition("attachment", fileName));
+      if (query.format === "xlsx") {
+        res.type(XLSX_CONTENT_TYPE).send(createWorkbook(statementTables(statement)));
+      } else {
+        res.type("application/pdf").send(renderStatementPdf(statement));
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid statement month", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create statement" });
+      }
+    }
+  });
+
+  app.get("/api/analytics/payees", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { startDate, endDate, limit } = payeeReportSchema.parse(req.query);
+      await fillMissingExchangeRates(req.user!.id);
+      const payees = await storage.getTopPayees(req.user!.id, startDate, endDate, limit);
+      res.json(payees);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid report period", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch top payees" });
+      }
+    }
+  });
+
+  app.get("/api/analytics/tags", async (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    
+    try {
+      const { startDate, endDate } = reportPeriodSchema.parse(req.query);
+      await fillMissingExchangeRates(req.user!.id);
+      const totals = await storage.getTagTotals(req.user!.id, startDate, endDate);
+      res.json(totals);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid report period", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to fetch tag totals" });
+      }
+    }
+  });
+
   const server = createServer(app);
   return server;
 }
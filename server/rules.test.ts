@@ -0,0 +1,142 @@
+import { describe, expect, it } from "vitest";
+import { createCategorizer, type RuleSubject } from "./rules";
+import { ruleConditionSchema, type CategorizationRule, type RuleCondition } from "@shared/schema";
+
+let created = 0;
+
+function rule(categoryId: string, conditions: RuleCondition[], overrides: Partial<CategorizationRule> = {}): CategorizationRule {
+  created += 1;
+  return {
+    id: `rule-${created}`,
+    userId: "user",
+    name: categoryId,
+    priority: 0,
+    conditions,
+    categoryId,
+    isActive: true,
+    createdAt: new Date(Date.UTC(2026, 0, 1, 0, 0, created)),
+    ...overrides,
+  };
+}
+
+const expense = (description: string, amount = "10.00", accountId: string | null = "checking"): RuleSubject =>
+  ({ description, amount, type: "expense", accountId });
+
+// Whether a single condition matches the transaction
+const matches = (condition: RuleCondition, transaction: RuleSubject) =>
+  createCategorizer([rule("hit", [condition])])(transaction) === "hit";
+
+describe("createCategorizer", () => {
+  describe("description operators", () => {
+    it("contains, ignoring case", () => {
+      const condition: RuleCondition = { field: "description", operator: "contains", value: "coffee" };
+      expect(matches(condition, expense("Blue Bottle COFFEE #12"))).toBe(true);
+      expect(matches(condition, expense("Tea house"))).toBe(false);
+    });
+
+    it("equals the trimmed description", () => {
+      const condition: RuleCondition = { field: "description", operator: "equals", value: "netflix" };
+      expect(matches(condition, expense("  Netflix "))).toBe(true);
+      expect(matches(condition, expense("Netflix.com"))).toBe(false);
+    });
+
+    it("startsWith and endsWith", () => {
+      const startsWith: RuleCondition = { field: "description", operator: "startsWith", value: "uber" };
+      const endsWith: RuleCondition = { field: "description", operator: "endsWith", value: "eats" };
+      expect(matches(startsWith, expense("UBER *TRIP"))).toBe(true);
+      expect(matches(startsWith, expense("Paid Uber"))).toBe(false);
+      expect(matches(endsWith, expense("Uber Eats"))).toBe(true);
+      expect(matches(endsWith, expense("Eats at Uber"))).toBe(false);
+    });
+
+    it("regex, ignoring case", () => {
+      const condition: RuleCondition = { field: "description", operator: "regex", value: "^amzn mktp [a-z]{2}\\b" };
+      expect(matches(condition, expense("AMZN Mktp US*2K4"))).toBe(true);
+      expect(matches(condition, expense("Amazon Prime"))).toBe(false);
+    });
+
+    it("regex runs in linear time on patterns that backtrack in RegExp", () => {
+      const condition: RuleCondition = { field: "description", operator: "regex", value: "^(a+)+$" };
+      const started = performance.now();
+      expect(matches(condition, expense(`${"a".repeat(5000)}!`))).toBe(false);
+      expect(performance.now() - started).toBeLessThan(1000);
+    });
+
+    it("regex that RE2 can't compile never matches", () => {
+      const condition: RuleCondition = { field: "description", operator: "regex", value: "(?=coffee)coffee" };
+      expect(matches(condition, expense("coffee"))).toBe(false);
+    });
+  });
+
+  describe("amount operators", () => {
+    const cases: Array<[RuleCondition["operator"], string, boolean[]]> = [
+      // Against amounts of 49.99, 50.00 and 50.01
+      ["gt", "50", [false, false, true]],
+      ["gte", "50", [false, true, true]],
+      ["lt", "50", [true, false, false]],
+      ["lte", "50", [true, true, false]],
+      ["eq", "50", [false, true, false]],
+    ];
+
+    it.each(cases)("%s %s compares the absolute amount", (operator, value, expected) => {
+      const condition: RuleCondition = { field: "amount", operator, value };
+      expect(["49.99", "-50.00", "50.01"].map(amount => matches(condition, expense("Shop", amount)))).toEqual(expected);
+    });
+  });
+
+  it("matches on type and account", () => {
+    const income: RuleCondition = { field: "type", operator: "equals", value: "income" };
+    const account: RuleCondition = { field: "accountId", operator: "equals", value: "savings" };
+    expect(matches(income, { description: "Salary", amount: "100", type: "income" })).toBe(true);
+    expect(matches(income, expense("Salary"))).toBe(false);
+    expect(matches(account, expense("Interest", "1.00", "savings"))).toBe(true);
+    expect(matches(account, expense("Interest", "1.00", null))).toBe(false);
+  });
+
+  it("needs every condition of a rule to match", () => {
+    const categorize = createCategorizer([
+      rule("big-coffee", [
+        { field: "description", operator: "contains", value: "coffee" },
+        { field: "amount", operator: "gt", value: "20" },
+      ]),
+    ]);
+    expect(categorize(expense("Coffee beans", "25.00"))).toBe("big-coffee");
+    expect(categorize(expense("Coffee beans", "5.00"))).toBeUndefined();
+  });
+
+  it("uses the first matching rule by priority, then by age", () => {
+    const coffee: RuleCondition = { field: "description", operator: "contains", value: "coffee" };
+    const older = rule("older", [coffee], { priority: 5 });
+    const newer = rule("newer", [coffee], { priority: 5 });
+    const first = rule("first", [coffee], { priority: 1 });
+
+    expect(createCategorizer([older, newer, first])(expense("Coffee"))).toBe("first");
+    expect(createCategorizer([newer, older])(expense("Coffee"))).toBe("older");
+  });
+
+  it("skips inactive rules", () => {
+    const coffee: RuleCondition = { field: "description", operator: "contains", value: "coffee" };
+    const categorize = createCategorizer([
+      rule("inactive", [coffee], { priority: 0, isActive: false }),
+      rule("active", [coffee], { priority: 1 }),
+    ]);
+    expect(categorize(expense("Coffee"))).toBe("active");
+  });
+
+  it("never categorizes transfers", () => {
+    const categorize = createCategorizer([rule("any", [{ field: "amount", operator: "gte", value: "0" }])]);
+    expect(categorize({ description: "To savings", amount: "100", type: "transfer" })).toBeUndefined();
+  });
+});
+
+describe("ruleConditionSchema", () => {
+  it("accepts regexes RE2 can run", () => {
+    expect(ruleConditionSchema.safeParse({ field: "description", operator: "regex", value: "^(uber|lyft)\\b" }).success).toBe(true);
+  });
+
+  it("turns away invalid regexes and ones RE2 can't run", () => {
+    for (const value of ["(unclosed", "(?=lookahead)", "(a)\\1"]) {
+      expect(ruleConditionSchema.safeParse({ field: "description", operator: "regex", value }).success).toBe(false);
+    }
+  });
+});
@@ -0,0 +1,74 @@
+import { RE2JS } from "re2js";
+import type { CategorizationRule, RuleCondition } from "@shared/schema";
+
+// The transaction fields rules can look at.
+export interface RuleSubject {
+  description: string;
+  amount: string | number;
+  type: string;
+  accountId?: string | null;
+}
+
+export type Categorizer = (transaction: RuleSubject) => string | undefined;
+
+function compileCondition(condition: RuleCondition): (transaction: RuleSubject) => boolean {
+  const value = condition.value.toLowerCase();
+
+  switch (condition.field) {
+    case "description": {
+      // RE2 rather than RegExp: a user's pattern can't backtrack its way
+      // into blocking the server. A pattern it can't compile, saved before
+      // rules were checked against it, never matches.
+      if (condition.operator === "regex") {
+        let pattern: RE2JS;
+        try {
+          pattern = RE2JS.compile(condition.value, RE2JS.CASE_INSENSITIVE);
+        } catch {
+          return () => false;
+        }
+        return (transaction) => pattern.test(transaction.description);
+      }
+      return (transaction) => {
+        const description = transaction.description.trim().toLowerCase();
+        switch (condition.operator) {
+          case "equals": return description === value;
+          case "startsWith": return description.startsWith(value);
+          case "endsWith": return description.endsWith(value);
+          default: return description.includes(value);
+        }
+      };
+    }
+    case "amount": {
+      const target = Number(condition.value);
+      return (transaction) => {
+        const amount = Math.abs(Number(transaction.amount));
+        switch (condition.operator) {
+          case "gt": return amount > target;
+          case "gte": return amount >= target;
+          case "lt": return amount < target;
+          case "lte": return amount <= target;
+          default: return Math.abs(amount - target) < 0.005;
+        }
+      };
+    }
+    case "type":
+      return (transaction) => transaction.type === condition.value;
+    case "accountId":
+      return (transaction) => transaction.accountId === condition.value;
+  }
+}
+
+// Compiles the user's rules once and returns a function giving the category
+// of the first active rule, in priority order, whose conditions all match.
+// Transfers are never categorized.
+export function createCategorizer(rules: CategorizationRule[]): Categorizer {
+  const compiled = rules
+    .filter(rule => rule.isActive)
+    .sort((a, b) => a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime())
+    .map(rule => ({ categoryId: rule.categoryId, conditions: rule.conditions.map(compileCondition) }));
+
+  return (transaction) => {
+    if (transaction.type === "transfer") return undefined;
+    return compiled.find(rule => rule.conditions.every(matches => matches(transaction)))?.categoryId;
+  };
+}
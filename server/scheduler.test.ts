@@ -0,0 +1,150 @@
+import { afterEach, beforeAll, describe, expect, it } from "vitest";
+import type { Express } from "express";
+import type TestAgent from "supertest/lib/agent";
+import { storage } from "./storage";
+import { materializeDueRecurringTransactions } from "./scheduler";
+import { createTestApp, signUp } from "./test/app";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const at = (value: string) => new Date(`${value}T00:00:00.000Z`);
+
+describe("recurring transaction scheduler", () => {
+  let app: Express;
+  // Runs pick up every due template, so each test pauses its own afterwards
+  const templates: Array<{ userId: string; recurringId: string }> = [];
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  afterEach(async () => {
+    for (const { userId, recurringId } of templates.splice(0)) {
+      await storage.updateRecurringTransaction(userId, recurringId, { isActive: false });
+    }
+  });
+
+  // A signed-in user with a category, an account and a daily template
+  async function dailyTemplate(startDate: Date, extra: Record<string, unknown> = {}) {
+    const { agent, user } = await signUp(app);
+    const { body: category } = await agent.post("/api/categories").send({ name: "Rent", color: "#64748b" }).expect(201);
+    const { body: account } = await agent.post("/api/accounts").send({ name: "Checking", type: "checking" }).expect(201);
+    const { body: recurring } = await agent.post("/api/recurring").send({
+      amount: "10.00", description: "Daily", type: "expense", frequency: "daily", interval: 1,
+      startDate: startDate.toISOString(), categoryId: category.id, accountId: account.id, ...extra,
+    }).expect(201);
+    templates.push({ userId: user.id, recurringId: recurring.id });
+    return { agent: agent as TestAgent, userId: user.id, recurringId: recurring.id as string };
+  }
+
+  async function occurrenceDates(userId: string, recurringId: string) {
+    const transactions = await storage.getTransactions(userId, 1000);
+    return transactions
+      .filter(transaction => transaction.recurringTransactionId === recurringId)
+      .map(transaction => new Date(transaction.date).toISOString().slice(0, 10))
+      .sort();
+  }
+
+  it("creates each due occurrence once and advances the template", async () => {
+    const { userId, recurringId } = await dailyTemplate(at("2026-01-01"));
+
+    await materializeDueRecurringTransactions(new Date("2026-01-05T12:00:00.000Z"));
+    expect(await occurrenceDates(userId, recurringId)).toEqual(["2026-01-01", "2026-01-02", "2026-01-03", "2026-01-04", "2026-01-05"]);
+    expect(await storage.getRecurringTransaction(userId, recurringId)).toMatchObject({ occurrenceCount: 5, nextDate: at("2026-01-06") });
+
+    await materializeDueRecurringTransactions(new Date("2026-01-05T12:00:00.000Z"));
+    expect(await occurrenceDates(userId, recurringId)).toHaveLength(5);
+  });
+
+  it("skips occurrences marked as skipped", async () => {
+    const { agent, userId, recurringId } = await dailyTemplate(at("2026-01-01"));
+    await agent.put(`/api/recurring/${recurringId}/occurrences`).send({ occurrenceDate: at("2026-01-02").toISOString(), isSkipped: true }).expect(200);
+
+    await materializeDueRecurringTransactions(new Date("2026-01-03T12:00:00.000Z"));
+    expect(await occurrenceDates(userId, recurringId)).toEqual(["2026-01-01", "2026-01-03"]);
+    expect((await storage.getRecurringTransaction(userId, recurringId))?.occurrenceCount).toBe(3);
+  });
+
+  it("stops at the end date", async () => {
+    const { userId, recurringId } = await dailyTemplate(at("2026-01-01"), { endDate: at("2026-01-03").toISOString() });
+
+    await materializeDueRecurringTransactions(new Date("2026-01-10T00:00:00.000Z"));
+    expect(await occurrenceDates(userId, recurringId)).toEqual(["2026-01-01", "2026-01-02", "2026-01-03"]);
+    expect((await storage.getRecurringTransaction(userId, recurringId))?.nextDate).toBeNull();
+  });
+
+  it("catches up at most 100 occurrences per run", async () => {
+    const { userId, recurringId } = await dailyTemplate(at("2026-01-01"));
+    const asOf = new Date("2026-04-30T12:00:00.000Z"); // 120 days in
+
+    await materializeDueRecurringTransactions(asOf);
+    expect(await occurrenceDates(userId, recurringId)).toHaveLength(100);
+    expect((await storage.getRecurringTransaction(userId, recurringId))?.nextDate).toEqual(at("2026-04-11"));
+
+    await materializeDueRecurringTransactions(asOf);
+    const dates = await occurrenceDates(userId, recurringId);
+    expect(dates).toHaveLength(120);
+    expect(dates.at(-1)).toBe("2026-04-30");
+  }, 60_000);
+
+  it("doesn't create an occurrence twice when runs overlap", async () => {
+    const { userId, recurringId } = await dailyTemplate(at("2026-01-01"));
+    const asOf = new Date("2026-01-20T12:00:00.000Z");
+
+    await Promise.all([materializeDueRecurringTransactions(asOf), materializeDueRecurringTransactions(asOf)]);
+    await materializeDueRecurringTransactions(asOf);
+
+    const dates = await occurrenceDates(userId, recurringId);
+    expect(dates).toHaveLength(20);
+    expect(new Set(dates).size).toBe(20);
+    expect((await storage.getRecurringTransaction(userId, recurringId))?.occurrenceCount).toBe(20);
+  });
+
+  it("creates occurrences due under the old schedule before changing it", async () => {
+    const start = new Date(Date.now() - 10 * DAY_MS - 60 * 60 * 1000);
+    const { agent, userId, recurringId } = await dailyTemplate(start);
+    await materializeDueRecurringTransactions(new Date(Date.now() - 6 * DAY_MS));
+    expect(await occurrenceDates(userId, recurringId)).toHaveLength(5);
+
+    const { body } = await agent.put(`/api/recurring/${recurringId}`).send({ frequency: "weekly" }).expect(200);
+
+    // All eleven daily occurrences up to now, then weekly from the next one
+    expect(await occurrenceDates(userId, recurringId)).toHaveLength(11);
+    expect(body.occurrenceCount).toBe(2);
+    expect(new Date(body.nextDate)).toEqual(new Date(start.getTime() + 14 * DAY_MS));
+  });
+
+  it("keeps counting towards the occurrence limit after the schedule changes", async () => {
+    const now = new Date();
+    const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 5, 1));
+    const { agent, userId, recurringId } = await dailyTemplate(start, { frequency: "monthly", occurrenceLimit: 12 });
+    await materializeDueRecurringTransactions(now);
+    expect(await occurrenceDates(userId, recurringId)).toHaveLength(6);
+
+    // Every other month from here on, for the six occurrences left
+    const { body } = await agent.put(`/api/recurring/${recurringId}`).send({ interval: 2 }).expect(200);
+    expect(new Date(body.nextDate)).toEqual(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)));
+
+    await materializeDueRecurringTransactions(new Date(Date.UTC(now.getUTCFullYear() + 2, now.getUTCMonth(), 1)));
+    const dates = await occurrenceDates(userId, recurringId);
+    expect(dates).toHaveLength(12);
+    expect(dates.at(-1)).toBe(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 11, 1)).toISOString().slice(0, 10));
+    expect((await storage.getRecurringTransaction(userId, recurringId))?.nextDate).toBeNull();
+  });
+
+  it("refuses a schedule change until the template has caught up", async () => {
+    const start = new Date(Date.now() - 110 * DAY_MS);
+    const { agent, userId, recurringId } = await dailyTemplate(start);
+
+    // One run's worth is created, and the schedule is left as it was
+    await agent.put(`/api/recurring/${recurringId}`).send({ frequency: "weekly" }).expect(409);
+    expect(await occurrenceDates(userId, recurringId)).toHaveLength(100);
+    expect((await storage.getRecurringTransaction(userId, recurringId))?.frequency).toBe("daily");
+
+    // Other changes don't wait
+    await agent.put(`/api/recurring/${recurringId}`).send({ description: "Still daily" }).expect(200);
+
+    await materializeDueRecurringTransactions();
+    await agent.put(`/api/recurring/${recurringId}`).send({ frequency: "weekly" }).expect(200);
+    expect(await occurrenceDates(userId, recurringId)).toHaveLength(111);
+  }, 60_000);
+});
@@ -0,0 +1,103 @@
+import { storage } from "./storage";
+import { getScheduledDate } from "./recurrence";
+import { checkBudgetAlerts } from "./budget-alerts";
+import { log } from "./vite";
+import type { RecurringTransaction } from "@shared/schema";
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000; // hourly
+
+// Occurrences one run creates per template. A template that has fallen
+// further behind, e.g. after a long outage, catches up over later runs.
+const MAX_OCCURRENCES_PER_RUN = 100;
+
+// Creates a transaction for every occurrence of the template that is due,
+// applying per-occurrence exceptions. The template is advanced together
+// with each occurrence, so a failure part-way through leaves it pointing
+// at the first occurrence not yet created. Returns the number of
+// transactions created.
+async function materializeRecurringTransaction(recurring: RecurringTransaction, asOf: Date, limit = MAX_OCCURRENCES_PER_RUN) {
+  const exceptions = await storage.getRecurringExceptions(recurring.userId, recurring.id);
+  let current = recurring;
+  let created = 0;
+
+  for (let i = 0; i < limit && current.nextDate && current.nextDate <= asOf; i++) {
+    const occurrenceDate = current.nextDate;
+    const exception = exceptions.find(e => e.occurrenceDate.getTime() === occurrenceDate.getTime());
+    const occurrenceCount = current.occurrenceCount + 1;
+    const nextDate = getScheduledDate(recurring, occurrenceCount);
+
+    const result = await storage.createRecurringOccurrence(current, { occurrenceCount, nextDate }, exception?.isSkipped ? null : {
+      userId: recurring.userId,
+      accountId: recurring.accountId,
+      transferAccountId: recurring.transferAccountId,
+      amount: exception?.amount ?? recurring.amount,
+      description: exception?.description ?? recurring.description,
+      categoryId: exception?.categoryId ?? recurring.categoryId,
+      type: recurring.type,
+      date: occurrenceDate,
+      recurringTransactionId: recurring.id,
+    });
+    // Another run got there first
+    if (!result) break;
+
+    current = { ...current, occurrenceCount, nextDate };
+    if (result.transaction) {
+      created++;
+      // The occurrence is saved either way; a failed alert check only
+      // means no alert for it.
+      await checkBudgetAlerts(recurring.userId, [result.transaction]).catch((error) => {
+        console.error(`Error checking budget alerts for recurring transaction ${recurring.id}:`, error);
+      });
+    }
+  }
+
+  return created;
+}
+
+// Creates the template's due occurrences, up to the same limit as a
+// scheduler run, and returns the template as it stands afterwards. Used
+// before a schedule changes, so occurrences due under the old one aren't
+// lost; a template still behind after this has nextDate <= asOf.
+export async function catchUpRecurringTransaction(recurring: RecurringTransaction, asOf = new Date()) {
+  if (!recurring.isActive) return recurring;
+  await materializeRecurringTransaction(recurring, asOf);
+  return (await storage.getRecurringTransaction(recurring.userId, recurring.id)) ?? recurring;
+}
+
+export async function materializeDueRecurringTransactions(asOf = new Date()) {
+  const due = await storage.getDueRecurringTransactions(asOf);
+  let created = 0;
+
+  for (const recurring of due) {
+    try {
+      created += await materializeRecurringTransaction(recurring, asOf);
+    } catch (error) {
+      console.error(`Error materializing recurring transaction ${recurring.id}:`, error);
+    }
+  }
+
+  if (created > 0) {
+    log(`Created ${created} recurring transaction(s)`, "scheduler");
+  }
+}
+
+// Runs once at startup to catch up on anything missed while the server was
+// down, then on a fixed interval.
+export function startRecurringScheduler() {
+  let isRunning = false;
+
+  const run = async () => {
+    if (isRunning) return;
+    isRunning = true;
+    try {
+      await materializeDueRecurringTransactions();
+    } catch (error) {
+      console.error("Error running recurring transaction scheduler:", error);
+    } finally {
+      isRunning = false;
+    }
+  };
+
+  void run();
+  return setInterval(run, SCHEDULER_INTERVAL_MS);
+}
@@ -0,0 +1,64 @@
+import { createHash } from "crypto";
+import type { NextFunction, Request, Response } from "express";
+import type { UserSession } from "@shared/schema";
+import { storage, type StoredSession } from "./storage";
+
+// Signed-in sessions as their owner sees them in Settings. Each session
+// remembers when it signed in and when and from where it was last used.
+
+// Each update is a write to the session store, so last-seen times are
+// only this precise.
+const LAST_SEEN_INTERVAL_MS = 5 * 60 * 1000;
+
+// Session ids stay on the server; clients refer to a session by a hash of
+// its id.
+export function sessionPublicId(sid: string) {
+  return createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
+
+function recordActivity(req: Request) {
+  req.session.lastSeenAt = Date.now();
+  req.session.ip = req.ip;
+  req.session.userAgent = req.get("user-agent")?.slice(0, 512);
+}
+
+// Call once req.login has attached the user to a fresh session.
+export function recordSignIn(req: Request) {
+  req.session.signedInAt = Date.now();
+  recordActivity(req);
+}
+
+export function trackSessionActivity(req: Request, _res: Response, next: NextFunction) {
+  if (req.isAuthenticated() && Date.now() - (req.session.lastSeenAt ?? 0) >= LAST_SEEN_INTERVAL_MS) {
+    recordActivity(req);
+  }
+  next();
+}
+
+const isoOrNull = (time: number | undefined) => (time ? new Date(time).toISOString() : null);
+
+function toUserSession({ sid, data, expire }: StoredSession, currentSid: string): UserSession {
+  return {
+    id: sessionPublicId(sid),
+    current: sid === currentSid,
+    userAgent: data.userAgent ?? null,
+    ip: data.ip ?? null,
+    signedInAt: isoOrNull(data.signedInAt),
+    lastSeenAt: isoOrNull(data.lastSeenAt),
+    expiresAt: new Date(expire).toISOString(),
+  };
+}
+
+// The current session first, then the most recently used.
+export async function listSessions(userId: string, currentSid: string): Promise<UserSession[]> {
+  const sessions = (await storage.getUserSessions(userId)).map(stored => toUserSession(stored, currentSid));
+  return sessions.sort((a, b) =>
+    Number(b.current) - Number(a.current) || (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? "")
+  );
+}
+
+// The store's session id behind a public id, if it's one of the user's.
+export async function findSessionId(userId: string, id: string): Promise<string | undefined> {
+  const stored = await storage.getUserSessions(userId);
+  return stored.find(({ sid }) => sessionPublicId(sid) === id)?.sid;
+}
@@ -1,27 +1,383 @@
 import { 
   users, 
+  categories,
+  accounts,
   transactions, 
+  transactionSplits,
+  tags,
+  transactionTags,
+  attachments,
+  recurringTransactions,
+  recurringExceptions,
   budgets, 
+  budgetAlerts,
   goals, 
+  goalContributions,
   notifications,
+  importProfiles,
+  ledgerAccounts,
+  duplicateDismissals,
+  categorizationRules,
+  exchangeRates,
+  userSettings,
+  twoFactorSecrets,
+  recoveryCodes,
+  authTokens,
   type User, 
   type InsertUser,
+  type UserSettings,
+  type InsertUserSettings,
+  type TwoFactorSecret,
+  type AuthToken,
+  type AuthTokenPurpose,
+  type Category,
+  type InsertCategory,
+  type Account,
+  type InsertAccount,
+  type AccountWithBalance,
   type Transaction,
   type InsertTransaction,
+  type TransactionSplit,
+  type InsertTransactionSplit,
+  type TransactionWithDetails,
+  type TagWithUsage,
+  type Attachment,
+  type TransactionSearch,
+  type TransactionPage,
+  type RecurringTransaction,
+  type InsertRecurringTransaction,
+  type RecurringException,
+  type InsertRecurringException,
   type Budget,
   type InsertBudget,
   type Goal,
   type InsertGoal,
+  type GoalContribution,
+  type InsertGoalContribution,
   type Notification,
-  type InsertNotification
+  type InsertNotification,
+  type ImportProfile,
+  type CsvMapping,
+  type LedgerAccount,
+  type CategorizationRule,
+  type InsertCategorizationRule,
+  type ExchangeRate,
+  type InsertExchangeRate,
+  type MissingExchangeRate,
+  DEFAULT_CATEGORIES,
+  MAX_ATTACHMENTS_PER_TRANSACTION,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and, desc, sql, gte, lte } from "drizzle-orm";
+import { eq, and, or, desc, asc, sql, gt, gte, lt, lte, ilike, inArray, notInArray, ne, type SQL, type SQLWrapper } from "drizzle-orm";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
+import { getPairKey } from "./duplicates";
+import type { BackupData, BackupSection, RestoreMode, RestoreSummary } from "@shared/backup";
+import { randomUUID } from "crypto";
+import { z } from "zod";
 
 const PostgresSessionStore = connectPg(session);
+// connect-pg-simple's table: sid, sess (the session data as JSON), expire
+const SESSION_TABLE = "session";
+
+// Template fields plus the scheduler's bookkeeping columns.
+export type RecurringTransactionUpdate = Partial<InsertRecurringTransaction> &
+  Partial<Pick<RecurringTransaction, "occurrenceCount" | "occurrenceOffset" | "nextDate">>;
+
+// Search cursors are the sort value and id of the last row returned.
+const searchCursorSchema = z.tuple([z.string(), z.string().uuid()]);
+
+function encodeSearchCursor(value: string, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
+
+function decodeSearchCursor(cursor: string): [string, string] {
+  try {
+    return searchCursorSchema.parse(JSON.parse(Buffer.from(cursor, "base64url").toString()));
+  } catch {
+    throw new Error('Invalid cursor.');
+  }
+}
+
+type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type DbExecutor = typeof db | DbTransaction;
+
+// The parent's id, only when it belongs to the user. Used as a subquery or
+// checked before an insert, so rows under another user's template, budget
+// or goal are never read or written.
+const ownedRecurringTransaction = (executor: DbExecutor, userId: string, id: string) =>
+  executor.select({ id: recurringTransactions.id }).from(recurringTransactions)
+    .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+const ownedBudget = (executor: DbExecutor, userId: string, id: string) =>
+  executor.select({ id: budgets.id }).from(budgets).where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
+const ownedGoal = (executor: DbExecutor, userId: string, id: string) =>
+  executor.select({ id: goals.id }).from(goals).where(and(eq(goals.id, id), eq(goals.userId, userId)));
+
+// Recomputes a goal's balance from its contributions and marks it completed
+// once the target is reached. Throws if withdrawals exceed deposits.
+async function refreshGoalBalance(tx: DbTransaction, goalId: string): Promise<Goal> {
+  const [{ balance }] = await tx
+    .select({
+      balance: sql<string>`coalesce(sum(case when ${goalContributions.type} = 'deposit' then ${goalContributions.amount} else -${goalContributions.amount} end), 0)`,
+    })
+    .from(goalContributions)
+    .where(eq(goalContributions.goalId, goalId));
+
+  if (parseFloat(balance) < 0) {
+    throw new Error('Goal balance cannot be negative.');
+  }
+
+  const [goal] = await tx
+    .update(goals)
+    .set({ currentAmount: balance, isCompleted: sql`${balance} >= ${goals.targetAmount}` })
+    .where(eq(goals.id, goalId))
+    .returning();
+  return goal;
+}
+
+// Currency conversion happens in SQL so analytics can keep aggregating in the
+// database. Rates are looked up in the owner's rate table: the latest rate
+// on or before `asOf`, or failing that the inverse of the opposite pair.
+function baseCurrencyOf(userId: SQLWrapper) {
+  return sql`(SELECT ${users.baseCurrency} FROM ${users} WHERE ${users.id} = ${userId})`;
+}
+
+function latestRate(userId: SQLWrapper, from: SQLWrapper, to: SQLWrapper, asOf: SQLWrapper) {
+  return sql`(SELECT ${exchangeRates.rate} FROM ${exchangeRates}
+    WHERE ${exchangeRates.userId} = ${userId}
+      AND ${exchangeRates.fromCurrency} = ${from}
+      AND ${exchangeRates.toCurrency} = ${to}
+      AND ${exchangeRates.date} <= ${asOf}
+    ORDER BY ${exchangeRates.date} DESC LIMIT 1)`;
+}
+
+// `amount` in the user's base currency, or NULL when no rate is known.
+function toBaseCurrency(amount: SQLWrapper, currency: SQLWrapper, userId: SQLWrapper, asOf: SQLWrapper) {
+  const baseCurrency = baseCurrencyOf(userId);
+  return sql<string>`(CASE WHEN ${currency} = ${baseCurrency} THEN ${amount}
+    ELSE ${amount} * COALESCE(${latestRate(userId, currency, baseCurrency, asOf)}, 1 / ${latestRate(userId, baseCurrency, currency, asOf)})
+  END)`;
+}
+
+// Transaction amounts at the rate on the transaction date. Transactions
+// without a rate are left out of totals until one is added.
+const transactionBaseAmount = toBaseCurrency(transactions.amount, transactions.currency, transactions.userId, transactions.date);
+const sumBaseAmount = (amount: SQLWrapper = transactionBaseAmount) => sql<string>`COALESCE(ROUND(SUM(${amount}), 2), 0)`;
+
+// Per-category lines for queries that left join transaction_splits: one per
+// split line for split transactions, otherwise the transaction itself.
+const lineCategoryId = sql<string | null>`(CASE WHEN ${transactionSplits.id} IS NULL THEN ${transactions.categoryId} ELSE ${transactionSplits.categoryId} END)`;
+const lineBaseAmount = toBaseCurrency(
+  sql`COALESCE(${transactionSplits.amount}, ${transactions.amount})`,
+  transactions.currency,
+  transactions.userId,
+  transactions.date,
+);
+
+// Transactions with a split line in one of the categories.
+function hasSplitIn(categoryIds: string[]) {
+  return sql`EXISTS (SELECT 1 FROM ${transactionSplits}
+    WHERE ${transactionSplits.transactionId} = ${transactions.id}
+      AND ${inArray(transactionSplits.categoryId, categoryIds)})`;
+}
+
+const isSplit = sql`EXISTS (SELECT 1 FROM ${transactionSplits} WHERE ${transactionSplits.transactionId} = ${transactions.id})`;
+
+// Replaces a transaction's split lines, keeping their order.
+async function replaceSplits(tx: DbTransaction, transactionId: string, splits: InsertTransactionSplit[]): Promise<TransactionSplit[]> {
+  await tx.delete(transactionSplits).where(eq(transactionSplits.transactionId, transactionId));
+  if (splits.length === 0) return [];
+  return await tx
+    .insert(transactionSplits)
+    .values(splits.map((split, position) => ({ ...split, transactionId, position })))
+    .returning();
+}
+
+// Replaces a transaction's tags, creating tags the user doesn't have yet.
+// Returns the tag names in alphabetical order.
+async function replaceTags(tx: DbTransaction, userId: string, transactionId: string, names: string[]): Promise<string[]> {
+  await tx.delete(transactionTags).where(eq(transactionTags.transactionId, transactionId));
+  const uniqueNames = Array.from(new Set(names)).sort();
+  if (uniqueNames.length === 0) return [];
+
+  await tx
+    .insert(tags)
+    .values(uniqueNames.map(name => ({ userId, name })))
+    .onConflictDoNothing({ target: [tags.userId, tags.name] });
+  const tagRows = await tx
+    .select({ id: tags.id })
+    .from(tags)
+    .where(and(eq(tags.userId, userId), inArray(tags.name, uniqueNames)));
+  await tx.insert(transactionTags).values(tagRows.map(tag => ({ transactionId, tagId: tag.id })));
+  return uniqueNames;
+}
+
+// Inserts a transaction with its split lines and tags.
+async function insertTransaction(
+  tx: DbTransaction,
+  { splits = [], tags: tagNames = [], ...transaction }: TransactionInput & { userId: string; recurringTransactionId?: string | null },
+): Promise<TransactionWithDetails> {
+  const [newTransaction] = await tx
+    .insert(transactions)
+    .values({
+      ...transaction,
+      categoryId: splits.length > 0 ? null : transaction.categoryId,
+      currency: transaction.currency ?? defaultCurrency(transaction.userId, transaction.accountId),
+    })
+    .returning();
+  return {
+    ...newTransaction,
+    splits: await replaceSplits(tx, newTransaction.id, splits),
+    tags: await replaceTags(tx, transaction.userId, newTransaction.id, tagNames),
+    attachments: [],
+  };
+}
+
+// Transactions with one of the tags.
+function hasTagIn(names: string[]) {
+  return sql`EXISTS (SELECT 1 FROM ${transactionTags}
+    INNER JOIN ${tags} ON ${tags.id} = ${transactionTags.tagId}
+    WHERE ${transactionTags.transactionId} = ${transactions.id}
+      AND ${inArray(tags.name, names)})`;
+}
+
+// Adds split lines, tag names and attachments to transaction rows.
+async function withDetails(executor: typeof db | DbTransaction, rows: Transaction[]): Promise<TransactionWithDetails[]> {
+  if (rows.length === 0) return [];
+  const ids = rows.map(row => row.id);
+  const splits = await executor
+    .select()
+    .from(transactionSplits)
+    .where(inArray(transactionSplits.transactionId, ids))
+    .orderBy(transactionSplits.position);
+  const tagRows = await executor
+    .select({ transactionId: transactionTags.transactionId, name: tags.name })
+    .from(transactionTags)
+    .innerJoin(tags, eq(tags.id, transactionTags.tagId))
+    .where(inArray(transactionTags.transactionId, ids))
+    .orderBy(tags.name);
+  const attachmentRows = await executor
+    .select()
+    .from(attachments)
+    .where(inArray(attachments.transactionId, ids))
+    .orderBy(attachments.createdAt);
+  return rows.map(row => ({
+    ...row,
+    splits: splits.filter(split => split.transactionId === row.id),
+    tags: tagRows.filter(tag => tag.transactionId === row.id).map(tag => tag.name),
+    attachments: attachmentRows.filter(attachment => attachment.transactionId === row.id),
+  }));
+}
+
+// Splits rows into batches that stay under Postgres' bind parameter limit.
+function chunks<T>(rows: T[], size = 500): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < rows.length; i += size) batches.push(rows.slice(i, i + size));
+  return batches;
+}
+
+type OwnedTable = typeof categories | typeof accounts | typeof recurringTransactions | typeof transactions
+  | typeof categorizationRules | typeof budgets | typeof goals;
+
+// Picks the id each archived record is restored under: its own id while it
+// is free, or a new one if another user's row already has it. Ids the user
+// already has are returned in `existing`.
+async function planRestoredIds(tx: DbTransaction, table: OwnedTable, userId: string, ids: string[]) {
+  const owners = new Map<string, string>();
+  for (const batch of chunks(ids, 1000)) {
+    const { rows } = await tx.execute<{ id: string; user_id: string }>(
+      sql`SELECT ${table.id} AS id, ${table.userId} AS user_id FROM ${table} WHERE ${inArray(table.id, batch)}`
+    );
+    rows.forEach(row => owners.set(row.id, row.user_id));
+  }
+
+  const idMap = new Map<string, string>();
+  const existing = new Set<string>();
+  ids.forEach((id) => {
+    const owner = owners.get(id);
+    if (owner === userId) existing.add(id);
+    idMap.set(id, owner && owner !== userId ? randomUUID() : id);
+  });
+  return { idMap, existing };
+}
+
+// Removes everything a user owns except the user row itself, children
+// before the rows they reference.
+async function deleteUserData(tx: DbTransaction, userId: string) {
+  await tx.delete(duplicateDismissals).where(eq(duplicateDismissals.userId, userId));
+  await tx.delete(notifications).where(eq(notifications.userId, userId));
+  await tx.delete(budgets).where(eq(budgets.userId, userId));
+  await tx.delete(goals).where(eq(goals.userId, userId));
+  await tx.delete(categorizationRules).where(eq(categorizationRules.userId, userId));
+  await tx.delete(importProfiles).where(eq(importProfiles.userId, userId));
+  await tx.delete(ledgerAccounts).where(eq(ledgerAccounts.userId, userId));
+  await tx.delete(exchangeRates).where(eq(exchangeRates.userId, userId));
+  await tx.delete(transactions).where(eq(transactions.userId, userId));
+  await tx.delete(recurringTransactions).where(eq(recurringTransactions.userId, userId));
+  await tx.delete(tags).where(eq(tags.userId, userId));
+  await tx.delete(accounts).where(eq(accounts.userId, userId));
+  await tx.update(categories).set({ parentId: null }).where(eq(categories.userId, userId));
+  await tx.delete(categories).where(eq(categories.userId, userId));
+  await tx.delete(userSettings).where(eq(userSettings.userId, userId));
+}
+
+// Marks an unexpired, unused account token as used. Undefined when there
+// is none.
+async function useAuthToken(tx: DbTransaction, tokenId: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+  const [token] = await tx
+    .update(authTokens)
+    .set({ usedAt: new Date() })
+    .where(and(
+      eq(authTokens.id, tokenId),
+      eq(authTokens.purpose, purpose),
+      sql`${authTokens.usedAt} IS NULL`,
+      gt(authTokens.expiresAt, new Date()),
+    ))
+    .returning();
+  return token;
+}
+
+// A transaction without a currency takes its account's, or the user's base
+// currency.
+function defaultCurrency(userId: string, accountId?: string | null) {
+  return accountId
+    ? sql`(SELECT ${accounts.currency} FROM ${accounts} WHERE ${accounts.id} = ${accountId})`
+    : baseCurrencyOf(sql`${userId}`);
+}
+
+// Income or expense total for one category over a period. Transfers are
+// excluded.
+export type CategoryTotal = { categoryId: string | null; type: "income" | "expense"; total: string; count: number };
+
+export type PayeeTotal = { payee: string; total: string; count: number };
+
+// Expense total for one tag over a period.
+export type TagTotal = { tagId: string; tag: string; total: string; count: number };
+
+// Without `splits` or `tags` an update leaves a transaction's split lines or
+// tags alone; an empty list removes them.
+export type TransactionInput = InsertTransaction & { splits?: InsertTransactionSplit[]; tags?: string[] };
+
+// The id is chosen when the file is stored, before the row exists.
+export type AttachmentInput = Pick<Attachment, "id" | "userId" | "transactionId" | "fileName" | "contentType" | "size">;
+
+// Attachments are not part of backups. A full replace keeps those whose
+// transaction comes back under the same id and reports the rest, whose
+// transactions are gone, for their files to be deleted.
+export type RestoreResult = { summary: RestoreSummary; removedAttachments: Attachment[] };
+
+// Imported rows may carry an id from the statement file. Split lines and
+// tags are only kept for rows that have one.
+export type ImportedTransaction = TransactionInput & { externalId?: string | null };
+
+// The category or account a ledger account name belongs to.
+export type LedgerAccountTarget = { categoryId?: string; accountId?: string };
+
+// A row of the session store. Passport keeps the signed-in user's id in
+// `data.passport.user`.
+export type StoredSession = { sid: string; data: session.SessionData & { passport?: { user?: string } }; expire: Date };
 
 export interface IStorage {
   // User methods
@@ -29,35 +385,148 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined>;
+  getUserSettings(userId: string): Promise<UserSettings>;
+  saveUserSettings(userId: string, settings: InsertUserSettings): Promise<UserSettings>;
+
+  // Two-factor authentication methods
+  getTwoFactorSecret(userId: string): Promise<TwoFactorSecret | undefined>;
+  enableTwoFactor(userId: string, secret: string, usedStep: number, recoveryCodeHashes: string[]): Promise<void>;
+  disableTwoFactor(userId: string): Promise<boolean>;
+  useTotpStep(userId: string, step: number): Promise<boolean>;
+  countRecoveryCodes(userId: string): Promise<number>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+
+  // Account token methods
+  createAuthToken(userId: string, purpose: AuthTokenPurpose, email: string, expiresAt: Date): Promise<AuthToken>;
+  getAuthToken(id: string): Promise<AuthToken | undefined>;
+  getLatestAuthToken(userId: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined>;
+  resetPassword(tokenId: string, passwordHash: string): Promise<User | undefined>;
+  verifyEmail(tokenId: string): Promise<User | undefined>;
+
+  // Session methods
+  getUserSessions(userId: string): Promise<StoredSession[]>;
+  deleteUserSession(userId: string, sid: string): Promise<boolean>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
+
+  // Category methods
+  getCategories(userId: string): Promise<Category[]>;
+  getCategory(userId: string, id: string): Promise<Category | undefined>;
+  createCategory(category: InsertCategory & { userId: string }): Promise<Category>;
+  updateCategory(userId: string, id: string, category: Partial<InsertCategory>): Promise<Category | undefined>;
+  seedDefaultCategories(userId: string): Promise<void>;
+
+  // Account methods
+  getAccounts(userId: string): Promise<AccountWithBalance[]>;
+  getAccount(userId: string, id: string): Promise<Account | undefined>;
+  createAccount(account: InsertAccount & { userId: string }): Promise<Account>;
+  updateAccount(userId: string, id: string, account: Partial<InsertAccount>): Promise<Account | undefined>;
+  deleteAccount(userId: string, id: string): Promise<boolean>;
 
   // Transaction methods
-  getTransactions(userId: string, limit?: number): Promise<Transaction[]>;
+  getTransactions(userId: string, limit?: number): Promise<TransactionWithDetails[]>;
+  getTransaction(userId: string, id: string): Promise<TransactionWithDetails | undefined>;
   getTransactionsByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Transaction[]>;
-  createTransaction(transaction: InsertTransaction & { userId: string }): Promise<Transaction>;
-  updateTransaction(id: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined>;
-  deleteTransaction(id: string): Promise<boolean>;
+  searchTransactions(userId: string, filters: TransactionSearch): Promise<TransactionPage>;
+  createTransaction(transaction: TransactionInput & { userId: string; recurringTransactionId?: string | null }): Promise<TransactionWithDetails>;
+  updateTransaction(userId: string, id: string, transaction: Partial<TransactionInput>): Promise<TransactionWithDetails | undefined>;
+  deleteTransaction(userId: string, id: string): Promise<boolean>;
+  importTransactions(userId: string, transactions: ImportedTransaction[]): Promise<Transaction[]>;
+  getExistingExternalIds(userId: string, externalIds: string[]): Promise<Set<string>>;
+  mergeTransactions(userId: string, keepId: string, removeId: string): Promise<TransactionWithDetails | undefined>;
+
+  // Tag methods
+  getTags(userId: string): Promise<TagWithUsage[]>;
+
+  // Attachment methods
+  getAttachments(userId: string, transactionId: string): Promise<Attachment[]>;
+  getAttachment(userId: string, id: string): Promise<Attachment | undefined>;
+  createAttachment(attachment: AttachmentInput): Promise<Attachment>;
+  markAttachmentThumbnail(userId: string, id: string): Promise<Attachment | undefined>;
+  deleteAttachment(userId: string, id: string): Promise<Attachment | undefined>;
+
+  // Duplicate review methods
+  getDismissedDuplicatePairs(userId: string): Promise<Set<string>>;
+  dismissDuplicatePair(userId: string, firstTransactionId: string, secondTransactionId: string): Promise<void>;
+
+  // Recurring transaction methods
+  getRecurringTransactions(userId: string): Promise<RecurringTransaction[]>;
+  getRecurringTransaction(userId: string, id: string): Promise<RecurringTransaction | undefined>;
+  getDueRecurringTransactions(asOf: Date): Promise<RecurringTransaction[]>;
+  createRecurringTransaction(recurring: InsertRecurringTransaction & { userId: string; nextDate: Date | null }): Promise<RecurringTransaction>;
+  updateRecurringTransaction(userId: string, id: string, recurring: RecurringTransactionUpdate): Promise<RecurringTransaction | undefined>;
+  createRecurringOccurrence(
+    recurring: RecurringTransaction,
+    next: Pick<RecurringTransaction, "occurrenceCount" | "nextDate">,
+    occurrence: (TransactionInput & { userId: string; recurringTransactionId: string }) | null,
+  ): Promise<{ transaction: TransactionWithDetails | null } | undefined>;
+  deleteRecurringTransaction(userId: string, id: string): Promise<boolean>;
+  getRecurringExceptions(userId: string, recurringTransactionId: string): Promise<RecurringException[]>;
+  upsertRecurringException(userId: string, recurringTransactionId: string, exception: InsertRecurringException): Promise<RecurringException | undefined>;
+  deleteRecurringException(userId: string, recurringTransactionId: string, occurrenceDate: Date): Promise<boolean>;
+
+  // Categorization rule methods
+  getRules(userId: string): Promise<CategorizationRule[]>;
+  getRule(userId: string, id: string): Promise<CategorizationRule | undefined>;
+  createRule(rule: InsertCategorizationRule & { userId: string }): Promise<CategorizationRule>;
+  updateRule(userId: string, id: string, rule: Partial<InsertCategorizationRule>): Promise<CategorizationRule | undefined>;
+  deleteRule(userId: string, id: string): Promise<boolean>;
+  getCategorizableTransactions(userId: string): Promise<Transaction[]>;
+  setTransactionCategories(userId: string, updates: Array<{ id: string; categoryId: string }>): Promise<number>;
+
+  // Import profile methods
+  getImportProfiles(userId: string): Promise<ImportProfile[]>;
+  getImportProfile(userId: string, name: string): Promise<ImportProfile | undefined>;
+  saveImportProfile(userId: string, name: string, mapping: CsvMapping): Promise<ImportProfile>;
+
+  // Ledger account methods
+  getLedgerAccounts(userId: string): Promise<LedgerAccount[]>;
+  saveLedgerAccount(userId: string, target: LedgerAccountTarget, name: string): Promise<LedgerAccount>;
+  deleteLedgerAccount(userId: string, target: LedgerAccountTarget): Promise<boolean>;
 
   // Budget methods
   getBudgets(userId: string, month?: number, year?: number): Promise<Budget[]>;
-  getBudgetByCategory(userId: string, category: string, month: number, year: number): Promise<Budget | undefined>;
+  getBudgetByCategory(userId: string, categoryId: string, month: number, year: number): Promise<Budget | undefined>;
   createBudget(budget: InsertBudget & { userId: string }): Promise<Budget>;
-  updateBudget(id: string, budget: Partial<InsertBudget>): Promise<Budget | undefined>;
-  deleteBudget(id: string): Promise<boolean>;
+  updateBudget(userId: string, id: string, budget: Partial<InsertBudget>): Promise<Budget | undefined>;
+  deleteBudget(userId: string, id: string): Promise<boolean>;
+  syncBudgetAlerts(userId: string, budgetId: string, reachedThresholds: number[]): Promise<number[]>;
 
   // Goal methods
   getGoals(userId: string): Promise<Goal[]>;
+  getGoal(userId: string, id: string): Promise<Goal | undefined>;
   createGoal(goal: InsertGoal & { userId: string }): Promise<Goal>;
-  updateGoal(id: string, goal: Partial<InsertGoal>): Promise<Goal | undefined>;
-  deleteGoal(id: string): Promise<boolean>;
+  updateGoal(userId: string, id: string, goal: Partial<InsertGoal>): Promise<Goal | undefined>;
+  deleteGoal(userId: string, id: string): Promise<boolean>;
+  getGoalContributions(userId: string, goalId: string): Promise<GoalContribution[]>;
+  getUserGoalContributions(userId: string): Promise<GoalContribution[]>;
+  createGoalContribution(userId: string, goalId: string, contribution: InsertGoalContribution): Promise<GoalContribution | undefined>;
+  updateGoalContribution(userId: string, goalId: string, id: string, contribution: Partial<InsertGoalContribution>): Promise<GoalContribution | undefined>;
+  deleteGoalContribution(userId: string, goalId: string, id: string): Promise<boolean>;
+
+  // Exchange rate methods
+  getExchangeRates(userId: string): Promise<ExchangeRate[]>;
+  saveExchangeRate(userId: string, rate: InsertExchangeRate): Promise<ExchangeRate>;
+  cacheExchangeRates(userId: string, source: string, rates: InsertExchangeRate[]): Promise<void>;
+  deleteExchangeRate(userId: string, id: string): Promise<boolean>;
+  getMissingExchangeRates(userId: string): Promise<MissingExchangeRate[]>;
 
   // Notification methods
   getNotifications(userId: string): Promise<Notification[]>;
   createNotification(notification: InsertNotification & { userId: string }): Promise<Notification>;
-  markNotificationAsRead(id: string): Promise<boolean>;
+  markNotificationAsRead(userId: string, id: string): Promise<boolean>;
+
+  // Backup methods
+  exportUserData(userId: string): Promise<BackupData>;
+  restoreUserData(userId: string, data: BackupData, mode: RestoreMode): Promise<RestoreResult>;
 
   // Analytics methods
-  getSpendingByCategory(userId: string, month: number, year: number): Promise<Array<{ category: string; total: string }>>;
-  getMonthlyTrends(userId: string, months: number): Promise<Array<{ month: string; income: string; expenses: string }>>;
+  getSpendingByCategory(userId: string, startDate: Date, endDate: Date): Promise<Array<{ categoryId: string; category: string; color: string; total: string }>>;
+  getMonthlyTrends(userId: string, startDate: Date, endDate: Date, budgetMonthStartDay: number): Promise<Array<{ month: string; income: string; expenses: string }>>;
+  getCategoryTotals(userId: string, startDate: Date, endDate: Date): Promise<CategoryTotal[]>;
+  getTopPayees(userId: string, startDate: Date, endDate: Date, limit: number): Promise<PayeeTotal[]>;
+  getTagTotals(userId: string, startDate: Date, endDate: Date): Promise<TagTotal[]>;
   
   sessionStore: any;
 }
@@ -68,6 +537,7 @@ export class DatabaseStorage implements IStorage {
   constructor() {
     this.sessionStore = new PostgresSessionStore({ 
       pool, 
+      tableName: SESSION_TABLE,
       createTableIfMissing: true 
     });
   }
@@ -83,19 +553,20 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  // Case-insensitive: addresses are stored lowercased, but older accounts
+  // may have kept the case they were typed in.
   async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
+    const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`);
     return user || undefined;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
     try {
-      console.log("Inserting user into database:", insertUser);
       const [user] = await db
         .insert(users)
         .values(insertUser)
         .returning();
-      console.log("Inserted user:", user);
+      await this.seedDefaultCategories(user.id);
       return user;
     } catch (error: any) {
       if (error.code === '23505') { // Unique constraint violation
@@ -112,14 +583,390 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Transaction methods
-  async getTransactions(userId: string, limit = 50): Promise<Transaction[]> {
+  async updateUser(id: string, user: Partial<InsertUser>): Promise<User | undefined> {
+    const [updatedUser] = await db
+      .update(users)
+      .set(user)
+      .where(eq(users.id, id))
+      .returning();
+    return updatedUser || undefined;
+  }
+
+  // Creates the row with the column defaults on first read.
+  async getUserSettings(userId: string): Promise<UserSettings> {
+    await db.insert(userSettings).values({ userId }).onConflictDoNothing();
+    const [settings] = await db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings;
+  }
+
+  async saveUserSettings(userId: string, settings: InsertUserSettings): Promise<UserSettings> {
+    const [saved] = await db
+      .insert(userSettings)
+      .values({ ...settings, userId })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Two-factor authentication methods
+  async getTwoFactorSecret(userId: string): Promise<TwoFactorSecret | undefined> {
+    const [secret] = await db.select().from(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+    return secret || undefined;
+  }
+
+  // `usedStep` is the step of the code that confirmed the secret, so that
+  // code can't also be used to sign in.
+  async enableTwoFactor(userId: string, secret: string, usedStep: number, recoveryCodeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx
+        .insert(twoFactorSecrets)
+        .values({ userId, secret, lastUsedStep: usedStep })
+        .onConflictDoUpdate({
+          target: twoFactorSecrets.userId,
+          set: { secret, lastUsedStep: usedStep, enabledAt: new Date() },
+        });
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(recoveryCodeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async disableTwoFactor(userId: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      const result = await tx.delete(twoFactorSecrets).where(eq(twoFactorSecrets.userId, userId));
+      return (result.rowCount ?? 0) > 0;
+    });
+  }
+
+  // Records a verified code's step. False when that step or a later one was
+  // already used, e.g. by a concurrent sign-in with the same code.
+  async useTotpStep(userId: string, step: number): Promise<boolean> {
+    const result = await db
+      .update(twoFactorSecrets)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorSecrets.userId, userId),
+        or(sql`${twoFactorSecrets.lastUsedStep} IS NULL`, lt(twoFactorSecrets.lastUsedStep, step)),
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Unused codes only.
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), sql`${recoveryCodes.usedAt} IS NULL`));
+    return count;
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+      await tx.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    });
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await db
+      .update(recoveryCodes)
+      .set({ usedAt: new Date() })
+      .where(and(
+        eq(recoveryCodes.userId, userId),
+        eq(recoveryCodes.codeHash, codeHash),
+        sql`${recoveryCodes.usedAt} IS NULL`,
+      ));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Account token methods
+  // A new link replaces the user's earlier unused ones for the same purpose.
+  async createAuthToken(userId: string, purpose: AuthTokenPurpose, email: string, expiresAt: Date): Promise<AuthToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .delete(authTokens)
+        .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), sql`${authTokens.usedAt} IS NULL`));
+      const [token] = await tx
+        .insert(authTokens)
+        .values({ userId, purpose, email, expiresAt })
+        .returning();
+      return token;
+    });
+  }
+
+  async getAuthToken(id: string): Promise<AuthToken | undefined> {
+    const [token] = await db.select().from(authTokens).where(eq(authTokens.id, id));
+    return token || undefined;
+  }
+
+  async getLatestAuthToken(userId: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .select()
+      .from(authTokens)
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose)))
+      .orderBy(desc(authTokens.createdAt))
+      .limit(1);
+    return token || undefined;
+  }
+
+  // Undefined when the link was already used, has expired, or was sent to
+  // an address the account no longer has.
+  async resetPassword(tokenId: string, passwordHash: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const token = await useAuthToken(tx, tokenId, "password_reset");
+      if (!token) return undefined;
+      const [user] = await tx
+        .update(users)
+        .set({ password: passwordHash })
+        .where(and(eq(users.id, token.userId), eq(users.email, token.email)))
+        .returning();
+      return user;
+    });
+  }
+
+  async verifyEmail(tokenId: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      const token = await useAuthToken(tx, tokenId, "email_verification");
+      if (!token) return undefined;
+      const [user] = await tx
+        .update(users)
+        .set({ emailVerifiedAt: new Date() })
+        .where(and(eq(users.id, token.userId), eq(users.email, token.email)))
+        .returning();
+      return user;
+    });
+  }
+
+  // Session methods. These read the session store's table directly, since
+  // the store itself can only look sessions up by id.
+  async getUserSessions(userId: string): Promise<StoredSession[]> {
+    const { rows } = await db.execute<{ sid: string; sess: StoredSession["data"]; expire: Date }>(
+      sql`SELECT sid, sess, expire FROM ${sql.identifier(SESSION_TABLE)}
+          WHERE sess->'passport'->>'user' = ${userId} AND expire > now()`
+    );
+    return rows.map(row => ({ sid: row.sid, data: row.sess, expire: row.expire }));
+  }
+
+  async deleteUserSession(userId: string, sid: string): Promise<boolean> {
+    const result = await db.execute(
+      sql`DELETE FROM ${sql.identifier(SESSION_TABLE)} WHERE sid = ${sid} AND sess->'passport'->>'user' = ${userId}`
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Signs the user out everywhere, or everywhere but `exceptSid`.
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const result = await db.execute(
+      sql`DELETE FROM ${sql.identifier(SESSION_TABLE)}
+          WHERE sess->'passport'->>'user' = ${userId}${exceptSid ? sql` AND sid <> ${exceptSid}` : sql``}`
+    );
+    return result.rowCount ?? 0;
+  }
+
+  // Category methods
+  async getCategories(userId: string): Promise<Category[]> {
     return await db
+      .select()
+      .from(categories)
+      .where(eq(categories.userId, userId))
+      .orderBy(categories.name);
+  }
+
+  async getCategory(userId: string, id: string): Promise<Category | undefined> {
+    const [category] = await db
+      .select()
+      .from(categories)
+      .where(and(eq(categories.id, id), eq(categories.userId, userId)));
+    return category || undefined;
+  }
+
+  async createCategory(category: InsertCategory & { userId: string }): Promise<Category> {
+    const [newCategory] = await db
+      .insert(categories)
+      .values(category)
+      .returning();
+    return newCategory;
+  }
+
+  async updateCategory(userId: string, id: string, category: Partial<InsertCategory>): Promise<Category | undefined> {
+    const [updatedCategory] = await db
+      .update(categories)
+      .set(category)
+      .where(and(eq(categories.id, id), eq(categories.userId, userId)))
+      .returning();
+    return updatedCategory || undefined;
+  }
+
+  async seedDefaultCategories(userId: string): Promise<void> {
+    await db
+      .insert(categories)
+      .values(DEFAULT_CATEGORIES.map((category) => ({ ...category, userId })));
+  }
+
+  // Account methods
+  async getAccounts(userId: string): Promise<AccountWithBalance[]> {
+    // Running balance: opening balance, plus income, minus expenses and outgoing
+    // transfers, plus transfers received from other accounts.
+    const balance = sql<string>`(${accounts.openingBalance}
+      + COALESCE((
+        SELECT SUM(CASE WHEN t.type = 'income' THEN t.amount ELSE -t.amount END)
+        FROM ${transactions} t
+        WHERE t.account_id = ${accounts.id}
+      ), 0)
+      + COALESCE((
+        SELECT SUM(t.amount)
+        FROM ${transactions} t
+        WHERE t.transfer_account_id = ${accounts.id} AND t.type = 'transfer'
+      ), 0))::numeric(12, 2)`;
+
+    const result = await db
+      .select({
+        id: accounts.id,
+        userId: accounts.userId,
+        name: accounts.name,
+        type: accounts.type,
+        openingBalance: accounts.openingBalance,
+        currency: accounts.currency,
+        isArchived: accounts.isArchived,
+        createdAt: accounts.createdAt,
+        balance,
+        baseBalance: sql<string | null>`ROUND(${toBaseCurrency(balance, accounts.currency, accounts.userId, sql`now()`)}, 2)`,
+      })
+      .from(accounts)
+      .where(eq(accounts.userId, userId))
+      .orderBy(accounts.createdAt);
+
+    return result;
+  }
+
+  async getAccount(userId: string, id: string): Promise<Account | undefined> {
+    const [account] = await db
+      .select()
+      .from(accounts)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+    return account || undefined;
+  }
+
+  async createAccount(account: InsertAccount & { userId: string }): Promise<Account> {
+    const [newAccount] = await db
+      .insert(accounts)
+      .values(account)
+      .returning();
+    return newAccount;
+  }
+
+  // An account's currency is fixed once it has transactions in it.
+  async updateAccount(userId: string, id: string, account: Partial<InsertAccount>): Promise<Account | undefined> {
+    // Another user's account is not found, whatever its transactions
+    if (!(await this.getAccount(userId, id))) return undefined;
+
+    if (account.currency) {
+      const [conflict] = await db
+        .select({ id: transactions.id })
+        .from(transactions)
+        .where(and(
+          or(eq(transactions.accountId, id), eq(transactions.transferAccountId, id)),
+          ne(transactions.currency, account.currency)
+        ))
+        .limit(1);
+      if (conflict) {
+        throw new Error('Account has transactions in another currency.');
+      }
+    }
+
+    const [updatedAccount] = await db
+      .update(accounts)
+      .set(account)
+      .where(and(eq(accounts.id, id), eq(accounts.userId, userId)))
+      .returning();
+    return updatedAccount || undefined;
+  }
+
+  async deleteAccount(userId: string, id: string): Promise<boolean> {
+    try {
+      const result = await db
+        .delete(accounts)
+        .where(and(eq(accounts.id, id), eq(accounts.userId, userId)));
+      return (result.rowCount ?? 0) > 0;
+    } catch (error: any) {
+      if (error.code === '23503') { // Foreign key violation
+        throw new Error('Account has transactions.');
+      }
+      throw error;
+    }
+  }
+
+  // Transaction methods
+  async getTransactions(userId: string, limit = 50): Promise<TransactionWithDetails[]> {
+    const rows = await db
       .select()
       .from(transactions)
       .where(eq(transactions.userId, userId))
       .orderBy(desc(transactions.date))
       .limit(limit);
+    return await withDetails(db, rows);
+  }
+
+  async getTransaction(userId: string, id: string): Promise<TransactionWithDetails | undefined> {
+    const [transaction] = await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+    if (!transaction) return undefined;
+    const [detailed] = await withDetails(db, [transaction]);
+    return detailed;
+  }
+
+  // Keyset pagination over (sort column, id) so pages stay stable while
+  // transactions are added or removed.
+  async searchTransactions(userId: string, filters: TransactionSearch): Promise<TransactionPage> {
+    const conditions: SQL[] = [eq(transactions.userId, userId)];
+
+    if (filters.startDate) conditions.push(gte(transactions.date, filters.startDate));
+    if (filters.endDate) conditions.push(lte(transactions.date, filters.endDate));
+    if (filters.type?.length) conditions.push(inArray(transactions.type, filters.type));
+    if (filters.categoryId?.length) {
+      conditions.push(or(inArray(transactions.categoryId, filters.categoryId), hasSplitIn(filters.categoryId))!);
+    }
+    if (filters.tag?.length) conditions.push(hasTagIn(filters.tag));
+    if (filters.minAmount !== undefined) conditions.push(gte(transactions.amount, filters.minAmount.toFixed(2)));
+    if (filters.maxAmount !== undefined) conditions.push(lte(transactions.amount, filters.maxAmount.toFixed(2)));
+    if (filters.search) {
+      const pattern = filters.search.replace(/[\\%_]/g, (c) => `\\${c}`);
+      conditions.push(ilike(transactions.description, `%${pattern}%`));
+    }
+
+    const sortColumn = filters.sort === "amount" ? transactions.amount : transactions.date;
+    if (filters.cursor) {
+      const [value, id] = decodeSearchCursor(filters.cursor);
+      const cursorValue = filters.sort === "amount" ? value : new Date(value);
+      if (filters.sort === "date" && isNaN((cursorValue as Date).getTime())) throw new Error('Invalid cursor.');
+      const after = filters.order === "asc" ? gt : lt;
+      conditions.push(or(
+        after(sortColumn, cursorValue),
+        and(eq(sortColumn, cursorValue), after(transactions.id, id)),
+      )!);
+    }
+
+    const direction = filters.order === "asc" ? asc : desc;
+    const rows = await db
+      .select()
+      .from(transactions)
+      .where(and(...conditions))
+      .orderBy(direction(sortColumn), direction(transactions.id))
+      .limit(filters.limit + 1);
+
+    const page = rows.slice(0, filters.limit);
+    const last = page[page.length - 1];
+    return {
+      transactions: await withDetails(db, page),
+      nextCursor: rows.length > filters.limit
+        ? encodeSearchCursor(filters.sort === "amount" ? last.amount : last.date.toISOString(), last.id)
+        : null,
+    };
   }
 
   async getTransactionsByDateRange(userId: string, startDate: Date, endDate: Date): Promise<Transaction[]> {
@@ -136,27 +983,492 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(transactions.date));
   }
 
-  async createTransaction(transaction: InsertTransaction & { userId: string }): Promise<Transaction> {
-    const [newTransaction] = await db
-      .insert(transactions)
-      .values(transaction)
+  async createTransaction(transaction: TransactionInput & { userId: string; recurringTransactionId?: string | null }): Promise<TransactionWithDetails> {
+    return await db.transaction(async (tx) => await insertTransaction(tx, transaction));
+  }
+
+  async updateTransaction(userId: string, id: string, { splits, tags: tagNames, ...transaction }: Partial<TransactionInput>): Promise<TransactionWithDetails | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedTransaction] = await tx
+        .update(transactions)
+        .set(splits?.length ? { ...transaction, categoryId: null } : transaction)
+        .where(and(eq(transactions.id, id), eq(transactions.userId, userId)))
+        .returning();
+      if (!updatedTransaction) return undefined;
+
+      if (splits) await replaceSplits(tx, id, splits);
+      if (tagNames) await replaceTags(tx, userId, id, tagNames);
+      const [detailed] = await withDetails(tx, [updatedTransaction]);
+      return detailed;
+    });
+  }
+
+  async deleteTransaction(userId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(transactions)
+      .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // All rows are inserted in one database transaction, so a failed import
+  // leaves nothing behind. Rows whose external id was already imported are
+  // skipped and not returned.
+  async importTransactions(userId: string, rows: ImportedTransaction[]): Promise<Transaction[]> {
+    if (rows.length === 0) return [];
+
+    return await db.transaction(async (tx) => {
+      const created: Transaction[] = [];
+      // Batched to stay under Postgres' bind parameter limit
+      for (let i = 0; i < rows.length; i += 500) {
+        const batch = await tx
+          .insert(transactions)
+          .values(rows.slice(i, i + 500).map(({ splits = [], tags: tagNames, ...row }) => ({
+            ...row,
+            userId,
+            categoryId: splits.length > 0 ? null : row.categoryId,
+            currency: row.currency ?? defaultCurrency(userId, row.accountId),
+          })))
+          .onConflictDoNothing({ target: [transactions.userId, transactions.externalId] })
+          .returning();
+        created.push(...batch);
+      }
+
+      const detailsById = new Map(rows.filter(row => row.externalId).map(row => [row.externalId!, row]));
+      const splitRows: Array<InsertTransactionSplit & { transactionId: string; position: number }> = [];
+      const tagged: Array<{ transactionId: string; names: string[] }> = [];
+      for (const transaction of created) {
+        const row = transaction.externalId ? detailsById.get(transaction.externalId) : undefined;
+        row?.splits?.forEach((split, position) => splitRows.push({ ...split, transactionId: transaction.id, position }));
+        if (row?.tags?.length) tagged.push({ transactionId: transaction.id, names: row.tags });
+      }
+      for (const batch of chunks(splitRows)) {
+        await tx.insert(transactionSplits).values(batch);
+      }
+
+      const tagNames = Array.from(new Set(tagged.flatMap(row => row.names)));
+      if (tagNames.length > 0) {
+        await tx
+          .insert(tags)
+          .values(tagNames.map(name => ({ userId, name })))
+          .onConflictDoNothing({ target: [tags.userId, tags.name] });
+        const tagRows = await tx
+          .select({ id: tags.id, name: tags.name })
+          .from(tags)
+          .where(and(eq(tags.userId, userId), inArray(tags.name, tagNames)));
+        const tagIds = new Map(tagRows.map(tag => [tag.name, tag.id]));
+        const links = tagged.flatMap(({ transactionId, names }) =>
+          Array.from(new Set(names)).map(name => ({ transactionId, tagId: tagIds.get(name)! })));
+        for (const batch of chunks(links)) {
+          await tx.insert(transactionTags).values(batch);
+        }
+      }
+      return created;
+    });
+  }
+
+  async getExistingExternalIds(userId: string, externalIds: string[]): Promise<Set<string>> {
+    if (externalIds.length === 0) return new Set();
+
+    const rows = await db
+      .select({ externalId: transactions.externalId })
+      .from(transactions)
+      .where(and(eq(transactions.userId, userId), inArray(transactions.externalId, externalIds)));
+    return new Set(rows.map(row => row.externalId!));
+  }
+
+  // Keeps one of two duplicate transactions and deletes the other. Details
+  // only the removed one has (account, import id, schedule, notes) are
+  // carried over so later imports still recognize the statement line, and
+  // the kept one gains the removed one's tags and attachments. Throws when
+  // the attachments together are more than one transaction may have.
+  async mergeTransactions(userId: string, keepId: string, removeId: string): Promise<TransactionWithDetails | undefined> {
+    return await db.transaction(async (tx) => {
+      const [keep] = await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.id, keepId), eq(transactions.userId, userId)));
+      const [remove] = await tx
+        .select()
+        .from(transactions)
+        .where(and(eq(transactions.id, removeId), eq(transactions.userId, userId)));
+      if (!keep || !remove) return undefined;
+
+      // The removed transaction's account is carried over only when it is
+      // in the kept transaction's currency
+      if (!keep.accountId && remove.accountId) {
+        const [account] = await tx
+          .select({ currency: accounts.currency })
+          .from(accounts)
+          .where(eq(accounts.id, remove.accountId));
+        if (account?.currency !== keep.currency) {
+          throw new Error('Account currency does not match.');
+        }
+      }
+
+      // Attachments move to the kept transaction
+      const [{ count }] = await tx
+        .select({ count: sql<number>`COUNT(*)::int` })
+        .from(attachments)
+        .where(inArray(attachments.transactionId, [keep.id, remove.id]));
+      if (count > MAX_ATTACHMENTS_PER_TRANSACTION) {
+        throw new Error('Too many attachments to merge.');
+      }
+      await tx
+        .update(attachments)
+        .set({ transactionId: keep.id })
+        .where(eq(attachments.transactionId, remove.id));
+      const removedTags = await tx
+        .select({ tagId: transactionTags.tagId })
+        .from(transactionTags)
+        .where(eq(transactionTags.transactionId, remove.id));
+      await tx.delete(transactions).where(eq(transactions.id, remove.id));
+      if (removedTags.length > 0) {
+        await tx
+          .insert(transactionTags)
+          .values(removedTags.map(({ tagId }) => ({ transactionId: keep.id, tagId })))
+          .onConflictDoNothing();
+      }
+
+      const [merged] = await tx
+        .update(transactions)
+        .set({
+          accountId: keep.accountId ?? remove.accountId,
+          externalId: keep.externalId ?? remove.externalId,
+          recurringTransactionId: keep.recurringTransactionId ?? remove.recurringTransactionId,
+          notes: keep.notes ?? remove.notes,
+        })
+        .where(eq(transactions.id, keep.id))
+        .returning();
+      const [detailed] = await withDetails(tx, [merged]);
+      return detailed;
+    });
+  }
+
+  // Tag methods
+  // Only tags on at least one transaction, most used first.
+  async getTags(userId: string): Promise<TagWithUsage[]> {
+    const count = sql<number>`COUNT(*)::int`;
+    return await db
+      .select({
+        id: tags.id,
+        userId: tags.userId,
+        name: tags.name,
+        createdAt: tags.createdAt,
+        count,
+      })
+      .from(tags)
+      .innerJoin(transactionTags, eq(transactionTags.tagId, tags.id))
+      .where(eq(tags.userId, userId))
+      .groupBy(tags.id)
+      .orderBy(desc(count), asc(tags.name));
+  }
+
+  // Attachment methods
+  async getAttachments(userId: string, transactionId: string): Promise<Attachment[]> {
+    return await db
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.transactionId, transactionId), eq(attachments.userId, userId)))
+      .orderBy(attachments.createdAt);
+  }
+
+  async getAttachment(userId: string, id: string): Promise<Attachment | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(attachments)
+      .where(and(eq(attachments.id, id), eq(attachments.userId, userId)));
+    return attachment || undefined;
+  }
+
+  async createAttachment(attachment: AttachmentInput): Promise<Attachment> {
+    const [newAttachment] = await db
+      .insert(attachments)
+      .values(attachment)
       .returning();
-    return newTransaction;
+    return newAttachment;
   }
 
-  async updateTransaction(id: string, transaction: Partial<InsertTransaction>): Promise<Transaction | undefined> {
-    const [updatedTransaction] = await db
-      .update(transactions)
-      .set(transaction)
-      .where(eq(transactions.id, id))
+  async markAttachmentThumbnail(userId: string, id: string): Promise<Attachment | undefined> {
+    const [attachment] = await db
+      .update(attachments)
+      .set({ hasThumbnail: true })
+      .where(and(eq(attachments.id, id), eq(attachments.userId, userId)))
       .returning();
-    return updatedTransaction || undefined;
+    return attachment || undefined;
   }
 
-  async deleteTransaction(id: string): Promise<boolean> {
+  // Returns the deleted row so its files can be removed.
+  async deleteAttachment(userId: string, id: string): Promise<Attachment | undefined> {
+    const [attachment] = await db
+      .delete(attachments)
+      .where(and(eq(attachments.id, id), eq(attachments.userId, userId)))
+      .returning();
+    return attachment || undefined;
+  }
+
+  // Duplicate review methods
+  async getDismissedDuplicatePairs(userId: string): Promise<Set<string>> {
+    const rows = await db
+      .select()
+      .from(duplicateDismissals)
+      .where(eq(duplicateDismissals.userId, userId));
+    return new Set(rows.map(row => getPairKey(row.firstTransactionId, row.secondTransactionId)));
+  }
+
+  async dismissDuplicatePair(userId: string, firstTransactionId: string, secondTransactionId: string): Promise<void> {
+    const [first, second] = [firstTransactionId, secondTransactionId].sort();
+    await db
+      .insert(duplicateDismissals)
+      .values({ userId, firstTransactionId: first, secondTransactionId: second })
+      .onConflictDoNothing();
+  }
+
+  // Recurring transaction methods
+  async getRecurringTransactions(userId: string): Promise<RecurringTransaction[]> {
+    return await db
+      .select()
+      .from(recurringTransactions)
+      .where(eq(recurringTransactions.userId, userId))
+      .orderBy(recurringTransactions.nextDate);
+  }
+
+  async getRecurringTransaction(userId: string, id: string): Promise<RecurringTransaction | undefined> {
+    const [recurring] = await db
+      .select()
+      .from(recurringTransactions)
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+    return recurring || undefined;
+  }
+
+  // Across all users: the scheduler materializes everything that is due.
+  async getDueRecurringTransactions(asOf: Date): Promise<RecurringTransaction[]> {
+    return await db
+      .select()
+      .from(recurringTransactions)
+      .where(
+        and(
+          eq(recurringTransactions.isActive, true),
+          lte(recurringTransactions.nextDate, asOf)
+        )
+      );
+  }
+
+  async createRecurringTransaction(recurring: InsertRecurringTransaction & { userId: string; nextDate: Date | null }): Promise<RecurringTransaction> {
+    const [newRecurring] = await db
+      .insert(recurringTransactions)
+      .values(recurring)
+      .returning();
+    return newRecurring;
+  }
+
+  async updateRecurringTransaction(userId: string, id: string, recurring: RecurringTransactionUpdate): Promise<RecurringTransaction | undefined> {
+    const [updatedRecurring] = await db
+      .update(recurringTransactions)
+      .set(recurring)
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)))
+      .returning();
+    return updatedRecurring || undefined;
+  }
+
+  // Advances the template from `recurring.occurrenceCount` to `next` and
+  // creates the occurrence (none when it is skipped) in one database
+  // transaction, so an occurrence is never created without the template
+  // moving past it. Undefined when the template has already moved on, e.g.
+  // in another run.
+  async createRecurringOccurrence(
+    recurring: RecurringTransaction,
+    next: Pick<RecurringTransaction, "occurrenceCount" | "nextDate">,
+    occurrence: (TransactionInput & { userId: string; recurringTransactionId: string }) | null,
+  ): Promise<{ transaction: TransactionWithDetails | null } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [advanced] = await tx
+        .update(recurringTransactions)
+        .set(next)
+        .where(and(
+          eq(recurringTransactions.id, recurring.id),
+          eq(recurringTransactions.occurrenceCount, recurring.occurrenceCount),
+        ))
+        .returning({ id: recurringTransactions.id });
+      if (!advanced) return undefined;
+      return { transaction: occurrence ? await insertTransaction(tx, occurrence) : null };
+    });
+  }
+
+  async deleteRecurringTransaction(userId: string, id: string): Promise<boolean> {
     const result = await db
-      .delete(transactions)
-      .where(eq(transactions.id, id));
+      .delete(recurringTransactions)
+      .where(and(eq(recurringTransactions.id, id), eq(recurringTransactions.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async getRecurringExceptions(userId: string, recurringTransactionId: string): Promise<RecurringException[]> {
+    const rows = await db
+      .select({ exception: recurringExceptions })
+      .from(recurringExceptions)
+      .innerJoin(recurringTransactions, eq(recurringTransactions.id, recurringExceptions.recurringTransactionId))
+      .where(and(eq(recurringTransactions.id, recurringTransactionId), eq(recurringTransactions.userId, userId)))
+      .orderBy(recurringExceptions.occurrenceDate);
+    return rows.map(row => row.exception);
+  }
+
+  // Undefined when the template isn't the user's.
+  async upsertRecurringException(userId: string, recurringTransactionId: string, exception: InsertRecurringException): Promise<RecurringException | undefined> {
+    return await db.transaction(async (tx) => {
+      const [owned] = await ownedRecurringTransaction(tx, userId, recurringTransactionId);
+      if (!owned) return undefined;
+
+      const [savedException] = await tx
+        .insert(recurringExceptions)
+        .values({ ...exception, recurringTransactionId })
+        .onConflictDoUpdate({
+          target: [recurringExceptions.recurringTransactionId, recurringExceptions.occurrenceDate],
+          set: {
+            isSkipped: exception.isSkipped ?? false,
+            amount: exception.amount ?? null,
+            description: exception.description ?? null,
+            categoryId: exception.categoryId ?? null,
+          },
+        })
+        .returning();
+      return savedException;
+    });
+  }
+
+  async deleteRecurringException(userId: string, recurringTransactionId: string, occurrenceDate: Date): Promise<boolean> {
+    const result = await db
+      .delete(recurringExceptions)
+      .where(
+        and(
+          inArray(recurringExceptions.recurringTransactionId, ownedRecurringTransaction(db, userId, recurringTransactionId)),
+          eq(recurringExceptions.occurrenceDate, occurrenceDate)
+        )
+      );
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Categorization rule methods
+  async getRules(userId: string): Promise<CategorizationRule[]> {
+    return await db
+      .select()
+      .from(categorizationRules)
+      .where(eq(categorizationRules.userId, userId))
+      .orderBy(asc(categorizationRules.priority), asc(categorizationRules.createdAt));
+  }
+
+  async getRule(userId: string, id: string): Promise<CategorizationRule | undefined> {
+    const [rule] = await db
+      .select()
+      .from(categorizationRules)
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
+    return rule || undefined;
+  }
+
+  async createRule(rule: InsertCategorizationRule & { userId: string }): Promise<CategorizationRule> {
+    const [newRule] = await db
+      .insert(categorizationRules)
+      .values(rule)
+      .returning();
+    return newRule;
+  }
+
+  async updateRule(userId: string, id: string, rule: Partial<InsertCategorizationRule>): Promise<CategorizationRule | undefined> {
+    const [updatedRule] = await db
+      .update(categorizationRules)
+      .set(rule)
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)))
+      .returning();
+    return updatedRule || undefined;
+  }
+
+  async deleteRule(userId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(categorizationRules)
+      .where(and(eq(categorizationRules.id, id), eq(categorizationRules.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Every income and expense transaction, for re-running rules over history.
+  // Split transactions are categorized line by line, so rules leave them alone.
+  async getCategorizableTransactions(userId: string): Promise<Transaction[]> {
+    return await db
+      .select()
+      .from(transactions)
+      .where(and(eq(transactions.userId, userId), ne(transactions.type, "transfer"), sql`NOT ${isSplit}`));
+  }
+
+  async setTransactionCategories(userId: string, updates: Array<{ id: string; categoryId: string }>): Promise<number> {
+    if (updates.length === 0) return 0;
+
+    return await db.transaction(async (tx) => {
+      let updated = 0;
+      for (const { id, categoryId } of updates) {
+        const result = await tx
+          .update(transactions)
+          .set({ categoryId })
+          .where(and(eq(transactions.id, id), eq(transactions.userId, userId)));
+        updated += result.rowCount ?? 0;
+      }
+      return updated;
+    });
+  }
+
+  // Import profile methods
+  async getImportProfiles(userId: string): Promise<ImportProfile[]> {
+    return await db
+      .select()
+      .from(importProfiles)
+      .where(eq(importProfiles.userId, userId))
+      .orderBy(importProfiles.name);
+  }
+
+  async getImportProfile(userId: string, name: string): Promise<ImportProfile | undefined> {
+    const [profile] = await db
+      .select()
+      .from(importProfiles)
+      .where(and(eq(importProfiles.userId, userId), eq(importProfiles.name, name)));
+    return profile || undefined;
+  }
+
+  async saveImportProfile(userId: string, name: string, mapping: CsvMapping): Promise<ImportProfile> {
+    const [profile] = await db
+      .insert(importProfiles)
+      .values({ userId, name, mapping })
+      .onConflictDoUpdate({
+        target: [importProfiles.userId, importProfiles.name],
+        set: { mapping, updatedAt: new Date() },
+      })
+      .returning();
+    return profile;
+  }
+
+  // Ledger account methods
+  async getLedgerAccounts(userId: string): Promise<LedgerAccount[]> {
+    return await db
+      .select()
+      .from(ledgerAccounts)
+      .where(eq(ledgerAccounts.userId, userId))
+      .orderBy(ledgerAccounts.name);
+  }
+
+  async saveLedgerAccount(userId: string, { categoryId, accountId }: LedgerAccountTarget, name: string): Promise<LedgerAccount> {
+    const [ledgerAccount] = await db
+      .insert(ledgerAccounts)
+      .values({ userId, categoryId: categoryId ?? null, accountId: accountId ?? null, name })
+      .onConflictDoUpdate({
+        target: categoryId ? [ledgerAccounts.userId, ledgerAccounts.categoryId] : [ledgerAccounts.userId, ledgerAccounts.accountId],
+        set: { name },
+      })
+      .returning();
+    return ledgerAccount;
+  }
+
+  async deleteLedgerAccount(userId: string, { categoryId, accountId }: LedgerAccountTarget): Promise<boolean> {
+    const result = await db
+      .delete(ledgerAccounts)
+      .where(and(
+        eq(ledgerAccounts.userId, userId),
+        categoryId ? eq(ledgerAccounts.categoryId, categoryId) : eq(ledgerAccounts.accountId, accountId!),
+      ));
     return (result.rowCount ?? 0) > 0;
   }
 
@@ -179,14 +1491,14 @@ export class DatabaseStorage implements IStorage {
       .where(eq(budgets.userId, userId));
   }
 
-  async getBudgetByCategory(userId: string, category: string, month: number, year: number): Promise<Budget | undefined> {
+  async getBudgetByCategory(userId: string, categoryId: string, month: number, year: number): Promise<Budget | undefined> {
     const [budget] = await db
       .select()
       .from(budgets)
       .where(
         and(
           eq(budgets.userId, userId),
-          eq(budgets.category, category as any),
+          eq(budgets.categoryId, categoryId),
           eq(budgets.month, month),
           eq(budgets.year, year)
         )
@@ -202,22 +1514,48 @@ export class DatabaseStorage implements IStorage {
     return newBudget;
   }
 
-  async updateBudget(id: string, budget: Partial<InsertBudget>): Promise<Budget | undefined> {
+  async updateBudget(userId: string, id: string, budget: Partial<InsertBudget>): Promise<Budget | undefined> {
     const [updatedBudget] = await db
       .update(budgets)
       .set(budget)
-      .where(eq(budgets.id, id))
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)))
       .returning();
     return updatedBudget || undefined;
   }
 
-  async deleteBudget(id: string): Promise<boolean> {
+  async deleteBudget(userId: string, id: string): Promise<boolean> {
     const result = await db
       .delete(budgets)
-      .where(eq(budgets.id, id));
+      .where(and(eq(budgets.id, id), eq(budgets.userId, userId)));
     return (result.rowCount ?? 0) > 0;
   }
 
+  // Records the thresholds spending has reached and forgets the ones it has
+  // dropped below. Returns only the thresholds that were newly reached.
+  // Nothing happens when the budget isn't the user's.
+  async syncBudgetAlerts(userId: string, budgetId: string, reachedThresholds: number[]): Promise<number[]> {
+    return await db.transaction(async (tx) => {
+      const [owned] = await ownedBudget(tx, userId, budgetId);
+      if (!owned) return [];
+
+      await tx
+        .delete(budgetAlerts)
+        .where(and(
+          eq(budgetAlerts.budgetId, budgetId),
+          reachedThresholds.length > 0 ? notInArray(budgetAlerts.threshold, reachedThresholds) : undefined,
+        ));
+
+      if (reachedThresholds.length === 0) return [];
+
+      const inserted = await tx
+        .insert(budgetAlerts)
+        .values(reachedThresholds.map(threshold => ({ budgetId, threshold })))
+        .onConflictDoNothing()
+        .returning({ threshold: budgetAlerts.threshold });
+      return inserted.map(alert => alert.threshold);
+    });
+  }
+
   // Goal methods
   async getGoals(userId: string): Promise<Goal[]> {
     return await db
@@ -227,6 +1565,14 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(goals.createdAt));
   }
 
+  async getGoal(userId: string, id: string): Promise<Goal | undefined> {
+    const [goal] = await db
+      .select()
+      .from(goals)
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)));
+    return goal || undefined;
+  }
+
   async createGoal(goal: InsertGoal & { userId: string }): Promise<Goal> {
     const [newGoal] = await db
       .insert(goals)
@@ -235,22 +1581,144 @@ export class DatabaseStorage implements IStorage {
     return newGoal;
   }
 
-  async updateGoal(id: string, goal: Partial<InsertGoal>): Promise<Goal | undefined> {
-    const [updatedGoal] = await db
-      .update(goals)
-      .set(goal)
-      .where(eq(goals.id, id))
-      .returning();
-    return updatedGoal || undefined;
+  async updateGoal(userId: string, id: string, goal: Partial<InsertGoal>): Promise<Goal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedGoal] = await tx
+        .update(goals)
+        .set(goal)
+        .where(and(eq(goals.id, id), eq(goals.userId, userId)))
+        .returning();
+      if (!updatedGoal) return undefined;
+
+      // A new target can complete or reopen the goal
+      return goal.targetAmount !== undefined ? await refreshGoalBalance(tx, id) : updatedGoal;
+    });
   }
 
-  async deleteGoal(id: string): Promise<boolean> {
+  async deleteGoal(userId: string, id: string): Promise<boolean> {
     const result = await db
       .delete(goals)
-      .where(eq(goals.id, id));
+      .where(and(eq(goals.id, id), eq(goals.userId, userId)));
     return (result.rowCount ?? 0) > 0;
   }
 
+  async getGoalContributions(userId: string, goalId: string): Promise<GoalContribution[]> {
+    const rows = await db
+      .select({ contribution: goalContributions })
+      .from(goalContributions)
+      .innerJoin(goals, eq(goalContributions.goalId, goals.id))
+      .where(and(eq(goals.id, goalId), eq(goals.userId, userId)))
+      .orderBy(desc(goalContributions.date), desc(goalContributions.createdAt));
+    return rows.map(row => row.contribution);
+  }
+
+  async getUserGoalContributions(userId: string): Promise<GoalContribution[]> {
+    const rows = await db
+      .select({ contribution: goalContributions })
+      .from(goalContributions)
+      .innerJoin(goals, eq(goalContributions.goalId, goals.id))
+      .where(eq(goals.userId, userId));
+    return rows.map(row => row.contribution);
+  }
+
+  // Undefined when the goal isn't the user's.
+  async createGoalContribution(userId: string, goalId: string, contribution: InsertGoalContribution): Promise<GoalContribution | undefined> {
+    return await db.transaction(async (tx) => {
+      const [owned] = await ownedGoal(tx, userId, goalId);
+      if (!owned) return undefined;
+
+      const [newContribution] = await tx
+        .insert(goalContributions)
+        .values({ ...contribution, goalId })
+        .returning();
+      await refreshGoalBalance(tx, goalId);
+      return newContribution;
+    });
+  }
+
+  async updateGoalContribution(userId: string, goalId: string, id: string, contribution: Partial<InsertGoalContribution>): Promise<GoalContribution | undefined> {
+    return await db.transaction(async (tx) => {
+      const [updatedContribution] = await tx
+        .update(goalContributions)
+        .set(contribution)
+        .where(and(eq(goalContributions.id, id), inArray(goalContributions.goalId, ownedGoal(tx, userId, goalId))))
+        .returning();
+      if (!updatedContribution) return undefined;
+
+      await refreshGoalBalance(tx, goalId);
+      return updatedContribution;
+    });
+  }
+
+  async deleteGoalContribution(userId: string, goalId: string, id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const result = await tx
+        .delete(goalContributions)
+        .where(and(eq(goalContributions.id, id), inArray(goalContributions.goalId, ownedGoal(tx, userId, goalId))));
+      if ((result.rowCount ?? 0) === 0) return false;
+
+      await refreshGoalBalance(tx, goalId);
+      return true;
+    });
+  }
+
+  // Exchange rate methods
+  async getExchangeRates(userId: string): Promise<ExchangeRate[]> {
+    return await db
+      .select()
+      .from(exchangeRates)
+      .where(eq(exchangeRates.userId, userId))
+      .orderBy(desc(exchangeRates.date), exchangeRates.fromCurrency);
+  }
+
+  // Manual rates replace whatever is stored for the pair on that date,
+  // including a cached provider rate.
+  async saveExchangeRate(userId: string, rate: InsertExchangeRate): Promise<ExchangeRate> {
+    const [saved] = await db
+      .insert(exchangeRates)
+      .values({ ...rate, userId, source: 'manual' })
+      .onConflictDoUpdate({
+        target: [exchangeRates.userId, exchangeRates.fromCurrency, exchangeRates.toCurrency, exchangeRates.date],
+        set: { rate: rate.rate, source: 'manual' },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Provider rates never overwrite a stored rate.
+  async cacheExchangeRates(userId: string, source: string, rates: InsertExchangeRate[]): Promise<void> {
+    if (rates.length === 0) return;
+
+    await db
+      .insert(exchangeRates)
+      .values(rates.map(rate => ({ ...rate, userId, source })))
+      .onConflictDoNothing();
+  }
+
+  async deleteExchangeRate(userId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(exchangeRates)
+      .where(and(eq(exchangeRates.id, id), eq(exchangeRates.userId, userId)));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Currency and date of income and expenses that cannot be converted to the
+  // base currency for lack of a rate, most recent first.
+  async getMissingExchangeRates(userId: string): Promise<MissingExchangeRate[]> {
+    const date = sql<string>`TO_CHAR(${transactions.date}, 'YYYY-MM-DD')`;
+    return await db
+      .selectDistinct({ currency: transactions.currency, date })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          ne(transactions.type, 'transfer'),
+          sql`${transactionBaseAmount} IS NULL`
+        )
+      )
+      .orderBy(desc(date), transactions.currency);
+  }
+
   // Notification methods
   async getNotifications(userId: string): Promise<Notification[]> {
     return await db
@@ -268,25 +1736,421 @@ export class DatabaseStorage implements IStorage {
     return newNotification;
   }
 
-  async markNotificationAsRead(id: string): Promise<boolean> {
+  async markNotificationAsRead(userId: string, id: string): Promise<boolean> {
     const result = await db
       .update(notifications)
       .set({ isRead: true })
-      .where(eq(notifications.id, id));
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)));
     return (result.rowCount ?? 0) > 0;
   }
 
-  // Analytics methods
-  async getSpendingByCategory(userId: string, month: number, year: number): Promise<Array<{ category: string; total: string }>> {
-    const startDate = new Date(year, month - 1, 1);
-    const endDate = new Date(year, month, 0, 23, 59, 59);
+  // Backup methods
+  // Reads everything in one snapshot, so a change made while exporting
+  // can't leave the archive referring to rows it doesn't contain.
+  async exportUserData(userId: string): Promise<BackupData> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select({ baseCurrency: users.baseCurrency }).from(users).where(eq(users.id, userId));
+      const [settings] = await tx.select().from(userSettings).where(eq(userSettings.userId, userId));
+      const categoryRows = await tx.select().from(categories).where(eq(categories.userId, userId)).orderBy(categories.createdAt);
+      const accountRows = await tx.select().from(accounts).where(eq(accounts.userId, userId)).orderBy(accounts.createdAt);
+      const recurringRows = await tx.select().from(recurringTransactions).where(eq(recurringTransactions.userId, userId)).orderBy(recurringTransactions.createdAt);
+      const exceptionRows = await tx
+        .select({ exception: recurringExceptions })
+        .from(recurringExceptions)
+        .innerJoin(recurringTransactions, eq(recurringTransactions.id, recurringExceptions.recurringTransactionId))
+        .where(eq(recurringTransactions.userId, userId))
+        .orderBy(recurringExceptions.occurrenceDate);
+      const transactionRows = await tx.select().from(transactions).where(eq(transactions.userId, userId)).orderBy(transactions.date, transactions.createdAt);
+      const splitRows = await tx
+        .select({ split: transactionSplits })
+        .from(transactionSplits)
+        .innerJoin(transactions, eq(transactions.id, transactionSplits.transactionId))
+        .where(eq(transactions.userId, userId))
+        .orderBy(transactionSplits.position);
+      const tagRows = await tx
+        .select({ transactionId: transactionTags.transactionId, name: tags.name })
+        .from(transactionTags)
+        .innerJoin(tags, eq(tags.id, transactionTags.tagId))
+        .where(eq(tags.userId, userId))
+        .orderBy(tags.name);
+      const ruleRows = await tx.select().from(categorizationRules).where(eq(categorizationRules.userId, userId)).orderBy(categorizationRules.priority);
+      const profileRows = await tx.select().from(importProfiles).where(eq(importProfiles.userId, userId)).orderBy(importProfiles.name);
+      const ledgerAccountRows = await tx.select().from(ledgerAccounts).where(eq(ledgerAccounts.userId, userId)).orderBy(ledgerAccounts.name);
+      const budgetRows = await tx.select().from(budgets).where(eq(budgets.userId, userId)).orderBy(budgets.year, budgets.month);
+      const alertRows = await tx
+        .select({ budgetId: budgetAlerts.budgetId, threshold: budgetAlerts.threshold })
+        .from(budgetAlerts)
+        .innerJoin(budgets, eq(budgets.id, budgetAlerts.budgetId))
+        .where(eq(budgets.userId, userId))
+        .orderBy(budgetAlerts.threshold);
+      const goalRows = await tx.select().from(goals).where(eq(goals.userId, userId)).orderBy(goals.createdAt);
+      const contributionRows = await tx
+        .select({ contribution: goalContributions })
+        .from(goalContributions)
+        .innerJoin(goals, eq(goals.id, goalContributions.goalId))
+        .where(eq(goals.userId, userId))
+        .orderBy(goalContributions.date, goalContributions.createdAt);
+      const rateRows = await tx.select().from(exchangeRates).where(eq(exchangeRates.userId, userId)).orderBy(exchangeRates.date);
+      const notificationRows = await tx.select().from(notifications).where(eq(notifications.userId, userId)).orderBy(notifications.createdAt);
+      const dismissalRows = await tx.select().from(duplicateDismissals).where(eq(duplicateDismissals.userId, userId));
+
+      const groupBy = <T>(rows: T[], key: (row: T) => string) => {
+        const groups = new Map<string, T[]>();
+        rows.forEach((row) => {
+          const group = groups.get(key(row));
+          if (group) group.push(row);
+          else groups.set(key(row), [row]);
+        });
+        return (id: string) => groups.get(id) ?? [];
+      };
+      const exceptionsOf = groupBy(exceptionRows.map(row => row.exception), exception => exception.recurringTransactionId);
+      const splitsOf = groupBy(splitRows.map(row => row.split), split => split.transactionId);
+      const tagsOf = groupBy(tagRows, tag => tag.transactionId);
+      const alertsOf = groupBy(alertRows, alert => alert.budgetId);
+      const contributionsOf = groupBy(contributionRows.map(row => row.contribution), contribution => contribution.goalId);
+
+      return {
+        baseCurrency: user.baseCurrency,
+        settings: settings ? {
+          currencyDisplay: settings.currencyDisplay,
+          locale: settings.locale,
+          timeZone: settings.timeZone,
+          weekStartsOn: settings.weekStartsOn,
+          budgetMonthStartDay: settings.budgetMonthStartDay,
+        } : null,
+        categories: categoryRows.map(({ userId: _, ...category }) => category),
+        accounts: accountRows.map(({ userId: _, ...account }) => account),
+        recurringTransactions: recurringRows.map(({ userId: _, ...recurring }) => ({
+          ...recurring,
+          exceptions: exceptionsOf(recurring.id).map(({ id, recurringTransactionId, createdAt, ...exception }) => exception),
+        })),
+        transactions: transactionRows.map(({ userId: _, ...transaction }) => ({
+          ...transaction,
+          splits: splitsOf(transaction.id).map(({ categoryId, amount, note }) => ({ categoryId, amount, note })),
+          tags: tagsOf(transaction.id).map(tag => tag.name),
+        })),
+        rules: ruleRows.map(({ userId: _, ...rule }) => rule),
+        importProfiles: profileRows.map(({ name, mapping, createdAt, updatedAt }) => ({ name, mapping, createdAt, updatedAt })),
+        ledgerAccounts: ledgerAccountRows.map(({ id, userId: _, ...ledgerAccount }) => ledgerAccount),
+        budgets: budgetRows.map(({ userId: _, ...budget }) => ({
+          ...budget,
+          alertedThresholds: alertsOf(budget.id).map(alert => alert.threshold),
+        })),
+        goals: goalRows.map(({ userId: _, currentAmount, isCompleted, ...goal }) => ({
+          ...goal,
+          contributions: contributionsOf(goal.id).map(({ id, goalId, ...contribution }) => contribution),
+        })),
+        exchangeRates: rateRows.map(({ id, userId: _, ...rate }) => rate),
+        notifications: notificationRows.map(({ id, userId: _, ...notification }) => notification),
+        duplicateDismissals: dismissalRows.map(({ firstTransactionId, secondTransactionId }) => ({ firstTransactionId, secondTransactionId })),
+      };
+    }, { isolationLevel: "repeatable read", accessMode: "read only" });
+  }
+
+  // Restores an archive in one transaction, so a failure leaves the user's
+  // data as it was. "replace" deletes everything first; "merge" keeps what
+  // the user has and skips archived records they already have.
+  async restoreUserData(userId: string, data: BackupData, mode: RestoreMode): Promise<RestoreResult> {
+    return await db.transaction(async (tx) => {
+      const summary = {} as RestoreSummary;
+      const record = (section: BackupSection, added: number) => {
+        summary[section] = { added, skipped: data[section].length - added };
+      };
+      // References were checked against the archive, so every id has a mapping
+      const ref = (ids: Map<string, string>, id: string | null | undefined) => (id ? ids.get(id)! : null);
+
+      // Deleting the user's transactions takes their attachment rows along;
+      // they are put back once the transactions are restored.
+      let previousAttachments: Attachment[] = [];
+      if (mode === "replace") {
+        previousAttachments = await tx.select().from(attachments).where(eq(attachments.userId, userId));
+        await deleteUserData(tx, userId);
+        await tx.update(users).set({ baseCurrency: data.baseCurrency }).where(eq(users.id, userId));
+      }
+      if (data.settings) {
+        await tx.insert(userSettings).values({ ...data.settings, userId }).onConflictDoNothing();
+      }
+
+      // Parents go in before their subcategories. When merging, a category
+      // with the same name under the same parent is reused.
+      const categoryPlan = await planRestoredIds(tx, categories, userId, data.categories.map(category => category.id));
+      const categoryIds = categoryPlan.idMap;
+      const categoryKey = (parentId: string | null, name: string) => `${parentId ?? ""}:${name.trim().toLowerCase()}`;
+      const categoriesByName = new Map<string, string>();
+      if (mode === "merge") {
+        const existing = await tx.select().from(categories).where(eq(categories.userId, userId));
+        existing.forEach(category => categoriesByName.set(categoryKey(category.parentId, category.name), category.id));
+      }
+      let addedCategories = 0;
+      let pending = data.categories;
+      while (pending.length > 0) {
+        const waiting = new Set(pending.map(category => category.id));
+        const ready = pending.filter(category => !category.parentId || !waiting.has(category.parentId));
+        if (ready.length === 0) {
+          throw new Error('Category hierarchy has a cycle.');
+        }
+        for (const { id, ...category } of ready) {
+          const parentId = ref(categoryIds, category.parentId);
+          const key = categoryKey(parentId, category.name);
+          // Only the user's existing categories are matched: two archived
+          // ones with the same name stay two categories.
+          const match = categoryPlan.existing.has(id) ? id : categoriesByName.get(key);
+          if (match) {
+            categoryIds.set(id, match);
+            continue;
+          }
+          await tx.insert(categories).values({ ...category, id: categoryIds.get(id)!, parentId, userId });
+          addedCategories++;
+        }
+        pending = pending.filter(category => !ready.includes(category));
+      }
+      record("categories", addedCategories);
+
+      const accountPlan = await planRestoredIds(tx, accounts, userId, data.accounts.map(account => account.id));
+      const accountIds = accountPlan.idMap;
+      const newAccounts = data.accounts.filter(account => !accountPlan.existing.has(account.id));
+      for (const batch of chunks(newAccounts)) {
+        await tx.insert(accounts).values(batch.map(({ id, ...account }) => ({ ...account, id: accountIds.get(id)!, userId })));
+      }
+      record("accounts", newAccounts.length);
+
+      const recurringPlan = await planRestoredIds(tx, recurringTransactions, userId, data.recurringTransactions.map(recurring => recurring.id));
+      const recurringIds = recurringPlan.idMap;
+      const newRecurring = data.recurringTransactions.filter(recurring => !recurringPlan.existing.has(recurring.id));
+      for (const { id, exceptions, ...recurring } of newRecurring) {
+        const recurringTransactionId = recurringIds.get(id)!;
+        await tx.insert(recurringTransactions).values({
+          ...recurring,
+          id: recurringTransactionId,
+          userId,
+          accountId: ref(accountIds, recurring.accountId),
+          transferAccountId: ref(accountIds, recurring.transferAccountId),
+          categoryId: ref(categoryIds, recurring.categoryId),
+        });
+        if (exceptions.length > 0) {
+          await tx.insert(recurringExceptions).values(exceptions.map(exception => ({
+            ...exception,
+            recurringTransactionId,
+            categoryId: ref(categoryIds, exception.categoryId),
+          })));
+        }
+      }
+      record("recurringTransactions", newRecurring.length);
+
+      // Imported transactions already here under another id are matched by
+      // their external id, which is unique per user.
+      const transactionPlan = await planRestoredIds(tx, transactions, userId, data.transactions.map(transaction => transaction.id));
+      const transactionIds = transactionPlan.idMap;
+      const externalIds = data.transactions.map(transaction => transaction.externalId).filter((id): id is string => !!id);
+      const byExternalId = new Map<string, string>();
+      if (mode === "merge") {
+        for (const batch of chunks(externalIds)) {
+          const existing = await tx
+            .select({ id: transactions.id, externalId: transactions.externalId })
+            .from(transactions)
+            .where(and(eq(transactions.userId, userId), inArray(transactions.externalId, batch)));
+          existing.forEach(row => byExternalId.set(row.externalId!, row.id));
+        }
+      }
+      const newTransactions = data.transactions.filter((transaction) => {
+        if (transactionPlan.existing.has(transaction.id)) return false;
+        const match = transaction.externalId ? byExternalId.get(transaction.externalId) : undefined;
+        if (match) transactionIds.set(transaction.id, match);
+        return !match;
+      });
+      for (const batch of chunks(newTransactions)) {
+        await tx.insert(transactions).values(batch.map(({ id, splits, tags: _, ...transaction }) => ({
+          ...transaction,
+          id: transactionIds.get(id)!,
+          userId,
+          accountId: ref(accountIds, transaction.accountId),
+          transferAccountId: ref(accountIds, transaction.transferAccountId),
+          categoryId: ref(categoryIds, transaction.categoryId),
+          recurringTransactionId: ref(recurringIds, transaction.recurringTransactionId),
+        })));
+      }
+      const splitRows = newTransactions.flatMap(transaction => transaction.splits.map((split, position) => ({
+        ...split,
+        transactionId: transactionIds.get(transaction.id)!,
+        categoryId: categoryIds.get(split.categoryId)!,
+        position,
+      })));
+      for (const batch of chunks(splitRows)) {
+        await tx.insert(transactionSplits).values(batch);
+      }
+      const tagNames = Array.from(new Set(newTransactions.flatMap(transaction => transaction.tags)));
+      const tagIds = new Map<string, string>();
+      for (const batch of chunks(tagNames)) {
+        await tx.insert(tags).values(batch.map(name => ({ userId, name }))).onConflictDoNothing({ target: [tags.userId, tags.name] });
+        const rows = await tx.select().from(tags).where(and(eq(tags.userId, userId), inArray(tags.name, batch)));
+        rows.forEach(tag => tagIds.set(tag.name, tag.id));
+      }
+      const tagLinks = newTransactions.flatMap(transaction => Array.from(new Set(transaction.tags)).map(name => ({
+        transactionId: transactionIds.get(transaction.id)!,
+        tagId: tagIds.get(name)!,
+      })));
+      for (const batch of chunks(tagLinks)) {
+        await tx.insert(transactionTags).values(batch);
+      }
+      record("transactions", newTransactions.length);
+
+      const restoredTransactionIds = new Set(newTransactions.map(transaction => transactionIds.get(transaction.id)!));
+      const keptAttachments = previousAttachments.filter(attachment => restoredTransactionIds.has(attachment.transactionId));
+      const removedAttachments = previousAttachments.filter(attachment => !restoredTransactionIds.has(attachment.transactionId));
+      for (const batch of chunks(keptAttachments)) {
+        await tx.insert(attachments).values(batch);
+      }
+
+      const rulePlan = await planRestoredIds(tx, categorizationRules, userId, data.rules.map(rule => rule.id));
+      const newRules = data.rules.filter(rule => !rulePlan.existing.has(rule.id));
+      for (const batch of chunks(newRules)) {
+        await tx.insert(categorizationRules).values(batch.map(({ id, ...rule }) => ({
+          ...rule,
+          id: rulePlan.idMap.get(id)!,
+          userId,
+          categoryId: categoryIds.get(rule.categoryId)!,
+          conditions: rule.conditions.map(condition => (
+            condition.field === "accountId" ? { ...condition, value: accountIds.get(condition.value)! } : condition
+          )),
+        })));
+      }
+      record("rules", newRules.length);
+
+      // Profile names are unique per user, so a profile with a taken name is skipped
+      let addedProfiles = 0;
+      for (const profile of data.importProfiles) {
+        const inserted = await tx
+          .insert(importProfiles)
+          .values({
+            ...profile,
+            userId,
+            mapping: {
+              ...profile.mapping,
+              accountId: ref(accountIds, profile.mapping.accountId),
+              defaultCategoryId: ref(categoryIds, profile.mapping.defaultCategoryId),
+            },
+          })
+          .onConflictDoNothing({ target: [importProfiles.userId, importProfiles.name] })
+          .returning({ id: importProfiles.id });
+        addedProfiles += inserted.length;
+      }
+      record("importProfiles", addedProfiles);
+
+      // A category or account the user already named keeps its name
+      let addedLedgerAccounts = 0;
+      for (const batch of chunks(data.ledgerAccounts)) {
+        const inserted = await tx
+          .insert(ledgerAccounts)
+          .values(batch.map(ledgerAccount => ({
+            ...ledgerAccount,
+            userId,
+            categoryId: ref(categoryIds, ledgerAccount.categoryId),
+            accountId: ref(accountIds, ledgerAccount.accountId),
+          })))
+          .onConflictDoNothing()
+          .returning({ id: ledgerAccounts.id });
+        addedLedgerAccounts += inserted.length;
+      }
+      record("ledgerAccounts", addedLedgerAccounts);
+
+      // When merging, a budget for a category and month the user already
+      // budgets is skipped too.
+      const budgetPlan = await planRestoredIds(tx, budgets, userId, data.budgets.map(budget => budget.id));
+      const budgetKey = (budget: { categoryId: string; month: number; year: number }) => `${budget.categoryId}:${budget.year}-${budget.month}`;
+      const budgetKeys = new Set<string>();
+      if (mode === "merge") {
+        const existing = await tx.select().from(budgets).where(eq(budgets.userId, userId));
+        existing.forEach(budget => budgetKeys.add(budgetKey(budget)));
+      }
+      let addedBudgets = 0;
+      for (const { id, alertedThresholds, ...budget } of data.budgets) {
+        const categoryId = categoryIds.get(budget.categoryId)!;
+        const key = budgetKey({ ...budget, categoryId });
+        if (budgetPlan.existing.has(id) || budgetKeys.has(key)) continue;
+        const budgetId = budgetPlan.idMap.get(id)!;
+        await tx.insert(budgets).values({ ...budget, id: budgetId, userId, categoryId });
+        const thresholds = Array.from(new Set(alertedThresholds));
+        if (thresholds.length > 0) {
+          await tx.insert(budgetAlerts).values(thresholds.map(threshold => ({ budgetId, threshold })));
+        }
+        budgetKeys.add(key);
+        addedBudgets++;
+      }
+      record("budgets", addedBudgets);
+
+      // Balances are recomputed from the restored contributions
+      const goalPlan = await planRestoredIds(tx, goals, userId, data.goals.map(goal => goal.id));
+      const newGoals = data.goals.filter(goal => !goalPlan.existing.has(goal.id));
+      for (const { id, contributions, ...goal } of newGoals) {
+        const goalId = goalPlan.idMap.get(id)!;
+        await tx.insert(goals).values({ ...goal, id: goalId, userId });
+        if (contributions.length > 0) {
+          await tx.insert(goalContributions).values(contributions.map(contribution => ({
+            ...contribution,
+            goalId,
+            transactionId: ref(transactionIds, contribution.transactionId),
+          })));
+        }
+        await refreshGoalBalance(tx, goalId);
+      }
+      record("goals", newGoals.length);
+
+      let addedRates = 0;
+      for (const batch of chunks(data.exchangeRates)) {
+        const inserted = await tx
+          .insert(exchangeRates)
+          .values(batch.map(rate => ({ ...rate, userId })))
+          .onConflictDoNothing()
+          .returning({ id: exchangeRates.id });
+        addedRates += inserted.length;
+      }
+      record("exchangeRates", addedRates);
+
+      // Notifications have no ids in the archive; when merging, one with the
+      // same title, message and time as an existing one is a repeat.
+      const notificationKey = (notification: { title: string; message: string; createdAt?: Date }) =>
+        `${notification.title}\n${notification.message}\n${notification.createdAt?.getTime() ?? ""}`;
+      const notificationKeys = new Set<string>();
+      if (mode === "merge") {
+        const existing = await tx.select().from(notifications).where(eq(notifications.userId, userId));
+        existing.forEach(notification => notificationKeys.add(notificationKey(notification)));
+      }
+      const newNotifications = data.notifications.filter(notification => !notificationKeys.has(notificationKey(notification)));
+      for (const batch of chunks(newNotifications)) {
+        await tx.insert(notifications).values(batch.map(notification => ({ ...notification, userId })));
+      }
+      record("notifications", newNotifications.length);
+
+      let addedDismissals = 0;
+      for (const batch of chunks(data.duplicateDismissals)) {
+        const inserted = await tx
+          .insert(duplicateDismissals)
+          .values(batch.map((dismissal) => {
+            const [first, second] = [transactionIds.get(dismissal.firstTransactionId)!, transactionIds.get(dismissal.secondTransactionId)!].sort();
+            return { userId, firstTransactionId: first, secondTransactionId: second };
+          }))
+          .onConflictDoNothing()
+          .returning({ id: duplicateDismissals.id });
+        addedDismissals += inserted.length;
+      }
+      record("duplicateDismissals", addedDismissals);
+
+      return { summary, removedAttachments };
+    });
+  }
 
+  // Analytics methods
+  async getSpendingByCategory(userId: string, startDate: Date, endDate: Date): Promise<Array<{ categoryId: string; category: string; color: string; total: string }>> {
     const result = await db
       .select({
-        category: transactions.category,
-        total: sql<string>`SUM(${transactions.amount})`,
+        categoryId: categories.id,
+        category: categories.name,
+        color: categories.color,
+        total: sumBaseAmount(lineBaseAmount),
       })
       .from(transactions)
+      .leftJoin(transactionSplits, eq(transactionSplits.transactionId, transactions.id))
+      .innerJoin(categories, eq(categories.id, lineCategoryId))
       .where(
         and(
           eq(transactions.userId, userId),
@@ -295,21 +2159,23 @@ export class DatabaseStorage implements IStorage {
           lte(transactions.date, endDate)
         )
       )
-      .groupBy(transactions.category);
+      .groupBy(categories.id);
 
     return result;
   }
 
-  async getMonthlyTrends(userId: string, months: number): Promise<Array<{ month: string; income: string; expenses: string }>> {
-    const endDate = new Date();
-    const startDate = new Date();
-    startDate.setMonth(endDate.getMonth() - months);
+  // Totals per budget month, labelled with the month it starts in. Shifting
+  // each date back by (start day - 1) days lands it in that month.
+  async getMonthlyTrends(userId: string, startDate: Date, endDate: Date, budgetMonthStartDay: number): Promise<Array<{ month: string; income: string; expenses: string }>> {
+    // Inlined rather than bound so the select and group by expressions match
+    const offsetDays = sql.raw(String(Math.trunc(budgetMonthStartDay) - 1));
+    const budgetMonth = sql<string>`TO_CHAR(${transactions.date} - INTERVAL '1 day' * ${offsetDays}, 'YYYY-MM')`;
 
     const result = await db
       .select({
-        month: sql<string>`TO_CHAR(${transactions.date}, 'YYYY-MM')`,
-        income: sql<string>`SUM(CASE WHEN ${transactions.type} = 'income' THEN ${transactions.amount} ELSE 0 END)`,
-        expenses: sql<string>`SUM(CASE WHEN ${transactions.type} = 'expense' THEN ${transactions.amount} ELSE 0 END)`,
+        month: budgetMonth,
+        income: sumBaseAmount(sql`CASE WHEN ${transactions.type} = 'income' THEN ${transactionBaseAmount} ELSE 0 END`),
+        expenses: sumBaseAmount(sql`CASE WHEN ${transactions.type} = 'expense' THEN ${transactionBaseAmount} ELSE 0 END`),
       })
       .from(transactions)
       .where(
@@ -319,11 +2185,86 @@ export class DatabaseStorage implements IStorage {
           lte(transactions.date, endDate)
         )
       )
-      .groupBy(sql`TO_CHAR(${transactions.date}, 'YYYY-MM')`)
-      .orderBy(sql`TO_CHAR(${transactions.date}, 'YYYY-MM')`);
+      .groupBy(budgetMonth)
+      .orderBy(budgetMonth);
 
     return result;
   }
+
+  // Split transactions count once per split line.
+  async getCategoryTotals(userId: string, startDate: Date, endDate: Date): Promise<CategoryTotal[]> {
+    const result = await db
+      .select({
+        categoryId: lineCategoryId,
+        type: transactions.type,
+        total: sumBaseAmount(lineBaseAmount),
+        count: sql<number>`COUNT(DISTINCT ${transactions.id})::int`,
+      })
+      .from(transactions)
+      .leftJoin(transactionSplits, eq(transactionSplits.transactionId, transactions.id))
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          ne(transactions.type, 'transfer'),
+          gte(transactions.date, startDate),
+          lte(transactions.date, endDate)
+        )
+      )
+      .groupBy(lineCategoryId, transactions.type)
+      .orderBy(desc(sumBaseAmount(lineBaseAmount)));
+
+    return result as CategoryTotal[];
+  }
+
+  // Expense totals grouped by description, ignoring case and surrounding
+  // whitespace, largest first.
+  async getTopPayees(userId: string, startDate: Date, endDate: Date, limit: number): Promise<PayeeTotal[]> {
+    const payee = sql`LOWER(TRIM(${transactions.description}))`;
+    return await db
+      .select({
+        payee: sql<string>`MIN(TRIM(${transactions.description}))`,
+        total: sumBaseAmount(),
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(transactions)
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          eq(transactions.type, 'expense'),
+          gte(transactions.date, startDate),
+          lte(transactions.date, endDate)
+        )
+      )
+      .groupBy(payee)
+      .orderBy(desc(sumBaseAmount()))
+      .limit(limit);
+  }
+
+  // Expense totals per tag, largest first. A transaction with several tags
+  // counts towards each of them, so the totals can add up to more than was
+  // spent.
+  async getTagTotals(userId: string, startDate: Date, endDate: Date): Promise<TagTotal[]> {
+    return await db
+      .select({
+        tagId: tags.id,
+        tag: tags.name,
+        total: sumBaseAmount(),
+        count: sql<number>`COUNT(*)::int`,
+      })
+      .from(transactions)
+      .innerJoin(transactionTags, eq(transactionTags.transactionId, transactions.id))
+      .innerJoin(tags, eq(tags.id, transactionTags.tagId))
+      .where(
+        and(
+          eq(transactions.userId, userId),
+          eq(transactions.type, 'expense'),
+          gte(transactions.date, startDate),
+          lte(transactions.date, endDate)
+        )
+      )
+      .groupBy(tags.id)
+      .orderBy(desc(sumBaseAmount()));
+  }
 }
 
 export const storage = new DatabaseStorage();
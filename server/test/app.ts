@@ -0,0 +1,68 @@
+import { vi } from "vitest";
+import express, { type Express } from "express";
+import request from "supertest";
+import { randomUUID } from "crypto";
+import { registerRoutes } from "../routes";
+import { setFileStorage, type FileStorage } from "../file-storage";
+import { setMailer, type MailMessage } from "../mailer";
+import type { PublicUser } from "@shared/schema";
+
+// Attachment files and outgoing email stay in memory during tests.
+export const sentMail: MailMessage[] = [];
+
+function createMemoryFileStorage(): FileStorage {
+  const files = new Map<string, Buffer>();
+  return {
+    name: "memory",
+    async put(key, data) {
+      files.set(key, data);
+    },
+    async get(key) {
+      return files.get(key) ?? null;
+    },
+    async delete(key) {
+      files.delete(key);
+    },
+  };
+}
+
+// The API as server/index.ts sets it up, minus the request log and Vite.
+export async function createTestApp(): Promise<Express> {
+  setFileStorage(createMemoryFileStorage());
+  setMailer({
+    name: "memory",
+    async send(message) {
+      sentMail.push(message);
+    },
+  });
+
+  const app = express();
+  app.use(express.json({ limit: "5mb" }));
+  await registerRoutes(app);
+  return app;
+}
+
+// The token in the latest password reset (?reset=) or verification
+// (?verify=) link mailed to an address. Account emails are sent after the
+// response, so this waits for one to arrive.
+export function mailedToken(to: string, param: "reset" | "verify") {
+  const pattern = new RegExp(`[?&]${param}=([^\\s&]+)`);
+  return vi.waitFor(() => {
+    const match = sentMail.filter(mail => mail.to === to).map(mail => pattern.exec(mail.text)).filter(Boolean).pop();
+    if (!match) throw new Error(`No ${param} link mailed to ${to}`);
+    return decodeURIComponent(match[1]);
+  });
+}
+
+export const TEST_PASSWORD = "Quiet-Harbor-Lantern-42";
+
+// Registers a new user and returns an agent that is signed in as them.
+export async function signUp(app: Express) {
+  const agent = request.agent(app);
+  const name = `user_${randomUUID().slice(0, 8)}`;
+  const response = await agent
+    .post("/api/register")
+    .send({ username: name, password: TEST_PASSWORD, email: `${name}@example.com`, firstName: "Test", lastName: "User" })
+    .expect(201);
+  return { agent, user: response.body as PublicUser };
+}
@@ -0,0 +1,21 @@
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+
+// Vitest global setup: an in-memory Postgres (PGlite) with every migration
+// applied, served over the wire protocol so server/db.ts connects to it
+// through node-postgres like it would to a real database.
+export default async function setup() {
+  const database = await PGlite.create();
+  await migrate(drizzle(database), { migrationsFolder: "migrations" });
+
+  const server = new PGLiteSocketServer({ db: database, host: "127.0.0.1", port: 0, maxConnections: 100 });
+  await server.start();
+  process.env.DATABASE_URL = `postgres://postgres@${server.getServerConn()}/postgres`;
+
+  return async () => {
+    await server.stop();
+    await database.close();
+  };
+}
@@ -0,0 +1,205 @@
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import request from "supertest";
+import type { Express } from "express";
+import type TestAgent from "supertest/lib/agent";
+import {
+  currentTotpStep,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUrl,
+  totpCode,
+  verifyTotpCode,
+  RECOVERY_CODE_COUNT,
+} from "./two-factor";
+import { createTestApp, signUp, TEST_PASSWORD } from "./test/app";
+import type { PublicUser } from "@shared/schema";
+
+const STEP_MS = 30 * 1000;
+
+// RFC 6238 appendix B, SHA-1: the ASCII key "12345678901234567890" and the
+// last six digits of each eight-digit code
+const RFC_SECRET = "GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ";
+const RFC_VECTORS: Array<[number, string]> = [
+  [59, "287082"],
+  [1111111109, "081804"],
+  [1111111111, "050471"],
+  [1234567890, "005924"],
+  [2000000000, "279037"],
+  [20000000000, "353130"],
+];
+
+describe("TOTP", () => {
+  it.each(RFC_VECTORS)("matches the RFC 6238 code at %i seconds", (seconds, code) => {
+    const step = currentTotpStep(seconds * 1000);
+    expect(totpCode(RFC_SECRET, step)).toBe(code);
+    expect(verifyTotpCode(RFC_SECRET, code, null, seconds * 1000)).toBe(step);
+  });
+
+  it("generates 160-bit base32 secrets", () => {
+    const secret = generateTotpSecret();
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+    expect(generateTotpSecret()).not.toBe(secret);
+  });
+
+  it("reads secrets in any case and with spaces", () => {
+    const spaced = RFC_SECRET.toLowerCase().match(/.{1,4}/g)!.join(" ");
+    expect(totpCode(spaced, 1)).toBe(totpCode(RFC_SECRET, 1));
+    expect(() => totpCode("NOT-BASE32!", 1)).toThrow();
+  });
+
+  it("accepts codes one step either side of now", () => {
+    const now = 1_700_000_000_000;
+    const step = currentTotpStep(now);
+    for (const offset of [-1, 0, 1]) {
+      expect(verifyTotpCode(RFC_SECRET, totpCode(RFC_SECRET, step + offset), null, now)).toBe(step + offset);
+    }
+    for (const offset of [-2, 2]) {
+      expect(verifyTotpCode(RFC_SECRET, totpCode(RFC_SECRET, step + offset), null, now)).toBeNull();
+    }
+  });
+
+  it("refuses codes at or before the last used step", () => {
+    const now = 1_700_000_000_000;
+    const step = currentTotpStep(now);
+    expect(verifyTotpCode(RFC_SECRET, totpCode(RFC_SECRET, step), step, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, totpCode(RFC_SECRET, step - 1), step - 1, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, totpCode(RFC_SECRET, step + 1), step, now)).toBe(step + 1);
+  });
+
+  it("ignores spaces in codes and refuses anything but six digits", () => {
+    const now = 1_700_000_000_000;
+    const code = totpCode(RFC_SECRET, currentTotpStep(now));
+    expect(verifyTotpCode(RFC_SECRET, `${code.slice(0, 3)} ${code.slice(3)}`, null, now)).not.toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, code.slice(1), null, now)).toBeNull();
+    expect(verifyTotpCode(RFC_SECRET, "abcdef", null, now)).toBeNull();
+  });
+
+  it("builds the otpauth link apps read from the QR code", () => {
+    const url = new URL(otpauthUrl(RFC_SECRET, "jane doe"));
+    expect(url.protocol).toBe("otpauth:");
+    expect(url.host).toBe("totp");
+    expect(decodeURIComponent(url.pathname)).toBe("/SavvyFinance:jane doe");
+    expect(Object.fromEntries(url.searchParams)).toEqual({
+      secret: RFC_SECRET, issuer: "SavvyFinance", algorithm: "SHA1", digits: "6", period: "30",
+    });
+  });
+});
+
+describe("recovery codes", () => {
+  it("are distinct and readable", () => {
+    const codes = generateRecoveryCodes();
+    expect(codes).toHaveLength(RECOVERY_CODE_COUNT);
+    expect(new Set(codes).size).toBe(codes.length);
+    for (const code of codes) expect(code).toMatch(/^[2-9a-km-z]{5}-[2-9a-km-z]{5}$/);
+  });
+
+  it("hash the same however they are typed", () => {
+    expect(hashRecoveryCode(" AB2CD-EF3GH ")).toBe(hashRecoveryCode("ab2cdef3gh"));
+    expect(hashRecoveryCode("ab2cd-ef3gh")).not.toBe(hashRecoveryCode("ab2cd-ef3gj"));
+  });
+});
+
+describe("two-factor sign-in", () => {
+  let app: Express;
+  let agent: TestAgent;
+  let user: PublicUser;
+  let secret: string;
+  let recoveryCodes: string[];
+  let now: number;
+
+  // Moves the clock the server reads a number of TOTP steps ahead
+  const advance = (steps: number) => {
+    now += steps * STEP_MS;
+    vi.setSystemTime(now);
+  };
+  const code = () => totpCode(secret, currentTotpStep());
+
+  // A sign-in that got past the password and waits for a code
+  async function startSignIn() {
+    const pending = request.agent(app);
+    const { body } = await pending.post("/api/login").send({ username: user.username, password: TEST_PASSWORD }).expect(200);
+    expect(body).toEqual({ twoFactorRequired: true });
+    return pending;
+  }
+
+  beforeAll(async () => {
+    app = await createTestApp();
+  });
+
+  beforeEach(async () => {
+    // The middle of a step, so nothing crosses a step boundary by accident
+    now = (currentTotpStep() + 1) * STEP_MS + STEP_MS / 2;
+    vi.useFakeTimers({ toFake: ["Date"], now });
+
+    ({ agent, user } = await signUp(app));
+    ({ body: { secret } } = await agent.post("/api/2fa/setup").expect(200));
+    ({ body: { recoveryCodes } } = await agent.post("/api/2fa/enable").send({ code: code() }).expect(200));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("asks for a code after the password", async () => {
+    const pending = await startSignIn();
+    await pending.get("/api/user").expect(401);
+
+    advance(1);
+    const { body } = await pending.post("/api/login/2fa").send({ code: code() }).expect(200);
+    expect(body.id).toBe(user.id);
+    await pending.get("/api/user").expect(200);
+  });
+
+  it("refuses a code that was already used", async () => {
+    // The code that turned two-factor authentication on
+    const enableCode = code();
+    await (await startSignIn()).post("/api/login/2fa").send({ code: enableCode }).expect(401);
+
+    advance(1);
+    const fresh = code();
+    await (await startSignIn()).post("/api/login/2fa").send({ code: fresh }).expect(200);
+    await (await startSignIn()).post("/api/login/2fa").send({ code: fresh }).expect(401);
+  });
+
+  it("accepts each recovery code once", async () => {
+    await (await startSignIn()).post("/api/login/2fa").send({ recoveryCode: recoveryCodes[0] }).expect(200);
+    await (await startSignIn()).post("/api/login/2fa").send({ recoveryCode: recoveryCodes[0] }).expect(401);
+    await (await startSignIn()).post("/api/login/2fa").send({ recoveryCode: recoveryCodes[1].toUpperCase() }).expect(200);
+
+    const { body } = await agent.get("/api/2fa").expect(200);
+    expect(body).toEqual({ enabled: true, recoveryCodesRemaining: RECOVERY_CODE_COUNT - 2 });
+  });
+
+  it("ends the sign-in after five wrong codes", async () => {
+    const pending = await startSignIn();
+    advance(1);
+    const step = currentTotpStep();
+    const accepted = [step - 1, step, step + 1].map(near => totpCode(secret, near));
+    const wrong = ["000000", "111111", "222222", "333333"].find(candidate => !accepted.includes(candidate))!;
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const { body } = await pending.post("/api/login/2fa").send({ code: wrong }).expect(401);
+      expect(body.error).toBe("Invalid code");
+    }
+
+    // Even the right code is too late now
+    const tooMany = await pending.post("/api/login/2fa").send({ code: code() }).expect(401);
+    expect(tooMany.body.error).toMatch(/too many attempts/i);
+    const expired = await pending.post("/api/login/2fa").send({ code: code() }).expect(401);
+    expect(expired.body.error).toMatch(/sign in again/i);
+    await pending.get("/api/user").expect(401);
+  });
+
+  it("can be turned off with the password and a fresh code", async () => {
+    advance(1);
+    await agent.post("/api/2fa/disable").send({ password: "Wrong-Password-Entirely-9", code: code() }).expect(403);
+    advance(1);
+    await agent.post("/api/2fa/disable").send({ password: TEST_PASSWORD, code: "000000" }).expect(403);
+    await agent.post("/api/2fa/disable").send({ password: TEST_PASSWORD, code: code() }).expect(204);
+
+    const { body: status } = await agent.get("/api/2fa").expect(200);
+    expect(status).toEqual({ enabled: false, recoveryCodesRemaining: 0 });
+    const { body } = await request(app).post("/api/login").send({ username: user.username, password: TEST_PASSWORD }).expect(200);
+    expect(body.id).toBe(user.id);
+  });
+});
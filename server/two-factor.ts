@@ -0,0 +1,100 @@
+import { createHash, createHmac, randomBytes, randomInt } from "crypto";
+
+// Time-based one-time passwords (RFC 6238) as authenticator apps compute
+// them: HMAC-SHA1 over the number of 30-second steps since the epoch,
+// truncated to six digits.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+const ALLOWED_DRIFT = 1; // steps either side of now, for clock skew
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(bytes: Buffer) {
+  let bits = "";
+  bytes.forEach(byte => { bits += byte.toString(2).padStart(8, "0"); });
+  let result = "";
+  for (let i = 0; i < bits.length; i += 5) {
+    result += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, "0"), 2)];
+  }
+  return result;
+}
+
+function base32Decode(text: string) {
+  const bits = text
+    .toUpperCase()
+    .replace(/[\s=]/g, "")
+    .split("")
+    .map((char) => {
+      const value = BASE32_ALPHABET.indexOf(char);
+      if (value < 0) throw new Error('Invalid base32 secret.');
+      return value.toString(2).padStart(5, "0");
+    })
+    .join("");
+  const bytes: number[] = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  return Buffer.from(bytes);
+}
+
+// 160 bits, the key length RFC 4226 recommends for HMAC-SHA1.
+export function generateTotpSecret() {
+  return base32Encode(randomBytes(20));
+}
+
+export function currentTotpStep(now = Date.now()) {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+export function totpCode(secret: string, step: number) {
+  const counter = Buffer.alloc(8);
+  counter.writeUInt32BE(Math.floor(step / 0x100000000), 0);
+  counter.writeUInt32BE(step % 0x100000000, 4);
+  const hmac = createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const value = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (value % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+}
+
+// The step the code belongs to, or null when it matches none near now.
+// Steps at or before `lastUsedStep` are refused so a code can't be replayed.
+export function verifyTotpCode(secret: string, code: string, lastUsedStep: number | null = null, now = Date.now()) {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const current = currentTotpStep(now);
+  for (let step = current - ALLOWED_DRIFT; step <= current + ALLOWED_DRIFT; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if (totpCode(secret, step) === normalized) return step;
+  }
+  return null;
+}
+
+// The link authenticator apps read from the QR code.
+export function otpauthUrl(secret: string, accountName: string, issuer = "SavvyFinance") {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Lowercase letters and digits without the easily confused 0, o, 1 and l.
+const RECOVERY_ALPHABET = "23456789abcdefghijkmnpqrstuvwxyz";
+
+export function generateRecoveryCodes(count = RECOVERY_CODE_COUNT) {
+  return Array.from({ length: count }, () => {
+    const chars = Array.from({ length: 10 }, () => RECOVERY_ALPHABET[randomInt(RECOVERY_ALPHABET.length)]).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+}
+
+// Codes are random enough that a plain hash suffices; dashes, spaces and
+// case don't matter when one is typed in.
+export function hashRecoveryCode(code: string) {
+  const normalized = code.toLowerCase().replace(/[^a-z0-9]/g, "");
+  return createHash("sha256").update(normalized).digest("hex");
+}
@@ -0,0 +1,240 @@
+// JSON backups of everything a user owns. Records keep their ids so the
+// references between them survive; restoring gives rows new ids where the
+// archived ones are taken. Attachment files are not included.
+import { z } from "zod";
+import {
+  currencySchema,
+  csvMappingSchema,
+  tagNameSchema,
+  insertCategorySchema,
+  insertAccountSchema,
+  insertTransactionSchema,
+  insertTransactionSplitSchema,
+  insertRecurringTransactionSchema,
+  insertRecurringExceptionSchema,
+  insertCategorizationRuleSchema,
+  insertBudgetSchema,
+  insertGoalSchema,
+  insertGoalContributionSchema,
+  insertExchangeRateSchema,
+  insertUserSettingsSchema,
+  insertNotificationSchema,
+  ledgerAccountNameSchema,
+  validateTransactionShape,
+} from "./schema";
+
+export const BACKUP_FORMAT = "savvyfinance-backup";
+export const BACKUP_VERSION = 1;
+
+export const RESTORE_MODES = ["merge", "replace"] as const;
+export type RestoreMode = typeof RESTORE_MODES[number];
+
+const id = z.string().uuid();
+const timestamp = z.coerce.date();
+
+const backupCategorySchema = insertCategorySchema.extend({
+  id,
+  parentId: id.nullable().optional(),
+  createdAt: timestamp.optional(),
+});
+
+const backupAccountSchema = insertAccountSchema.extend({
+  id,
+  createdAt: timestamp.optional(),
+});
+
+const backupTransactionSchema = insertTransactionSchema.extend({
+  id,
+  date: timestamp,
+  recurringTransactionId: id.nullable().optional(),
+  externalId: z.string().nullable().optional(),
+  splits: z.array(insertTransactionSplitSchema).default([]),
+  tags: z.array(tagNameSchema).default([]),
+  createdAt: timestamp.optional(),
+});
+
+const backupRecurringTransactionSchema = insertRecurringTransactionSchema.extend({
+  id,
+  startDate: timestamp,
+  endDate: timestamp.nullable().optional(),
+  occurrenceCount: z.number().int().min(0).default(0),
+  occurrenceOffset: z.number().int().default(0),
+  nextDate: timestamp.nullable().optional(),
+  exceptions: z.array(insertRecurringExceptionSchema.extend({
+    occurrenceDate: timestamp,
+  })).default([]),
+  createdAt: timestamp.optional(),
+});
+
+const backupRuleSchema = insertCategorizationRuleSchema.extend({
+  id,
+  createdAt: timestamp.optional(),
+});
+
+const backupImportProfileSchema = z.object({
+  name: z.string().trim().min(1),
+  mapping: csvMappingSchema,
+  createdAt: timestamp.optional(),
+  updatedAt: timestamp.optional(),
+});
+
+const backupLedgerAccountSchema = z.object({
+  categoryId: id.nullable().default(null),
+  accountId: id.nullable().default(null),
+  name: ledgerAccountNameSchema,
+  createdAt: timestamp.optional(),
+}).refine((ledgerAccount) => !ledgerAccount.categoryId !== !ledgerAccount.accountId, "Name either a category or an account");
+
+const backupBudgetSchema = insertBudgetSchema.extend({
+  id,
+  alertedThresholds: z.array(z.number().int()).default([]), // alerts already sent
+  createdAt: timestamp.optional(),
+});
+
+const backupGoalSchema = insertGoalSchema.extend({
+  id,
+  targetDate: timestamp.nullable().optional(),
+  contributions: z.array(insertGoalContributionSchema.extend({
+    date: timestamp,
+    transactionId: id.nullable().optional(),
+    createdAt: timestamp.optional(),
+  })).default([]),
+  createdAt: timestamp.optional(),
+});
+
+const backupExchangeRateSchema = insertExchangeRateSchema.extend({
+  date: timestamp,
+  source: z.string().min(1).default("manual"),
+  createdAt: timestamp.optional(),
+});
+
+const backupNotificationSchema = insertNotificationSchema.extend({
+  isRead: z.boolean().default(false),
+  createdAt: timestamp.optional(),
+});
+
+const backupDuplicateDismissalSchema = z.object({
+  firstTransactionId: id,
+  secondTransactionId: id,
+});
+
+const backupDataObject = z.object({
+  baseCurrency: currencySchema,
+  settings: insertUserSettingsSchema.nullable().default(null),
+  categories: z.array(backupCategorySchema).default([]),
+  accounts: z.array(backupAccountSchema).default([]),
+  recurringTransactions: z.array(backupRecurringTransactionSchema).default([]),
+  transactions: z.array(backupTransactionSchema).default([]),
+  rules: z.array(backupRuleSchema).default([]),
+  importProfiles: z.array(backupImportProfileSchema).default([]),
+  ledgerAccounts: z.array(backupLedgerAccountSchema).default([]),
+  budgets: z.array(backupBudgetSchema).default([]),
+  goals: z.array(backupGoalSchema).default([]),
+  exchangeRates: z.array(backupExchangeRateSchema).default([]),
+  notifications: z.array(backupNotificationSchema).default([]),
+  duplicateDismissals: z.array(backupDuplicateDismissalSchema).default([]),
+});
+
+export const backupDataSchema = backupDataObject.superRefine(checkReferences).superRefine(checkTransactionShapes);
+
+export const backupArchiveSchema = z.object({
+  format: z.literal(BACKUP_FORMAT, { errorMap: () => ({ message: "Not a SavvyFinance backup" }) }),
+  version: z.literal(BACKUP_VERSION, { errorMap: () => ({ message: `Unsupported backup version; expected ${BACKUP_VERSION}` }) }),
+  exportedAt: timestamp,
+  data: backupDataSchema,
+});
+
+export type BackupData = z.infer<typeof backupDataSchema>;
+export type BackupArchive = z.infer<typeof backupArchiveSchema>;
+
+export type BackupSection = Exclude<keyof BackupData, "baseCurrency" | "settings">;
+// Records added and records left out because the user already has them.
+export type RestoreSummary = Record<BackupSection, { added: number; skipped: number }>;
+
+// Every id a record refers to must belong to a record in the same archive,
+// so a restore can never point at rows outside the user's own data.
+function checkReferences(data: z.infer<typeof backupDataObject>, ctx: z.RefinementCtx) {
+  const idsOf = (section: "categories" | "accounts" | "recurringTransactions" | "transactions" | "rules" | "budgets" | "goals") => {
+    const ids = new Set<string>();
+    data[section].forEach((record, index) => {
+      if (ids.has(record.id)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [section, index, "id"], message: "Duplicate id" });
+      }
+      ids.add(record.id);
+    });
+    return ids;
+  };
+  const categoryIds = idsOf("categories");
+  const accountIds = idsOf("accounts");
+  const recurringIds = idsOf("recurringTransactions");
+  const transactionIds = idsOf("transactions");
+  idsOf("rules");
+  idsOf("budgets");
+  idsOf("goals");
+
+  const check = (ids: Set<string>, value: string | null | undefined, path: Array<string | number>, label: string) => {
+    if (value && !ids.has(value)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown ${label} ${value}` });
+    }
+  };
+
+  data.categories.forEach((category, i) => {
+    check(categoryIds, category.parentId, ["categories", i, "parentId"], "category");
+  });
+  data.recurringTransactions.forEach((recurring, i) => {
+    check(accountIds, recurring.accountId, ["recurringTransactions", i, "accountId"], "account");
+    check(accountIds, recurring.transferAccountId, ["recurringTransactions", i, "transferAccountId"], "account");
+    check(categoryIds, recurring.categoryId, ["recurringTransactions", i, "categoryId"], "category");
+    recurring.exceptions.forEach((exception, j) => {
+      check(categoryIds, exception.categoryId, ["recurringTransactions", i, "exceptions", j, "categoryId"], "category");
+    });
+  });
+  data.transactions.forEach((transaction, i) => {
+    check(accountIds, transaction.accountId, ["transactions", i, "accountId"], "account");
+    check(accountIds, transaction.transferAccountId, ["transactions", i, "transferAccountId"], "account");
+    check(categoryIds, transaction.categoryId, ["transactions", i, "categoryId"], "category");
+    check(recurringIds, transaction.recurringTransactionId, ["transactions", i, "recurringTransactionId"], "recurring transaction");
+    transaction.splits.forEach((split, j) => {
+      check(categoryIds, split.categoryId, ["transactions", i, "splits", j, "categoryId"], "category");
+    });
+  });
+  data.rules.forEach((rule, i) => {
+    check(categoryIds, rule.categoryId, ["rules", i, "categoryId"], "category");
+    rule.conditions.forEach((condition, j) => {
+      if (condition.field === "accountId") {
+        check(accountIds, condition.value, ["rules", i, "conditions", j, "value"], "account");
+      }
+    });
+  });
+  data.importProfiles.forEach((profile, i) => {
+    check(accountIds, profile.mapping.accountId, ["importProfiles", i, "mapping", "accountId"], "account");
+    check(categoryIds, profile.mapping.defaultCategoryId, ["importProfiles", i, "mapping", "defaultCategoryId"], "category");
+  });
+  data.ledgerAccounts.forEach((ledgerAccount, i) => {
+    check(categoryIds, ledgerAccount.categoryId, ["ledgerAccounts", i, "categoryId"], "category");
+    check(accountIds, ledgerAccount.accountId, ["ledgerAccounts", i, "accountId"], "account");
+  });
+  data.budgets.forEach((budget, i) => {
+    check(categoryIds, budget.categoryId, ["budgets", i, "categoryId"], "category");
+  });
+  data.goals.forEach((goal, i) => {
+    goal.contributions.forEach((contribution, j) => {
+      check(transactionIds, contribution.transactionId, ["goals", i, "contributions", j, "transactionId"], "transaction");
+    });
+  });
+  data.duplicateDismissals.forEach((dismissal, i) => {
+    check(transactionIds, dismissal.firstTransactionId, ["duplicateDismissals", i, "firstTransactionId"], "transaction");
+    check(transactionIds, dismissal.secondTransactionId, ["duplicateDismissals", i, "secondTransactionId"], "transaction");
+  });
+}
+
+// Archived transactions are held to the same rules as ones entered in the
+// app: split lines add up, transfers name two accounts and no category.
+function checkTransactionShapes(data: z.infer<typeof backupDataObject>, ctx: z.RefinementCtx) {
+  data.transactions.forEach((transaction, i) => {
+    const error = validateTransactionShape(transaction);
+    if (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["transactions", i], message: error });
+    }
+  });
+}
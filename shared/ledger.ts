@@ -0,0 +1,87 @@
+import type { Account, Category, LedgerAccount } from "./schema";
+
+// Account names in plain-text accounting (Ledger, hledger, Beancount) are
+// colon-separated paths under one of five roots, e.g.
+// "Expenses:Food:Groceries". Beancount is the strictest of the three: each
+// component starts with a capital letter or digit and holds only letters,
+// digits and dashes, so names that suit it suit all three tools.
+export const LEDGER_ACCOUNT_PATTERN = /^(Assets|Liabilities|Equity|Income|Expenses)(:[A-Z0-9][A-Za-z0-9-]*)+$/;
+
+export const OPENING_BALANCES_ACCOUNT = "Equity:Opening-Balances";
+export const UNASSIGNED_ACCOUNT = "Assets:Unassigned"; // transactions without an account
+
+type NamedAccount = Pick<Account, "id" | "name" | "type">;
+type NamedCategory = Pick<Category, "id" | "name" | "parentId">;
+
+// A category or account name as one account name component:
+// "Eating out & bars" -> "Eating-Out-Bars", "Café" -> "Cafe".
+export function ledgerComponent(name: string) {
+  const words = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean);
+  if (words.length === 0) return "Unnamed";
+  return words.map(word => word[0].toUpperCase() + word.slice(1)).join("-");
+}
+
+// Credit cards and loans are money owed; every other account holds money.
+export function defaultAccountLedgerName(account: Omit<NamedAccount, "id">) {
+  const root = account.type === "credit_card" || account.type === "loan" ? "Liabilities" : "Assets";
+  return `${root}:${ledgerComponent(account.name)}`;
+}
+
+// Categories are shared by income and expenses, so the default name depends
+// on which one a posting is: "Expenses:Food:Groceries" or "Income:Salary".
+export function defaultCategoryLedgerName(categories: NamedCategory[], categoryId: string | null, root: "Income" | "Expenses") {
+  const category = categoryId ? categories.find(c => c.id === categoryId) : undefined;
+  if (!category) return `${root}:Uncategorized`;
+  const parent = categories.find(c => c.id === category.parentId);
+  return [root, parent && ledgerComponent(parent.name), ledgerComponent(category.name)].filter(Boolean).join(":");
+}
+
+// The names a user's categories and accounts go by in exports, and the way
+// back from a name to a category or account for imports. Names the user
+// chose win over the defaults.
+export function createLedgerNames(
+  categories: NamedCategory[],
+  accounts: NamedAccount[],
+  ledgerAccounts: Pick<LedgerAccount, "categoryId" | "accountId" | "name">[],
+) {
+  const categoryNames = new Map<string, string>();
+  const accountNames = new Map<string, string>();
+  ledgerAccounts.forEach(({ categoryId, accountId, name }) => {
+    if (categoryId) categoryNames.set(categoryId, name);
+    if (accountId) accountNames.set(accountId, name);
+  });
+
+  const categoryIds = new Map<string, string>();
+  const accountIds = new Map<string, string>();
+  const remember = (ids: Map<string, string>, name: string, id: string) => {
+    if (!ids.has(name)) ids.set(name, id);
+  };
+  ledgerAccounts.forEach(({ categoryId, accountId, name }) => {
+    if (categoryId) remember(categoryIds, name, categoryId);
+    if (accountId) remember(accountIds, name, accountId);
+  });
+  categories.forEach((category) => {
+    remember(categoryIds, defaultCategoryLedgerName(categories, category.id, "Expenses"), category.id);
+    remember(categoryIds, defaultCategoryLedgerName(categories, category.id, "Income"), category.id);
+  });
+  accounts.forEach((account) => remember(accountIds, defaultAccountLedgerName(account), account.id));
+
+  return {
+    category(categoryId: string | null, root: "Income" | "Expenses") {
+      return (categoryId && categoryNames.get(categoryId)) || defaultCategoryLedgerName(categories, categoryId, root);
+    },
+    account(accountId: string | null) {
+      const account = accountId ? accounts.find(a => a.id === accountId) : undefined;
+      if (!account) return UNASSIGNED_ACCOUNT;
+      return accountNames.get(account.id) ?? defaultAccountLedgerName(account);
+    },
+    findCategory: (name: string) => categoryIds.get(name),
+    findAccount: (name: string) => accountIds.get(name),
+  };
+}
+
+export type LedgerNames = ReturnType<typeof createLedgerNames>;
@@ -0,0 +1,54 @@
+// Rules a new password has to meet. The server reads its policy from the
+// environment (see server/password-policy.ts) and serves it at
+// GET /api/password-policy, so forms can show the same rules as hints.
+export interface PasswordPolicy {
+  minLength: number;
+  maxLength: number;
+  // How many of lowercase letters, uppercase letters, digits and symbols
+  // must appear; 1 means any mix is fine.
+  minCharacterClasses: number;
+}
+
+// Length over composition, as NIST SP 800-63B recommends.
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  maxLength: 128,
+  minCharacterClasses: 1,
+};
+
+export function countCharacterClasses(password: string) {
+  return [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter(pattern => pattern.test(password)).length;
+}
+
+export type PasswordRequirement = { label: string; met: boolean };
+
+// The policy's rules, each marked met or not. `personal` holds the
+// username and email, which the password mustn't contain.
+export function passwordRequirements(password: string, policy: PasswordPolicy, personal: string[] = []): PasswordRequirement[] {
+  const length = Array.from(password).length;
+  const lower = password.toLowerCase();
+  const requirements: PasswordRequirement[] = [
+    { label: `At least ${policy.minLength} characters`, met: length >= policy.minLength },
+  ];
+  if (length > policy.maxLength) {
+    requirements.push({ label: `At most ${policy.maxLength} characters`, met: false });
+  }
+  if (policy.minCharacterClasses > 1) {
+    requirements.push({
+      label: `At least ${policy.minCharacterClasses} of: lowercase letters, uppercase letters, digits, symbols`,
+      met: countCharacterClasses(password) >= policy.minCharacterClasses,
+    });
+  }
+  // The email's local part too: "jane.doe" in jane.doe@example.com
+  const words = personal
+    .flatMap(value => [value, value.split("@")[0]])
+    .map(value => value.trim().toLowerCase())
+    .filter(value => value.length >= 3);
+  if (words.length > 0) {
+    requirements.push({
+      label: "Doesn't contain your username or email address",
+      met: !words.some(word => lower.includes(word)),
+    });
+  }
+  return requirements;
+}
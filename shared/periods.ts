@@ -0,0 +1,65 @@
+// Date-range helpers shared by the server and the client. Transaction dates
+// are calendar dates stored at UTC midnight, so all arithmetic here is in UTC.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface PeriodSettings {
+  timeZone: string;
+  weekStartsOn: number; // 0 = Sunday ... 6 = Saturday
+  budgetMonthStartDay: number; // 1-28
+}
+
+export const DEFAULT_PERIOD_SETTINGS: PeriodSettings = {
+  timeZone: "UTC",
+  weekStartsOn: 1,
+  budgetMonthStartDay: 1,
+};
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Today's calendar date in the given time zone, at UTC midnight.
+export function todayIn(timeZone: string, now = new Date()): Date {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : "UTC",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  }).formatToParts(now);
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)!.value);
+  return new Date(Date.UTC(part("year"), part("month") - 1, part("day")));
+}
+
+// A budget month is named after the calendar month it starts in: with a start
+// day of 25, the March budget runs from 25 March to 24 April.
+export function getBudgetMonthPeriod(month: number, year: number, startDay: number) {
+  return {
+    startDate: new Date(Date.UTC(year, month - 1, startDay)),
+    endDate: new Date(Date.UTC(year, month, startDay) - DAY_MS), // inclusive
+  };
+}
+
+// The budget month a calendar date falls in.
+export function getBudgetMonthOf(date: Date, startDay: number) {
+  const monthIndex = date.getUTCDate() < startDay ? date.getUTCMonth() - 1 : date.getUTCMonth();
+  const start = new Date(Date.UTC(date.getUTCFullYear(), monthIndex, 1));
+  return { month: start.getUTCMonth() + 1, year: start.getUTCFullYear() };
+}
+
+// Moves a budget month forwards or backwards by whole months.
+export function shiftBudgetMonth({ month, year }: { month: number; year: number }, months: number) {
+  const date = new Date(Date.UTC(year, month - 1 + months, 1));
+  return { month: date.getUTCMonth() + 1, year: date.getUTCFullYear() };
+}
+
+// The first day of the week containing the date.
+export function getWeekStart(date: Date, weekStartsOn: number): Date {
+  const offset = (date.getUTCDay() - weekStartsOn + 7) % 7;
+  return new Date(date.getTime() - offset * DAY_MS);
+}
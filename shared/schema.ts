@@ -1,8 +1,18 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, decimal, timestamp, boolean, uuid, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, decimal, timestamp, boolean, uuid, pgEnum, unique, index, primaryKey, jsonb, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { RE2JS } from "re2js";
+import { isValidTimeZone } from "./periods";
+import { LEDGER_ACCOUNT_PATTERN } from "./ledger";
+
+// Currencies amounts can be recorded in (ISO 4217 codes). Amounts are
+// stored in their own currency and converted for analytics.
+export const CURRENCIES = ["INR", "USD", "EUR", "GBP", "JPY", "CNY", "AUD", "CAD", "CHF", "SGD", "HKD", "NZD", "AED", "SEK", "THB", "MYR", "ZAR"] as const;
+export const DEFAULT_CURRENCY = "INR";
+
+export const currencySchema = z.string().refine((value) => (CURRENCIES as readonly string[]).includes(value), "Unsupported currency");
 
 export const users = pgTable("users", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -11,49 +21,328 @@ export const users = pgTable("users", {
   email: text("email").notNull().unique(),
   firstName: text("first_name").notNull(),
   lastName: text("last_name").notNull(),
+  baseCurrency: text("base_currency").default(DEFAULT_CURRENCY).notNull(), // analytics are reported in this currency
+  emailVerifiedAt: timestamp("email_verified_at"), // null until a verification link is followed
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-export const categoryEnum = pgEnum("category", [
-  "Food",
-  "Transportation", 
-  "Entertainment",
-  "Bills",
-  "Shopping",
-  "Healthcare",
-  "Education",
-  "Travel",
-  "Groceries",
-  "Utilities",
-  "Insurance",
-  "Investment",
-  "Income",
-  "Other"
+function isSupportedLocale(locale: string) {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+export const CURRENCY_DISPLAYS = ["symbol", "narrowSymbol", "code"] as const;
+export type CurrencyDisplay = typeof CURRENCY_DISPLAYS[number];
+
+// Display and date-range preferences. Users without a row get the column
+// defaults.
+export const userSettings = pgTable("user_settings", {
+  userId: uuid("user_id").primaryKey().references(() => users.id),
+  currencyDisplay: text("currency_display").$type<CurrencyDisplay>().default("symbol").notNull(), // ₹ / Rs / INR
+  locale: text("locale").default("en-IN").notNull(), // number and date formatting
+  timeZone: text("time_zone").default("UTC").notNull(), // decides what "today" and "this month" are
+  weekStartsOn: integer("week_starts_on").default(1).notNull(), // 0 = Sunday ... 6 = Saturday
+  budgetMonthStartDay: integer("budget_month_start_day").default(1).notNull(), // e.g. 25 when paid on the 25th
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// The authenticator app secret of a user with two-factor authentication
+// turned on. Users without a row sign in with their password alone.
+export const twoFactorSecrets = pgTable("two_factor_secrets", {
+  userId: uuid("user_id").primaryKey().references(() => users.id),
+  secret: text("secret").notNull(), // base32, as authenticator apps take it
+  lastUsedStep: integer("last_used_step"), // a code is accepted once
+  enabledAt: timestamp("enabled_at").defaultNow().notNull(),
+});
+
+// One-time codes for signing in without the authenticator app. Only hashes
+// are stored; the codes are shown once, when they are generated.
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("recovery_codes_user_idx").on(table.userId),
+]);
+
+export const AUTH_TOKEN_PURPOSES = ["password_reset", "email_verification"] as const;
+export type AuthTokenPurpose = typeof AUTH_TOKEN_PURPOSES[number];
+
+// Links emailed for resetting a password or verifying an address. The
+// link carries the row id and expiry signed with the session secret (see
+// server/account-tokens.ts); the row makes each link single-use.
+export const authTokens = pgTable("auth_tokens", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  purpose: text("purpose").$type<AuthTokenPurpose>().notNull(),
+  email: text("email").notNull(), // the address the link was sent to
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("auth_tokens_user_idx").on(table.userId),
 ]);
 
-export const transactionTypeEnum = pgEnum("transaction_type", ["income", "expense"]);
+// Categories every new user starts with. Icons are lucide icon names.
+export const DEFAULT_CATEGORIES = [
+  { name: "Food", color: "#ef4444", icon: "utensils" },
+  { name: "Transportation", color: "#3b82f6", icon: "car" },
+  { name: "Entertainment", color: "#22c55e", icon: "film" },
+  { name: "Bills", color: "#a855f7", icon: "receipt" },
+  { name: "Shopping", color: "#eab308", icon: "shopping-bag" },
+  { name: "Healthcare", color: "#ec4899", icon: "heart-pulse" },
+  { name: "Education", color: "#6366f1", icon: "graduation-cap" },
+  { name: "Travel", color: "#f97316", icon: "plane" },
+  { name: "Groceries", color: "#84cc16", icon: "shopping-cart" },
+  { name: "Utilities", color: "#06b6d4", icon: "zap" },
+  { name: "Insurance", color: "#6b7280", icon: "shield" },
+  { name: "Investment", color: "#10b981", icon: "trending-up" },
+  { name: "Income", color: "#14b8a6", icon: "wallet" },
+  { name: "Other", color: "#64748b", icon: "tag" },
+] as const;
+
+export const categories = pgTable("categories", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  parentId: uuid("parent_id").references((): AnyPgColumn => categories.id),
+  name: text("name").notNull(),
+  color: text("color").default("#64748b").notNull(),
+  icon: text("icon").default("tag").notNull(),
+  isArchived: boolean("is_archived").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const transactionTypeEnum = pgEnum("transaction_type", ["income", "expense", "transfer"]);
+
+export const accountTypeEnum = pgEnum("account_type", ["checking", "savings", "credit_card", "cash", "loan"]);
+
+export const accounts = pgTable("accounts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  type: accountTypeEnum("type").notNull(),
+  openingBalance: decimal("opening_balance", { precision: 12, scale: 2 }).default("0").notNull(),
+  currency: text("currency").default(DEFAULT_CURRENCY).notNull(),
+  isArchived: boolean("is_archived").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const recurrenceFrequencyEnum = pgEnum("recurrence_frequency", ["daily", "weekly", "monthly", "yearly"]);
+
+// Templates materialized into transactions by the scheduler. Occurrences are
+// numbered from startDate; occurrenceCount is the index of the next one due.
+// A schedule edit renumbers them, so occurrenceOffset is how far that index
+// is ahead of the occurrences counted towards occurrenceLimit.
+export const recurringTransactions = pgTable("recurring_transactions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  accountId: uuid("account_id").references(() => accounts.id),
+  transferAccountId: uuid("transfer_account_id").references(() => accounts.id),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  description: text("description").notNull(),
+  categoryId: uuid("category_id").references(() => categories.id),
+  type: transactionTypeEnum("type").notNull(),
+  frequency: recurrenceFrequencyEnum("frequency").notNull(),
+  interval: integer("interval").default(1).notNull(), // every N days/weeks/months/years
+  weekOfMonth: integer("week_of_month"), // monthly on the nth weekday: 1-4, or -1 for the last
+  dayOfWeek: integer("day_of_week"), // 0 (Sunday) - 6, used with weekOfMonth
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date"),
+  occurrenceLimit: integer("occurrence_limit"),
+  occurrenceCount: integer("occurrence_count").default(0).notNull(),
+  occurrenceOffset: integer("occurrence_offset").default(0).notNull(),
+  nextDate: timestamp("next_date"), // null once the schedule has ended
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Per-occurrence overrides: skip a single occurrence or change its details.
+export const recurringExceptions = pgTable("recurring_exceptions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  recurringTransactionId: uuid("recurring_transaction_id").references(() => recurringTransactions.id, { onDelete: "cascade" }).notNull(),
+  occurrenceDate: timestamp("occurrence_date").notNull(),
+  isSkipped: boolean("is_skipped").default(false).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }),
+  description: text("description"),
+  categoryId: uuid("category_id").references(() => categories.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.recurringTransactionId, table.occurrenceDate),
+]);
 
 export const transactions = pgTable("transactions", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("user_id").references(() => users.id).notNull(),
+  accountId: uuid("account_id").references(() => accounts.id),
+  transferAccountId: uuid("transfer_account_id").references(() => accounts.id), // destination for transfers
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
+  currency: text("currency").default(DEFAULT_CURRENCY).notNull(), // always the account's currency when there is one
   description: text("description").notNull(),
-  category: categoryEnum("category").notNull(),
+  categoryId: uuid("category_id").references(() => categories.id), // null for transfers
   type: transactionTypeEnum("type").notNull(),
   date: timestamp("date").notNull(),
+  recurringTransactionId: uuid("recurring_transaction_id").references(() => recurringTransactions.id, { onDelete: "set null" }),
+  externalId: text("external_id"), // OFX FITID or QIF content hash, for skipping re-imports
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.externalId),
+  index("transactions_user_date_idx").on(table.userId, table.date),
+]);
+
+// Lines of a split transaction, each with its own category. Lines add up to
+// the transaction amount, and the transaction itself has no category.
+// Analytics and budgets count the lines instead of the transaction.
+export const transactionSplits = pgTable("transaction_splits", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  transactionId: uuid("transaction_id").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  categoryId: uuid("category_id").references(() => categories.id).notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // in the transaction's currency
+  note: text("note"),
+  position: integer("position").default(0).notNull(), // order within the transaction
+}, (table) => [
+  index("transaction_splits_transaction_idx").on(table.transactionId),
+]);
+
+// Receipts and other documents kept with a transaction. The files live in
+// the server's file storage, keyed by user and attachment id.
+export const ATTACHMENT_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "application/pdf"] as const;
+export type AttachmentContentType = typeof ATTACHMENT_CONTENT_TYPES[number];
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024; // bytes
+export const MAX_ATTACHMENTS_PER_TRANSACTION = 10;
+
+export const attachments = pgTable("attachments", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  transactionId: uuid("transaction_id").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").$type<AttachmentContentType>().notNull(),
+  size: integer("size").notNull(), // bytes
+  hasThumbnail: boolean("has_thumbnail").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("attachments_transaction_idx").on(table.transactionId),
+]);
+
+// Labels that cut across categories, e.g. "reimbursable" or "vacation-2026".
+// Names are normalized (see tagNameSchema) so each label exists once per user.
+export const tags = pgTable("tags", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.name),
+]);
+
+export const transactionTags = pgTable("transaction_tags", {
+  transactionId: uuid("transaction_id").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  tagId: uuid("tag_id").references(() => tags.id, { onDelete: "cascade" }).notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.transactionId, table.tagId] }),
+  index("transaction_tags_tag_idx").on(table.tagId),
+]);
+
+// A rule matches when all of its conditions hold. Description operators are
+// case-insensitive; amount operators compare against the absolute amount.
+export const RULE_FIELDS = ["description", "amount", "type", "accountId"] as const;
+export const RULE_OPERATORS = {
+  description: ["contains", "equals", "startsWith", "endsWith", "regex"],
+  amount: ["gt", "gte", "lt", "lte", "eq"],
+  type: ["equals"],
+  accountId: ["equals"],
+} as const;
+
+export const ruleConditionSchema = z.object({
+  field: z.enum(RULE_FIELDS),
+  operator: z.enum(["contains", "equals", "startsWith", "endsWith", "regex", "gt", "gte", "lt", "lte", "eq"]),
+  value: z.string().trim().min(1, "Value is required").max(200),
+}).superRefine((condition, ctx) => {
+  if (!(RULE_OPERATORS[condition.field] as readonly string[]).includes(condition.operator)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["operator"], message: `Operator ${condition.operator} does not apply to ${condition.field}` });
+  }
+  if (condition.field === "amount" && isNaN(Number(condition.value))) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Amount must be a number" });
+  }
+  if (condition.field === "type" && !["income", "expense"].includes(condition.value)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Type must be income or expense" });
+  }
+  // Patterns run on the server with RE2, which matches in linear time but
+  // has no lookarounds or backreferences.
+  if (condition.operator === "regex") {
+    try {
+      RE2JS.compile(condition.value);
+    } catch {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["value"], message: "Invalid regular expression (lookarounds and backreferences are not supported)" });
+    }
+  }
 });
 
+export const categorizationRules = pgTable("categorization_rules", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  priority: integer("priority").default(0).notNull(), // lower runs first
+  conditions: jsonb("conditions").$type<RuleCondition[]>().notNull(),
+  categoryId: uuid("category_id").references(() => categories.id).notNull(),
+  isActive: boolean("is_active").default(true).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Pairs the user reviewed and marked as not duplicates. Ids are stored in
+// sorted order so each pair has a single row.
+export const duplicateDismissals = pgTable("duplicate_dismissals", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  firstTransactionId: uuid("first_transaction_id").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  secondTransactionId: uuid("second_transaction_id").references(() => transactions.id, { onDelete: "cascade" }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique("duplicate_dismissals_pair_unique").on(table.userId, table.firstTransactionId, table.secondTransactionId),
+]);
+
+// Manual rates, and rates cached from the exchange-rate provider. A rate
+// applies from its date until the next rate for the same pair.
+export const exchangeRates = pgTable("exchange_rates", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(), // units of toCurrency per fromCurrency
+  date: timestamp("date").notNull(),
+  source: text("source").default("manual").notNull(), // 'manual' or the provider name
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.fromCurrency, table.toCurrency, table.date),
+]);
+
 export const budgets = pgTable("budgets", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("user_id").references(() => users.id).notNull(),
-  category: categoryEnum("category").notNull(),
+  categoryId: uuid("category_id").references(() => categories.id).notNull(),
   amount: decimal("amount", { precision: 12, scale: 2 }).notNull(),
   month: integer("month").notNull(), // 1-12
   year: integer("year").notNull(),
+  alertThresholds: jsonb("alert_thresholds").$type<number[]>().default([80, 100]).notNull(), // % of amount
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Thresholds a budget has already notified about, so each one fires once per
+// budget period. Cleared again if spending drops back below the threshold.
+export const budgetAlerts = pgTable("budget_alerts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  budgetId: uuid("budget_id").references(() => budgets.id, { onDelete: "cascade" }).notNull(),
+  threshold: integer("threshold").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.budgetId, table.threshold),
+]);
+
 export const goals = pgTable("goals", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("user_id").references(() => users.id).notNull(),
@@ -65,6 +354,71 @@ export const goals = pgTable("goals", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+export const goalContributionTypeEnum = pgEnum("goal_contribution_type", ["deposit", "withdrawal"]);
+
+// Money moved into or out of a goal. The goal's currentAmount is the running
+// total of its contributions and is kept in sync by storage.
+export const goalContributions = pgTable("goal_contributions", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  goalId: uuid("goal_id").references(() => goals.id, { onDelete: "cascade" }).notNull(),
+  type: goalContributionTypeEnum("type").notNull(),
+  amount: decimal("amount", { precision: 12, scale: 2 }).notNull(), // always positive
+  date: timestamp("date").notNull(),
+  transactionId: uuid("transaction_id").references(() => transactions.id, { onDelete: "set null" }),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Column mapping and parsing options for a bank's CSV export. Columns are
+// zero-based indexes; either `amount` or a `debit`/`credit` pair is required.
+export const CSV_DATE_FORMATS = ["YYYY-MM-DD", "DD/MM/YYYY", "MM/DD/YYYY", "DD-MM-YYYY", "DD.MM.YYYY", "YYYY/MM/DD"] as const;
+
+export const csvMappingSchema = z.object({
+  delimiter: z.enum([",", ";", "\t", "|"]).default(","),
+  hasHeader: z.boolean().default(true),
+  dateFormat: z.enum(CSV_DATE_FORMATS).default("YYYY-MM-DD"),
+  decimalSeparator: z.enum([".", ","]).default("."),
+  columns: z.object({
+    date: z.number().int().min(0),
+    description: z.number().int().min(0),
+    amount: z.number().int().min(0).nullable().optional(),
+    debit: z.number().int().min(0).nullable().optional(),
+    credit: z.number().int().min(0).nullable().optional(),
+    category: z.number().int().min(0).nullable().optional(),
+  }).refine((columns) => columns.amount != null || (columns.debit != null && columns.credit != null), {
+    message: "Map either an amount column or both debit and credit columns",
+  }),
+  accountId: z.string().uuid().nullable().optional(),
+  // Used when the row has no category column or its value matches no category
+  defaultCategoryId: z.string().uuid().nullable().optional(),
+});
+
+export const importProfiles = pgTable("import_profiles", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(), // bank or statement source
+  mapping: jsonb("mapping").$type<CsvMapping>().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.name),
+]);
+
+// Account names the user chose for the plain-text accounting exports, e.g.
+// "Expenses:Dining" for a category. Each row names one category or one
+// account; anything without a row gets a default name (see shared/ledger.ts).
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: uuid("user_id").references(() => users.id).notNull(),
+  categoryId: uuid("category_id").references(() => categories.id, { onDelete: "cascade" }),
+  accountId: uuid("account_id").references(() => accounts.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.userId, table.categoryId),
+  unique().on(table.userId, table.accountId),
+]);
+
 export const notifications = pgTable("notifications", {
   id: uuid("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: uuid("user_id").references(() => users.id).notNull(),
@@ -76,18 +430,138 @@ export const notifications = pgTable("notifications", {
 });
 
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
+  accounts: many(accounts),
+  categories: many(categories),
+  recurringTransactions: many(recurringTransactions),
   transactions: many(transactions),
   budgets: many(budgets),
   goals: many(goals),
   notifications: many(notifications),
+  importProfiles: many(importProfiles),
+  categorizationRules: many(categorizationRules),
+  exchangeRates: many(exchangeRates),
+  tags: many(tags),
+  attachments: many(attachments),
+  ledgerAccounts: many(ledgerAccounts),
+  recoveryCodes: many(recoveryCodes),
+  authTokens: many(authTokens),
+  settings: one(userSettings),
+  twoFactorSecret: one(twoFactorSecrets),
+}));
+
+export const accountsRelations = relations(accounts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [accounts.userId],
+    references: [users.id],
+  }),
+  transactions: many(transactions, { relationName: "account" }),
+  incomingTransfers: many(transactions, { relationName: "transferAccount" }),
+}));
+
+export const categoriesRelations = relations(categories, ({ one, many }) => ({
+  user: one(users, {
+    fields: [categories.userId],
+    references: [users.id],
+  }),
+  parent: one(categories, {
+    fields: [categories.parentId],
+    references: [categories.id],
+    relationName: "subcategories",
+  }),
+  subcategories: many(categories, { relationName: "subcategories" }),
+  transactions: many(transactions),
+  transactionSplits: many(transactionSplits),
+  budgets: many(budgets),
 }));
 
-export const transactionsRelations = relations(transactions, ({ one }) => ({
+export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   user: one(users, {
     fields: [transactions.userId],
     references: [users.id],
   }),
+  category: one(categories, {
+    fields: [transactions.categoryId],
+    references: [categories.id],
+  }),
+  account: one(accounts, {
+    fields: [transactions.accountId],
+    references: [accounts.id],
+    relationName: "account",
+  }),
+  transferAccount: one(accounts, {
+    fields: [transactions.transferAccountId],
+    references: [accounts.id],
+    relationName: "transferAccount",
+  }),
+  recurringTransaction: one(recurringTransactions, {
+    fields: [transactions.recurringTransactionId],
+    references: [recurringTransactions.id],
+  }),
+  splits: many(transactionSplits),
+  transactionTags: many(transactionTags),
+  attachments: many(attachments),
+}));
+
+export const transactionSplitsRelations = relations(transactionSplits, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionSplits.transactionId],
+    references: [transactions.id],
+  }),
+  category: one(categories, {
+    fields: [transactionSplits.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const attachmentsRelations = relations(attachments, ({ one }) => ({
+  user: one(users, {
+    fields: [attachments.userId],
+    references: [users.id],
+  }),
+  transaction: one(transactions, {
+    fields: [attachments.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export const tagsRelations = relations(tags, ({ one, many }) => ({
+  user: one(users, {
+    fields: [tags.userId],
+    references: [users.id],
+  }),
+  transactionTags: many(transactionTags),
+}));
+
+export const transactionTagsRelations = relations(transactionTags, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionTags.transactionId],
+    references: [transactions.id],
+  }),
+  tag: one(tags, {
+    fields: [transactionTags.tagId],
+    references: [tags.id],
+  }),
+}));
+
+export const recurringTransactionsRelations = relations(recurringTransactions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [recurringTransactions.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [recurringTransactions.categoryId],
+    references: [categories.id],
+  }),
+  exceptions: many(recurringExceptions),
+  transactions: many(transactions),
+}));
+
+export const recurringExceptionsRelations = relations(recurringExceptions, ({ one }) => ({
+  recurringTransaction: one(recurringTransactions, {
+    fields: [recurringExceptions.recurringTransactionId],
+    references: [recurringTransactions.id],
+  }),
 }));
 
 export const budgetsRelations = relations(budgets, ({ one }) => ({
@@ -95,13 +569,29 @@ export const budgetsRelations = relations(budgets, ({ one }) => ({
     fields: [budgets.userId],
     references: [users.id],
   }),
+  category: one(categories, {
+    fields: [budgets.categoryId],
+    references: [categories.id],
+  }),
 }));
 
-export const goalsRelations = relations(goals, ({ one }) => ({
+export const goalsRelations = relations(goals, ({ one, many }) => ({
   user: one(users, {
     fields: [goals.userId],
     references: [users.id],
   }),
+  contributions: many(goalContributions),
+}));
+
+export const goalContributionsRelations = relations(goalContributions, ({ one }) => ({
+  goal: one(goals, {
+    fields: [goalContributions.goalId],
+    references: [goals.id],
+  }),
+  transaction: one(transactions, {
+    fields: [goalContributions.transactionId],
+    references: [transactions.id],
+  }),
 }));
 
 export const notificationsRelations = relations(notifications, ({ one }) => ({
@@ -111,19 +601,249 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
   }),
 }));
 
+export const categorizationRulesRelations = relations(categorizationRules, ({ one }) => ({
+  user: one(users, {
+    fields: [categorizationRules.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [categorizationRules.categoryId],
+    references: [categories.id],
+  }),
+}));
+
+export const exchangeRatesRelations = relations(exchangeRates, ({ one }) => ({
+  user: one(users, {
+    fields: [exchangeRates.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userSettingsRelations = relations(userSettings, ({ one }) => ({
+  user: one(users, {
+    fields: [userSettings.userId],
+    references: [users.id],
+  }),
+}));
+
+export const twoFactorSecretsRelations = relations(twoFactorSecrets, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorSecrets.userId],
+    references: [users.id],
+  }),
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [recoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const authTokensRelations = relations(authTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [authTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const importProfilesRelations = relations(importProfiles, ({ one }) => ({
+  user: one(users, {
+    fields: [importProfiles.userId],
+    references: [users.id],
+  }),
+}));
+
+export const ledgerAccountsRelations = relations(ledgerAccounts, ({ one }) => ({
+  user: one(users, {
+    fields: [ledgerAccounts.userId],
+    references: [users.id],
+  }),
+  category: one(categories, {
+    fields: [ledgerAccounts.categoryId],
+    references: [categories.id],
+  }),
+  account: one(accounts, {
+    fields: [ledgerAccounts.accountId],
+    references: [accounts.id],
+  }),
+}));
+
 // Insert schemas
-export const insertUserSchema = createInsertSchema(users).omit({
+// Password strength depends on the server's policy and is checked there
+// (server/password-policy.ts); this only bounds the length.
+export const insertUserSchema = createInsertSchema(users, {
+  username: (schema) => schema
+    .trim()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[A-Za-z0-9._-]+$/, "Usernames can only contain letters, digits, dots, dashes and underscores"),
+  password: (schema) => schema.min(1, "Password is required").max(128, "Password must be at most 128 characters"),
+  email: (schema) => schema.trim().toLowerCase().max(254, "Email must be at most 254 characters").email("Enter a valid email address"),
+  firstName: (schema) => schema.trim().min(1, "First name is required").max(50, "First name must be at most 50 characters"),
+  lastName: (schema) => schema.trim().min(1, "Last name is required").max(50, "Last name must be at most 50 characters"),
+}).extend({
+  baseCurrency: currencySchema.optional(),
+}).omit({
+  id: true,
+  emailVerifiedAt: true,
+  createdAt: true,
+});
+
+export const insertCategorySchema = createInsertSchema(categories, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  color: (schema) => schema.regex(/^#[0-9a-fA-F]{6}$/, "Color must be a hex value like #ef4444"),
+}).omit({
+  id: true,
+  createdAt: true,
+  userId: true,
+});
+
+export const insertAccountSchema = createInsertSchema(accounts).extend({
+  currency: currencySchema.optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  userId: true,
+});
+
+// Without a currency, a transaction takes its account's currency, or the
+// user's base currency when it has no account.
+export const insertTransactionSchema = createInsertSchema(transactions).extend({
+  currency: currencySchema.optional(),
+  notes: z.string().trim().max(2000, "Notes must be at most 2000 characters").nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  userId: true,
+  recurringTransactionId: true,
+  externalId: true,
+});
+
+export const insertTransactionSplitSchema = createInsertSchema(transactionSplits, {
+  amount: (schema) => schema.refine((value) => Number(value) > 0, "Amount must be greater than zero"),
+  note: (schema) => schema.trim().max(200),
+}).omit({
+  id: true,
+  transactionId: true,
+  position: true,
+});
+
+// Checks that income and expenses are categorized, that split lines add
+// up, and that transfers name two distinct accounts. Returns an error
+// message, or null when valid.
+export function validateTransactionShape(data: Partial<InsertTransaction> & { splits?: InsertTransactionSplit[] }) {
+  const splits = data.splits ?? [];
+  if (splits.length > 0) {
+    if (data.type === 'transfer') {
+      return "Transfers cannot be split";
+    }
+    if (splits.length < 2) {
+      return "A split needs at least two lines";
+    }
+    if (data.categoryId) {
+      return "A split transaction cannot also have a category";
+    }
+    // Compared in cents to avoid floating point drift
+    const toCents = (amount: string) => Math.round(parseFloat(amount) * 100);
+    const splitTotal = splits.reduce((sum, split) => sum + toCents(split.amount), 0);
+    if (data.amount === undefined || splitTotal !== toCents(data.amount)) {
+      return "Split lines must add up to the transaction amount";
+    }
+  }
+
+  if (data.type === 'transfer') {
+    if (!data.accountId || !data.transferAccountId) {
+      return "Transfers require a source and a destination account";
+    }
+    if (data.accountId === data.transferAccountId) {
+      return "Cannot transfer to the same account";
+    }
+    if (data.categoryId) {
+      return "Transfers cannot have a category";
+    }
+  } else {
+    if (data.transferAccountId) {
+      return "Only transfers can have a destination account";
+    }
+    if (!data.categoryId && splits.length === 0) {
+      return "Category is required";
+    }
+  }
+
+  return null;
+}
+
+// Tags are lowercase with hyphens for spaces, so "Tax Deductible" and
+// "tax-deductible" are one tag. Commas separate tags in query strings.
+export const tagNameSchema = z.string()
+  .trim()
+  .min(1, "Tag is required")
+  .max(40, "Tags must be at most 40 characters")
+  .regex(/^[^,]+$/, "Tags cannot contain commas")
+  .transform((name) => name.toLowerCase().replace(/\s+/g, "-"));
+
+// Repeated query params (?type=a&type=b) and comma lists (?type=a,b) both
+// arrive as arrays.
+const queryList = <T extends z.ZodTypeAny>(item: T) => z.preprocess(
+  (value) => (value === undefined || value === "" ? undefined : ([] as unknown[]).concat(value).flatMap((v) => String(v).split(",")).filter(Boolean)),
+  z.array(item).optional(),
+);
+
+// Query string for GET /api/transactions/search. Date bounds are inclusive
+// and `search` matches anywhere in the description.
+export const transactionSearchSchema = z.object({
+  startDate: z.coerce.date().optional(),
+  endDate: z.coerce.date().optional(),
+  type: queryList(z.enum(["income", "expense", "transfer"])),
+  categoryId: queryList(z.string().uuid()),
+  tag: queryList(tagNameSchema), // transactions with any of the tags
+  minAmount: z.coerce.number().nonnegative().optional(),
+  maxAmount: z.coerce.number().nonnegative().optional(),
+  search: z.string().trim().max(200).optional(),
+  sort: z.enum(["date", "amount"]).default("date"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  cursor: z.string().optional(),
+});
+
+export const insertRecurringTransactionSchema = createInsertSchema(recurringTransactions, {
+  interval: (schema) => schema.int().min(1),
+  weekOfMonth: (schema) => schema.int().min(-1).max(4).refine((value) => value !== 0, "Week of month must be 1-4 or -1"),
+  dayOfWeek: (schema) => schema.int().min(0).max(6),
+  occurrenceLimit: (schema) => schema.int().min(1),
+}).omit({
+  id: true,
+  createdAt: true,
+  userId: true,
+  occurrenceCount: true,
+  occurrenceOffset: true,
+  nextDate: true,
+});
+
+export const insertRecurringExceptionSchema = createInsertSchema(recurringExceptions).omit({
   id: true,
   createdAt: true,
+  recurringTransactionId: true,
 });
 
-export const insertTransactionSchema = createInsertSchema(transactions).omit({
+export const insertCategorizationRuleSchema = createInsertSchema(categorizationRules, {
+  name: (schema) => schema.trim().min(1, "Name is required"),
+  priority: (schema) => schema.int(),
+}).extend({
+  conditions: z.array(ruleConditionSchema).min(1, "Add at least one condition"),
+}).omit({
   id: true,
   createdAt: true,
   userId: true,
 });
 
-export const insertBudgetSchema = createInsertSchema(budgets).omit({
+export const insertBudgetSchema = createInsertSchema(budgets).extend({
+  alertThresholds: z.array(z.number().int().min(1, "Thresholds must be at least 1%").max(1000, "Thresholds must be at most 1000%"))
+    .max(5, "Use at most 5 thresholds")
+    .refine((values) => new Set(values).size === values.length, "Thresholds must be different")
+    .optional(),
+}).omit({
   id: true,
   createdAt: true,
   userId: true,
@@ -137,6 +857,38 @@ export const insertGoalSchema = createInsertSchema(goals).omit({
   isCompleted: true,
 });
 
+export const insertGoalContributionSchema = createInsertSchema(goalContributions, {
+  amount: (schema) => schema.refine((value) => Number(value) > 0, "Amount must be greater than zero"),
+}).omit({
+  id: true,
+  createdAt: true,
+  goalId: true,
+});
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates, {
+  rate: (schema) => schema.refine((value) => Number(value) > 0, "Rate must be greater than zero"),
+}).extend({
+  fromCurrency: currencySchema,
+  toCurrency: currencySchema,
+}).omit({
+  id: true,
+  createdAt: true,
+  userId: true,
+  source: true,
+});
+
+export const insertUserSettingsSchema = createInsertSchema(userSettings, {
+  locale: (schema) => schema.refine(isSupportedLocale, "Unsupported locale"),
+  timeZone: (schema) => schema.refine(isValidTimeZone, "Unknown time zone"),
+  weekStartsOn: (schema) => schema.int().min(0).max(6),
+  budgetMonthStartDay: (schema) => schema.int().min(1, "Start day must be 1-28").max(28, "Start day must be 1-28"),
+}).extend({
+  currencyDisplay: z.enum(CURRENCY_DISPLAYS),
+}).omit({
+  userId: true,
+  updatedAt: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
@@ -144,14 +896,129 @@ export const insertNotificationSchema = createInsertSchema(notifications).omit({
   isRead: true,
 });
 
+export const ledgerAccountNameSchema = z.string()
+  .trim()
+  .max(200, "Account names must be at most 200 characters")
+  .regex(LEDGER_ACCOUNT_PATTERN, "Use a name like Expenses:Food:Groceries, starting with Assets, Liabilities, Equity, Income or Expenses");
+
+// Names the ledger account for one category or account. An empty name goes
+// back to the default.
+export const ledgerAccountMappingSchema = z.object({
+  categoryId: z.string().uuid().optional(),
+  accountId: z.string().uuid().optional(),
+  name: z.union([z.literal(""), ledgerAccountNameSchema]),
+}).refine((mapping) => !mapping.categoryId !== !mapping.accountId, "Name either a category or an account");
+
+// Codes from the authenticator app are six digits; recovery codes are
+// ten letters and digits, shown as xxxxx-xxxxx.
+export const totpCodeSchema = z.string().trim().regex(/^\d{6}$/, "Enter the 6-digit code from your authenticator app");
+
+export const twoFactorLoginSchema = z.union([
+  z.object({ code: totpCodeSchema }),
+  z.object({ recoveryCode: z.string().trim().min(1, "Enter a recovery code") }),
+]);
+
+// Turning two-factor authentication off or replacing the recovery codes
+// asks for the password again, and for a current code when turning it off.
+export const twoFactorPasswordSchema = z.object({
+  password: z.string().min(1, "Password is required"),
+});
+
+export const disableTwoFactorSchema = twoFactorPasswordSchema.extend({
+  code: totpCodeSchema,
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+});
+
+export const passwordResetSchema = z.object({
+  token: z.string().min(1, "The reset link is incomplete"),
+  password: z.string().min(1, "Password is required").max(128, "Password must be at most 128 characters"),
+});
+
+export const emailVerificationSchema = z.object({
+  token: z.string().min(1, "The verification link is incomplete"),
+});
+
+export const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  newPassword: z.string().min(1, "New password is required").max(128, "Password must be at most 128 characters"),
+});
+
 // Types
 export type User = typeof users.$inferSelect;
+// What the API returns for a user. Fields are listed one by one so the
+// password hash, and any secret column added later, never go out.
+export const PUBLIC_USER_FIELDS = ["id", "username", "email", "firstName", "lastName", "baseCurrency", "emailVerifiedAt", "createdAt"] as const;
+export type PublicUser = Pick<User, typeof PUBLIC_USER_FIELDS[number]>;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type InsertUserSettings = z.infer<typeof insertUserSettingsSchema>;
+export type Category = typeof categories.$inferSelect;
+export type InsertCategory = z.infer<typeof insertCategorySchema>;
+export type Account = typeof accounts.$inferSelect;
+export type InsertAccount = z.infer<typeof insertAccountSchema>;
+// `baseBalance` is the balance in the user's base currency at the latest
+// known rate, or null when there is no rate.
+export type AccountWithBalance = Account & { balance: string; baseBalance: string | null };
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
+export type TransactionSearch = z.infer<typeof transactionSearchSchema>;
+export type TransactionSplit = typeof transactionSplits.$inferSelect;
+export type InsertTransactionSplit = z.infer<typeof insertTransactionSplitSchema>;
+export type Tag = typeof tags.$inferSelect;
+export type TagWithUsage = Tag & { count: number }; // count of tagged transactions
+export type Attachment = typeof attachments.$inferSelect;
+// `splits` is empty unless the transaction is split; `tags` are names.
+export type TransactionWithDetails = Transaction & { splits: TransactionSplit[]; tags: string[]; attachments: Attachment[] };
+export type TransactionPage = { transactions: TransactionWithDetails[]; nextCursor: string | null };
+export type RecurringTransaction = typeof recurringTransactions.$inferSelect;
+export type InsertRecurringTransaction = z.infer<typeof insertRecurringTransactionSchema>;
+export type RecurringException = typeof recurringExceptions.$inferSelect;
+export type InsertRecurringException = z.infer<typeof insertRecurringExceptionSchema>;
+export type RuleCondition = z.infer<typeof ruleConditionSchema>;
+export type CategorizationRule = typeof categorizationRules.$inferSelect;
+export type InsertCategorizationRule = z.infer<typeof insertCategorizationRuleSchema>;
+export type DuplicateDismissal = typeof duplicateDismissals.$inferSelect;
 export type Budget = typeof budgets.$inferSelect;
 export type InsertBudget = z.infer<typeof insertBudgetSchema>;
+export type BudgetAlert = typeof budgetAlerts.$inferSelect;
 export type Goal = typeof goals.$inferSelect;
 export type InsertGoal = z.infer<typeof insertGoalSchema>;
+export type GoalContribution = typeof goalContributions.$inferSelect;
+export type InsertGoalContribution = z.infer<typeof insertGoalContributionSchema>;
+// Progress figures computed from the contribution history.
+export type GoalWithProgress = Goal & {
+  monthlyRate: string; // average net contribution per 30 days
+  projectedCompletionDate: string | null;
+  requiredMonthly: string | null; // needed per 30 days to hit targetDate
+  isOnTrack: boolean | null; // null without a targetDate or projection
+};
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type MissingExchangeRate = { currency: string; date: string }; // date as yyyy-mm-dd
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type CsvMapping = z.infer<typeof csvMappingSchema>;
+export type ImportProfile = typeof importProfiles.$inferSelect;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+export type LedgerAccountMapping = z.infer<typeof ledgerAccountMappingSchema>;
+export type TwoFactorSecret = typeof twoFactorSecrets.$inferSelect;
+export type AuthToken = typeof authTokens.$inferSelect;
+export type TwoFactorStatus = { enabled: boolean; recoveryCodesRemaining: number };
+// Returned by POST /api/2fa/setup; the secret is kept in the session until
+// a code confirms the app has it.
+export type TwoFactorSetup = { secret: string; otpauthUrl: string; qrCode: string };
+// A signed-in browser or device, from GET /api/sessions. `id` stands in for
+// the session id, which never leaves the server. Times are ISO strings and
+// are null for sessions started before they were recorded.
+export type UserSession = {
+  id: string;
+  current: boolean;
+  userAgent: string | null;
+  ip: string | null;
+  signedInAt: string | null;
+  lastSeenAt: string | null;
+  expiresAt: string;
+};
@@ -0,0 +1,20 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    environment: "node",
+    include: ["server/**/*.test.ts", "shared/**/*.test.ts"],
+    // One in-memory Postgres for the whole run; see server/test/database.ts
+    globalSetup: ["server/test/database.ts"],
+    fileParallelism: false,
+    env: {
+      SESSION_SECRET: "test-session-secret",
+    },
+  },
+});